@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "token" ADD COLUMN     "email" TEXT;
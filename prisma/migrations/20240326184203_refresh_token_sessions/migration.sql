@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "TokenType" ADD VALUE 'REFRESH';
+
+-- AlterTable
+ALTER TABLE "token" ADD COLUMN     "family" TEXT,
+ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "token_hash" TEXT,
+ADD COLUMN     "user_agent" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_token_hash_key" ON "token"("token_hash");
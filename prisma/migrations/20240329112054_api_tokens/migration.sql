@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "token" ADD COLUMN     "last_used_at" TIMESTAMPTZ(6),
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "scopes" TEXT[];
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "OrganizationRole" AS ENUM ('OWNER', 'MANAGER', 'BOOKKEEPER', 'READ_ONLY');
+
+-- AlterTable
+ALTER TABLE "token" ADD COLUMN     "member_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "organization" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "realtor_id" INTEGER NOT NULL,
+
+    CONSTRAINT "organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "organization_member" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "role" "OrganizationRole" NOT NULL DEFAULT 'READ_ONLY',
+    "email" TEXT NOT NULL,
+    "organization_id" INTEGER NOT NULL,
+    "user_id" INTEGER,
+
+    CONSTRAINT "organization_member_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_realtor_id_key" ON "organization"("realtor_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organization_member_organization_id_email_key" ON "organization_member"("organization_id", "email");
+
+-- AddForeignKey
+ALTER TABLE "organization" ADD CONSTRAINT "organization_realtor_id_fkey" FOREIGN KEY ("realtor_id") REFERENCES "realtor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_member" ADD CONSTRAINT "organization_member_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "organization_member" ADD CONSTRAINT "organization_member_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "token" ADD CONSTRAINT "token_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "organization_member"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing realtor becomes the owner of their own organization
+INSERT INTO "organization" ("name", "realtor_id")
+SELECT COALESCE(NULLIF("user"."company", ''), NULLIF(CONCAT_WS(' ', "user"."first_name", "user"."last_name"), ''), "user"."email"), "realtor"."id"
+FROM "realtor" JOIN "user" ON "user"."id" = "realtor"."user_id";
+
+INSERT INTO "organization_member" ("role", "email", "organization_id", "user_id")
+SELECT 'OWNER', "user"."email", "organization"."id", "user"."id"
+FROM "organization"
+JOIN "realtor" ON "realtor"."id" = "organization"."realtor_id"
+JOIN "user" ON "user"."id" = "realtor"."user_id";
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "TokenType" ADD VALUE 'TWO_FACTOR';
+
+-- AlterTable
+ALTER TABLE "organization" ADD COLUMN     "require_two_factor" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "user" ADD COLUMN     "two_factor_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "two_factor_recovery_codes" TEXT[],
+ADD COLUMN     "two_factor_secret" TEXT;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('LOGIN_FAILED', 'LOGIN_THROTTLED', 'ACCOUNT_LOCKED', 'SIGNUP_THROTTLED');
+
+-- CreateTable
+CREATE TABLE "audit_log" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "action" "AuditAction" NOT NULL,
+    "email" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "details" JSONB,
+    "user_id" INTEGER,
+
+    CONSTRAINT "audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_user_id_idx" ON "audit_log"("user_id");
+
+-- CreateIndex
+CREATE INDEX "audit_log_ip_address_created_at_idx" ON "audit_log"("ip_address", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
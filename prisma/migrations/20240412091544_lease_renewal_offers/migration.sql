@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "RenewalOfferStatus" AS ENUM ('DRAFT', 'SENT', 'ACCEPTED', 'DECLINED', 'LAPSED');
+
+-- AlterTable
+ALTER TABLE "lease" ADD COLUMN     "previous_lease_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "organization" ADD COLUMN     "renewal_notice_days" INTEGER NOT NULL DEFAULT 60,
+ADD COLUMN     "renewal_rent_increase" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "lease_renewal_offer" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" "RenewalOfferStatus" NOT NULL DEFAULT 'DRAFT',
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "rental_price" DOUBLE PRECISION NOT NULL,
+    "payment_frequency" "PaymentFrequency" NOT NULL,
+    "notes" TEXT,
+    "sent_at" TIMESTAMPTZ(6),
+    "responded_at" TIMESTAMPTZ(6),
+    "lease_id" INTEGER NOT NULL,
+
+    CONSTRAINT "lease_renewal_offer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_previous_lease_id_key" ON "lease"("previous_lease_id");
+
+-- CreateIndex
+CREATE INDEX "lease_renewal_offer_lease_id_idx" ON "lease_renewal_offer"("lease_id");
+
+-- AddForeignKey
+ALTER TABLE "lease" ADD CONSTRAINT "lease_previous_lease_id_fkey" FOREIGN KEY ("previous_lease_id") REFERENCES "lease"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lease_renewal_offer" ADD CONSTRAINT "lease_renewal_offer_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
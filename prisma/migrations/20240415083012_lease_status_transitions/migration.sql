@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "lease_status_transition" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "from_status" "LeaseStatus",
+    "to_status" "LeaseStatus" NOT NULL,
+    "reason" TEXT,
+    "lease_id" INTEGER NOT NULL,
+
+    CONSTRAINT "lease_status_transition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lease_status_transition_lease_id_idx" ON "lease_status_transition"("lease_id");
+
+-- AddForeignKey
+ALTER TABLE "lease_status_transition" ADD CONSTRAINT "lease_status_transition_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
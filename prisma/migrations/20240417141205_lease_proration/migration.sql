@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ProrationMethod" AS ENUM ('NONE', 'ACTUAL_365', 'THIRTY_DAY');
+
+-- AlterTable
+ALTER TABLE "lease" ADD COLUMN     "billing_day" INTEGER,
+ADD COLUMN     "proration_method" "ProrationMethod" NOT NULL DEFAULT 'NONE';
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "DepositStatus" AS ENUM ('HELD', 'SETTLED');
+
+-- AlterEnum
+ALTER TYPE "DocumentType" ADD VALUE 'STATEMENT';
+
+-- AlterTable
+ALTER TABLE "document" ADD COLUMN     "mime_type" TEXT,
+ADD COLUMN     "name" TEXT;
+
+-- CreateTable
+CREATE TABLE "security_deposit" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" "CurrencyCode" DEFAULT 'USD',
+    "received_date" TIMESTAMP(3),
+    "holding_account" TEXT,
+    "interest_rate" DOUBLE PRECISION,
+    "notes" TEXT,
+    "status" "DepositStatus" NOT NULL DEFAULT 'HELD',
+    "settled_at" TIMESTAMPTZ(6),
+    "move_out_date" TIMESTAMP(3),
+    "interest_amount" DOUBLE PRECISION,
+    "refund_amount" DOUBLE PRECISION,
+    "statement_id" INTEGER,
+    "lease_id" INTEGER NOT NULL,
+
+    CONSTRAINT "security_deposit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "deposit_deduction" (
+    "id" SERIAL NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "deposit_id" INTEGER NOT NULL,
+    "expense_id" INTEGER,
+    "maintenance_request_id" INTEGER,
+
+    CONSTRAINT "deposit_deduction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "security_deposit_statement_id_key" ON "security_deposit"("statement_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "security_deposit_lease_id_key" ON "security_deposit"("lease_id");
+
+-- CreateIndex
+CREATE INDEX "deposit_deduction_deposit_id_idx" ON "deposit_deduction"("deposit_id");
+
+-- AddForeignKey
+ALTER TABLE "security_deposit" ADD CONSTRAINT "security_deposit_statement_id_fkey" FOREIGN KEY ("statement_id") REFERENCES "document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "security_deposit" ADD CONSTRAINT "security_deposit_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deposit_deduction" ADD CONSTRAINT "deposit_deduction_deposit_id_fkey" FOREIGN KEY ("deposit_id") REFERENCES "security_deposit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deposit_deduction" ADD CONSTRAINT "deposit_deduction_expense_id_fkey" FOREIGN KEY ("expense_id") REFERENCES "expense"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deposit_deduction" ADD CONSTRAINT "deposit_deduction_maintenance_request_id_fkey" FOREIGN KEY ("maintenance_request_id") REFERENCES "maintenance_request"("id") ON DELETE SET NULL ON UPDATE CASCADE;
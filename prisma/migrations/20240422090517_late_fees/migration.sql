@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "ChargeType" AS ENUM ('RENT', 'LATE_FEE');
+
+-- CreateEnum
+CREATE TYPE "LateFeeType" AS ENUM ('FLAT', 'PERCENTAGE');
+
+-- AlterTable
+ALTER TABLE "lease_payment_schedules" ADD COLUMN     "charge_type" "ChargeType" NOT NULL DEFAULT 'RENT',
+ADD COLUMN     "late_fee_for_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "late_fee_policy" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "grace_days" INTEGER NOT NULL DEFAULT 0,
+    "fee_type" "LateFeeType" NOT NULL DEFAULT 'FLAT',
+    "fee_amount" DOUBLE PRECISION NOT NULL,
+    "daily_amount" DOUBLE PRECISION,
+    "max_amount" DOUBLE PRECISION,
+    "lease_id" INTEGER,
+    "real_estate_object_id" INTEGER,
+
+    CONSTRAINT "late_fee_policy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "late_fee_entry" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "total_amount" DOUBLE PRECISION NOT NULL,
+    "days_late" INTEGER,
+    "note" TEXT,
+    "charge_id" INTEGER NOT NULL,
+    "policy_id" INTEGER,
+    "user_id" INTEGER,
+
+    CONSTRAINT "late_fee_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_payment_schedules_late_fee_for_id_key" ON "lease_payment_schedules"("late_fee_for_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "late_fee_policy_lease_id_key" ON "late_fee_policy"("lease_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "late_fee_policy_real_estate_object_id_key" ON "late_fee_policy"("real_estate_object_id");
+
+-- CreateIndex
+CREATE INDEX "late_fee_entry_charge_id_idx" ON "late_fee_entry"("charge_id");
+
+-- AddForeignKey
+ALTER TABLE "lease_payment_schedules" ADD CONSTRAINT "lease_payment_schedules_late_fee_for_id_fkey" FOREIGN KEY ("late_fee_for_id") REFERENCES "lease_payment_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fee_policy" ADD CONSTRAINT "late_fee_policy_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fee_policy" ADD CONSTRAINT "late_fee_policy_real_estate_object_id_fkey" FOREIGN KEY ("real_estate_object_id") REFERENCES "real_estate_object"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fee_entry" ADD CONSTRAINT "late_fee_entry_charge_id_fkey" FOREIGN KEY ("charge_id") REFERENCES "lease_payment_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fee_entry" ADD CONSTRAINT "late_fee_entry_policy_id_fkey" FOREIGN KEY ("policy_id") REFERENCES "late_fee_policy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fee_entry" ADD CONSTRAINT "late_fee_entry_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
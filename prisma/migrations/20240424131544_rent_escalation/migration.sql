@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "EscalationType" AS ENUM ('NONE', 'FIXED', 'PERCENTAGE', 'INDEX');
+
+-- AlterTable
+ALTER TABLE "lease" ADD COLUMN     "escalation_type" "EscalationType" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "escalation_value" DOUBLE PRECISION,
+ADD COLUMN     "price_index_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "price_index" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "price_index_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "price_index_value" (
+    "id" SERIAL NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "price_index_id" INTEGER NOT NULL,
+
+    CONSTRAINT "price_index_value_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_index_name_key" ON "price_index"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_index_value_price_index_id_date_key" ON "price_index_value"("price_index_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "lease" ADD CONSTRAINT "lease_price_index_id_fkey" FOREIGN KEY ("price_index_id") REFERENCES "price_index"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_index_value" ADD CONSTRAINT "price_index_value_price_index_id_fkey" FOREIGN KEY ("price_index_id") REFERENCES "price_index"("id") ON DELETE CASCADE ON UPDATE CASCADE;
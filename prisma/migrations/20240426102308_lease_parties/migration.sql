@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "LeasePartyRole" AS ENUM ('PRIMARY', 'CO_TENANT', 'GUARANTOR', 'OCCUPANT');
+
+-- CreateTable
+CREATE TABLE "lease_party" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "role" "LeasePartyRole" NOT NULL,
+    "share" DOUBLE PRECISION,
+    "lease_id" INTEGER NOT NULL,
+    "tenant_id" INTEGER NOT NULL,
+
+    CONSTRAINT "lease_party_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_party_lease_id_tenant_id_key" ON "lease_party"("lease_id", "tenant_id");
+
+-- CreateIndex
+CREATE INDEX "lease_party_tenant_id_idx" ON "lease_party"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "lease_party" ADD CONSTRAINT "lease_party_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lease_party" ADD CONSTRAINT "lease_party_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The tenant of existing leases becomes their primary party
+INSERT INTO "lease_party" ("role", "share", "lease_id", "tenant_id")
+SELECT 'PRIMARY', 100, "id", "tenant_id" FROM "lease" WHERE "tenant_id" IS NOT NULL;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "BreakFeeType" AS ENUM ('NONE', 'FIXED', 'RENT_PERIODS');
+
+-- CreateEnum
+CREATE TYPE "FutureChargeHandling" AS ENUM ('CANCEL', 'WAIVE');
+
+-- AlterEnum
+ALTER TYPE "ChargeType" ADD VALUE 'BREAK_FEE';
+
+-- AlterEnum
+ALTER TYPE "DocumentType" ADD VALUE 'NOTICE';
+
+-- CreateTable
+CREATE TABLE "lease_termination" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "effective_date" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "break_fee_type" "BreakFeeType" NOT NULL DEFAULT 'NONE',
+    "break_fee_value" DOUBLE PRECISION,
+    "break_fee_amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "final_rent_amount" DOUBLE PRECISION,
+    "future_charges" "FutureChargeHandling" NOT NULL DEFAULT 'CANCEL',
+    "lease_id" INTEGER NOT NULL,
+    "notice_id" INTEGER,
+    "user_id" INTEGER,
+
+    CONSTRAINT "lease_termination_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_termination_lease_id_key" ON "lease_termination"("lease_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_termination_notice_id_key" ON "lease_termination"("notice_id");
+
+-- AddForeignKey
+ALTER TABLE "lease_termination" ADD CONSTRAINT "lease_termination_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lease_termination" ADD CONSTRAINT "lease_termination_notice_id_fkey" FOREIGN KEY ("notice_id") REFERENCES "document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lease_termination" ADD CONSTRAINT "lease_termination_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
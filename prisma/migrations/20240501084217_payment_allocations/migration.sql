@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "rent_payment" ADD COLUMN     "unallocated_amount" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "payment_allocation" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "payment_id" INTEGER NOT NULL,
+    "schedule_id" INTEGER NOT NULL,
+
+    CONSTRAINT "payment_allocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_allocation_schedule_id_idx" ON "payment_allocation"("schedule_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_allocation_payment_id_schedule_id_key" ON "payment_allocation"("payment_id", "schedule_id");
+
+-- AddForeignKey
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "rent_payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocation" ADD CONSTRAINT "payment_allocation_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "lease_payment_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Payments that are not paid are allocated once they are, paid payments from before allocations are left as they are
+UPDATE "rent_payment" SET "unallocated_amount" = COALESCE("amount", 0) WHERE "status" IS DISTINCT FROM 'PAID';
@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "DocumentType" ADD VALUE 'PAYMENT_PROOF';
+
+-- AlterTable
+ALTER TABLE "rent_payment" ADD COLUMN     "proof_id" INTEGER,
+ADD COLUMN     "review_note" TEXT,
+ADD COLUMN     "reviewed_at" TIMESTAMP(3),
+ADD COLUMN     "reviewed_by_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rent_payment_proof_id_key" ON "rent_payment"("proof_id");
+
+-- AddForeignKey
+ALTER TABLE "rent_payment" ADD CONSTRAINT "rent_payment_proof_id_fkey" FOREIGN KEY ("proof_id") REFERENCES "document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rent_payment" ADD CONSTRAINT "rent_payment_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
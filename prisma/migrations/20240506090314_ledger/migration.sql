@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('CASH', 'RENT_RECEIVABLE', 'DEPOSITS_HELD', 'INCOME', 'EXPENSES', 'OWNER_EQUITY');
+
+-- CreateEnum
+CREATE TYPE "LedgerSourceType" AS ENUM ('CHARGE', 'PAYMENT', 'EXPENSE', 'DEPOSIT', 'DEPOSIT_SETTLEMENT', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "lease" DROP COLUMN "rent_paid",
+DROP COLUMN "total_rent_due";
+
+-- CreateTable
+CREATE TABLE "ledger_transaction" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "date" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "currency" "CurrencyCode" NOT NULL DEFAULT 'USD',
+    "source_type" "LedgerSourceType" NOT NULL,
+    "source_id" INTEGER,
+    "reversal_of_id" INTEGER,
+    "realtor_id" INTEGER NOT NULL,
+    "lease_id" INTEGER,
+    "unit_id" INTEGER,
+    "user_id" INTEGER,
+
+    CONSTRAINT "ledger_transaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entry" (
+    "id" SERIAL NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "debit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "credit" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "transaction_id" INTEGER NOT NULL,
+
+    CONSTRAINT "ledger_entry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_transaction_reversal_of_id_key" ON "ledger_transaction"("reversal_of_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_transaction_realtor_id_date_idx" ON "ledger_transaction"("realtor_id", "date");
+
+-- CreateIndex
+CREATE INDEX "ledger_transaction_source_type_source_id_idx" ON "ledger_transaction"("source_type", "source_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_transaction_lease_id_idx" ON "ledger_transaction"("lease_id");
+
+-- CreateIndex
+CREATE INDEX "ledger_entry_transaction_id_idx" ON "ledger_entry"("transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "ledger_transaction" ADD CONSTRAINT "ledger_transaction_reversal_of_id_fkey" FOREIGN KEY ("reversal_of_id") REFERENCES "ledger_transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transaction" ADD CONSTRAINT "ledger_transaction_realtor_id_fkey" FOREIGN KEY ("realtor_id") REFERENCES "realtor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transaction" ADD CONSTRAINT "ledger_transaction_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "lease"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transaction" ADD CONSTRAINT "ledger_transaction_unit_id_fkey" FOREIGN KEY ("unit_id") REFERENCES "unit"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transaction" ADD CONSTRAINT "ledger_transaction_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entry" ADD CONSTRAINT "ledger_entry_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "ledger_transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Entries are immutable, only the links that are cleared when a lease, user or transaction is removed may change
+CREATE FUNCTION "ledger_entry_immutable"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger entries can not be changed, post a reversal instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ledger_entry_no_update" BEFORE UPDATE ON "ledger_entry"
+    FOR EACH ROW EXECUTE FUNCTION "ledger_entry_immutable"();
+
+CREATE FUNCTION "ledger_transaction_immutable"() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW."date" IS DISTINCT FROM OLD."date"
+        OR NEW."description" IS DISTINCT FROM OLD."description"
+        OR NEW."currency" IS DISTINCT FROM OLD."currency"
+        OR NEW."source_type" IS DISTINCT FROM OLD."source_type"
+        OR NEW."source_id" IS DISTINCT FROM OLD."source_id"
+        OR NEW."realtor_id" IS DISTINCT FROM OLD."realtor_id" THEN
+        RAISE EXCEPTION 'Ledger transactions can not be changed, post a reversal instead';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ledger_transaction_no_update" BEFORE UPDATE ON "ledger_transaction"
+    FOR EACH ROW EXECUTE FUNCTION "ledger_transaction_immutable"();
@@ -0,0 +1,85 @@
+-- CreateEnum
+CREATE TYPE "BankStatementFormat" AS ENUM ('CSV', 'OFX', 'CAMT053');
+
+-- CreateEnum
+CREATE TYPE "BankTransactionStatus" AS ENUM ('UNMATCHED', 'SUGGESTED', 'CONFIRMED', 'IGNORED');
+
+-- AlterTable
+ALTER TABLE "rent_payment" ADD COLUMN     "bank_transaction_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "bank_statement_import" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "file_name" TEXT NOT NULL,
+    "format" "BankStatementFormat" NOT NULL,
+    "preset" TEXT,
+    "realtor_id" INTEGER NOT NULL,
+    "user_id" INTEGER,
+
+    CONSTRAINT "bank_statement_import_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_transaction" (
+    "id" SERIAL NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "date" TIMESTAMP(3) NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" "CurrencyCode",
+    "counterparty" TEXT,
+    "reference" TEXT,
+    "external_id" TEXT,
+    "fingerprint" TEXT NOT NULL,
+    "status" "BankTransactionStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "confirmed_by_id" INTEGER,
+    "confirmed_at" TIMESTAMPTZ(6),
+    "import_id" INTEGER NOT NULL,
+    "realtor_id" INTEGER NOT NULL,
+
+    CONSTRAINT "bank_transaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_transaction_match" (
+    "id" SERIAL NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "score" INTEGER,
+    "transaction_id" INTEGER NOT NULL,
+    "schedule_id" INTEGER NOT NULL,
+
+    CONSTRAINT "bank_transaction_match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_transaction_realtor_id_status_idx" ON "bank_transaction"("realtor_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_transaction_realtor_id_fingerprint_key" ON "bank_transaction"("realtor_id", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "bank_transaction_match_transaction_id_idx" ON "bank_transaction_match"("transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "rent_payment" ADD CONSTRAINT "rent_payment_bank_transaction_id_fkey" FOREIGN KEY ("bank_transaction_id") REFERENCES "bank_transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_import" ADD CONSTRAINT "bank_statement_import_realtor_id_fkey" FOREIGN KEY ("realtor_id") REFERENCES "realtor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_import" ADD CONSTRAINT "bank_statement_import_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction" ADD CONSTRAINT "bank_transaction_confirmed_by_id_fkey" FOREIGN KEY ("confirmed_by_id") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction" ADD CONSTRAINT "bank_transaction_import_id_fkey" FOREIGN KEY ("import_id") REFERENCES "bank_statement_import"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction" ADD CONSTRAINT "bank_transaction_realtor_id_fkey" FOREIGN KEY ("realtor_id") REFERENCES "realtor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction_match" ADD CONSTRAINT "bank_transaction_match_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "bank_transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transaction_match" ADD CONSTRAINT "bank_transaction_match_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "lease_payment_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
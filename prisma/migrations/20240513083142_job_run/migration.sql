@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "job_run" (
+    "name" TEXT NOT NULL,
+    "last_run_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "job_run_pkey" PRIMARY KEY ("name")
+);
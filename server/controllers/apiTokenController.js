@@ -0,0 +1,87 @@
+import prisma from '../prisma.js';
+import {API_TOKEN_SCOPES, createApiToken} from "../services/apiTokenService.js";
+
+// Never expose the hash of a token
+const apiTokenSelect = {
+    id: true,
+    name: true,
+    scopes: true,
+    createdAt: true,
+    expiration: true,
+    lastUsedAt: true,
+}
+
+export async function getApiTokens(req, res) {
+    try {
+        const tokens = await prisma.token.findMany({
+            where: {
+                userId: req.user.userId,
+                type: "API",
+                valid: true,
+                expiration: {
+                    gt: new Date()
+                }
+            },
+            select: apiTokenSelect,
+            orderBy: {
+                createdAt: "desc"
+            }
+        });
+
+        res.status(200).json({data: tokens });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting API tokens" });
+    }
+}
+
+// The plain token is part of the response only this one time
+export async function createToken(req, res) {
+    const {name, scopes, expiresInDays} = req.body;
+
+    if (!name || !Array.isArray(scopes) || !scopes.length || scopes.some((scope) => !API_TOKEN_SCOPES.includes(scope))) {
+        return res.status(400).json({ message: "Please provide a name and valid scopes" });
+    }
+    if (!Number.isInteger(Number(expiresInDays)) || Number(expiresInDays) < 1 || Number(expiresInDays) > 365) {
+        return res.status(400).json({ message: "Tokens have to expire within 1 to 365 days" });
+    }
+
+    try {
+        const {token, storedToken} = await createApiToken(req.user.userId, name, scopes, Number(expiresInDays));
+
+        const data = Object.fromEntries(Object.keys(apiTokenSelect).map((key) => [key, storedToken[key]]));
+
+        res.status(200).json({data: {...data, token: token} });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating API token" });
+    }
+}
+
+export async function revokeToken(req, res) {
+    try {
+        const result = await prisma.token.updateMany({
+            where: {
+                id: parseInt(req.params.id),
+                userId: req.user.userId,
+                type: "API",
+                valid: true
+            },
+            data: {
+                valid: false
+            }
+        });
+
+        if (!result.count) {
+            return res.status(404).json({ message: "API token not found" });
+        }
+
+        res.status(200).json({ message: "API token revoked" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error revoking API token" });
+    }
+}
@@ -1,6 +1,25 @@
 import bcrypt from 'bcryptjs';
 import prisma from '../prisma.js';
 import jwt from 'jsonwebtoken';
+import {sendEmail} from "../services/mailService.js";
+import {consumeEmailToken, createEmailToken, findValidEmailToken} from "../services/tokenService.js";
+import {
+    createSession,
+    getActiveSessions,
+    getClientInfo,
+    revokeAllSessions,
+    revokeSession,
+    revokeSessionOfToken,
+    rotateSession
+} from "../services/sessionService.js";
+import {findValidApiToken, getRequiredScope, isApiToken} from "../services/apiTokenService.js";
+import {createOrganization, getWorkspace} from "../services/organizationService.js";
+import {can, canAccessAll, findInaccessibleReference, getResourceLabel} from "../services/policyService.js";
+import {consumeRecoveryCode} from "../services/totpService.js";
+import {consumeCode} from "./twoFactorController.js";
+import {beginLoginAttempt, consumeSignupAttempt, recordLoginSuccess, releaseLoginAttempt} from "../services/throttleService.js";
+import {recordAuditEvent} from "../services/auditService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
 
 import dotenv from 'dotenv';
 
@@ -8,25 +27,76 @@ dotenv.config();
 
 
 
+function accountLockedEmail(user, lockedUntil) {
+    return `
+        <p>Hello ${escapeHtml(user.firstName)},</p>
+        <p>After too many failed login attempts your Realtor Rocket account has been locked until ${lockedUntil.toUTCString()}.</p>
+        <p>If this was not you, please reset your password once the lock has expired and enable two-factor authentication.</p>
+    `;
+}
+
+// Answers requests that are throttled, the Retry-After header tells clients when to try again
+function tooManyAttempts(res, retryAfter, message) {
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({ message: message, retryAfter: retryAfter });
+}
+
+function tooManyLogins(res, throttle) {
+    return tooManyAttempts(res, throttle.retryAfter, throttle.locked ?
+        "Your account is temporarily locked after too many failed logins, please try again later" :
+        `Too many failed logins, please try again in ${throttle.retryAfter} seconds`);
+}
+
+// Writes the failed attempt (it is counted already) to the audit log. The owner of the account is notified when it
+// got locked by the attempt
+async function recordFailedLogin(attempt, user, client, reason) {
+    await recordAuditEvent("LOGIN_FAILED", {userId: user?.id, email: attempt.email, client: client, details: {reason: reason}});
+
+    if (attempt.locked) {
+        await recordAuditEvent("ACCOUNT_LOCKED", {userId: user?.id, email: attempt.email, client: client, details: {lockedUntil: attempt.lockedUntil}});
+
+        if (user) {
+            await sendEmail(user.email, "Your account has been locked temporarily", accountLockedEmail(user, attempt.lockedUntil));
+        }
+    }
+}
+
 export async function createRealtor(req, res) {
     const {email, password, first_name, last_name} = req.body;
     try {
+        const client = getClientInfo(req);
+        const retryAfter = await consumeSignupAttempt(client.ipAddress);
+
+        if (retryAfter) {
+            await recordAuditEvent("SIGNUP_THROTTLED", {email: email, client: client});
+            return tooManyAttempts(res, retryAfter, `Too many signups, please try again in ${Math.ceil(retryAfter / 60)} minutes`);
+        }
+
         const salt = await bcrypt.genSalt(12);
         const hashedPassword = await bcrypt.hash(password, salt);
 
-        const newUser = await prisma.user.create({
-            data: {
-                email: email,
-                password: hashedPassword,
-                firstName: first_name,
-                lastName: last_name,
-                salt: salt,
-                name: first_name + ' ' + last_name,
-                realtor: {
-                    create: {}
+        const newUser = await prisma.$transaction(async (tx) => {
+            const user = await tx.user.create({
+                data: {
+                    email: email,
+                    password: hashedPassword,
+                    firstName: first_name,
+                    lastName: last_name,
+                    salt: salt,
+                    name: first_name + ' ' + last_name,
+                    realtor: {
+                        create: {}
+                    },
+                    role: 'REALTOR',
                 },
-                role: 'REALTOR',
-            },
+                include: {
+                    realtor: true
+                }
+            });
+
+            await createOrganization(user, user.realtor.id, tx);
+
+            return user;
         });
 
 
@@ -43,10 +113,19 @@ export async function createRealtor(req, res) {
     }
 }
 
+// Failed logins slow down further attempts, see throttleService.js
 export async function login(req, res) {
     const { email, password } = req.body;
 
     try {
+        const client = getClientInfo(req);
+        const attempt = await beginLoginAttempt(email, client.ipAddress);
+
+        if (attempt.retryAfter) {
+            await recordAuditEvent("LOGIN_THROTTLED", {email: email, client: client, details: {retryAfter: attempt.retryAfter}});
+            return tooManyLogins(res, attempt);
+        }
+
         const user = await prisma.user.findUnique({
             where: {
                 email: email,
@@ -54,21 +133,96 @@ export async function login(req, res) {
         });
 
         if (!user || !await bcrypt.compare(password, user.password)) {
+            await recordFailedLogin(attempt, user, client, user ? "Invalid password" : "Unknown email");
             return res.status(401).json({ message: "Invalid email or password" });
         }
 
-        // eslint-disable-next-line no-undef
-        const accessToken = jwt.sign({ userId: user.id, email: user.email }, process.env.SECRET_KEY, { expiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN });
+        // With two-factor authentication the session is only created after the second step, which counts as an
+        // attempt of its own
+        if (user.twoFactorEnabled) {
+            await releaseLoginAttempt(attempt);
+            const twoFactorToken = await createEmailToken("TWO_FACTOR", {userId: user.id});
 
-        // eslint-disable-next-line no-undef
-        const refreshToken = jwt.sign({ userId: user.id, email: user.email }, process.env.REFRESH_TOKEN_SECRET, { expiresIn: process.env.REFRESH_TOKEN_EXPIRES_IN });
+            return res.status(200).json({ message: "Two-factor authentication required", twoFactorRequired: true, twoFactorToken: twoFactorToken });
+        }
+
+        await recordLoginSuccess(attempt);
+
+        const { accessToken, refreshToken } = await createSession(user, client);
 
         res.status(200).json({ message: "Login successful", accessToken: accessToken, refreshToken: refreshToken });
     } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error logging in" });
+    }
+}
+
+// Second login step, accepts a code of the authenticator app or one of the recovery codes
+export async function loginTwoFactor(req, res) {
+    const { twoFactorToken, code } = req.body;
+
+    try {
+        const token = await findValidEmailToken(twoFactorToken, "TWO_FACTOR");
+
+        const user = token?.userId ? await prisma.user.findUnique({
+            where: {
+                id: token.userId
+            }
+        }) : null;
+
+        if (!user || !user.twoFactorEnabled) {
+            return res.status(401).json({ message: "Login expired, please log in again" });
+        }
+
+        // Wrong codes count as failed logins of the account as well
+        const client = getClientInfo(req);
+        const attempt = await beginLoginAttempt(user.email, client.ipAddress);
+
+        if (attempt.retryAfter) {
+            await recordAuditEvent("LOGIN_THROTTLED", {userId: user.id, email: user.email, client: client, details: {retryAfter: attempt.retryAfter}});
+            return tooManyLogins(res, attempt);
+        }
+
+        // Codes of the app and recovery codes can only be used once
+        let remainingRecoveryCodes = null;
+
+        if (!await consumeCode(user, code)) {
+            remainingRecoveryCodes = consumeRecoveryCode(user.twoFactorRecoveryCodes, code);
+
+            if (!remainingRecoveryCodes) {
+                await recordFailedLogin(attempt, user, client, "Invalid two-factor code");
+                return res.status(401).json({ message: "Invalid code" });
+            }
+        }
+
+        if (!await consumeEmailToken(token.id)) {
+            await releaseLoginAttempt(attempt);
+            return res.status(401).json({ message: "Login expired, please log in again" });
+        }
+
+        if (remainingRecoveryCodes) {
+            await prisma.user.update({
+                where: {
+                    id: user.id
+                },
+                data: {
+                    twoFactorRecoveryCodes: remainingRecoveryCodes
+                }
+            });
+        }
+
+        await recordLoginSuccess(attempt);
+
+        const { accessToken, refreshToken } = await createSession(user, client);
+
+        res.status(200).json({ message: "Login successful", accessToken: accessToken, refreshToken: refreshToken, recoveryCodesLeft: remainingRecoveryCodes?.length });
+    } catch (error) {
+        console.log(error)
         res.status(500).json({ message: "Error logging in" });
     }
 }
 
+// Rotates the refresh token, every refresh token can only be used once
 export async function refresh(req, res) {
     const { refreshToken } = req.body;
 
@@ -77,30 +231,257 @@ export async function refresh(req, res) {
     }
 
     try {
-        // Verify the refresh token
-        // eslint-disable-next-line no-undef
-        const payload = jwt.verify(refreshToken, process.env.REFRESH_TOKEN_SECRET);
+        const tokens = await rotateSession(refreshToken, getClientInfo(req));
+
+        if (!tokens) {
+            return res.status(403).json({ message: "Invalid refresh token" });
+        }
+
+        res.status(200).json({ message: "Refresh successful", accessToken: tokens.accessToken, refreshToken: tokens.refreshToken });
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error refreshing token" });
+    }
+}
+
+// Ends the session of the given refresh token
+export async function logout(req, res) {
+    const { refreshToken } = req.body;
+
+    try {
+        if (refreshToken) {
+            await revokeSessionOfToken(refreshToken);
+        }
+
+        res.status(200).json({ message: "Logout successful" });
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error logging out" });
+    }
+}
+
+export async function getSessions(req, res) {
+    try {
+        const sessions = await getActiveSessions(req.user.userId);
+
+        res.status(200).json({data: sessions.map((session) => ({
+            ...session,
+            current: session.id === req.user.sessionId
+        }))});
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting sessions" });
+    }
+}
+
+export async function deleteSession(req, res) {
+    try {
+        const revoked = await revokeSession(req.user.userId, req.params.id);
+
+        if (!revoked) {
+            return res.status(404).json({ message: "Session not found" });
+        }
+
+        res.status(200).json({ message: "Session ended" });
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error ending session" });
+    }
+}
+
+// Signs the user out on every device, including the current one
+export async function deleteAllSessions(req, res) {
+    try {
+        await revokeAllSessions(req.user.userId);
+
+        res.status(200).json({ message: "All sessions ended" });
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error ending sessions" });
+    }
+}
+
+// Always answers the same way so the endpoint can not be used to find out which emails are registered
+export async function requestPasswordReset(req, res) {
+    const { email } = req.body;
+
+    try {
+        const user = email ? await prisma.user.findUnique({
+            where: {
+                email: email,
+            },
+        }) : null;
+
+        if (user) {
+            const token = await createEmailToken("PASSWORD_RESET", {userId: user.id});
+            // eslint-disable-next-line no-undef
+            const link = `${process.env.VITE_PUBLIC_URL}/reset-password/${token}`;
+
+            await sendEmail(user.email, "Reset your password", `
+                <p>Hello ${escapeHtml(user.firstName)},</p>
+                <p>We received a request to reset the password of your Realtor Rocket account.</p>
+                <p><a href="${escapeHtml(link)}">Choose a new password</a></p>
+                <p>The link is valid for 1 hour. If you did not request this, you can ignore this email.</p>
+            `);
+        }
+
+        res.status(200).json({ message: "If an account with that email exists, a reset link has been sent" });
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error requesting password reset" });
+    }
+}
+
+export async function resetPassword(req, res) {
+    const { password } = req.body;
 
-        // Check if the user exists
+    if (!password || password.length < 8) {
+        return res.status(400).json({ message: "Password must be at least 8 characters long" });
+    }
+
+    try {
+        const token = await findValidEmailToken(req.params.token, "PASSWORD_RESET");
+
+        if (!token?.userId) {
+            return res.status(404).json({ message: "Reset link is invalid or has expired" });
+        }
+
+        const salt = await bcrypt.genSalt(12);
+        const hashedPassword = await bcrypt.hash(password, salt);
+
+        const updated = await prisma.$transaction(async (tx) => {
+            if (!await consumeEmailToken(token.id, tx)) {
+                return false;
+            }
+
+            await tx.user.update({
+                where: {
+                    id: token.userId,
+                },
+                data: {
+                    password: hashedPassword,
+                    salt: salt,
+                },
+            });
+
+            return true;
+        });
+
+        if (!updated) {
+            return res.status(404).json({ message: "Reset link is invalid or has expired" });
+        }
+
+        // Whoever knew the old password should not stay logged in
+        await revokeAllSessions(token.userId);
+
+        res.status(200).json({ message: "Password updated successfully" });
+    } catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error resetting password" });
+    }
+}
+
+// The new email only replaces the current one once the link sent to the new address is opened
+export async function requestEmailChange(req, res) {
+    const { email, password } = req.body;
+
+    try {
         const user = await prisma.user.findUnique({
             where: {
-                id: payload.userId,
+                id: req.user.userId,
             },
         });
 
         if (!user) {
             return res.status(401).json({ message: "Invalid user" });
         }
+        if (!password || !await bcrypt.compare(password, user.password)) {
+            return res.status(401).json({ message: "Invalid password" });
+        }
+        if (!email || email === user.email) {
+            return res.status(400).json({ message: "Please enter a new email address" });
+        }
 
-        // Generate new access token and refresh token
-        // eslint-disable-next-line no-undef
-        const newAccessToken = jwt.sign({ userId: user.id, email: user.email }, process.env.SECRET_KEY, { expiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN });
+        const existingUser = await prisma.user.findUnique({
+            where: {
+                email: email,
+            },
+        });
+
+        if (existingUser) {
+            return res.status(409).json({ message: "User with that email already exists" });
+        }
+
+        const token = await createEmailToken("EMAIL_CHANGE", {userId: user.id}, {email: email});
         // eslint-disable-next-line no-undef
-        const newRefreshToken = jwt.sign({ userId: user.id, email: user.email }, process.env.REFRESH_TOKEN_SECRET, { expiresIn: process.env.REFRESH_TOKEN_EXPIRES_IN });
+        const link = `${process.env.VITE_PUBLIC_URL}/confirm-email/${token}`;
+
+        await sendEmail(email, "Confirm your new email address", `
+            <p>Hello ${escapeHtml(user.firstName)},</p>
+            <p>Please confirm that you want to use this address for your Realtor Rocket account.</p>
+            <p><a href="${escapeHtml(link)}">Confirm email address</a></p>
+            <p>The link is valid for 24 hours.</p>
+        `);
+        await sendEmail(user.email, "Your email address is being changed", `
+            <p>Hello ${escapeHtml(user.firstName)},</p>
+            <p>A change of the email address of your Realtor Rocket account to ${escapeHtml(email)} was requested.</p>
+            <p>If this was not you, please reset your password.</p>
+        `);
 
-        res.status(200).json({ message: "Refresh successful", accessToken: newAccessToken, refreshToken: newRefreshToken });
+        res.status(200).json({ message: "Confirmation email sent" });
     } catch (error) {
-        res.status(500).json({ message: "Error refreshing token" });
+        console.log(error)
+        res.status(500).json({ message: "Error requesting email change" });
+    }
+}
+
+// Public so the link works on any device, the token itself identifies the user
+export async function confirmEmailChange(req, res) {
+    try {
+        const token = await findValidEmailToken(req.params.token, "EMAIL_CHANGE");
+
+        if (!token?.userId || !token.email) {
+            return res.status(404).json({ message: "Confirmation link is invalid or has expired" });
+        }
+
+        const updatedUser = await prisma.$transaction(async (tx) => {
+            if (!await consumeEmailToken(token.id, tx)) {
+                return null;
+            }
+
+            const user = await tx.user.update({
+                where: {
+                    id: token.userId,
+                },
+                data: {
+                    email: token.email,
+                },
+            });
+
+            // Keep the tenant record of tenant accounts in sync
+            await tx.tenant.updateMany({
+                where: {
+                    userId: user.id,
+                },
+                data: {
+                    email: user.email,
+                },
+            });
+
+            return user;
+        });
+
+        if (!updatedUser) {
+            return res.status(404).json({ message: "Confirmation link is invalid or has expired" });
+        }
+
+        res.status(200).json({ message: "Email updated successfully", data: {email: updatedUser.email} });
+    } catch (error) {
+        if (error.code === 'P2002') {
+            return res.status(409).json({message: 'User with that email already exists'});
+        }
+        console.log(error)
+        res.status(500).json({ message: "Error confirming email change" });
     }
 }
 
@@ -116,6 +497,10 @@ export function authenticateToken(req, res, next) {
         return res.status(401).json({ message: "Access token is required" });
     }
 
+    if (isApiToken(token)) {
+        return authenticateApiToken(token, req, res, next);
+    }
+
     try {
         // eslint-disable-next-line no-undef
         const payload = jwt.verify(token, process.env.SECRET_KEY);
@@ -126,3 +511,119 @@ export function authenticateToken(req, res, next) {
     }
 }
 
+
+// Personal API tokens can only be used for the routes their scopes cover
+async function authenticateApiToken(token, req, res, next) {
+    const requiredScope = getRequiredScope(req.method, req.path);
+
+    if (!requiredScope) {
+        return res.status(403).json({ message: "API tokens can not be used for this endpoint" });
+    }
+
+    try {
+        const apiToken = await findValidApiToken(token);
+
+        if (!apiToken) {
+            return res.status(401).json({ message: "Invalid API token" });
+        }
+        if (!apiToken.scopes.includes(requiredScope)) {
+            return res.status(403).json({ message: `API token is missing the ${requiredScope} scope` });
+        }
+
+        req.user = { userId: apiToken.user.id, email: apiToken.user.email, role: apiToken.user.role, apiTokenId: apiToken.id };
+        next();
+    } catch (error) {
+        console.log(error)
+        return res.status(500).json({ message: "Error checking API token" });
+    }
+}
+
+// Restricts a route to the given user roles, needs to run after authenticateToken
+export function requireRole(...roles) {
+    return (req, res, next) => {
+        if (!req.user || !roles.includes(req.user.role)) {
+            return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        next();
+    }
+}
+
+
+const METHOD_ACTIONS = {
+    GET: "read",
+    POST: "create",
+    PUT: "update",
+    PATCH: "update",
+    DELETE: "delete"
+}
+
+// Logged in user and the organization the request works in (X-Organization-Id header, defaults to the
+// user's first organization), tenants never work in an organization. Null if the user is no member
+async function getActor(req) {
+    if (req.user.role === "TENANT") {
+        return { user: req.user, workspace: null };
+    }
+
+    const workspace = await getWorkspace(req.user, req.headers['x-organization-id']);
+
+    return workspace ? { user: req.user, workspace: workspace } : null;
+}
+
+async function hasTwoFactor(userId) {
+    const user = await prisma.user.findUnique({
+        where: {
+            id: userId
+        },
+        select: {
+            twoFactorEnabled: true
+        }
+    });
+
+    return user?.twoFactorEnabled ?? false;
+}
+
+// Checks the policy of the resource, needs to run after authenticateToken. The action defaults to the one of the HTTP method.
+// Records addressed by the route (:id or the ids of bulk bodies) and records referenced in the body have to be accessible.
+// Organizations can require members to use two-factor authentication. The actor is stored in req.actor and the organization in req.workspace
+export function authorize(resource, action) {
+    return async (req, res, next) => {
+        try {
+            const actor = await getActor(req);
+
+            if (!actor) {
+                return res.status(403).json({ message: "No access to this organization" });
+            }
+            if (actor.workspace?.requireTwoFactor && !await hasTwoFactor(req.user.userId)) {
+                return res.status(403).json({ message: "This organization requires two-factor authentication", code: "TWO_FACTOR_REQUIRED" });
+            }
+
+            const requestedAction = action ?? METHOD_ACTIONS[req.method];
+
+            if (!can(actor, requestedAction, resource)) {
+                return res.status(403).json({ message: "Insufficient permissions" });
+            }
+
+            const items = Array.isArray(req.body) ? req.body : [req.body ?? {}];
+            const ids = req.params.id ? [req.params.id] : requestedAction !== "create" && Array.isArray(req.body) ? items.map((item) => item?.id) : [];
+
+            if (ids.length && !await canAccessAll(actor, resource, ids)) {
+                return res.status(404).json({ message: `${getResourceLabel(resource)} not found` });
+            }
+
+            if (requestedAction !== "read" && requestedAction !== "delete") {
+                const inaccessibleReference = await findInaccessibleReference(actor, resource, items);
+
+                if (inaccessibleReference) {
+                    return res.status(404).json({ message: `${getResourceLabel(inaccessibleReference)} not found` });
+                }
+            }
+
+            req.actor = actor;
+            req.workspace = actor.workspace;
+            next();
+        } catch (error) {
+            console.log(error)
+            return res.status(500).json({ message: "Error checking permissions" });
+        }
+    }
+}
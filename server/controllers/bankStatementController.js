@@ -0,0 +1,181 @@
+import prisma from '../prisma.js';
+import {findAuthorized, scopeOf} from "../services/policyService.js";
+import {getBankStatementPreset} from "../../shared/bankStatementPresets.js";
+import {
+    confirmBankTransaction as confirmTransaction,
+    ignoreBankTransaction as ignoreTransaction,
+    importBankStatement as importStatement
+} from "../services/bankReconciliationService.js";
+
+// Bank statements of the realtor and the reconciliation of their credits with the rent, see
+// services/bankReconciliationService.js
+
+
+const transactionInclude = {
+    matches: {
+        include: {
+            schedule: {
+                include: {
+                    lease: {
+                        include: {
+                            tenant: true,
+                            unit: true
+                        }
+                    }
+                }
+            }
+        }
+    },
+    payments: {
+        select: {
+            id: true,
+            amount: true,
+            leaseId: true
+        }
+    },
+    import: {
+        select: {
+            id: true,
+            fileName: true,
+            createdAt: true
+        }
+    }
+}
+
+// CSV statements are read with the mapping of their bank or a custom one
+export async function importBankStatement(req, res) {
+    const {preset, mapping} = req.body;
+
+    try {
+        if (req.body.format === "CSV" && !mapping && !getBankStatementPreset(preset)) {
+            return res.status(400).json({ message: "Unknown bank, please map the columns of the statement" });
+        }
+
+        const result = await importStatement(req.workspace.realtorId, req.user.userId, {
+            ...req.body,
+            mapping: mapping ?? getBankStatementPreset(preset)
+        });
+
+        if (result.error) {
+            return res.status(400).json({ message: result.error });
+        }
+
+        res.status(200).json({
+            data: result,
+            message: result.duplicates ?
+                `${result.imported} credits imported, ${result.duplicates} were imported before` :
+                `${result.imported} credits imported`
+        });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error importing bank statement" });
+    }
+}
+
+export async function getBankTransactions(req, res) {
+    const {status} = req.query;
+
+    try {
+        const transactions = await prisma.bankTransaction.findMany({
+            where: {
+                ...scopeOf(req.actor, "bankTransaction"),
+                ...(status ? { status: status } : {})
+            },
+            include: transactionInclude,
+            orderBy: [
+                { date: "desc" },
+                { id: "desc" }
+            ]
+        });
+
+        res.status(200).json({data: transactions });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting bank transactions" });
+    }
+}
+
+// The credit is recorded as payments of the matched charges, they may belong to different leases
+export async function confirmBankTransaction(req, res) {
+    const {matches} = req.body;
+
+    try {
+        const transaction = await findAuthorized(req.actor, "bankTransaction", req.params.id);
+
+        if (!transaction) {
+            return res.status(404).json({ message: "Bank transaction not found" });
+        }
+        if (transaction.status === "CONFIRMED" || transaction.status === "IGNORED") {
+            return res.status(409).json({ message: "The bank transaction has already been reviewed" });
+        }
+
+        const scheduleIds = matches.map((match) => match.scheduleId);
+
+        if (new Set(scheduleIds).size !== scheduleIds.length) {
+            return res.status(400).json({ message: "Every charge can only be matched once" });
+        }
+
+        const schedules = await prisma.leasePaymentSchedule.findMany({
+            where: {
+                ...scopeOf(req.actor, "paymentSchedule"),
+                id: {
+                    in: scheduleIds
+                }
+            },
+            include: {
+                lease: true
+            }
+        });
+
+        if (schedules.length !== scheduleIds.length) {
+            return res.status(404).json({ message: "Payment schedule not found" });
+        }
+        if (schedules.some((schedule) => schedule.status === "WAIVED")) {
+            return res.status(400).json({ message: "Waived charges can not be paid" });
+        }
+        // Credits without a currency are taken to be in the currency of the lease, like their suggestions
+        if (transaction.currency && schedules.some((schedule) => (schedule.lease.currency ?? "USD") !== transaction.currency)) {
+            return res.status(400).json({ message: "The charges are in another currency than the transaction" });
+        }
+        if (Math.round(matches.reduce((total, match) => total + match.amount, 0) * 100) > Math.round(transaction.amount * 100)) {
+            return res.status(400).json({ message: "The matches exceed the amount of the transaction" });
+        }
+
+        const confirmed = await confirmTransaction(transaction, matches, schedules, req.user.userId);
+
+        if (!confirmed) {
+            return res.status(409).json({ message: "The bank transaction has already been reviewed" });
+        }
+
+        res.status(200).json({data: confirmed, message: "Payment recorded" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error confirming bank transaction" });
+    }
+}
+
+// Credits that are no rent, e.g. a refund of the bank
+export async function ignoreBankTransaction(req, res) {
+    try {
+        const transaction = await findAuthorized(req.actor, "bankTransaction", req.params.id);
+
+        if (!transaction) {
+            return res.status(404).json({ message: "Bank transaction not found" });
+        }
+
+        const ignored = await ignoreTransaction(transaction, req.user.userId);
+
+        if (!ignored) {
+            return res.status(409).json({ message: "The bank transaction has already been reviewed" });
+        }
+
+        res.status(200).json({data: ignored, message: "Bank transaction ignored" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error ignoring bank transaction" });
+    }
+}
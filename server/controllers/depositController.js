@@ -0,0 +1,180 @@
+import prisma from '../prisma.js';
+import {canAccessAll, findAuthorized, permittedFields, scopeOf} from "../services/policyService.js";
+import {settleDeposit} from "../services/depositService.js";
+import {syncLeaseLedger} from "../services/ledgerService.js";
+
+// Security deposits of leases and their move-out settlement, see services/depositService.js
+
+
+const depositInclude = {
+    lease: {
+        include: {
+            tenant: true,
+            unit: true
+        }
+    },
+    deductions: true,
+    statement: true
+}
+
+export async function getDeposits(req, res) {
+    try {
+        const deposits = await prisma.securityDeposit.findMany({
+            where: scopeOf(req.actor, "deposit"),
+            include: depositInclude,
+            orderBy: {
+                createdAt: "desc"
+            }
+        });
+
+        res.status(200).json({data: deposits });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting deposits" });
+    }
+}
+
+// Every lease has at most one deposit, it is held in the currency of the lease
+export async function createDeposit(req, res) {
+    try {
+        const lease = await prisma.lease.findUnique({
+            where: {
+                id: req.body.leaseId
+            },
+            include: {
+                deposit: true
+            }
+        });
+
+        if (lease.deposit) {
+            return res.status(409).json({ message: "The lease already has a deposit" });
+        }
+
+        const deposit = await prisma.$transaction(async (tx) => {
+            const newDeposit = await tx.securityDeposit.create({
+                data: {
+                    ...permittedFields("deposit", req.body),
+                    currency: lease.currency,
+                    lease: {
+                        connect: {
+                            id: lease.id
+                        }
+                    }
+                },
+                include: depositInclude
+            });
+
+            await syncLeaseLedger(lease.id, tx);
+
+            return newDeposit;
+        });
+
+        res.status(200).json({data: deposit });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating deposit" });
+    }
+}
+
+// Settled deposits can not be changed anymore, their statement has been handed out
+export async function updateDeposit(req, res) {
+    try {
+        const deposit = await findAuthorized(req.actor, "deposit", req.params.id);
+
+        if (!deposit) {
+            return res.status(404).json({ message: "Deposit not found" });
+        }
+        if (deposit.status !== "HELD") {
+            return res.status(409).json({ message: "The deposit has already been settled" });
+        }
+
+        const updatedDeposit = await prisma.$transaction(async (tx) => {
+            const changedDeposit = await tx.securityDeposit.update({
+                where: {
+                    id: deposit.id
+                },
+                data: permittedFields("deposit", req.body),
+                include: depositInclude
+            });
+
+            await syncLeaseLedger(deposit.leaseId, tx);
+
+            return changedDeposit;
+        });
+
+        res.status(200).json({data: updatedDeposit });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating deposit" });
+    }
+}
+
+export async function deleteDeposit(req, res) {
+    try {
+        const deposit = await findAuthorized(req.actor, "deposit", req.params.id);
+
+        if (!deposit) {
+            return res.status(404).json({ message: "Deposit not found" });
+        }
+        if (deposit.status !== "HELD") {
+            return res.status(409).json({ message: "The deposit has already been settled" });
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.securityDeposit.delete({
+                where: {
+                    id: deposit.id
+                }
+            });
+
+            await syncLeaseLedger(deposit.leaseId, tx);
+        });
+
+        res.status(200).json({data: deposit });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error deleting deposit" });
+    }
+}
+
+// Settles the deposit on move-out, the deductions can be linked to expenses and maintenance requests of the realtor
+export async function createSettlement(req, res) {
+    const {moveOutDate, deductions, notes} = req.body;
+
+    try {
+        const deposit = await findAuthorized(req.actor, "deposit", req.params.id);
+
+        if (!deposit) {
+            return res.status(404).json({ message: "Deposit not found" });
+        }
+        if (deposit.status !== "HELD") {
+            return res.status(409).json({ message: "The deposit has already been settled" });
+        }
+
+        const expenseIds = deductions.map((deduction) => deduction.expenseId).filter(Boolean);
+        const maintenanceRequestIds = deductions.map((deduction) => deduction.maintenanceRequestId).filter(Boolean);
+
+        if (expenseIds.length && !await canAccessAll(req.actor, "expense", expenseIds)) {
+            return res.status(404).json({ message: "Expense not found" });
+        }
+        if (maintenanceRequestIds.length && !await canAccessAll(req.actor, "maintenance", maintenanceRequestIds)) {
+            return res.status(404).json({ message: "Maintenance request not found" });
+        }
+
+        const settledDeposit = await settleDeposit(deposit, {moveOutDate, deductions, notes}, req.user.userId);
+
+        if (!settledDeposit) {
+            return res.status(409).json({ message: "The deposit has already been settled" });
+        }
+
+        res.status(200).json({data: settledDeposit, message: "Deposit settled" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error settling deposit" });
+    }
+}
@@ -0,0 +1,27 @@
+import {findAuthorized} from "../services/policyService.js";
+import {getDocumentFilePath} from "../services/documentService.js";
+
+// Downloads the file of a document, realtors get the documents of their leases and tenants the ones of their own leases
+export async function getDocumentFile(req, res) {
+    try {
+        const document = await findAuthorized(req.actor, "document", req.params.id);
+
+        if (!document) {
+            return res.status(404).json({ message: "Document not found" });
+        }
+
+        if (document.mimeType) {
+            res.type(document.mimeType);
+        }
+
+        res.download(getDocumentFilePath(document), document.name ?? `document-${document.id}`, (error) => {
+            if (error && !res.headersSent) {
+                res.status(404).json({ message: "Document file not found" });
+            }
+        });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting document" });
+    }
+}
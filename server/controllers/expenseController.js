@@ -1,76 +1,40 @@
 import prisma from '../prisma.js';
+import {permittedFields, scopeOf} from "../services/policyService.js";
+import {syncExpenseLedger} from "../services/ledgerService.js";
 
 
 export async function createExpense(req, res) {
     try {
-        const userId = req.user.userId;
         const {unitId, leaseId, maintenanceRequestId} = req.body;
         delete req.body.unitId;
         delete req.body.leaseId;
         delete req.body.maintenanceRequestId;
 
-        // Make sure that the Unit, Lease and MaintenanceRequest (if provided) belong to user/realtor
-        if (unitId) {
-            const unit = await prisma.unit.findFirst({
-                where: {
-                    id: unitId,
-                    realEstateObject: {
-                        realtor: {
-                            userId: req.user.userId
+        // The Unit, Lease and MaintenanceRequest (if provided) are checked by the policy
+        const newExpense = await prisma.$transaction(async (tx) => {
+            const expense = await tx.expense.create({
+                data: {
+                    ...permittedFields("expense", req.body),
+                    realtor: {
+                        connect: {
+                            id: req.workspace.realtorId
                         }
                     },
-                }
-            });
-            if (!unit) {
-                return res.status(400).json({ message: "Unit not found" });
-            }
-        }
-        if (leaseId) {
-            const lease = await prisma.lease.findFirst({
-                where: {
-                    id: leaseId,
-                    realtor: {
-                        userId: req.user.userId
+                    unit: {
+                        ...(unitId) ? {connect: {id: unitId}} : {}
+                    },
+                    lease: {
+                        ...(leaseId) ? {connect: {id: leaseId}} : {}
+                    },
+                    maintenanceRequest: {
+                        ...(maintenanceRequestId) ? {connect: {id: maintenanceRequestId}} : {}
                     }
                 }
             });
-            if (!lease) {
-                return res.status(400).json({ message: "Lease not found" });
-            }
-        }
 
-        if (maintenanceRequestId) {
-            const maintenanceRequest = await prisma.maintenanceRequest.findFirst({
-                where: {
-                    id: maintenanceRequestId,
-                    realtor: {
-                        userId: req.user.userId
-                    }
-                }
-            });
-            if (!maintenanceRequest) {
-                return res.status(400).json({ message: "Maintenance request not found" });
-            }
-        }
+            await syncExpenseLedger(expense.id, tx);
 
-        const newExpense = await prisma.expense.create({
-            data: {
-                ...req.body,
-                realtor: {
-                    connect: {
-                        userId: userId
-                    }
-                },
-                unit: {
-                    ...(unitId) ? {connect: {id: unitId}} : {}
-                },
-                lease: {
-                    ...(leaseId) ? {connect: {id: leaseId}} : {}
-                },
-                maintenanceRequest: {
-                    ...(maintenanceRequestId) ? {connect: {id: maintenanceRequestId}} : {}
-                }
-            }
+            return expense;
         });
 
         res.status(200).json({data: newExpense });
@@ -84,13 +48,8 @@ export async function createExpense(req, res) {
 
 export async function getExpenses(req, res){
     try {
-        const userId = req.user.userId;
         const expenses = await prisma.expense.findMany({
-            where: {
-                realtor: {
-                    userId: userId
-                }
-            }
+            where: scopeOf(req.actor, "expense")
         })
 
         res.status(200).json({data: expenses });
@@ -102,25 +61,17 @@ export async function getExpenses(req, res){
 
 export async function deleteExpense(req, res){
     try {
-        const userId = Number(req.user.userId);
-        const expenseId = Number(req.params.id);
-        const expense = await prisma.expense.findFirst({
-            where: {
-                id: expenseId,
-                realtor: {
-                    userId: userId
+        // What was posted for the expense is reversed, the ledger keeps it
+        const expense = await prisma.$transaction(async (tx) => {
+            const deletedExpense = await tx.expense.delete({
+                where: {
+                    id: Number(req.params.id)
                 }
-            }
-        });
+            });
 
-        if (!expense) {
-            return res.status(400).json({ message: "Expense not found" });
-        }
+            await syncExpenseLedger(deletedExpense.id, tx);
 
-        await prisma.expense.delete({
-            where: {
-                id: expenseId
-            }
+            return deletedExpense;
         });
 
         res.status(200).json({data: expense });
@@ -0,0 +1,174 @@
+import bcrypt from 'bcryptjs';
+import prisma from '../prisma.js';
+import {sendEmail} from "../services/mailService.js";
+import {consumeEmailToken, createEmailToken, findValidEmailToken} from "../services/tokenService.js";
+import {scopeOf} from "../services/policyService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
+
+// Tenants are invited by their realtor via email, accepting the invitation creates a User with the TENANT role
+// that is linked to the existing Tenant record
+
+
+function invitationEmail(tenant, realtorUser, link) {
+    const realtorName = [realtorUser?.firstName, realtorUser?.lastName].filter(Boolean).join(" ") || realtorUser?.email;
+    const company = realtorUser?.company ? ` (${escapeHtml(realtorUser.company)})` : "";
+
+    return `
+        <h2>Hello ${escapeHtml(tenant.firstName)},</h2>
+        <p>${escapeHtml(realtorName)}${company} has invited you to Realtor Rocket.</p>
+        <p>With your account you can see your lease and payment schedule, report payments and request maintenance.</p>
+        <p><a href="${escapeHtml(link)}">Create your account</a></p>
+        <p>The link is valid for 7 days.</p>
+    `;
+}
+
+export async function inviteTenant(req, res) {
+    try {
+        const tenant = await prisma.tenant.findUnique({
+            where: {
+                id: parseInt(req.params.id),
+                ...scopeOf(req.actor, "tenant")
+            }
+        });
+
+        if (!tenant) {
+            return res.status(404).json({ message: "Tenant not found" });
+        }
+        if (tenant.userId) {
+            return res.status(409).json({ message: "Tenant already has an account" });
+        }
+        if (!tenant.email) {
+            return res.status(400).json({ message: "Tenant has no email address" });
+        }
+
+        const realtorUser = await prisma.user.findUnique({
+            where: {
+                id: req.user.userId
+            },
+            select: {
+                firstName: true,
+                lastName: true,
+                email: true,
+                company: true
+            }
+        });
+
+        const token = await createEmailToken("EMAIL_CONFIRMATION", {tenantId: tenant.id});
+        // eslint-disable-next-line no-undef
+        const link = `${process.env.VITE_PUBLIC_URL}/invite/${token}`;
+
+        const result = await sendEmail(tenant.email, "You have been invited to Realtor Rocket", invitationEmail(tenant, realtorUser, link));
+
+        if (!result || result instanceof Error || result.error) {
+            return res.status(500).json({ message: "Error sending invitation" });
+        }
+
+        res.status(200).json({ message: "Invitation sent" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error sending invitation" });
+    }
+}
+
+// Public, lets the invitation page prefill the form
+export async function getInvitation(req, res) {
+    try {
+        const token = await findValidEmailToken(req.params.token, "EMAIL_CONFIRMATION");
+
+        const tenant = token?.tenantId ? await prisma.tenant.findUnique({
+            where: {
+                id: token.tenantId
+            }
+        }) : null;
+
+        if (!tenant || tenant.userId) {
+            return res.status(404).json({ message: "Invitation not found or expired" });
+        }
+
+        res.status(200).json({data: {
+            firstName: tenant.firstName,
+            lastName: tenant.lastName,
+            email: tenant.email,
+            phone: tenant.phone
+        }});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting invitation" });
+    }
+}
+
+// Public, creates the User and links it to the Tenant. The profile entered by the tenant overwrites the data the realtor entered
+export async function acceptInvitation(req, res) {
+    const {password, firstName, lastName, phone} = req.body;
+
+    try {
+        const token = await findValidEmailToken(req.params.token, "EMAIL_CONFIRMATION");
+
+        const tenant = token?.tenantId ? await prisma.tenant.findUnique({
+            where: {
+                id: token.tenantId
+            }
+        }) : null;
+
+        if (!tenant || tenant.userId) {
+            return res.status(404).json({ message: "Invitation not found or expired" });
+        }
+
+        const profile = {
+            firstName: firstName || tenant.firstName,
+            lastName: lastName || tenant.lastName,
+            phone: phone || tenant.phone,
+        }
+
+        const salt = await bcrypt.genSalt(12);
+        const hashedPassword = await bcrypt.hash(password, salt);
+
+        const newUser = await prisma.$transaction(async (tx) => {
+            if (!await consumeEmailToken(token.id, tx)) {
+                throw new Error("Invitation already used");
+            }
+
+            const user = await tx.user.create({
+                data: {
+                    ...profile,
+                    email: tenant.email,
+                    password: hashedPassword,
+                    salt: salt,
+                    name: [profile.firstName, profile.lastName].filter(Boolean).join(" "),
+                    role: 'TENANT',
+                }
+            });
+
+            await tx.tenant.update({
+                where: {
+                    id: tenant.id
+                },
+                data: {
+                    ...profile,
+                    email: user.email,
+                    user: {
+                        connect: {
+                            id: user.id
+                        }
+                    }
+                }
+            });
+
+            return user;
+        });
+
+        res.status(201).json({message: 'Account created successfully', data: {email: newUser.email}});
+    }
+    catch (error) {
+        if (error.code === 'P2002') {
+            return res.status(409).json({message: 'User with that email already exists'});
+        }
+        if (error.message === "Invitation already used") {
+            return res.status(404).json({ message: "Invitation not found or expired" });
+        }
+        console.log(error)
+        res.status(500).json({ message: "Error accepting invitation" });
+    }
+}
@@ -0,0 +1,98 @@
+import prisma from '../prisma.js';
+import {findAuthorized} from "../services/policyService.js";
+
+// Late fee policies of leases and properties, the fees are charged by the overdue job (see services/lateFeeService.js)
+
+
+// The owner is either {leaseId} or {realEstateObjectId}, both are unique
+function upsertLateFeePolicy(owner, data) {
+    return prisma.lateFeePolicy.upsert({
+        where: owner,
+        create: {
+            ...data,
+            ...owner
+        },
+        update: data
+    });
+}
+
+export async function updateLeaseLateFeePolicy(req, res) {
+    try {
+        const lease = await findAuthorized(req.actor, "lease", req.params.id);
+
+        if (!lease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        const policy = await upsertLateFeePolicy({ leaseId: lease.id }, req.body);
+
+        res.status(200).json({data: policy });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating late fee policy" });
+    }
+}
+
+// Without its own policy the lease falls back to the policy of its property
+export async function deleteLeaseLateFeePolicy(req, res) {
+    try {
+        const lease = await findAuthorized(req.actor, "lease", req.params.id);
+
+        if (!lease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        await prisma.lateFeePolicy.deleteMany({
+            where: {
+                leaseId: lease.id
+            }
+        });
+
+        res.status(200).json({ message: "Late fee policy deleted" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error deleting late fee policy" });
+    }
+}
+
+export async function updatePropertyLateFeePolicy(req, res) {
+    try {
+        const property = await findAuthorized(req.actor, "property", req.params.id);
+
+        if (!property) {
+            return res.status(404).json({ message: "Property not found" });
+        }
+
+        const policy = await upsertLateFeePolicy({ realEstateObjectId: property.id }, req.body);
+
+        res.status(200).json({data: policy });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating late fee policy" });
+    }
+}
+
+export async function deletePropertyLateFeePolicy(req, res) {
+    try {
+        const property = await findAuthorized(req.actor, "property", req.params.id);
+
+        if (!property) {
+            return res.status(404).json({ message: "Property not found" });
+        }
+
+        await prisma.lateFeePolicy.deleteMany({
+            where: {
+                realEstateObjectId: property.id
+            }
+        });
+
+        res.status(200).json({ message: "Late fee policy deleted" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error deleting late fee policy" });
+    }
+}
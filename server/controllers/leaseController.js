@@ -1,6 +1,46 @@
 
 import prisma from '../prisma.js';
-import {createLeaseWithPaymentSchedule} from "../services/leaseService.js";
+import {
+    applyPaymentScheduleDiff,
+    createLeaseWithPaymentSchedule,
+    diffPaymentSchedule,
+    findOverlappingLeases,
+    hasPaymentSchedule,
+    hasScheduleChanges,
+    loadPriceIndex,
+    overlapConflict,
+    resolveSuccession
+} from "../services/leaseService.js";
+import {canAccessAll, findAuthorized, permittedFields, scopeOf} from "../services/policyService.js";
+import {replaceLeaseParties, setPrimaryTenant} from "../services/leasePartyService.js";
+import {previewTermination, terminateLease} from "../services/terminationService.js";
+import {reconcileAllocations} from "../services/allocationService.js";
+import {reverseLeaseLedger, syncLeaseLedger} from "../services/ledgerService.js";
+
+// Fields of a lease the payment schedule is calculated from
+const SCHEDULE_FIELDS = ["startDate", "endDate", "rentalPrice", "paymentFrequency", "prorationMethod", "billingDay", "escalationType", "escalationValue", "priceIndexId", "status"];
+
+function changesScheduleTerms(lease, leaseData) {
+    return SCHEDULE_FIELDS.some((field) => {
+        if (leaseData[field] === undefined) {
+            return false;
+        }
+        if (leaseData[field] instanceof Date || lease[field] instanceof Date) {
+            return new Date(leaseData[field]).getTime() !== new Date(lease[field]).getTime();
+        }
+
+        return leaseData[field] !== lease[field];
+    });
+}
+
+
+// Fields of a lease that decide when it occupies its unit
+const OCCUPANCY_FIELDS = ["startDate", "endDate", "unitId", "status"];
+
+// The unit is leased to other leases during the dates, see overlapConflict
+function sendOverlapConflict(res, conflicts) {
+    return res.status(409).json(overlapConflict(conflicts));
+}
 
 
 // Get leases of realtor, either all or by unitId and/or tenantId
@@ -9,26 +49,60 @@ export async function getLeases(req, res) {
     const {unitId, tenantId} = req.query;
 
     try {
-        let query = {}
+        let query = {...scopeOf(req.actor, "lease")}
 
         if (unitId) {
             query["unitId"] = parseInt(unitId)
         }
+        // Leases the tenant is a party of, not only the ones they are the primary tenant of
         if (tenantId) {
-            query["tenantId"] = parseInt(tenantId)
+            query["parties"] = { some: { tenantId: parseInt(tenantId) } }
         }
 
-        query["realtor"] = {userId: req.user.userId}
-
 
         const leases = await prisma.lease.findMany({
             where: query,
             include: {
                 tenant: true,
+                parties: {
+                    include: {
+                        tenant: true
+                    }
+                },
                 unit: true,
-                paymentSchedule: true,
-                rentPayments: true,
-                expenses: true
+                paymentSchedule: {
+                    include: {
+                        lateFeeEntries: {
+                            orderBy: {
+                                createdAt: "asc"
+                            }
+                        },
+                        allocations: true
+                    }
+                },
+                rentPayments: {
+                    include: {
+                        allocations: true
+                    }
+                },
+                expenses: true,
+                lateFeePolicy: true,
+                statusTransitions: {
+                    orderBy: {
+                        createdAt: "asc"
+                    }
+                },
+                deposit: {
+                    include: {
+                        deductions: true,
+                        statement: true
+                    }
+                },
+                termination: {
+                    include: {
+                        notice: true
+                    }
+                }
             },
             orderBy: {
                 createdAt: "desc"
@@ -49,12 +123,11 @@ export async function getLease(req, res) {
         const lease = await prisma.lease.findUnique({
             where: {
                 id: parseInt(req.params.id),
-                realtor: {
-                    userId: req.user.userId
-                }
+                ...scopeOf(req.actor, "lease")
             },
             include: {
                 tenant: true,
+                parties: true,
                 unit: true,
                 paymentSchedule: true
             }
@@ -72,10 +145,30 @@ export async function getLease(req, res) {
 }
 
 // Create lease
+// Leases of a unit must not overlap, unless the new lease is planned as the successor of the lease running at its start
 export async function createLease(req, res) {
+    const {plannedSuccessor, ...leaseData} = req.body;
 
     try {
-        const lease = await createLeaseWithPaymentSchedule(req.body,  req.user.userId);
+        // The tenant of the lease is checked by the policy, the other parties have to be checked here
+        if (leaseData.parties && !await canAccessAll(req.actor, "tenant", leaseData.parties.map((party) => party.tenantId))) {
+            return res.status(404).json({ message: "Tenant not found" });
+        }
+
+        const {predecessor, conflicts} = resolveSuccession(leaseData, await findOverlappingLeases(leaseData), plannedSuccessor);
+
+        if (conflicts.length) {
+            return sendOverlapConflict(res, conflicts);
+        }
+
+        const lease = await createLeaseWithPaymentSchedule(predecessor ? {
+            ...leaseData,
+            previousLease: {
+                connect: {
+                    id: predecessor.id
+                }
+            }
+        } : leaseData, req.workspace.realtorId);
 
         res.status(200).json({data: lease });
     }
@@ -85,23 +178,100 @@ export async function createLease(req, res) {
     }
 }
 
+// Changing the terms of a lease reconciles its payment schedule. The changes of the schedule are only written
+// once the realtor confirmed them, requests without confirmScheduleChanges get a preview of them instead
 export async function updateLease(req, res) {
+    const {confirmScheduleChanges, plannedSuccessor, ...body} = req.body;
+
     try {
-        const lease = await prisma.lease.update({
-            where: {
-                id: parseInt(req.params.id),
-                realtor: {
-                    userId: req.user.userId
-                }
-            },
-            data: req.body,
+        // Late fees are not part of the schedule of the terms, they stay with the rent they were charged for
+        const currentLease = await findAuthorized(req.actor, "lease", req.params.id, {
             include: {
-                tenant: true,
-                unit: true,
-                paymentSchedule: true
+                paymentSchedule: {
+                    where: {
+                        chargeType: "RENT"
+                    },
+                    orderBy: {
+                        dueDate: "asc"
+                    }
+                },
+                nextLease: {
+                    select: {
+                        id: true
+                    }
+                }
             }
         });
 
+        if (!currentLease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        const leaseData = permittedFields("lease", body);
+        const newLease = await loadPriceIndex({...currentLease, ...leaseData});
+
+        // Terminating a lease also settles its payment schedule and its unit, see createLeaseTermination
+        if (leaseData.status === "TERMINATED" && currentLease.status !== "TERMINATED") {
+            return res.status(400).json({ message: "Leases are terminated with a termination" });
+        }
+
+        // The lease it continues and its successor may overlap it, a lease that continues none can become a successor
+        if (OCCUPANCY_FIELDS.some((field) => leaseData[field] !== undefined)) {
+            const linkedLeaseIds = [currentLease.id, currentLease.previousLeaseId, currentLease.nextLease?.id].filter(Boolean);
+            const overlappingLeases = await findOverlappingLeases(newLease, linkedLeaseIds);
+            const {predecessor, conflicts} = resolveSuccession(newLease, overlappingLeases, plannedSuccessor && !currentLease.previousLeaseId);
+
+            if (conflicts.length) {
+                return sendOverlapConflict(res, conflicts);
+            }
+            if (predecessor) {
+                leaseData.previousLeaseId = predecessor.id;
+            }
+        }
+
+        // Schedules of ended leases are left as they are
+        const scheduleDiff = hasPaymentSchedule(newLease) && changesScheduleTerms(currentLease, leaseData) ?
+            diffPaymentSchedule(currentLease.paymentSchedule, newLease) : null;
+
+        if (scheduleDiff && hasScheduleChanges(scheduleDiff) && !confirmScheduleChanges) {
+            return res.status(409).json({
+                message: "The new terms change the payment schedule, please confirm the changes",
+                code: "SCHEDULE_CHANGES",
+                preview: scheduleDiff
+            });
+        }
+
+        const lease = await prisma.$transaction(async (tx) => {
+            await tx.lease.update({
+                where: {
+                    id: currentLease.id
+                },
+                data: leaseData
+            });
+
+            if (scheduleDiff) {
+                await applyPaymentScheduleDiff(tx, currentLease.id, scheduleDiff);
+                await reconcileAllocations(currentLease.id, tx);
+                await syncLeaseLedger(currentLease.id, tx);
+            }
+
+            if (leaseData.tenantId !== undefined && leaseData.tenantId !== currentLease.tenantId) {
+                await setPrimaryTenant(tx, currentLease.id, leaseData.tenantId);
+            }
+
+            return tx.lease.findUnique({
+                where: {
+                    id: currentLease.id
+                },
+                include: {
+                    tenant: true,
+                    parties: true,
+                    unit: true,
+                    paymentSchedule: true
+                }
+            });
+        });
+
         res.status(200).json({data: lease });
     }
     catch (error) {
@@ -109,17 +279,144 @@ export async function updateLease(req, res) {
     }
 }
 
-export async function deleteLease(req, res) {
+// Replaces the parties of the lease, the primary tenant becomes the tenant of the lease
+export async function updateLeaseParties(req, res) {
+    const {parties} = req.body;
+
     try {
-        const lease = await prisma.lease.delete({
-            where: {
-                id: parseInt(req.params.id),
-                realtor: {
-                    userId: req.user.userId
+        const currentLease = await findAuthorized(req.actor, "lease", req.params.id);
+
+        if (!currentLease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        if (!await canAccessAll(req.actor, "tenant", parties.map((party) => party.tenantId))) {
+            return res.status(404).json({ message: "Tenant not found" });
+        }
+
+        const lease = await prisma.$transaction(async (tx) => {
+            await replaceLeaseParties(tx, currentLease, parties);
+
+            return tx.lease.findUnique({
+                where: {
+                    id: currentLease.id
+                },
+                include: {
+                    tenant: true,
+                    parties: {
+                        include: {
+                            tenant: true
+                        }
+                    }
                 }
+            });
+        });
+
+        res.status(200).json({data: lease });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating lease parties" });
+    }
+}
+
+// Only running and pending leases can be terminated, not before they start
+function getTerminationError(lease, effectiveDate) {
+    if (lease.status !== "ACTIVE" && lease.status !== "PENDING") {
+        return "Only active and pending leases can be terminated";
+    }
+    if (lease.startDate && new Date(effectiveDate) < new Date(lease.startDate)) {
+        return "The termination can not take effect before the lease starts";
+    }
+    if (lease.endDate && new Date(effectiveDate) > new Date(lease.endDate)) {
+        return "The termination can not take effect after the lease ends";
+    }
+
+    return null;
+}
+
+// Final rent, break fee and the charges that are cancelled or waived, nothing is changed
+export async function previewLeaseTermination(req, res) {
+    try {
+        const lease = await findAuthorized(req.actor, "lease", req.params.id, {
+            include: {
+                termination: true
             }
         });
 
+        if (!lease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+        if (lease.termination) {
+            return res.status(409).json({ message: "The lease has already been terminated" });
+        }
+
+        const error = getTerminationError(lease, req.body.effectiveDate);
+
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const preview = await previewTermination(lease.id, req.body);
+
+        res.status(200).json({data: preview });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error calculating termination" });
+    }
+}
+
+// Terminates the lease early, the termination notice is stored as a document of the lease
+export async function createLeaseTermination(req, res) {
+    try {
+        const lease = await findAuthorized(req.actor, "lease", req.params.id, {
+            include: {
+                termination: true
+            }
+        });
+
+        if (!lease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+        if (lease.termination) {
+            return res.status(409).json({ message: "The lease has already been terminated" });
+        }
+
+        const error = getTerminationError(lease, req.body.effectiveDate);
+
+        if (error) {
+            return res.status(400).json({ message: error });
+        }
+
+        const termination = await terminateLease(lease.id, req.body, req.user.userId);
+
+        if (!termination) {
+            return res.status(409).json({ message: "The lease has already been terminated" });
+        }
+
+        res.status(200).json({data: termination, message: "Lease terminated" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error terminating lease" });
+    }
+}
+
+export async function deleteLease(req, res) {
+    try {
+        // What was posted for the lease is reversed, its ledger transactions are kept without the lease
+        const lease = await prisma.$transaction(async (tx) => {
+            await reverseLeaseLedger(parseInt(req.params.id), tx);
+
+            return tx.lease.delete({
+                where: {
+                    id: parseInt(req.params.id),
+                    ...scopeOf(req.actor, "lease")
+                }
+            });
+        });
+
         res.status(200).json({data: lease });
     }
     catch (error) {
@@ -127,17 +424,61 @@ export async function deleteLease(req, res) {
     }
 }
 
+// Only the status, notes and special terms are changed in bulk, see leaseBulkUpdateRequestSchema. All statuses
+// but TERMINATED occupy the unit, so a status change can not make a lease overlap another one. Status changes that
+// change the payment schedule need the confirmed preview of updateLease, they are rejected here
 export async function updateManyLeases(req, res) {
     try {
+        if (req.body.some((lease) => lease.status === "TERMINATED")) {
+            return res.status(400).json({ message: "Leases are terminated with a termination" });
+        }
+
+        const currentLeases = await prisma.lease.findMany({
+            where: {
+                ...scopeOf(req.actor, "lease"),
+                id: {
+                    in: req.body.map((lease) => lease.id)
+                }
+            },
+            include: {
+                paymentSchedule: {
+                    where: {
+                        chargeType: "RENT"
+                    },
+                    orderBy: {
+                        dueDate: "asc"
+                    }
+                }
+            }
+        });
+
+        const scheduleChanges = [];
+
+        for (const currentLease of currentLeases) {
+            const leaseData = permittedFields("lease", req.body.find((lease) => lease.id === currentLease.id));
+            const newLease = {...currentLease, ...leaseData};
+
+            if (hasPaymentSchedule(newLease) && changesScheduleTerms(currentLease, leaseData) &&
+                hasScheduleChanges(diffPaymentSchedule(currentLease.paymentSchedule, await loadPriceIndex(newLease)))) {
+                scheduleChanges.push(currentLease.id);
+            }
+        }
+
+        if (scheduleChanges.length) {
+            return res.status(409).json({
+                message: "The new status changes the payment schedule of some leases, please change them one at a time",
+                code: "SCHEDULE_CHANGES",
+                leaseIds: scheduleChanges
+            });
+        }
+
         const updatedLeases = await prisma.$transaction(req.body.map(lease => {
             return prisma.lease.update({
                 where: {
                     id: lease.id,
-                    realtor: {
-                        userId: req.user.userId
-                    }
+                    ...scopeOf(req.actor, "lease")
                 },
-                data: lease
+                data: permittedFields("lease", lease)
             })
         }))
 
@@ -150,16 +491,22 @@ export async function updateManyLeases(req, res) {
 
 export async function deleteManyLeases(req, res) {
     try {
-        const deletedLeases = await prisma.$transaction(req.body.map(lease => {
-            return prisma.lease.delete({
-                where: {
-                    id: lease.id,
-                    realtor: {
-                        userId: req.user.userId
+        const deletedLeases = await prisma.$transaction(async (tx) => {
+            const leases = [];
+
+            for (const lease of req.body) {
+                await reverseLeaseLedger(lease.id, tx);
+
+                leases.push(await tx.lease.delete({
+                    where: {
+                        id: lease.id,
+                        ...scopeOf(req.actor, "lease")
                     }
-                }
-            })
-        }))
+                }));
+            }
+
+            return leases;
+        });
 
         res.status(200).json({data: deletedLeases });
     }
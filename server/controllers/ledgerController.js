@@ -0,0 +1,132 @@
+import prisma from '../prisma.js';
+import {findAuthorized, scopeOf} from "../services/policyService.js";
+import {getLeaseBalances, getLedgerReport, postManualTransaction, reverseTransaction} from "../services/ledgerService.js";
+
+// Ledger of the realtor, see services/ledgerService.js. Transactions are never changed or deleted, manual ones are
+// corrected by reversing them
+
+
+const transactionInclude = {
+    entries: true,
+    lease: {
+        include: {
+            tenant: true
+        }
+    },
+    unit: true,
+    user: {
+        select: {
+            firstName: true,
+            lastName: true,
+            email: true
+        }
+    },
+    reversal: {
+        select: {
+            id: true
+        }
+    }
+}
+
+export async function getLedgerTransactions(req, res) {
+    const {currency, propertyId, leaseId, from, to} = req.query;
+
+    try {
+        const transactions = await prisma.ledgerTransaction.findMany({
+            where: {
+                ...scopeOf(req.actor, "ledger"),
+                ...(currency ? { currency: currency } : {}),
+                ...(propertyId ? { unit: { realEstateObjectId: propertyId } } : {}),
+                ...(leaseId ? { leaseId: leaseId } : {}),
+                ...(from || to ? {
+                    date: {
+                        ...(from ? { gte: new Date(from) } : {}),
+                        ...(to ? { lte: new Date(to) } : {})
+                    }
+                } : {})
+            },
+            include: transactionInclude,
+            orderBy: [
+                { date: "desc" },
+                { id: "desc" }
+            ]
+        });
+
+        res.status(200).json({data: transactions });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting ledger transactions" });
+    }
+}
+
+// Balances, income statement and balance sheet of one currency, optionally of one property
+export async function getReport(req, res) {
+    try {
+        const report = await getLedgerReport(req.workspace.realtorId, req.query);
+
+        res.status(200).json({data: report });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting ledger report" });
+    }
+}
+
+export async function getLeaseLedgerBalances(req, res) {
+    try {
+        const balances = await getLeaseBalances(req.workspace.realtorId, req.query);
+
+        res.status(200).json({data: balances });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting lease balances" });
+    }
+}
+
+// The lease (if provided) is checked by the policy
+export async function createLedgerTransaction(req, res) {
+    try {
+        const transaction = await postManualTransaction(req.workspace.realtorId, req.body, req.user.userId);
+
+        res.status(200).json({data: transaction });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating ledger transaction" });
+    }
+}
+
+// Only manual transactions are reversed by hand, the others follow their charge, payment, deposit or expense
+export async function reverseLedgerTransaction(req, res) {
+    try {
+        const transaction = await findAuthorized(req.actor, "ledger", req.params.id, {
+            include: {
+                entries: true
+            }
+        });
+
+        if (!transaction) {
+            return res.status(404).json({ message: "Ledger transaction not found" });
+        }
+        if (transaction.sourceType !== "MANUAL") {
+            return res.status(400).json({ message: "Only manual transactions can be reversed, change their source instead" });
+        }
+        if (transaction.reversalOfId) {
+            return res.status(409).json({ message: "Reversals can not be reversed" });
+        }
+
+        const reversal = await reverseTransaction(transaction, req.user.userId);
+
+        if (!reversal) {
+            return res.status(409).json({ message: "The transaction has already been reversed" });
+        }
+
+        res.status(200).json({data: reversal, message: "Transaction reversed" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error reversing ledger transaction" });
+    }
+}
@@ -1,18 +1,18 @@
 import prisma from '../prisma.js';
+import {permittedFields, scopeOf} from "../services/policyService.js";
 
-// When report is created by Realtor
+// When report is created by Realtor, the unit and reporter (if provided) are checked by the policy
 export async function createMaintenanceReport(req, res) {
     try {
-        const userId = req.user.userId;
         const {unitId, reporterId} = req.body;
         delete req.body.unitId;
         delete req.body.reporterId;
         const newMaintenanceReport = await prisma.maintenanceRequest.create({
             data: {
-                ...req.body,
+                ...permittedFields("maintenance", req.body),
                 realtor: {
                     connect: {
-                        userId: userId
+                        id: req.workspace.realtorId
                     }
                 },
                 unit: {
@@ -35,23 +35,8 @@ export async function createMaintenanceReport(req, res) {
 
 export async function getMaintenanceReports(req, res) {
     try {
-        const userId = req.user.userId;
-
         const maintenanceReports = await prisma.maintenanceRequest.findMany({
-            where: {
-                OR: [
-                    {
-                        realtor: {
-                            userId: userId
-                        }
-                    },
-                    {
-                        reporter: {
-                            userId: userId
-                        }
-                    }
-                ]
-            }
+            where: scopeOf(req.actor, "maintenance")
         })
 
         res.status(200).json({data: maintenanceReports });
@@ -0,0 +1,436 @@
+import bcrypt from 'bcryptjs';
+import prisma from '../prisma.js';
+import {sendEmail} from "../services/mailService.js";
+import {consumeEmailToken, createEmailToken, findValidEmailToken} from "../services/tokenService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
+
+// Realtors share their organization with colleagues. Invited members either link their existing account
+// or get a new User with the GUEST role that only works in the organizations it was invited to
+
+const ORGANIZATION_ROLES = ["OWNER", "MANAGER", "BOOKKEEPER", "READ_ONLY"];
+
+const memberSelect = {
+    id: true,
+    createdAt: true,
+    role: true,
+    email: true,
+    userId: true,
+    user: {
+        select: {
+            firstName: true,
+            lastName: true,
+            email: true,
+            twoFactorEnabled: true
+        }
+    }
+}
+
+
+function memberInvitationEmail(organization, inviter, link) {
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") || inviter?.email;
+
+    return `
+        <h2>Hello,</h2>
+        <p>${escapeHtml(inviterName)} has invited you to join ${escapeHtml(organization.name)} on Realtor Rocket.</p>
+        <p><a href="${escapeHtml(link)}">Join the organization</a></p>
+        <p>The link is valid for 7 days.</p>
+    `;
+}
+
+// An organization needs at least one owner, changing or removing the last one is not allowed.
+// Pending invitations don't count as owners
+async function isLastOwner(member) {
+    if (member.role !== "OWNER" || !member.userId) {
+        return false;
+    }
+
+    const owners = await prisma.organizationMember.count({
+        where: {
+            organizationId: member.organizationId,
+            role: "OWNER",
+            userId: {
+                not: null
+            }
+        }
+    });
+
+    return owners <= 1;
+}
+
+async function findMember(req) {
+    return prisma.organizationMember.findFirst({
+        where: {
+            id: parseInt(req.params.id),
+            organizationId: req.workspace.organizationId
+        }
+    });
+}
+
+// Organizations the user can switch to, admins get every organization
+export async function getOrganizations(req, res) {
+    try {
+        if (req.user.role === "ADMIN") {
+            const organizations = await prisma.organization.findMany({
+                orderBy: {
+                    name: "asc"
+                }
+            });
+
+            return res.status(200).json({data: organizations.map((organization) => ({...organization, role: "OWNER"}))});
+        }
+
+        const memberships = await prisma.organizationMember.findMany({
+            where: {
+                userId: req.user.userId
+            },
+            include: {
+                organization: true
+            },
+            orderBy: {
+                createdAt: "asc"
+            }
+        });
+
+        res.status(200).json({data: memberships.map((membership) => ({...membership.organization, role: membership.role}))});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting organizations" });
+    }
+}
+
+export async function getOrganization(req, res) {
+    try {
+        const organization = await prisma.organization.findUnique({
+            where: {
+                id: req.workspace.organizationId
+            },
+            include: {
+                members: {
+                    select: memberSelect,
+                    orderBy: {
+                        createdAt: "asc"
+                    }
+                }
+            }
+        });
+
+        res.status(200).json({data: {...organization, role: req.workspace.role}});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting organization" });
+    }
+}
+
+// Owners that require two-factor authentication need to use it themselves, otherwise they would lock themselves out
+export async function updateOrganization(req, res) {
+    try {
+        const {name, requireTwoFactor, renewalNoticeDays, renewalRentIncrease} = req.body;
+
+        if (name !== undefined && !name) {
+            return res.status(400).json({ message: "Name is required" });
+        }
+
+        if (requireTwoFactor) {
+            const user = await prisma.user.findUnique({
+                where: {
+                    id: req.user.userId
+                }
+            });
+
+            if (!user?.twoFactorEnabled) {
+                return res.status(409).json({ message: "Enable two-factor authentication for your account first" });
+            }
+        }
+
+        const organization = await prisma.organization.update({
+            where: {
+                id: req.workspace.organizationId
+            },
+            data: {
+                name: name,
+                requireTwoFactor: requireTwoFactor === undefined ? undefined : !!requireTwoFactor,
+                renewalNoticeDays: renewalNoticeDays,
+                renewalRentIncrease: renewalRentIncrease
+            }
+        });
+
+        res.status(200).json({data: organization});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating organization" });
+    }
+}
+
+// Creates the member right away, it is linked to a User once the invitation is accepted.
+// Inviting the same address again sends a new link and invalidates the old one
+export async function inviteMember(req, res) {
+    try {
+        const {email, role} = req.body;
+
+        if (!email) {
+            return res.status(400).json({ message: "Email is required" });
+        }
+        if (!ORGANIZATION_ROLES.includes(role)) {
+            return res.status(400).json({ message: "Invalid role" });
+        }
+
+        const existingMember = await prisma.organizationMember.findUnique({
+            where: {
+                organizationId_email: {
+                    organizationId: req.workspace.organizationId,
+                    email: email
+                }
+            }
+        });
+
+        if (existingMember?.userId) {
+            return res.status(409).json({ message: "User is already a member of this organization" });
+        }
+
+        const member = existingMember ? await prisma.organizationMember.update({
+            where: {
+                id: existingMember.id
+            },
+            data: {
+                role: role
+            },
+            select: memberSelect
+        }) : await prisma.organizationMember.create({
+            data: {
+                email: email,
+                role: role,
+                organization: {
+                    connect: {
+                        id: req.workspace.organizationId
+                    }
+                }
+            },
+            select: memberSelect
+        });
+
+        const [organization, inviter] = await Promise.all([
+            prisma.organization.findUnique({
+                where: {
+                    id: req.workspace.organizationId
+                }
+            }),
+            prisma.user.findUnique({
+                where: {
+                    id: req.user.userId
+                },
+                select: {
+                    firstName: true,
+                    lastName: true,
+                    email: true
+                }
+            })
+        ]);
+
+        const token = await createEmailToken("EMAIL_CONFIRMATION", {memberId: member.id});
+        // eslint-disable-next-line no-undef
+        const link = `${process.env.VITE_PUBLIC_URL}/join/${token}`;
+
+        const result = await sendEmail(email, `Join ${organization.name} on Realtor Rocket`, memberInvitationEmail(organization, inviter, link));
+
+        if (!result || result instanceof Error || result.error) {
+            return res.status(500).json({ message: "Error sending invitation" });
+        }
+
+        res.status(200).json({data: member, message: "Invitation sent"});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error inviting member" });
+    }
+}
+
+export async function updateMember(req, res) {
+    try {
+        const {role} = req.body;
+
+        if (!ORGANIZATION_ROLES.includes(role)) {
+            return res.status(400).json({ message: "Invalid role" });
+        }
+
+        const member = await findMember(req);
+
+        if (!member) {
+            return res.status(404).json({ message: "Member not found" });
+        }
+        if (role !== "OWNER" && await isLastOwner(member)) {
+            return res.status(409).json({ message: "The organization needs at least one owner" });
+        }
+
+        const updatedMember = await prisma.organizationMember.update({
+            where: {
+                id: member.id
+            },
+            data: {
+                role: role
+            },
+            select: memberSelect
+        });
+
+        res.status(200).json({data: updatedMember});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating member" });
+    }
+}
+
+// Owners can remove every member, everybody else can only leave the organization
+export async function removeMember(req, res) {
+    try {
+        const member = await findMember(req);
+
+        if (!member) {
+            return res.status(404).json({ message: "Member not found" });
+        }
+        if (req.workspace.role !== "OWNER" && member.userId !== req.user.userId) {
+            return res.status(403).json({ message: "Insufficient permissions" });
+        }
+        if (await isLastOwner(member)) {
+            return res.status(409).json({ message: "The organization needs at least one owner" });
+        }
+
+        await prisma.organizationMember.delete({
+            where: {
+                id: member.id
+            }
+        });
+
+        res.status(200).json({ message: "Member removed" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error removing member" });
+    }
+}
+
+async function findInvitedMember(token) {
+    const storedToken = await findValidEmailToken(token, "EMAIL_CONFIRMATION");
+
+    const member = storedToken?.memberId ? await prisma.organizationMember.findUnique({
+        where: {
+            id: storedToken.memberId
+        },
+        include: {
+            organization: true
+        }
+    }) : null;
+
+    if (!member || member.userId) {
+        return {};
+    }
+
+    return {token: storedToken, member};
+}
+
+// Public, tells the invitation page whether the invited address already has an account
+export async function getMemberInvitation(req, res) {
+    try {
+        const {member} = await findInvitedMember(req.params.token);
+
+        if (!member) {
+            return res.status(404).json({ message: "Invitation not found or expired" });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: {
+                email: member.email
+            }
+        });
+
+        res.status(200).json({data: {
+            email: member.email,
+            role: member.role,
+            organization: member.organization.name,
+            hasAccount: !!user
+        }});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting invitation" });
+    }
+}
+
+// Public, existing users confirm with their password, everybody else gets a new GUEST account
+export async function acceptMemberInvitation(req, res) {
+    const {password, firstName, lastName} = req.body;
+
+    try {
+        const {token, member} = await findInvitedMember(req.params.token);
+
+        if (!member) {
+            return res.status(404).json({ message: "Invitation not found or expired" });
+        }
+        if (!password) {
+            return res.status(400).json({ message: "Password is required" });
+        }
+
+        const existingUser = await prisma.user.findUnique({
+            where: {
+                email: member.email
+            }
+        });
+
+        if (existingUser && !await bcrypt.compare(password, existingUser.password)) {
+            return res.status(401).json({ message: "Invalid password" });
+        }
+        if (existingUser?.role === "TENANT") {
+            return res.status(409).json({ message: "Tenant accounts can not join an organization" });
+        }
+
+        const salt = existingUser ? null : await bcrypt.genSalt(12);
+        const hashedPassword = existingUser ? null : await bcrypt.hash(password, salt);
+
+        const user = await prisma.$transaction(async (tx) => {
+            if (!await consumeEmailToken(token.id, tx)) {
+                throw new Error("Invitation already used");
+            }
+
+            const user = existingUser ?? await tx.user.create({
+                data: {
+                    email: member.email,
+                    firstName: firstName,
+                    lastName: lastName,
+                    name: [firstName, lastName].filter(Boolean).join(" "),
+                    password: hashedPassword,
+                    salt: salt,
+                    role: 'GUEST',
+                }
+            });
+
+            await tx.organizationMember.update({
+                where: {
+                    id: member.id
+                },
+                data: {
+                    user: {
+                        connect: {
+                            id: user.id
+                        }
+                    }
+                }
+            });
+
+            return user;
+        });
+
+        res.status(200).json({message: `You joined ${member.organization.name}`, data: {email: user.email, organizationId: member.organizationId}});
+    }
+    catch (error) {
+        if (error.code === 'P2002') {
+            return res.status(409).json({message: 'User with that email already exists'});
+        }
+        if (error.message === "Invitation already used") {
+            return res.status(404).json({ message: "Invitation not found or expired" });
+        }
+        console.log(error)
+        res.status(500).json({ message: "Error accepting invitation" });
+    }
+}
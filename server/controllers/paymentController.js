@@ -1,84 +1,124 @@
 import prisma from '../prisma.js';
+import {findAuthorized, permittedFields, scopeOf} from "../services/policyService.js";
+import {recordLateFeeWaivers} from "../services/lateFeeService.js";
+import {isLeaseParty} from "../services/leasePartyService.js";
+import {createAllocations, reconcileAllocations} from "../services/allocationService.js";
+import {reviewPayment} from "../services/paymentReviewService.js";
+import {syncLeaseLedger} from "../services/ledgerService.js";
+import {sendEmail} from "../services/mailService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
+
+// Allocations and the ledger follow every change of the payments and charges of a lease, see
+// services/allocationService.js and services/ledgerService.js
+async function reconcileLeases(leaseIds) {
+    for (const leaseId of new Set(leaseIds.filter(Boolean))) {
+        await prisma.$transaction(async (tx) => {
+            await reconcileAllocations(leaseId, tx);
+            await syncLeaseLedger(leaseId, tx);
+        });
+    }
+}
+
+// Reported payments leave the approval queue only by approving or rejecting them
+function changesReportedStatus(payment, data) {
+    return payment?.status === "REPORTED" && data.status !== undefined && data.status !== "REPORTED";
+}
+
+function paymentReviewEmail(payment, approve, realtorUser) {
+    const realtorName = [realtorUser?.firstName, realtorUser?.lastName].filter(Boolean).join(" ") || realtorUser?.email;
+    const tenant = payment.tenant ?? payment.lease?.tenant;
+    const formatDate = (date) => date ? new Date(date).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" }) : "-";
+
+    return `
+        <h2>Hello ${escapeHtml(tenant?.firstName)},</h2>
+        <p>${escapeHtml(realtorName)} ${approve ? "approved" : "rejected"} the payment of ${payment.amount} ${escapeHtml(payment.currency)} from ${formatDate(payment.date)}
+        you reported for ${escapeHtml(payment.lease?.unit?.unitIdentifier ?? "your lease")}.</p>
+        ${payment.reviewNote ? `<p>${escapeHtml(payment.reviewNote)}</p>` : ""}
+        <p>${approve ? "It is recorded as paid." : "Please contact your realtor if you think this is a mistake."}</p>
+    `;
+}
 
-async function createPaymentCore(data, user) {
+async function createPaymentCore(data, actor) {
     try {
-        const { leaseId, tenantId } = data;
+        const { leaseId, tenantId, allocations } = data;
         const paymentData = data;
-        const newLeasePaymentSchedule = paymentData.leasePaymentSchedule;
-        delete paymentData.leasePaymentSchedule;
+        delete paymentData.allocations;
         delete paymentData.leaseId;
         delete paymentData.tenantId;
 
-        // Check if the submitter is the tenant or realtor
-        const lease = await prisma.lease.findUnique({
-            where: {
-                id: leaseId
-            },
-            include: {
-                realtor: true
-            }
-        });
-
-        let approvalDate;
+        // Payments can only be added to leases of the organization, they are approved right away
+        const lease = await findAuthorized(actor, "lease", leaseId);
 
-        if (lease.realtor.userId === user.userId) {
-            approvalDate = new Date();
+        if (!lease) {
+            return { status: 404, message: "Lease not found" };
         }
 
-        const newPayment = await prisma.rentPayment.create({
-            data: {
-                ...paymentData,
-                submittedBy: user.userId,
-                submissionDate: new Date(),
-                approvalDate: approvalDate,
-                lease: {
-                    connect: {
-                        id: leaseId
-                    }
-                },
-                /*
-                tenant: {
-                    connect: {
-                        id: tenantId
-                    }
-                 */
-            }});
+        // Payments can be attributed to any party of the lease, without a party they belong to the lease only
+        if (tenantId && !await isLeaseParty(lease.id, tenantId)) {
+            return { status: 400, message: "The tenant is no party of the lease" };
+        }
 
-        if (newLeasePaymentSchedule) {
-            const paymentSchedule = await prisma.leasePaymentSchedule.findUnique({
+        // Payments can only pay charges of their own lease, and not more than their amount
+        if (allocations?.length) {
+            const scheduleIds = [...new Set(allocations.map((allocation) => allocation.scheduleId))];
+            const scheduleCount = await prisma.leasePaymentSchedule.count({
                 where: {
-                    id: Number(newLeasePaymentSchedule.id),
-                },
-                include: {
-                    lease: {
-                        include: {
-                            realtor: true
-                        }
-                    }
+                    id: {
+                        in: scheduleIds
+                    },
+                    leaseId: lease.id
                 }
             });
 
-            if (paymentSchedule.lease.realtor.userId !== user.userId) {
-                return { status: 403, message: "Unauthorized to update payment" };
+            if (scheduleCount !== scheduleIds.length || scheduleIds.length !== allocations.length) {
+                return { status: 400, message: "The payment can only pay charges of its lease, each once" };
+            }
+            if (allocations.reduce((total, allocation) => total + allocation.amount, 0) > (paymentData.amount ?? 0)) {
+                return { status: 400, message: "The allocations exceed the amount of the payment" };
             }
+        }
+
+        // Payments the realtor records as reported wait in the approval queue like the ones of tenants
+        const approvalDate = paymentData.status === "REPORTED" ? null : new Date();
+
+        const newPayment = await prisma.$transaction(async (tx) => {
+            const payment = await tx.rentPayment.create({
+                data: {
+                    ...permittedFields("payment", paymentData),
+                    submittedBy: actor.user.userId,
+                    submissionDate: new Date(),
+                    approvalDate: approvalDate,
+                    unallocatedAmount: paymentData.amount ?? 0,
+                    lease: {
+                        connect: {
+                            id: leaseId
+                        }
+                    },
+                    ...(tenantId ? {
+                        tenant: {
+                            connect: {
+                                id: tenantId
+                            }
+                        }
+                    } : {})
+                }});
 
-            const updatedSchedule = await prisma.leasePaymentSchedule.update({
+            if (payment.status === "PAID") {
+                await createAllocations(tx, payment, allocations);
+            }
+
+            await reconcileAllocations(lease.id, tx);
+            await syncLeaseLedger(lease.id, tx);
+
+            return tx.rentPayment.findUnique({
                 where: {
-                    id: newLeasePaymentSchedule.id
+                    id: payment.id
                 },
-                data: {
-                    status: newLeasePaymentSchedule.status,
-                    amountDue: newLeasePaymentSchedule.amountDue
+                include: {
+                    allocations: true
                 }
             });
-
-            if (updatedSchedule && newPayment) {
-                return { status: 200, data: newPayment };
-            }
-            else {
-                return { status: 500, message: "Error creating payment" };
-            }
-        }
+        });
 
         return { status: 200, data: newPayment };
     }
@@ -91,7 +131,7 @@ async function createPaymentCore(data, user) {
 
 export async function createPayment(req, res) {
     try {
-        const newPayment = await createPaymentCore(req.body, req.user);
+        const newPayment = await createPaymentCore(req.body, req.actor);
         res.status(newPayment.status).json(newPayment);
     }
     catch (error) {
@@ -103,16 +143,19 @@ export async function createPayment(req, res) {
 export async function getPayments(req, res) {
     try {
         const payments = await prisma.rentPayment.findMany({
-            where: {
-                lease: {
-                    realtor: {
-                        userId: req.user.userId
-                    }
-                }
-            },
+            where: scopeOf(req.actor, "payment"),
             include: {
                 lease: true,
-                tenant: true
+                tenant: true,
+                allocations: true,
+                proof: true,
+                reviewedBy: {
+                    select: {
+                        firstName: true,
+                        lastName: true,
+                        email: true
+                    }
+                }
             }
         });
 
@@ -128,25 +171,17 @@ export async function getPayments(req, res) {
 export async function updatePayment(req, res) {
     try {
         const { id } = req.params;
-        const paymentData = req.body;
+        // Only the amount, date, status etc. can be changed, never the lease or submitter
+        const paymentData = permittedFields("payment", req.body);
 
         const payment = await prisma.rentPayment.findUnique({
             where: {
                 id: Number(id)
-            },
-            include: {
-                lease: {
-                    include: {
-                        realtor: true
-                    }
-                }
             }
         });
 
-        // Make sure that either lease or submitter is user
-        if (Number(payment.submittedBy) !== req.user.userId && payment.lease.realtor.userId !== req.user.userId) {
-            res.status(403).json({ message: "Unauthorized to update payment" });
-            return;
+        if (changesReportedStatus(payment, paymentData)) {
+            return res.status(400).json({ message: "Reported payments are approved or rejected" });
         }
 
         const updatedPayment = await prisma.rentPayment.update({
@@ -158,6 +193,8 @@ export async function updatePayment(req, res) {
             }
         });
 
+        await reconcileLeases([updatedPayment.leaseId]);
+
         res.status(200).json({data: updatedPayment });
     }
     catch (error) {
@@ -166,35 +203,71 @@ export async function updatePayment(req, res) {
     }
 }
 
-export async function deletePayment(req, res) {
+// Approves or rejects a payment of the approval queue and lets the tenant know by email
+async function review(req, res, approve) {
     try {
-        const { id } = req.params;
+        const payment = await findAuthorized(req.actor, "payment", req.params.id);
 
-        const payment = await prisma.rentPayment.findUnique({
-            where: {
-                id: Number(id)
-            },
-            include: {
-                lease: {
-                    include: {
-                        realtor: true
-                    }
+        if (!payment) {
+            return res.status(404).json({ message: "Payment not found" });
+        }
+        if (payment.status !== "REPORTED") {
+            return res.status(409).json({ message: "The payment has already been reviewed" });
+        }
+
+        const reviewedPayment = await reviewPayment(payment, approve, req.body.note, req.user.userId);
+
+        if (!reviewedPayment) {
+            return res.status(409).json({ message: "The payment has already been reviewed" });
+        }
+
+        const tenant = reviewedPayment.tenant ?? reviewedPayment.lease?.tenant;
+
+        if (tenant?.email) {
+            const realtorUser = await prisma.user.findUnique({
+                where: {
+                    id: req.user.userId
+                },
+                select: {
+                    firstName: true,
+                    lastName: true,
+                    email: true
                 }
-            }
-        });
+            });
 
-        // Make sure that either lease or submitter is user
-        if (Number(payment.submittedBy) !== req.user.userId && payment.lease.realtor.userId !== req.user.userId) {
-            res.status(403).json({ message: "Unauthorized to delete payment" });
-            return;
+            // The decision is made, the tenant sees it in the portal if the email can not be sent
+            const subject = approve ? "Your payment was approved" : "Your payment was rejected";
+            await sendEmail(tenant.email, subject, paymentReviewEmail(reviewedPayment, approve, realtorUser));
         }
 
-        await prisma.rentPayment.delete({
+        res.status(200).json({data: reviewedPayment, message: approve ? "Payment approved" : "Payment rejected" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error reviewing payment" });
+    }
+}
+
+export async function approvePayment(req, res) {
+    return review(req, res, true);
+}
+
+export async function rejectPayment(req, res) {
+    return review(req, res, false);
+}
+
+export async function deletePayment(req, res) {
+    try {
+        const { id } = req.params;
+
+        const deletedPayment = await prisma.rentPayment.delete({
             where: {
                 id: Number(id)
             }
         });
 
+        await reconcileLeases([deletedPayment.leaseId]);
+
         res.status(200).json({ message: "Payment deleted" });
     }
     catch (error) {
@@ -206,26 +279,7 @@ export async function deletePayment(req, res) {
 export async function updatePaymentSchedule(req, res){
     try {
         const { id } = req.params;
-        const paymentScheduleData = req.body;
-
-        const paymentSchedule = await prisma.leasePaymentSchedule.findUnique({
-            where: {
-                id: Number(id)
-            },
-            include: {
-                lease: {
-                    include: {
-                        realtor: true
-                    }
-                }
-            }
-        });
-
-        // Make sure that either lease or submitter is user
-        if (paymentSchedule.lease.realtor.userId !== req.user.userId) {
-            res.status(403).json({ message: "Unauthorized to update payment" });
-            return;
-        }
+        const paymentScheduleData = permittedFields("paymentSchedule", req.body);
 
         const updatedPaymentSchedule = await prisma.leasePaymentSchedule.update({
             where: {
@@ -236,6 +290,9 @@ export async function updatePaymentSchedule(req, res){
             }
         });
 
+        await recordLateFeeWaivers([updatedPaymentSchedule], req.user.userId);
+        await reconcileLeases([updatedPaymentSchedule.leaseId]);
+
         res.status(200).json({data: updatedPaymentSchedule });
     }
     catch (error) {
@@ -248,30 +305,13 @@ export async function deletePaymentSchedule(req, res) {
     try {
         const { id } = req.params;
 
-        const paymentSchedule = await prisma.leasePaymentSchedule.findUnique({
+        const deletedPaymentSchedule = await prisma.leasePaymentSchedule.delete({
             where: {
                 id: Number(id)
-            },
-            include: {
-                lease: {
-                    include: {
-                        realtor: true
-                    }
-                }
             }
         });
 
-        // Make sure that either lease or submitter is user
-        if (paymentSchedule.lease.realtor.userId !== req.user.userId) {
-            res.status(403).json({ message: "Unauthorized to delete payment" });
-            return;
-        }
-
-        await prisma.leasePaymentSchedule.delete({
-            where: {
-                id: Number(id)
-            }
-        });
+        await reconcileLeases([deletedPaymentSchedule.leaseId]);
 
         res.status(200).json({ message: "Payment Schedule deleted" });
     }
@@ -282,7 +322,7 @@ export async function deletePaymentSchedule(req, res) {
 }
 
 
-// TODO: PaymentSchedules don't have creator and dont necessarily have lease, so currently impossible to connect to user
+// Access to all payment schedules of the body is checked by the policy
 export async function updateManyPaymentSchedules(req, res) {
     try {
         const updatedPaymentSchedules = await prisma.$transaction(req.body.map(paymentSchedule => {
@@ -290,12 +330,13 @@ export async function updateManyPaymentSchedules(req, res) {
                 where: {
                     id: paymentSchedule.id
                 },
-                data: {
-                    ...paymentSchedule
-                }
+                data: permittedFields("paymentSchedule", paymentSchedule)
             });
         }))
 
+        await recordLateFeeWaivers(updatedPaymentSchedules, req.user.userId);
+        await reconcileLeases(updatedPaymentSchedules.map((paymentSchedule) => paymentSchedule.leaseId));
+
         res.status(200).json({data: updatedPaymentSchedules });
     }
     catch (error) {
@@ -314,6 +355,8 @@ export async function deleteManyPaymentSchedules(req, res) {
             });
         }))
 
+        await reconcileLeases(deletedPaymentSchedules.map((paymentSchedule) => paymentSchedule.leaseId));
+
         res.status(200).json({ data: deletedPaymentSchedules });
     }
     catch (error) {
@@ -332,7 +375,7 @@ export async function createManyPayments(req, res) {
     try {
 
         for (const payment of req.body) {
-            const newPayment = await createPaymentCore(payment, req.user);
+            const newPayment = await createPaymentCore(payment, req.actor);
             if (newPayment.status === 200) {
                 successCount++;
                 newPayments.push(newPayment.data);
@@ -349,17 +392,30 @@ export async function createManyPayments(req, res) {
 
 export async function updateManyPayments(req, res) {
     try {
+        const reportedPayments = await prisma.rentPayment.findMany({
+            where: {
+                id: {
+                    in: req.body.map((payment) => payment.id)
+                },
+                status: "REPORTED"
+            }
+        });
+
+        if (req.body.some((payment) => changesReportedStatus(reportedPayments.find((reported) => reported.id === payment.id), payment))) {
+            return res.status(400).json({ message: "Reported payments are approved or rejected" });
+        }
+
         const updatedPayments = await prisma.$transaction(req.body.map(payment => {
             return prisma.rentPayment.update({
                 where: {
                     id: payment.id
                 },
-                data: {
-                    ...payment
-                }
+                data: permittedFields("payment", payment)
             });
         }))
 
+        await reconcileLeases(updatedPayments.map((payment) => payment.leaseId));
+
         res.status(200).json({data: updatedPayments });
     }
     catch (error) {
@@ -378,6 +434,8 @@ export async function deleteManyPayments(req, res) {
             });
         }))
 
+        await reconcileLeases(deletedPayments.map((payment) => payment.leaseId));
+
         res.status(200).json({ data: deletedPayments });
     }
     catch (error) {
@@ -0,0 +1,226 @@
+import prisma from '../prisma.js';
+import {findAuthorized, scopeOf} from "../services/policyService.js";
+import {storePaymentProof} from "../services/paymentReviewService.js";
+
+// Endpoints of the tenant portal, the caller is always a User with the TENANT role and only sees data of their own Tenant record.
+// What that data is, is defined by the policies of the resources
+
+export async function getLeases(req, res) {
+    try {
+        const leases = await prisma.lease.findMany({
+            where: scopeOf(req.actor, "lease"),
+            include: {
+                unit: {
+                    include: {
+                        realEstateObject: true
+                    }
+                },
+                paymentSchedule: {
+                    include: {
+                        allocations: true
+                    },
+                    orderBy: {
+                        dueDate: "asc"
+                    }
+                },
+                rentPayments: true,
+                deposit: {
+                    include: {
+                        deductions: true
+                    }
+                },
+                documents: {
+                    select: {
+                        id: true,
+                        name: true,
+                        documentType: true,
+                        createdAt: true
+                    }
+                },
+                // Only expose the contact details of the realtor
+                realtor: {
+                    select: {
+                        User: {
+                            select: {
+                                id: true,
+                                firstName: true,
+                                lastName: true,
+                                email: true,
+                                phone: true,
+                                company: true
+                            }
+                        }
+                    }
+                }
+            },
+            orderBy: {
+                startDate: "desc"
+            }
+        });
+
+        res.status(200).json({data: leases });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting leases" });
+    }
+}
+
+export async function getPayments(req, res) {
+    try {
+        const payments = await prisma.rentPayment.findMany({
+            where: scopeOf(req.actor, "payment"),
+            include: {
+                lease: {
+                    include: {
+                        unit: true
+                    }
+                },
+                proof: true
+            },
+            orderBy: {
+                date: "desc"
+            }
+        });
+
+        res.status(200).json({data: payments });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting payments" });
+    }
+}
+
+// Payments reported by tenants stay REPORTED until the realtor approves or rejects them, see
+// services/paymentReviewService.js. The proof the tenant attaches is stored as a document of the lease
+export async function reportPayment(req, res) {
+    try {
+        const {leaseId, amount, date, paymentMethod, notes, proof} = req.body;
+
+        const lease = await findAuthorized(req.actor, "lease", leaseId);
+
+        if (!lease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        const newPayment = await prisma.$transaction(async (tx) => {
+            const proofDocument = proof ? await storePaymentProof(proof, lease, req.user.userId, tx) : null;
+
+            return tx.rentPayment.create({
+                data: {
+                    amount: amount,
+                    date: date,
+                    paymentMethod: paymentMethod,
+                    notes: notes,
+                    currency: lease.currency,
+                    status: "REPORTED",
+                    unallocatedAmount: amount,
+                    submittedBy: req.user.userId,
+                    submissionDate: new Date(),
+                    lease: {
+                        connect: {
+                            id: lease.id
+                        }
+                    },
+                    // Attributed to the party that reported it
+                    tenant: {
+                        connect: {
+                            userId: req.user.userId
+                        }
+                    },
+                    ...(proofDocument ? {
+                        proof: {
+                            connect: {
+                                id: proofDocument.id
+                            }
+                        }
+                    } : {})
+                },
+                include: {
+                    proof: true
+                }
+            });
+        });
+
+        res.status(200).json({data: newPayment });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error reporting payment" });
+    }
+}
+
+export async function getMaintenanceRequests(req, res) {
+    try {
+        const maintenanceRequests = await prisma.maintenanceRequest.findMany({
+            where: scopeOf(req.actor, "maintenance"),
+            include: {
+                unit: true
+            },
+            orderBy: {
+                createdAt: "desc"
+            }
+        });
+
+        res.status(200).json({data: maintenanceRequests });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting maintenance requests" });
+    }
+}
+
+// Tenants can only open tickets for units they lease, the ticket is assigned to the realtor of that lease
+export async function createMaintenanceRequest(req, res) {
+    try {
+        const {unitId, title, category, priority, notes} = req.body;
+
+        const lease = await prisma.lease.findFirst({
+            where: {
+                unitId: Number(unitId),
+                ...scopeOf(req.actor, "lease")
+            },
+            orderBy: {
+                startDate: "desc"
+            }
+        });
+
+        if (!lease) {
+            return res.status(404).json({ message: "Unit not found" });
+        }
+
+        const newMaintenanceRequest = await prisma.maintenanceRequest.create({
+            data: {
+                title: title,
+                category: category,
+                priority: priority,
+                notes: notes,
+                status: "REPORTED",
+                realtor: {
+                    connect: {
+                        id: lease.realtorId
+                    }
+                },
+                unit: {
+                    connect: {
+                        id: lease.unitId
+                    }
+                },
+                reporter: {
+                    connect: {
+                        userId: req.user.userId
+                    }
+                }
+            },
+            include: {
+                unit: true
+            }
+        });
+
+        res.status(200).json({data: newMaintenanceRequest });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating maintenance request" });
+    }
+}
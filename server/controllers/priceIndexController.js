@@ -0,0 +1,25 @@
+import prisma from '../prisma.js';
+
+// Price indexes rents can escalate along, the values are needed for the rent timeline of leases
+export async function getPriceIndexes(req, res) {
+    try {
+        const priceIndexes = await prisma.priceIndex.findMany({
+            include: {
+                values: {
+                    orderBy: {
+                        date: "asc"
+                    }
+                }
+            },
+            orderBy: {
+                name: "asc"
+            }
+        });
+
+        res.status(200).json({data: priceIndexes });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting price indexes" });
+    }
+}
@@ -1,16 +1,13 @@
 import prisma from '../prisma.js';
 import {generateMultiUnitIdentifier, generateSingleUnitIdentifier} from "../util/generateUnitIdentifier.js";
+import {permittedFields, scopeOf} from "../services/policyService.js";
 
 
 export async function getProperties(req, res) {
     try {
         // Get this user's properties
         const properties = await prisma.realEstateObject.findMany({
-            where: {
-                realtor: {
-                    userId: req.user.userId
-                }
-            },
+            where: scopeOf(req.actor, "property"),
             orderBy: {
                 createdAt: "desc"
             },
@@ -71,7 +68,7 @@ export async function createProperty(req, res) {
                     ...req.body,
                     realtor: {
                         connect: {
-                            userId: req.user.userId
+                            id: req.workspace.realtorId
                         }
                     },
                     units: {
@@ -102,7 +99,8 @@ export async function getProperty(req, res) {
             },
             include: {
                 units: true,
-                images: true
+                images: true,
+                lateFeePolicy: true
             }
         });
 
@@ -147,13 +145,7 @@ export async function deleteProperty(req, res) {
 export async function getUnits(req, res) {
     try {
         const units = await prisma.unit.findMany({
-            where: {
-                realEstateObject: {
-                    realtor: {
-                        userId: req.user.userId
-                    }
-                }
-            },
+            where: scopeOf(req.actor, "unit"),
             orderBy: {
                 createdAt: "desc"
             },
@@ -191,6 +183,13 @@ export async function getUnit(req, res) {
                 },
                 images: true,
                 leases: {
+                    include: {
+                        parties: {
+                            include: {
+                                tenant: true
+                            }
+                        }
+                    },
                     orderBy: {
                         createdAt: "desc"
                     }
@@ -211,26 +210,11 @@ export async function getUnit(req, res) {
 
 export async function updateUnit(req, res) {
     try {
-        const unit = await prisma.unit.findUnique({
-            where: {
-                id: parseInt(req.params.id),
-                realEstateObject: {
-                    realtor: {
-                        userId: req.user.userId
-                    }
-                }
-            }
-        })
-
-        if (!unit) {
-            return res.status(404).json({ message: "Unit not found" });
-        }
-
         const updatedUnit = await prisma.unit.update({
             where: {
                 id: parseInt(req.params.id),
             },
-            data: req.body,
+            data: permittedFields("unit", req.body),
             include: {
                 realEstateObject: true,
                 images: true,
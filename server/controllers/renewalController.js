@@ -0,0 +1,272 @@
+import prisma from '../prisma.js';
+import {sendEmail} from "../services/mailService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
+import {findAuthorized, permittedFields, scopeOf} from "../services/policyService.js";
+import {
+    OPEN_OFFER_STATUSES,
+    acceptRenewalOffer as acceptOffer,
+    declineRenewalOffer as declineOffer,
+    findRenewalConflicts,
+    proposeRenewal
+} from "../services/renewalService.js";
+import {overlapConflict} from "../services/leaseService.js";
+
+// Renewal offers of leases. Realtors draft (or get drafted, see jobs/leaseRenewals.js), change and send offers and can record
+// the answer of the tenant themselves. Tenants answer the offers sent to them in the portal
+
+
+const offerInclude = {
+    lease: {
+        include: {
+            tenant: true,
+            unit: true
+        }
+    }
+}
+
+function renewalOfferEmail(offer, lease, realtorUser, link) {
+    const realtorName = [realtorUser?.firstName, realtorUser?.lastName].filter(Boolean).join(" ") || realtorUser?.email;
+    const formatDate = (date) => new Date(date).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" });
+
+    return `
+        <h2>Hello ${escapeHtml(lease.tenant?.firstName)},</h2>
+        <p>${escapeHtml(realtorName)} offers to renew your lease of ${escapeHtml(lease.unit?.unitIdentifier ?? "your unit")}, which ends on ${formatDate(lease.endDate)}.</p>
+        <p>New term: ${formatDate(offer.startDate)} to ${formatDate(offer.endDate)}<br/>
+        Rent: ${offer.rentalPrice} ${escapeHtml(lease.currency)} (${offer.paymentFrequency.toLowerCase()})</p>
+        ${offer.notes ? `<p>${escapeHtml(offer.notes)}</p>` : ""}
+        <p><a href="${escapeHtml(link)}">Accept or decline the offer</a></p>
+    `;
+}
+
+function hasValidTerm(offer) {
+    return new Date(offer.endDate) > new Date(offer.startDate);
+}
+
+export async function getRenewalOffers(req, res) {
+    try {
+        const offers = await prisma.leaseRenewalOffer.findMany({
+            where: scopeOf(req.actor, "renewalOffer"),
+            include: offerInclude,
+            orderBy: {
+                startDate: "asc"
+            }
+        });
+
+        res.status(200).json({data: offers });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting renewal offers" });
+    }
+}
+
+// Drafts an offer for the lease of the route, terms that are not given are proposed like the automatic offers
+export async function createRenewalOffer(req, res) {
+    try {
+        const lease = await findAuthorized(req.actor, "lease", req.params.id, {
+            include: {
+                nextLease: true,
+                renewalOffers: {
+                    where: {
+                        status: {
+                            in: OPEN_OFFER_STATUSES
+                        }
+                    }
+                }
+            }
+        });
+
+        if (!lease) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+        if (!lease.endDate || !lease.tenantId) {
+            return res.status(400).json({ message: "Only leases with a tenant and an end date can be renewed" });
+        }
+        if (lease.nextLease) {
+            return res.status(409).json({ message: "The lease has already been renewed" });
+        }
+        if (lease.renewalOffers.length) {
+            return res.status(409).json({ message: "The lease already has an open renewal offer" });
+        }
+
+        const organization = await prisma.organization.findUnique({
+            where: {
+                id: req.workspace.organizationId
+            }
+        });
+
+        const offer = {
+            ...proposeRenewal(lease, organization?.renewalRentIncrease ?? 0),
+            ...permittedFields("renewalOffer", req.body),
+        };
+
+        if (!hasValidTerm(offer)) {
+            return res.status(400).json({ message: "The end date has to be after the start date" });
+        }
+
+        const newOffer = await prisma.leaseRenewalOffer.create({
+            data: {
+                ...offer,
+                lease: {
+                    connect: {
+                        id: lease.id
+                    }
+                }
+            },
+            include: offerInclude
+        });
+
+        res.status(200).json({data: newOffer });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating renewal offer" });
+    }
+}
+
+// Offers can only be changed until they are sent
+export async function updateRenewalOffer(req, res) {
+    try {
+        const offer = await findAuthorized(req.actor, "renewalOffer", req.params.id);
+
+        if (!offer) {
+            return res.status(404).json({ message: "Renewal offer not found" });
+        }
+        if (offer.status !== "DRAFT") {
+            return res.status(409).json({ message: "Only drafts can be changed" });
+        }
+
+        const offerData = permittedFields("renewalOffer", req.body);
+
+        if (!hasValidTerm({...offer, ...offerData})) {
+            return res.status(400).json({ message: "The end date has to be after the start date" });
+        }
+
+        const updatedOffer = await prisma.leaseRenewalOffer.update({
+            where: {
+                id: offer.id
+            },
+            data: offerData,
+            include: offerInclude
+        });
+
+        res.status(200).json({data: updatedOffer });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error updating renewal offer" });
+    }
+}
+
+// Tenants with an account see the offer in the portal, tenants with an email address get it by email as well.
+// Sent offers can be sent again, e.g. as a reminder
+export async function sendRenewalOffer(req, res) {
+    try {
+        const offer = await findAuthorized(req.actor, "renewalOffer", req.params.id, {
+            include: offerInclude
+        });
+
+        if (!offer) {
+            return res.status(404).json({ message: "Renewal offer not found" });
+        }
+        if (!OPEN_OFFER_STATUSES.includes(offer.status)) {
+            return res.status(409).json({ message: "The renewal offer has already been answered" });
+        }
+
+        const tenant = offer.lease.tenant;
+
+        if (!tenant?.email && !tenant?.userId) {
+            return res.status(400).json({ message: "The tenant has neither an email address nor an account" });
+        }
+
+        if (tenant.email) {
+            const realtorUser = await prisma.user.findUnique({
+                where: {
+                    id: req.user.userId
+                },
+                select: {
+                    firstName: true,
+                    lastName: true,
+                    email: true
+                }
+            });
+
+            // eslint-disable-next-line no-undef
+            const link = `${process.env.VITE_PUBLIC_URL}/`;
+
+            const result = await sendEmail(tenant.email, "Your lease renewal offer", renewalOfferEmail(offer, offer.lease, realtorUser, link));
+
+            if (!result || result instanceof Error || result.error) {
+                return res.status(500).json({ message: "Error sending renewal offer" });
+            }
+        }
+
+        const sentOffer = await prisma.leaseRenewalOffer.update({
+            where: {
+                id: offer.id
+            },
+            data: {
+                status: "SENT",
+                sentAt: new Date()
+            },
+            include: offerInclude
+        });
+
+        res.status(200).json({data: sentOffer, message: "Renewal offer sent" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error sending renewal offer" });
+    }
+}
+
+// Realtors record answers they got in person, drafts can be accepted as well. Tenants answer sent offers only
+async function respond(req, res, accept) {
+    const fromStatuses = req.workspace ? OPEN_OFFER_STATUSES : ["SENT"];
+
+    try {
+        const offer = await findAuthorized(req.actor, "renewalOffer", req.params.id);
+
+        if (!offer) {
+            return res.status(404).json({ message: "Renewal offer not found" });
+        }
+        if (!fromStatuses.includes(offer.status)) {
+            return res.status(409).json({ message: "The renewal offer can not be answered anymore" });
+        }
+
+        if (!accept) {
+            if (!await declineOffer(offer, fromStatuses)) {
+                return res.status(409).json({ message: "The renewal offer can not be answered anymore" });
+            }
+
+            return res.status(200).json({ message: "Renewal offer declined" });
+        }
+
+        // The successor is checked like every new lease, the terms of the offer may have been changed
+        const conflicts = await findRenewalConflicts(offer);
+
+        if (conflicts.length) {
+            return res.status(409).json(overlapConflict(conflicts));
+        }
+
+        const lease = await acceptOffer(offer, fromStatuses);
+
+        if (!lease) {
+            return res.status(409).json({ message: "The renewal offer can not be answered anymore" });
+        }
+
+        res.status(200).json({data: lease, message: "Renewal offer accepted" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error answering renewal offer" });
+    }
+}
+
+export async function acceptRenewalOffer(req, res) {
+    return respond(req, res, true);
+}
+
+export async function declineRenewalOffer(req, res) {
+    return respond(req, res, false);
+}
@@ -0,0 +1,146 @@
+import {findAuthorized, scopeOf} from "../services/policyService.js";
+import {attachPdf, getLeaseStatement, getPaymentReceipt, getTenantStatement} from "../services/statementService.js";
+
+// Rent receipts and account statements, see services/statementService.js. GET requests download the PDF, POST
+// requests store it as a document of the lease
+
+
+function sendPdf(res, {fileName, content}) {
+    res.type("application/pdf");
+    res.attachment(fileName);
+    res.send(content);
+}
+
+// Receipts are only issued for paid payments
+async function findReceipt(req, res) {
+    const payment = await findAuthorized(req.actor, "payment", req.params.id);
+
+    if (!payment) {
+        res.status(404).json({ message: "Payment not found" });
+        return null;
+    }
+    if (payment.status !== "PAID") {
+        res.status(400).json({ message: "Receipts are only issued for paid payments" });
+        return null;
+    }
+
+    return getPaymentReceipt(payment.id);
+}
+
+export async function getPaymentReceiptFile(req, res) {
+    try {
+        const receipt = await findReceipt(req, res);
+
+        if (receipt) {
+            sendPdf(res, receipt);
+        }
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating receipt" });
+    }
+}
+
+export async function createPaymentReceiptDocument(req, res) {
+    try {
+        const receipt = await findReceipt(req, res);
+
+        if (!receipt) {
+            return;
+        }
+
+        const document = await attachPdf(receipt, "RECEIPT", receipt.lease, req.user.userId);
+
+        res.status(200).json({data: document, message: "Receipt saved to the documents of the lease" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error saving receipt" });
+    }
+}
+
+export async function getLeaseStatementFile(req, res) {
+    try {
+        const statement = await getLeaseStatement(parseInt(req.params.id), req.query);
+
+        if (!statement) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        sendPdf(res, statement);
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating statement" });
+    }
+}
+
+export async function createLeaseStatementDocument(req, res) {
+    try {
+        const statement = await getLeaseStatement(parseInt(req.params.id), req.body);
+
+        if (!statement) {
+            return res.status(404).json({ message: "Lease not found" });
+        }
+
+        const document = await attachPdf(statement, "STATEMENT", statement.lease, req.user.userId);
+
+        res.status(200).json({data: document, message: "Statement saved to the documents of the lease" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error saving statement" });
+    }
+}
+
+// Statements of tenants cover all of their leases with the realtor
+async function findTenantStatement(req, res, period) {
+    const tenant = await findAuthorized(req.actor, "tenant", req.params.id);
+
+    if (!tenant) {
+        res.status(404).json({ message: "Tenant not found" });
+        return null;
+    }
+
+    const statement = await getTenantStatement(tenant, scopeOf(req.actor, "lease"), period);
+
+    if (!statement) {
+        res.status(400).json({ message: "The tenant has no leases" });
+        return null;
+    }
+
+    return statement;
+}
+
+export async function getTenantStatementFile(req, res) {
+    try {
+        const statement = await findTenantStatement(req, res, req.query);
+
+        if (statement) {
+            sendPdf(res, statement);
+        }
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error creating statement" });
+    }
+}
+
+// The statement is stored with the latest lease of the tenant, so the tenant finds it in the portal
+export async function createTenantStatementDocument(req, res) {
+    try {
+        const statement = await findTenantStatement(req, res, req.body);
+
+        if (!statement) {
+            return;
+        }
+
+        const document = await attachPdf(statement, "STATEMENT", statement.leases[statement.leases.length - 1], req.user.userId);
+
+        res.status(200).json({data: document, message: "Statement saved to the documents of the lease" });
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error saving statement" });
+    }
+}
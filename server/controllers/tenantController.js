@@ -1,5 +1,12 @@
 import prisma from '../prisma.js';
-import {createLeaseWithPaymentSchedule} from "../services/leaseService.js";
+import {
+    createLeaseWithPaymentSchedule,
+    findOverlappingLeases,
+    overlapConflict,
+    resolveSuccession
+} from "../services/leaseService.js";
+import {findAuthorized, permittedFields, scopeOf} from "../services/policyService.js";
+import {setPrimaryTenant} from "../services/leasePartyService.js";
 
 
 // Creates a tenant, if provided link them to a lease, otherwise create new lease using lease data in body
@@ -14,11 +21,37 @@ export async function createTenant(req, res) {
     let newTenant = null;
     let lease = null;
 
+    // The referenced unit is checked by the policy, the lease of the query has to be checked here
+    if (leaseId && !await findAuthorized(req.actor, "lease", leaseId)) {
+        return res.status(404).json({ message: "Lease not found" });
+    }
+
+    // The new lease must not overlap other leases of its unit, the same as leases created on their own.
+    // Checked before the tenant is created, so a rejected lease leaves no tenant behind
+    let predecessor = null;
+
+    if (!leaseId && req.body?.lease) {
+        const {plannedSuccessor, ...leaseData} = req.body.lease;
+
+        try {
+            const succession = resolveSuccession(leaseData, await findOverlappingLeases(leaseData), plannedSuccessor);
+
+            if (succession.conflicts.length) {
+                return res.status(409).json(overlapConflict(succession.conflicts));
+            }
+
+            predecessor = succession.predecessor;
+        }
+        catch (error) {
+            console.log(error)
+            return res.status(500).json({ message: "Error creating lease" });
+        }
+    }
 
     try {
         newTenant = await prisma.tenant.create({
             data: {
-                ...tenantData,
+                ...permittedFields("tenant", tenantData),
                 leases: {
                     ...(leaseId ?
                             {connect: {id: parseInt(leaseId)}} : null
@@ -37,23 +70,38 @@ export async function createTenant(req, res) {
                 unit: true
             }
         });
+
+        // The new tenant of the lease is its primary party as well
+        if (leaseId) {
+            await setPrimaryTenant(prisma, parseInt(leaseId), newTenant.id);
+        }
     }
     catch (error) {
         console.log(error)
-        res.status(500).json({ message: "Error creating tenant" });
+        return res.status(500).json({ message: "Error creating tenant" });
     }
 
     try {
 
         if (!leaseId && req.body?.lease) {
-            const leaseBody = req.body?.lease;
+            const leaseBody = {...req.body.lease};
+            delete leaseBody.plannedSuccessor;
             leaseBody.tenantId = newTenant?.id;
-            lease = await createLeaseWithPaymentSchedule(leaseBody, req.user.userId);
+
+            if (predecessor) {
+                leaseBody.previousLease = {
+                    connect: {
+                        id: predecessor.id
+                    }
+                };
+            }
+
+            lease = await createLeaseWithPaymentSchedule(leaseBody, req.workspace.realtorId);
         }
     }
     catch (error) {
         console.log(error)
-        res.status(500).json({ message: "Error creating lease" });
+        return res.status(500).json({ message: "Error creating lease" });
     }
 
     res.status(200).json({data: {
@@ -66,20 +114,13 @@ export async function createTenant(req, res) {
 export async function getTenants(req, res) {
     try {
         const tenants = await prisma.tenant.findMany({
-            where: {
-                leases: {
-                    some: {
-                        realtor: {
-                            userId: req.user.userId
-                        }
-                    }
-                }
-            },
+            where: scopeOf(req.actor, "tenant"),
             orderBy: {
                 createdAt: "desc"
             },
             include: {
                 leases: true,
+                leaseParties: true,
                 unit: true
             }
         });
@@ -96,16 +137,11 @@ export async function getTenant(req, res) {
         const tenant = await prisma.tenant.findUnique({
             where: {
                 id: parseInt(req.params.id),
-                leases: {
-                    some: {
-                        realtor: {
-                            userId: req.user.userId
-                        }
-                    }
-                }
+                ...scopeOf(req.actor, "tenant")
             },
             include: {
                 leases: true,
+                leaseParties: true,
                 unit: true,
                 maintenanceRequests: true,
                 rentPayments: true
@@ -179,18 +215,9 @@ export async function updateTenant(req, res) {
         const updatedTenant = await prisma.tenant.update({
             where: {
                 id: parseInt(req.params.id),
-                leases: {
-                    some: {
-                        realtor: {
-                            userId: req.user.userId
-                        }
-                    }
-                }
-
-            },
-            data: {
-                ...tenantData,
+                ...scopeOf(req.actor, "tenant")
             },
+            data: permittedFields("tenant", tenantData),
             include: {
                 leases: true
             }
@@ -231,13 +258,7 @@ export async function assignTenantToUnit(req, res) {
         const updatedTenant = await prisma.tenant.update({
             where: {
                 id: parseInt(tenantId),
-                leases: {
-                    some: {
-                        realtor: {
-                            userId: req.user.userId
-                        }
-                    }
-                }
+                ...scopeOf(req.actor, "tenant")
             },
             data: {
                 unit: {
@@ -0,0 +1,213 @@
+import bcrypt from 'bcryptjs';
+import prisma from '../prisma.js';
+import {revokeOtherSessions} from "../services/sessionService.js";
+import {
+    generateRecoveryCodes,
+    generateSecret,
+    getProvisioningUri,
+    matchCode
+} from "../services/totpService.js";
+
+// Two-factor authentication with an authenticator app. The secret is stored as soon as the setup starts,
+// but it is only required at login once a first code confirmed it. Recovery codes replace the app if it gets lost
+
+
+async function findUser(req) {
+    return prisma.user.findUnique({
+        where: {
+            id: req.user.userId,
+        },
+    });
+}
+
+// Every code is only accepted once, the step of the last used code is stored with the user. The update only
+// succeeds for a later step, so two requests with the same code can not both pass
+export async function consumeCode(user, code) {
+    const step = matchCode(user.twoFactorSecret, code, user.twoFactorLastStep);
+
+    if (step === null) {
+        return false;
+    }
+
+    const { count } = await prisma.user.updateMany({
+        where: {
+            id: user.id,
+            OR: [
+                { twoFactorLastStep: null },
+                { twoFactorLastStep: { lt: step } },
+            ],
+        },
+        data: {
+            twoFactorLastStep: step,
+        },
+    });
+
+    return count > 0;
+}
+
+export async function getTwoFactor(req, res) {
+    try {
+        const user = await findUser(req);
+
+        if (!user) {
+            return res.status(401).json({ message: "Invalid user" });
+        }
+
+        res.status(200).json({data: {enabled: user.twoFactorEnabled, recoveryCodesLeft: user.twoFactorRecoveryCodes.length}});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error getting two-factor authentication" });
+    }
+}
+
+// Starts the setup with a new secret, a setup that was never confirmed is simply replaced
+export async function setupTwoFactor(req, res) {
+    try {
+        const user = await findUser(req);
+
+        if (!user) {
+            return res.status(401).json({ message: "Invalid user" });
+        }
+        if (user.twoFactorEnabled) {
+            return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+        }
+
+        const secret = generateSecret();
+
+        await prisma.user.update({
+            where: {
+                id: user.id,
+            },
+            data: {
+                twoFactorSecret: secret,
+                twoFactorLastStep: null,
+            },
+        });
+
+        res.status(200).json({data: {secret: secret, uri: getProvisioningUri(secret, user.email)}});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error setting up two-factor authentication" });
+    }
+}
+
+// Confirms the setup with a code of the app. The recovery codes are only returned this once
+export async function enableTwoFactor(req, res) {
+    const { code } = req.body;
+
+    try {
+        const user = await findUser(req);
+
+        if (!user) {
+            return res.status(401).json({ message: "Invalid user" });
+        }
+        if (user.twoFactorEnabled) {
+            return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+        }
+        if (!user.twoFactorSecret) {
+            return res.status(400).json({ message: "Please start the setup first" });
+        }
+        if (!await consumeCode(user, code)) {
+            return res.status(400).json({ message: "Invalid code" });
+        }
+
+        const {codes, hashes} = generateRecoveryCodes();
+
+        await prisma.user.update({
+            where: {
+                id: user.id,
+            },
+            data: {
+                twoFactorEnabled: true,
+                twoFactorRecoveryCodes: hashes,
+            },
+        });
+
+        // Sessions that were opened with the password alone are logged out
+        await revokeOtherSessions(user.id, req.user.sessionId);
+
+        res.status(200).json({data: {recoveryCodes: codes}, message: "Two-factor authentication enabled"});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error enabling two-factor authentication" });
+    }
+}
+
+// Replaces all recovery codes, the old ones stop working
+export async function regenerateRecoveryCodes(req, res) {
+    const { code } = req.body;
+
+    try {
+        const user = await findUser(req);
+
+        if (!user) {
+            return res.status(401).json({ message: "Invalid user" });
+        }
+        if (!user.twoFactorEnabled) {
+            return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+        }
+        if (!await consumeCode(user, code)) {
+            return res.status(400).json({ message: "Invalid code" });
+        }
+
+        const {codes, hashes} = generateRecoveryCodes();
+
+        await prisma.user.update({
+            where: {
+                id: user.id,
+            },
+            data: {
+                twoFactorRecoveryCodes: hashes,
+            },
+        });
+
+        res.status(200).json({data: {recoveryCodes: codes}});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error generating recovery codes" });
+    }
+}
+
+// Needs the password and a current code, a stolen session alone can not turn it off
+export async function disableTwoFactor(req, res) {
+    const { password, code } = req.body;
+
+    try {
+        const user = await findUser(req);
+
+        if (!user) {
+            return res.status(401).json({ message: "Invalid user" });
+        }
+        if (!user.twoFactorEnabled) {
+            return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+        }
+        if (!password || !await bcrypt.compare(password, user.password)) {
+            return res.status(401).json({ message: "Invalid password" });
+        }
+        if (!await consumeCode(user, code)) {
+            return res.status(400).json({ message: "Invalid code" });
+        }
+
+        await prisma.user.update({
+            where: {
+                id: user.id,
+            },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorLastStep: null,
+                twoFactorRecoveryCodes: [],
+            },
+        });
+
+        res.status(200).json({message: "Two-factor authentication disabled"});
+    }
+    catch (error) {
+        console.log(error)
+        res.status(500).json({ message: "Error disabling two-factor authentication" });
+    }
+}
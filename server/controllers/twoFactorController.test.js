@@ -0,0 +1,54 @@
+import {afterEach, beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {generateCode, setClock} from "../services/totpService.js";
+import {consumeCode} from "./twoFactorController.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const NOW = Date.UTC(2024, 4, 12, 9, 30, 15);
+
+let user;
+
+beforeEach(() => {
+    fakePrisma.reset();
+    setClock(() => NOW);
+
+    user = { id: 1, twoFactorEnabled: true, twoFactorSecret: SECRET, twoFactorLastStep: null, twoFactorRecoveryCodes: [] };
+    fakePrisma.records("user").push(user);
+});
+
+afterEach(() => {
+    setClock(null);
+});
+
+describe("code replay", () => {
+    test("a code is only accepted once", async () => {
+        const code = generateCode(SECRET);
+
+        expect(await consumeCode({...user}, code)).toBe(true);
+        expect(user.twoFactorLastStep).toBe(Math.floor(NOW / 1000 / 30));
+        expect(await consumeCode({...user}, code)).toBe(false);
+    });
+
+    test("two requests loaded before either used the code can not both pass", async () => {
+        const code = generateCode(SECRET);
+        const first = {...user};
+        const second = {...user};
+
+        expect(await consumeCode(first, code)).toBe(true);
+        expect(await consumeCode(second, code)).toBe(false);
+    });
+
+    test("the code of the next step is accepted after a used one", async () => {
+        expect(await consumeCode({...user}, generateCode(SECRET))).toBe(true);
+
+        setClock(() => NOW + 30 * 1000);
+        expect(await consumeCode({...user}, generateCode(SECRET))).toBe(true);
+    });
+
+    test("wrong codes do not change the last used step", async () => {
+        expect(await consumeCode({...user}, "000000")).toBe(false);
+        expect(user.twoFactorLastStep).toBeNull();
+    });
+});
@@ -1,5 +1,12 @@
 import prisma from '../prisma.js';
 
+// Credentials and the two-factor secrets never leave the server
+function withoutSecrets(user) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const {password, salt, twoFactorSecret, twoFactorLastStep, twoFactorRecoveryCodes, ...userData} = user;
+
+    return userData;
+}
 
 export async function getUser(req, res) {
     // Find user using the id from the JWT
@@ -14,7 +21,7 @@ export async function getUser(req, res) {
             return res.status(401).json({ message: "Invalid user" });
         }
 
-        res.status(200).json({data: user });
+        res.status(200).json({data: withoutSecrets(user) });
     }
     catch (error) {
         res.status(500).json({ message: "Error getting user" });
@@ -35,16 +42,20 @@ export async function updateUser(req, res) {
             return res.status(401).json({ message: "Invalid user" });
         }
 
+        // Credentials, two-factor authentication and the email address can only be changed through their own confirmed flows
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const {email, password, salt, role, twoFactorEnabled, twoFactorSecret, twoFactorLastStep, twoFactorRecoveryCodes, ...userData} = req.body;
+
         const updatedUser = await prisma.user.update({
             where: {
                 id: req.user.userId,
             },
             data: {
-                ...req.body,
+                ...userData,
             },
         });
 
-        res.status(200).json({data: updatedUser });
+        res.status(200).json({data: withoutSecrets(updatedUser) });
     }
     catch (error) {
         res.status(500).json({ message: "Error updating user" });
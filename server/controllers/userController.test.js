@@ -0,0 +1,69 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {getUser, updateUser} from "./userController.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+const SECRET_FIELDS = ["password", "salt", "twoFactorSecret", "twoFactorLastStep", "twoFactorRecoveryCodes"];
+
+let user;
+
+async function run(handler, body) {
+    const result = {};
+    const res = {
+        status(code) {
+            result.status = code;
+            return this;
+        },
+        json(data) {
+            result.body = data;
+            return this;
+        }
+    };
+
+    await handler({ user: { userId: 1 }, body: body }, res);
+
+    return result;
+}
+
+beforeEach(() => {
+    fakePrisma.reset();
+
+    user = {
+        id: 1,
+        email: "ada@example.com",
+        firstName: "Ada",
+        password: "hash",
+        salt: "salt",
+        twoFactorEnabled: true,
+        twoFactorSecret: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ",
+        twoFactorLastStep: 100,
+        twoFactorRecoveryCodes: ["hash"]
+    };
+    fakePrisma.records("user").push(user);
+});
+
+describe("user profile", () => {
+    test("the profile has no credentials or two-factor secrets", async () => {
+        const {status, body} = await run(getUser);
+
+        expect(status).toBe(200);
+        expect(body.data).toMatchObject({ email: "ada@example.com", twoFactorEnabled: true });
+        SECRET_FIELDS.forEach((field) => expect(body.data).not.toHaveProperty(field));
+    });
+
+    test("the updated profile has no credentials or two-factor secrets", async () => {
+        const {status, body} = await run(updateUser, { firstName: "Augusta" });
+
+        expect(status).toBe(200);
+        expect(body.data.firstName).toBe("Augusta");
+        SECRET_FIELDS.forEach((field) => expect(body.data).not.toHaveProperty(field));
+    });
+
+    test("credentials and two-factor settings can not be changed with the profile", async () => {
+        await run(updateUser, { email: "eve@example.com", password: "new", twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null });
+
+        expect(user).toMatchObject({ email: "ada@example.com", password: "hash", twoFactorEnabled: true, twoFactorLastStep: 100 });
+        expect(user.twoFactorSecret).not.toBeNull();
+    });
+});
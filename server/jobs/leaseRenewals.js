@@ -0,0 +1,14 @@
+import {createRenewalOffers, lapseRenewalOffers} from "../services/renewalService.js";
+
+// Drafts renewal offers for leases that end soon and lapses the open offers of leases that have ended
+export async function checkLeaseRenewals(now = new Date()) {
+  try {
+    const lapsedOffers = await lapseRenewalOffers(now);
+    const createdOffers = await createRenewalOffers(now);
+
+    console.log(`Drafted ${createdOffers} renewal offers, ${lapsedOffers} renewal offers lapsed.`);
+
+  } catch (error) {
+    console.log("error checking lease renewals", error);
+  }
+}
@@ -0,0 +1,13 @@
+import {updateLeaseStatuses} from "../services/leaseStatusService.js";
+
+// Activates pending leases that have started and expires leases that have ended, the units follow their leases
+export async function checkLeaseStatuses(now = new Date()) {
+  try {
+    const transitions = await updateLeaseStatuses(now);
+
+    console.log(`Changed the status of ${transitions} leases.`);
+
+  } catch (error) {
+    console.log("error updating lease statuses", error);
+  }
+}
@@ -0,0 +1,12 @@
+import {syncLedgers} from "../services/ledgerService.js";
+
+// Posts the charges that became due since the last run, the other sources of the ledger post their changes themselves
+export async function checkLedger(now = new Date()) {
+  try {
+    const changes = await syncLedgers(now);
+    console.log(`Posted the ledger changes of ${changes} charges, payments, deposits and expenses.`);
+
+  } catch (error) {
+    console.log("error syncing the ledger", error);
+  }
+}
@@ -1,9 +1,14 @@
 import prisma from "../prisma.js";
+import {applyLateFees} from "../services/lateFeeService.js";
+import {applyCredits} from "../services/allocationService.js";
 
-export async function checkOverduePayments() {
-  const now = new Date();
-
+// Pays open charges with the credit of the tenants, marks due payment schedules as OVERDUE, then charges and accrues
+// the late fees of overdue rent
+export async function checkOverduePayments(now = new Date()) {
   try {
+    const credits = await applyCredits(now);
+    console.log(`Applied the credit of ${credits} leases.`);
+
     // Find all payment schedules that are overdue and not already marked as OVERDUE
     const overdueSchedules = await prisma.leasePaymentSchedule.findMany({
       where: {
@@ -27,7 +32,10 @@ export async function checkOverduePayments() {
     await Promise.all(updatePromises);
     console.log(`Marked ${updatePromises?.length} payment schedules as OVERDUE.`);
 
+    const lateFees = await applyLateFees(now);
+    console.log(`Charged late fees on ${lateFees.charged} payment schedules (${lateFees.total} in total).`);
+
   } catch (error) {
     console.log("error finding overdue payments", error);
   }
-}
\ No newline at end of file
+}
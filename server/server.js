@@ -4,7 +4,7 @@ import cron from 'node-cron';
 import {createServer} from "node:http"
 import {Server} from "socket.io";
 import * as authController from "./controllers/authController.js";
-import {authenticateToken} from "./controllers/authController.js";
+import {authenticateToken, authorize, requireRole} from "./controllers/authController.js";
 import * as userController from "./controllers/userController.js";
 import * as messageController from "./controllers/messageController.js";
 import * as miscController from "./controllers/miscController.js";
@@ -12,101 +12,240 @@ import * as realEstateController from "./controllers/realEstateController.js";
 import * as leaseController from "./controllers/leaseController.js";
 import * as tenantController from "./controllers/tenantController.js";
 import {checkOverduePayments} from "./jobs/overduePayments.js";
+import {checkLeaseRenewals} from "./jobs/leaseRenewals.js";
+import {checkLeaseStatuses} from "./jobs/leaseStatus.js";
+import {checkLedger} from "./jobs/ledger.js";
 import * as paymentController from "./controllers/paymentController.js";
 import jwt from "jsonwebtoken";
 import {createMessage} from "./controllers/messageController.js";
 import * as maintenanceController from "./controllers/maintenanceController.js";
 import * as expenseController from "./controllers/expenseController.js";
+import * as portalController from "./controllers/portalController.js";
+import * as invitationController from "./controllers/invitationController.js";
+import * as apiTokenController from "./controllers/apiTokenController.js";
+import * as twoFactorController from "./controllers/twoFactorController.js";
+import * as organizationController from "./controllers/organizationController.js";
+import * as renewalController from "./controllers/renewalController.js";
+import * as depositController from "./controllers/depositController.js";
+import * as documentController from "./controllers/documentController.js";
+import * as lateFeeController from "./controllers/lateFeeController.js";
+import * as priceIndexController from "./controllers/priceIndexController.js";
+import * as ledgerController from "./controllers/ledgerController.js";
+import * as bankStatementController from "./controllers/bankStatementController.js";
+import * as statementController from "./controllers/statementController.js";
+import {validate} from "./services/validationService.js";
+import * as schemas from "../shared/schemas.js";
 
 // eslint-disable-next-line no-undef
 const PORT = process.env.PORT || 3000;
 
 const app = express();
 const router = express.Router();
+// Behind a reverse proxy the client IP (used for login throttling) comes from X-Forwarded-For
+// eslint-disable-next-line no-undef
+if (process.env.TRUST_PROXY) {
+    // eslint-disable-next-line no-undef
+    const trustProxy = process.env.TRUST_PROXY;
+    // A number is the count of proxies in front of the server, anything else a list of proxy addresses
+    app.set('trust proxy', isNaN(Number(trustProxy)) ? trustProxy : Number(trustProxy));
+}
 app.use(cors());
-app.use(express.json());
+// Large enough for the proof files tenants attach to reported payments
+app.use(express.json({ limit: "10mb" }));
 app.use(router);
 
+// Guests are members of another realtor's organization, admins can open every organization
+const realtorOnly = requireRole("REALTOR", "ADMIN", "GUEST");
+const tenantOnly = requireRole("TENANT");
+
+// What a user may do with a resource is defined in services/policyService.js, every route of
+// organization data or tenant data checks it with authorize(resource, action)
+
+// Bodies and queries are validated with validate({body, query}) before the policy checks the records they reference,
+// the schemas in shared/schemas.js are the same ones the forms of the client use
+
 app.get('/', (req, res) => {
     res.send('Hello World!');
 })
 
 // Auth
-router.post('/signup', authController.createRealtor);
-router.post('/login', authController.login);
-router.post('/refresh', authController.refresh);
+router.post('/signup', validate({body: schemas.signUpSchema}), authController.createRealtor);
+router.post('/login', validate({body: schemas.loginSchema}), authController.login);
+router.post('/login/two-factor', validate({body: schemas.twoFactorLoginRequestSchema}), authController.loginTwoFactor);
+router.post('/refresh', validate({body: schemas.refreshTokenRequestSchema}), authController.refresh);
+router.post('/logout', validate({body: schemas.refreshTokenRequestSchema}), authController.logout);
+router.post('/password-reset', validate({body: schemas.passwordResetRequestSchema}), authController.requestPasswordReset);
+router.post('/password-reset/:token', validate({params: schemas.emailTokenParamsSchema, body: schemas.passwordResetSchema}), authController.resetPassword);
+router.post('/email-change/:token', validate({params: schemas.emailTokenParamsSchema, body: schemas.emailChangeConfirmRequestSchema}), authController.confirmEmailChange);
+
+// Invitations
+router.get('/invitations/:token', validate({params: schemas.emailTokenParamsSchema}), invitationController.getInvitation);
+router.post('/invitations/:token/accept', validate({params: schemas.emailTokenParamsSchema, body: schemas.acceptInvitationSchema}), invitationController.acceptInvitation);
 
 // User
 router.get('/user', authenticateToken, userController.getUser)
-router.patch('/user', authenticateToken, userController.updateUser)
+router.patch('/user', authenticateToken, validate({body: schemas.userUpdateRequestSchema}), userController.updateUser)
 router.delete('/user', authenticateToken, userController.deleteUser)
+router.post('/user/email-change', authenticateToken, validate({body: schemas.emailChangeSchema}), authController.requestEmailChange)
+
+// Two-factor authentication
+router.get('/user/two-factor', authenticateToken, realtorOnly, twoFactorController.getTwoFactor)
+router.post('/user/two-factor/setup', authenticateToken, realtorOnly, twoFactorController.setupTwoFactor)
+router.post('/user/two-factor/enable', authenticateToken, realtorOnly, validate({body: schemas.twoFactorCodeSchema}), twoFactorController.enableTwoFactor)
+router.post('/user/two-factor/recovery-codes', authenticateToken, realtorOnly, validate({body: schemas.twoFactorCodeSchema}), twoFactorController.regenerateRecoveryCodes)
+router.delete('/user/two-factor', authenticateToken, realtorOnly, validate({body: schemas.disableTwoFactorSchema}), twoFactorController.disableTwoFactor)
+
+// Sessions
+router.get('/sessions', authenticateToken, authController.getSessions)
+router.delete('/sessions', authenticateToken, authController.deleteAllSessions)
+router.delete('/sessions/:id', authenticateToken, authController.deleteSession)
+
+// Organization
+router.get('/organizations', authenticateToken, realtorOnly, organizationController.getOrganizations)
+router.get('/organization', authenticateToken, realtorOnly, authorize("organization"), organizationController.getOrganization)
+router.patch('/organization', authenticateToken, realtorOnly, validate({body: schemas.organizationUpdateRequestSchema}), authorize("organization"), organizationController.updateOrganization)
+router.post('/organization/members', authenticateToken, realtorOnly, validate({body: schemas.memberInvitationSchema}), authorize("member"), organizationController.inviteMember)
+router.patch('/organization/members/:id', authenticateToken, realtorOnly, validate({body: schemas.memberUpdateRequestSchema}), authorize("member"), organizationController.updateMember)
+router.delete('/organization/members/:id', authenticateToken, realtorOnly, authorize("member"), organizationController.removeMember)
+router.get('/organization-invitations/:token', validate({params: schemas.emailTokenParamsSchema}), organizationController.getMemberInvitation)
+router.post('/organization-invitations/:token/accept', validate({params: schemas.emailTokenParamsSchema, body: schemas.memberInvitationAcceptRequestSchema}), organizationController.acceptMemberInvitation)
+
+// API Tokens
+router.get('/api-tokens', authenticateToken, realtorOnly, apiTokenController.getApiTokens)
+router.post('/api-tokens', authenticateToken, realtorOnly, validate({body: schemas.apiTokenSchema}), apiTokenController.createToken)
+router.delete('/api-tokens/:id', authenticateToken, realtorOnly, apiTokenController.revokeToken)
 
 // Messages
 router.get('/messages', authenticateToken, messageController.getMessages)
-router.post('/messages', authenticateToken, messageController.createMessage)
+router.post('/messages', authenticateToken, validate({body: schemas.messageRequestSchema}), messageController.createMessage)
 
 // Misc
-router.post('/currency', authenticateToken, miscController.setCurrency)
+router.post('/currency', authenticateToken, validate({body: schemas.currencyRequestSchema}), miscController.setCurrency)
 
 
 // Properties
-router.get('/properties', authenticateToken, realEstateController.getProperties)
-router.post('/properties', authenticateToken, realEstateController.createProperty)
-router.get('/properties/:id', authenticateToken, realEstateController.getProperty)
-router.delete('/properties/:id', authenticateToken, realEstateController.deleteProperty)
+router.get('/properties', authenticateToken, realtorOnly, authorize("property"), realEstateController.getProperties)
+router.post('/properties', authenticateToken, realtorOnly, validate({body: schemas.propertyRequestSchema}), authorize("property"), realEstateController.createProperty)
+router.get('/properties/:id', authenticateToken, realtorOnly, authorize("property"), realEstateController.getProperty)
+router.delete('/properties/:id', authenticateToken, realtorOnly, authorize("property"), realEstateController.deleteProperty)
+router.put('/properties/:id/late-fee-policy', authenticateToken, realtorOnly, validate({body: schemas.lateFeePolicyRequestSchema}), authorize("property", "update"), lateFeeController.updatePropertyLateFeePolicy)
+router.delete('/properties/:id/late-fee-policy', authenticateToken, realtorOnly, authorize("property", "update"), lateFeeController.deletePropertyLateFeePolicy)
 
 // Units / Rentals
-router.get('/units', authenticateToken, realEstateController.getUnits)
-router.get('/units/:id', authenticateToken, realEstateController.getUnit)
-router.patch('/units/:id', authenticateToken, realEstateController.updateUnit)
-router.put('/units/:id/tenant', authenticateToken, tenantController.assignTenantToUnit)
+router.get('/units', authenticateToken, realtorOnly, authorize("unit"), realEstateController.getUnits)
+router.get('/units/:id', authenticateToken, realtorOnly, authorize("unit"), realEstateController.getUnit)
+router.patch('/units/:id', authenticateToken, realtorOnly, validate({body: schemas.unitUpdateRequestSchema}), authorize("unit"), realEstateController.updateUnit)
+router.put('/units/:id/tenant', authenticateToken, realtorOnly, validate({body: schemas.unitTenantRequestSchema}), authorize("unit", "update"), tenantController.assignTenantToUnit)
 
 // Leases
-router.get('/leases', authenticateToken, leaseController.getLeases)
-router.get('/leases/:id', authenticateToken, leaseController.getLease)
-router.patch('/leases/:id', authenticateToken, leaseController.updateLease)
-router.delete('/leases/:id', authenticateToken, leaseController.deleteLease)
-router.post('/leases', authenticateToken, leaseController.createLease)
+router.get('/leases', authenticateToken, realtorOnly, validate({query: schemas.leaseFilterRequestSchema}), authorize("lease"), leaseController.getLeases)
+router.get('/leases/:id', authenticateToken, realtorOnly, authorize("lease"), leaseController.getLease)
+router.patch('/leases/:id', authenticateToken, realtorOnly, validate({body: schemas.leaseUpdateRequestSchema}), authorize("lease"), leaseController.updateLease)
+router.delete('/leases/:id', authenticateToken, realtorOnly, authorize("lease"), leaseController.deleteLease)
+router.post('/leases', authenticateToken, realtorOnly, validate({body: schemas.leaseCreationSchema}), authorize("lease"), leaseController.createLease)
+router.put('/leases/:id/parties', authenticateToken, realtorOnly, validate({body: schemas.leasePartiesRequestSchema}), authorize("lease", "update"), leaseController.updateLeaseParties)
+router.post('/leases/:id/termination/preview', authenticateToken, realtorOnly, validate({body: schemas.leaseTerminationRequestSchema}), authorize("lease", "update"), leaseController.previewLeaseTermination)
+router.post('/leases/:id/termination', authenticateToken, realtorOnly, validate({body: schemas.leaseTerminationRequestSchema}), authorize("lease", "update"), leaseController.createLeaseTermination)
+router.post('/leases/:id/renewal-offers', authenticateToken, realtorOnly, validate({body: schemas.renewalOfferRequestSchema}), authorize("lease", "update"), renewalController.createRenewalOffer)
+router.put('/leases/:id/late-fee-policy', authenticateToken, realtorOnly, validate({body: schemas.lateFeePolicyRequestSchema}), authorize("lease", "update"), lateFeeController.updateLeaseLateFeePolicy)
+router.delete('/leases/:id/late-fee-policy', authenticateToken, realtorOnly, authorize("lease", "update"), lateFeeController.deleteLeaseLateFeePolicy)
+router.get('/leases/:id/statement', authenticateToken, realtorOnly, validate({query: schemas.statementRequestSchema}), authorize("lease"), statementController.getLeaseStatementFile)
+router.post('/leases/:id/statement', authenticateToken, realtorOnly, validate({body: schemas.statementRequestSchema}), authorize("lease", "update"), statementController.createLeaseStatementDocument)
+
+// Price Indexes
+router.get('/price-indexes', authenticateToken, realtorOnly, authorize("priceIndex"), priceIndexController.getPriceIndexes)
+
+// Renewal Offers
+router.get('/renewal-offers', authenticateToken, realtorOnly, authorize("renewalOffer"), renewalController.getRenewalOffers)
+router.patch('/renewal-offers/:id', authenticateToken, realtorOnly, validate({body: schemas.renewalOfferRequestSchema}), authorize("renewalOffer"), renewalController.updateRenewalOffer)
+router.post('/renewal-offers/:id/send', authenticateToken, realtorOnly, authorize("renewalOffer", "update"), renewalController.sendRenewalOffer)
+router.post('/renewal-offers/:id/accept', authenticateToken, realtorOnly, authorize("renewalOffer", "update"), renewalController.acceptRenewalOffer)
+router.post('/renewal-offers/:id/decline', authenticateToken, realtorOnly, authorize("renewalOffer", "update"), renewalController.declineRenewalOffer)
 
 // Tenants
-router.get('/tenants', authenticateToken, tenantController.getTenants)
-router.post('/tenants', authenticateToken, tenantController.createTenant)
-router.get('/tenants/:id', authenticateToken, tenantController.getTenant)
-router.delete('/tenants/:id', authenticateToken, tenantController.deleteTenant)
-router.put('/tenants/:id', authenticateToken, tenantController.updateTenant)
+router.get('/tenants', authenticateToken, realtorOnly, authorize("tenant"), tenantController.getTenants)
+router.post('/tenants', authenticateToken, realtorOnly, validate({body: schemas.tenantCreationRequestSchema, query: schemas.tenantCreationQuerySchema}), authorize("tenant"), tenantController.createTenant)
+router.get('/tenants/:id', authenticateToken, realtorOnly, authorize("tenant"), tenantController.getTenant)
+router.delete('/tenants/:id', authenticateToken, realtorOnly, authorize("tenant"), tenantController.deleteTenant)
+router.put('/tenants/:id', authenticateToken, realtorOnly, validate({body: schemas.tenantUpdateRequestSchema}), authorize("tenant"), tenantController.updateTenant)
+router.post('/tenants/:id/invite', authenticateToken, realtorOnly, authorize("tenant", "update"), invitationController.inviteTenant)
+router.get('/tenants/:id/statement', authenticateToken, realtorOnly, validate({query: schemas.statementRequestSchema}), authorize("tenant"), statementController.getTenantStatementFile)
+router.post('/tenants/:id/statement', authenticateToken, realtorOnly, validate({body: schemas.statementRequestSchema}), authorize("tenant", "update"), statementController.createTenantStatementDocument)
 
 // Payments
-router.post('/payments', authenticateToken, paymentController.createPayment)
-router.get('/payments', authenticateToken, paymentController.getPayments)
-router.put('/payments/:id', authenticateToken, paymentController.updatePayment)
-router.delete('/payments/:id', authenticateToken, paymentController.deletePayment)
+router.post('/payments', authenticateToken, realtorOnly, validate({body: schemas.paymentRequestSchema}), authorize("payment"), paymentController.createPayment)
+router.get('/payments', authenticateToken, realtorOnly, authorize("payment"), paymentController.getPayments)
+router.put('/payments/:id', authenticateToken, realtorOnly, validate({body: schemas.paymentUpdateRequestSchema}), authorize("payment"), paymentController.updatePayment)
+router.post('/payments/:id/approve', authenticateToken, realtorOnly, validate({body: schemas.paymentReviewSchema}), authorize("payment", "update"), paymentController.approvePayment)
+router.post('/payments/:id/reject', authenticateToken, realtorOnly, validate({body: schemas.paymentReviewSchema}), authorize("payment", "update"), paymentController.rejectPayment)
+router.get('/payments/:id/receipt', authenticateToken, realtorOnly, authorize("payment"), statementController.getPaymentReceiptFile)
+router.post('/payments/:id/receipt', authenticateToken, realtorOnly, authorize("payment", "update"), statementController.createPaymentReceiptDocument)
+router.delete('/payments/:id', authenticateToken, realtorOnly, authorize("payment"), paymentController.deletePayment)
 
 // Lease Payment Schedules
-router.put('/payment-schedules/:id', authenticateToken, paymentController.updatePaymentSchedule)
-router.delete('/payment-schedules/:id', authenticateToken, paymentController.deletePaymentSchedule)
+router.put('/payment-schedules/:id', authenticateToken, realtorOnly, validate({body: schemas.paymentScheduleUpdateRequestSchema}), authorize("paymentSchedule"), paymentController.updatePaymentSchedule)
+router.delete('/payment-schedules/:id', authenticateToken, realtorOnly, authorize("paymentSchedule"), paymentController.deletePaymentSchedule)
+
+// Security Deposits
+router.get('/deposits', authenticateToken, realtorOnly, authorize("deposit"), depositController.getDeposits)
+router.post('/deposits', authenticateToken, realtorOnly, validate({body: schemas.depositCreationRequestSchema}), authorize("deposit"), depositController.createDeposit)
+router.patch('/deposits/:id', authenticateToken, realtorOnly, validate({body: schemas.depositUpdateRequestSchema}), authorize("deposit"), depositController.updateDeposit)
+router.delete('/deposits/:id', authenticateToken, realtorOnly, authorize("deposit"), depositController.deleteDeposit)
+router.post('/deposits/:id/settlement', authenticateToken, realtorOnly, validate({body: schemas.depositSettlementRequestSchema}), authorize("deposit", "update"), depositController.createSettlement)
+
+// Documents (realtors and tenants)
+router.get('/documents/:id/file', authenticateToken, authorize("document"), documentController.getDocumentFile)
 
 // Maintenance Reports
-router.get('/maintenance', authenticateToken, maintenanceController.getMaintenanceReports)
-router.post('/maintenance', authenticateToken, maintenanceController.createMaintenanceReport)
+router.get('/maintenance', authenticateToken, realtorOnly, authorize("maintenance"), maintenanceController.getMaintenanceReports)
+router.post('/maintenance', authenticateToken, realtorOnly, validate({body: schemas.maintenanceReportSchema}), authorize("maintenance"), maintenanceController.createMaintenanceReport)
 
 // Expenses
-router.get('/expenses', authenticateToken, expenseController.getExpenses)
-router.post('/expenses', authenticateToken, expenseController.createExpense)
-router.delete('/expenses/:id', authenticateToken, expenseController.deleteExpense)
-
+router.get('/expenses', authenticateToken, realtorOnly, authorize("expense"), expenseController.getExpenses)
+router.post('/expenses', authenticateToken, realtorOnly, validate({body: schemas.expenseSchema}), authorize("expense"), expenseController.createExpense)
+router.delete('/expenses/:id', authenticateToken, realtorOnly, authorize("expense"), expenseController.deleteExpense)
+
+// Ledger
+router.get('/ledger/transactions', authenticateToken, realtorOnly, validate({query: schemas.ledgerTransactionFilterRequestSchema}), authorize("ledger"), ledgerController.getLedgerTransactions)
+router.post('/ledger/transactions', authenticateToken, realtorOnly, validate({body: schemas.ledgerTransactionRequestSchema}), authorize("ledger"), ledgerController.createLedgerTransaction)
+router.post('/ledger/transactions/:id/reversal', authenticateToken, realtorOnly, authorize("ledger", "create"), ledgerController.reverseLedgerTransaction)
+router.get('/ledger/report', authenticateToken, realtorOnly, validate({query: schemas.ledgerReportRequestSchema}), authorize("ledger"), ledgerController.getReport)
+router.get('/ledger/leases', authenticateToken, realtorOnly, validate({query: schemas.ledgerReportRequestSchema}), authorize("ledger"), ledgerController.getLeaseLedgerBalances)
+
+// Bank Statements
+router.post('/bank-statements', authenticateToken, realtorOnly, validate({body: schemas.bankStatementImportSchema}), authorize("bankStatement"), bankStatementController.importBankStatement)
+router.get('/bank-transactions', authenticateToken, realtorOnly, validate({query: schemas.bankTransactionFilterRequestSchema}), authorize("bankTransaction"), bankStatementController.getBankTransactions)
+router.post('/bank-transactions/:id/confirm', authenticateToken, realtorOnly, validate({body: schemas.bankTransactionConfirmRequestSchema}), authorize("bankTransaction", "update"), bankStatementController.confirmBankTransaction)
+router.post('/bank-transactions/:id/ignore', authenticateToken, realtorOnly, authorize("bankTransaction", "update"), bankStatementController.ignoreBankTransaction)
+
+
+// Tenant Portal
+router.get('/portal/leases', authenticateToken, tenantOnly, authorize("lease"), portalController.getLeases)
+router.get('/portal/payments', authenticateToken, tenantOnly, authorize("payment"), portalController.getPayments)
+router.post('/portal/payments', authenticateToken, tenantOnly, validate({body: schemas.reportedPaymentSchema}), authorize("payment"), portalController.reportPayment)
+router.get('/portal/payments/:id/receipt', authenticateToken, tenantOnly, authorize("payment"), statementController.getPaymentReceiptFile)
+router.get('/portal/maintenance', authenticateToken, tenantOnly, authorize("maintenance"), portalController.getMaintenanceRequests)
+router.post('/portal/maintenance', authenticateToken, tenantOnly, validate({body: schemas.tenantMaintenanceRequestSchema}), authorize("maintenance"), portalController.createMaintenanceRequest)
+router.get('/portal/renewal-offers', authenticateToken, tenantOnly, authorize("renewalOffer"), renewalController.getRenewalOffers)
+router.post('/portal/renewal-offers/:id/accept', authenticateToken, tenantOnly, authorize("renewalOffer", "update"), renewalController.acceptRenewalOffer)
+router.post('/portal/renewal-offers/:id/decline', authenticateToken, tenantOnly, authorize("renewalOffer", "update"), renewalController.declineRenewalOffer)
 
 // Bulk
-router.patch('/bulk/leases', authenticateToken, leaseController.updateManyLeases)
-router.delete('/bulk/leases', authenticateToken, leaseController.deleteManyLeases)
-router.patch('/bulk/payment-schedules', authenticateToken, paymentController.updateManyPaymentSchedules)
-router.delete('/bulk/payment-schedules', authenticateToken, paymentController.deleteManyPaymentSchedules)
-router.post('/bulk/payments', authenticateToken, paymentController.createManyPayments)
-router.patch('/bulk/payments', authenticateToken, paymentController.updateManyPayments)
-router.delete('/bulk/payments', authenticateToken, paymentController.deleteManyPayments)
+router.patch('/bulk/leases', authenticateToken, realtorOnly, validate({body: schemas.leaseBulkUpdateRequestSchema}), authorize("lease"), leaseController.updateManyLeases)
+router.delete('/bulk/leases', authenticateToken, realtorOnly, validate({body: schemas.leaseBulkDeleteRequestSchema}), authorize("lease"), leaseController.deleteManyLeases)
+router.patch('/bulk/payment-schedules', authenticateToken, realtorOnly, validate({body: schemas.paymentScheduleBulkUpdateRequestSchema}), authorize("paymentSchedule"), paymentController.updateManyPaymentSchedules)
+router.delete('/bulk/payment-schedules', authenticateToken, realtorOnly, validate({body: schemas.paymentScheduleBulkDeleteRequestSchema}), authorize("paymentSchedule"), paymentController.deleteManyPaymentSchedules)
+router.post('/bulk/payments', authenticateToken, realtorOnly, validate({body: schemas.paymentBulkCreationRequestSchema}), authorize("payment"), paymentController.createManyPayments)
+router.patch('/bulk/payments', authenticateToken, realtorOnly, validate({body: schemas.paymentBulkUpdateRequestSchema}), authorize("payment"), paymentController.updateManyPayments)
+router.delete('/bulk/payments', authenticateToken, realtorOnly, validate({body: schemas.paymentBulkDeleteRequestSchema}), authorize("payment"), paymentController.deleteManyPayments)
 
 //Jobs
 //      Schedule the job to run daily at 00:00 (midnight)
-cron.schedule('0 0 * * *', checkOverduePayments);
+cron.schedule('0 0 * * *', () => checkOverduePayments());
+cron.schedule('0 0 * * *', () => checkLeaseStatuses());
+cron.schedule('0 0 * * *', () => checkLeaseRenewals());
+//      The ledger runs after the late fees were charged
+cron.schedule('30 0 * * *', () => checkLedger());
 
 
 app.use((err, req, res, next) => {
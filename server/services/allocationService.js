@@ -0,0 +1,247 @@
+import prisma from "../prisma.js";
+import {allocateAmount, getAllocatedStatus} from "../../shared/allocation.js";
+import {roundCents} from "../../shared/money.js";
+
+// Allocations of the payments of a lease to the charges of its payment schedule. Paid payments are allocated oldest
+// payment first to the oldest open charges, the rest stays unallocated as credit and pays the next charges.
+// Allocations of payments that are not paid (anymore) are released, as are the parts of allocations that exceed the
+// amount of their payment or their charge. The status of every charge whose allocations changed or no longer cover
+// its amount due as they did (e.g. a paid charge that was raised) is derived again
+
+function byDate(a, b) {
+    return new Date(a.date ?? a.createdAt) - new Date(b.date ?? b.createdAt) || a.id - b.id;
+}
+
+function sumAmounts(allocations) {
+    return roundCents(allocations.reduce((total, allocation) => total + allocation.amount, 0));
+}
+
+// Reduces the allocations, in the given order, by the excess
+function releaseExcess(allocations, excess) {
+    for (const allocation of allocations) {
+        if (excess <= 0) {
+            break;
+        }
+
+        const released = Math.min(allocation.amount, excess);
+        allocation.amount = roundCents(allocation.amount - released);
+        excess = roundCents(excess - released);
+    }
+}
+
+// Changes of the allocations of the payments (with their allocations) and charges of a lease.
+// Returns the allocations to remove, update and create, the new unallocated amounts of the payments and the
+// charges whose status has to be derived again, together with their allocated amount
+export function planAllocations(payments, schedules) {
+    const scheduleById = new Map(schedules.map((schedule) => [schedule.id, schedule]));
+    const sortedPayments = [...payments].sort(byDate);
+    const paymentOrder = new Map(sortedPayments.map((payment, index) => [payment.id, index]));
+
+    const current = payments.flatMap((payment) => payment.allocations.map((allocation) => ({ ...allocation, paymentId: payment.id })));
+    const working = current.map((allocation) => ({ ...allocation }));
+
+    const allocationsOf = (key, id) => working.filter((allocation) => allocation[key] === id && allocation.amount > 0);
+    const dueTime = (allocation) => new Date(scheduleById.get(allocation.scheduleId)?.dueDate ?? 0).getTime();
+
+    for (const payment of sortedPayments) {
+        const allocations = allocationsOf("paymentId", payment.id);
+
+        // Payments that are not paid pay nothing, paid ones release their latest charges first
+        const excess = payment.status === "PAID" ? roundCents(sumAmounts(allocations) - (payment.amount ?? 0)) : sumAmounts(allocations);
+        releaseExcess(allocations.sort((a, b) => dueTime(b) - dueTime(a)), excess);
+    }
+
+    for (const schedule of schedules) {
+        if (schedule.status === "WAIVED") {
+            continue;
+        }
+
+        // Charges that were lowered release the allocations of their latest payments first
+        const allocations = allocationsOf("scheduleId", schedule.id);
+        releaseExcess(allocations.sort((a, b) => paymentOrder.get(b.paymentId) - paymentOrder.get(a.paymentId)),
+            roundCents(sumAmounts(allocations) - (schedule.amountDue ?? 0)));
+    }
+
+    const unallocatedAmounts = new Map();
+
+    for (const payment of sortedPayments) {
+        const remainder = roundCents((payment.amount ?? 0) - sumAmounts(allocationsOf("paymentId", payment.id)));
+
+        if (payment.status !== "PAID" || remainder <= 0) {
+            unallocatedAmounts.set(payment.id, Math.max(0, remainder));
+            continue;
+        }
+
+        const workingSchedules = schedules.map((schedule) => ({ ...schedule, allocations: allocationsOf("scheduleId", schedule.id) }));
+        const {allocations, remainder: credit} = allocateAmount(remainder, workingSchedules);
+
+        for (const allocation of allocations) {
+            const existing = working.find((item) => item.paymentId === payment.id && item.scheduleId === allocation.scheduleId);
+
+            if (existing) {
+                existing.amount = roundCents(existing.amount + allocation.amount);
+            }
+            else {
+                working.push({ paymentId: payment.id, scheduleId: allocation.scheduleId, amount: allocation.amount });
+            }
+        }
+
+        unallocatedAmounts.set(payment.id, credit);
+    }
+
+    const plan = { remove: [], update: [], create: [], payments: [], schedules: [] };
+
+    for (const allocation of working) {
+        const before = current.find((item) => item.id === allocation.id);
+
+        if (!before) {
+            plan.create.push(allocation);
+        }
+        else if (allocation.amount <= 0) {
+            plan.remove.push(allocation);
+        }
+        else if (allocation.amount !== before.amount) {
+            plan.update.push(allocation);
+        }
+    }
+
+    for (const payment of payments) {
+        if (unallocatedAmounts.get(payment.id) !== payment.unallocatedAmount) {
+            plan.payments.push({ id: payment.id, unallocatedAmount: unallocatedAmounts.get(payment.id) });
+        }
+    }
+
+    for (const schedule of schedules) {
+        const before = sumAmounts(current.filter((allocation) => allocation.scheduleId === schedule.id));
+        const after = sumAmounts(allocationsOf("scheduleId", schedule.id));
+
+        // Charges with payments whose amount due changed, their status does not depend on the date
+        const amountDueChanged = after > 0 && getAllocatedStatus(schedule, after) !== schedule.status;
+
+        if (before !== after || amountDueChanged) {
+            plan.schedules.push({ ...schedule, allocatedAmount: after });
+        }
+    }
+
+    return plan;
+}
+
+// Allocates the payments of the lease and derives the status of the charges whose allocations or amount changed. Explicit
+// allocations (see createAllocations) are kept as long as their payment and charge cover them. Pass the client of
+// a running transaction as tx
+export async function reconcileAllocations(leaseId, tx = prisma, now = new Date()) {
+    // Payments from before allocations were introduced are left as they are
+    const payments = await tx.rentPayment.findMany({
+        where: {
+            leaseId: leaseId,
+            unallocatedAmount: {
+                not: null
+            }
+        },
+        include: {
+            allocations: true
+        }
+    });
+
+    const schedules = await tx.leasePaymentSchedule.findMany({
+        where: {
+            leaseId: leaseId
+        },
+        include: {
+            allocations: true
+        }
+    });
+
+    const plan = planAllocations(payments, schedules);
+
+    if (plan.remove.length) {
+        await tx.paymentAllocation.deleteMany({
+            where: {
+                id: {
+                    in: plan.remove.map((allocation) => allocation.id)
+                }
+            }
+        });
+    }
+
+    for (const allocation of plan.update) {
+        await tx.paymentAllocation.update({
+            where: {
+                id: allocation.id
+            },
+            data: {
+                amount: allocation.amount
+            }
+        });
+    }
+
+    if (plan.create.length) {
+        await tx.paymentAllocation.createMany({
+            data: plan.create
+        });
+    }
+
+    for (const payment of plan.payments) {
+        await tx.rentPayment.update({
+            where: {
+                id: payment.id
+            },
+            data: {
+                unallocatedAmount: payment.unallocatedAmount
+            }
+        });
+    }
+
+    for (const schedule of plan.schedules) {
+        await tx.leasePaymentSchedule.update({
+            where: {
+                id: schedule.id
+            },
+            data: {
+                status: getAllocatedStatus(schedule, schedule.allocatedAmount, now)
+            }
+        });
+    }
+
+    return plan;
+}
+
+// Allocates a new payment to the given charges first, the rest of it is allocated by reconcileAllocations
+export async function createAllocations(tx, payment, allocations) {
+    if (!allocations?.length) {
+        return;
+    }
+
+    await tx.paymentAllocation.createMany({
+        data: allocations.map((allocation) => ({
+            amount: allocation.amount,
+            paymentId: payment.id,
+            scheduleId: allocation.scheduleId
+        }))
+    });
+}
+
+// Pays new charges (e.g. late fees) with the credit of the tenants, returns the number of leases that had credit
+export async function applyCredits(now = new Date()) {
+    const leases = await prisma.rentPayment.findMany({
+        where: {
+            status: "PAID",
+            unallocatedAmount: {
+                gt: 0
+            },
+            leaseId: {
+                not: null
+            }
+        },
+        select: {
+            leaseId: true
+        },
+        distinct: ["leaseId"]
+    });
+
+    for (const {leaseId} of leases) {
+        await prisma.$transaction((tx) => reconcileAllocations(leaseId, tx, now));
+    }
+
+    return leases.length;
+}
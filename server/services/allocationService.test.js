@@ -0,0 +1,168 @@
+import {describe, expect, test, vi} from "vitest";
+import {planAllocations} from "./allocationService.js";
+import {allocateAmount, getAllocatedStatus, getOpenAmount} from "../../shared/allocation.js";
+
+vi.mock("../prisma.js", () => ({ default: {} }));
+
+function charge(id, dueDate, amountDue, data = {}) {
+    return { id: id, dueDate: new Date(dueDate), amountDue: amountDue, status: "SCHEDULED", allocations: [], ...data };
+}
+
+function payment(id, date, amount, allocations = [], data = {}) {
+    return { id: id, date: new Date(date), amount: amount, status: "PAID", unallocatedAmount: 0, allocations: allocations, ...data };
+}
+
+function allocation(id, scheduleId, amount) {
+    return { id: id, scheduleId: scheduleId, amount: amount };
+}
+
+describe("allocateAmount", () => {
+    test("pays the oldest open charges first", () => {
+        const schedules = [
+            charge(2, "2024-02-01", 1000),
+            charge(1, "2024-01-01", 1000, { allocations: [{ amount: 400 }] }),
+            charge(3, "2024-03-01", 1000),
+        ];
+
+        expect(allocateAmount(1500, schedules)).toEqual({
+            allocations: [{ scheduleId: 1, amount: 600 }, { scheduleId: 2, amount: 900 }],
+            remainder: 0
+        });
+    });
+
+    test("returns what is left after all open charges as the remainder", () => {
+        const schedules = [charge(1, "2024-01-01", 1000, { status: "PAID", allocations: [{ amount: 1000 }] }), charge(2, "2024-02-01", 99.9)];
+
+        expect(allocateAmount(150.05, schedules)).toEqual({ allocations: [{ scheduleId: 2, amount: 99.9 }], remainder: 50.15 });
+    });
+
+    test("waived charges are not paid", () => {
+        const schedules = [charge(1, "2024-01-01", 50, { status: "WAIVED" }), charge(2, "2024-02-01", 1000)];
+
+        expect(getOpenAmount(schedules[0])).toBe(0);
+        expect(allocateAmount(100, schedules).allocations).toEqual([{ scheduleId: 2, amount: 100 }]);
+    });
+});
+
+describe("getAllocatedStatus", () => {
+    const NOW = new Date("2024-02-15T08:00:00Z");
+
+    test("follows from the allocated amount", () => {
+        const schedule = charge(1, "2024-03-01", 1000);
+
+        expect(getAllocatedStatus(schedule, 1000, NOW)).toBe("PAID");
+        expect(getAllocatedStatus(schedule, 999.99, NOW)).toBe("PARTIALLY_PAID");
+        expect(getAllocatedStatus(schedule, 0, NOW)).toBe("SCHEDULED");
+    });
+
+    test("charges without payments are overdue once their due date has passed", () => {
+        expect(getAllocatedStatus(charge(1, "2024-02-01", 1000), 0, NOW)).toBe("OVERDUE");
+        expect(getAllocatedStatus(charge(1, "2024-02-01", 1000), 10, NOW)).toBe("PARTIALLY_PAID");
+    });
+
+    test("waived charges stay waived", () => {
+        expect(getAllocatedStatus(charge(1, "2024-02-01", 50, { status: "WAIVED" }), 50, NOW)).toBe("WAIVED");
+    });
+});
+
+describe("planAllocations", () => {
+    test("allocates new payments to the oldest charges", () => {
+        const plan = planAllocations(
+            [payment(1, "2024-01-03", 1500, [], { unallocatedAmount: null })],
+            [charge(11, "2024-02-01", 1000), charge(10, "2024-01-01", 1000)]
+        );
+
+        expect(plan.create).toEqual([{ paymentId: 1, scheduleId: 10, amount: 1000 }, { paymentId: 1, scheduleId: 11, amount: 500 }]);
+        expect(plan.payments).toEqual([{ id: 1, unallocatedAmount: 0 }]);
+        expect(plan.schedules.map((schedule) => [schedule.id, schedule.allocatedAmount])).toEqual([[11, 500], [10, 1000]]);
+    });
+
+    test("the credit of a payment pays later charges", () => {
+        const credit = planAllocations([payment(1, "2024-01-03", 1200)], [charge(10, "2024-01-01", 1000)]);
+
+        expect(credit.payments).toEqual([{ id: 1, unallocatedAmount: 200 }]);
+
+        const later = planAllocations(
+            [payment(1, "2024-01-03", 1200, [allocation(100, 10, 1000)], { unallocatedAmount: 200 })],
+            [charge(10, "2024-01-01", 1000, { status: "PAID" }), charge(11, "2024-02-01", 1000)]
+        );
+
+        expect(later.create).toEqual([{ paymentId: 1, scheduleId: 11, amount: 200 }]);
+        expect(later.remove).toEqual([]);
+        expect(later.update).toEqual([]);
+        expect(later.payments).toEqual([{ id: 1, unallocatedAmount: 0 }]);
+    });
+
+    test("a lowered payment releases its latest charges first", () => {
+        const plan = planAllocations(
+            [payment(1, "2024-01-03", 1200, [allocation(100, 10, 1000), allocation(101, 11, 500)])],
+            [charge(10, "2024-01-01", 1000, { status: "PAID" }), charge(11, "2024-02-01", 1000, { status: "PARTIALLY_PAID" })]
+        );
+
+        expect(plan.update).toEqual([expect.objectContaining({ id: 101, scheduleId: 11, amount: 200 })]);
+        expect(plan.create).toEqual([]);
+        expect(plan.schedules.map((schedule) => [schedule.id, schedule.allocatedAmount])).toEqual([[11, 200]]);
+    });
+
+    test("a lowered charge releases the allocations of its latest payments, which pay the next charge", () => {
+        const plan = planAllocations(
+            [
+                payment(2, "2024-01-20", 400, [allocation(101, 10, 400)]),
+                payment(1, "2024-01-05", 600, [allocation(100, 10, 600)]),
+            ],
+            [charge(10, "2024-01-01", 800, { status: "PAID" }), charge(11, "2024-02-01", 1000)]
+        );
+
+        expect(plan.update).toEqual([expect.objectContaining({ id: 101, paymentId: 2, amount: 200 })]);
+        expect(plan.create).toEqual([{ paymentId: 2, scheduleId: 11, amount: 200 }]);
+        expect(plan.payments).toEqual([]);
+        expect(plan.schedules.map((schedule) => [schedule.id, schedule.allocatedAmount])).toEqual([[10, 800], [11, 200]]);
+    });
+
+    test("a raised charge that was paid is derived again", () => {
+        const plan = planAllocations(
+            [payment(1, "2024-01-03", 1000, [allocation(100, 10, 1000)])],
+            [charge(10, "2024-01-01", 1100, { status: "PAID" })]
+        );
+
+        expect(plan.update).toEqual([]);
+        expect(plan.schedules).toEqual([expect.objectContaining({ id: 10, allocatedAmount: 1000 })]);
+        expect(getAllocatedStatus(plan.schedules[0], 1000)).toBe("PARTIALLY_PAID");
+    });
+
+    test("payments that are not paid release their allocations", () => {
+        const plan = planAllocations(
+            [
+                payment(1, "2024-01-03", 1000, [allocation(100, 10, 1000)], { status: "REJECTED" }),
+                payment(2, "2024-01-10", 300, [allocation(101, 11, 300)], { status: "CANCELLED" }),
+            ],
+            [charge(10, "2024-01-01", 1000, { status: "PAID" }), charge(11, "2024-02-01", 1000, { status: "PARTIALLY_PAID" })]
+        );
+
+        expect(plan.remove.map((item) => item.id)).toEqual([100, 101]);
+        expect(plan.create).toEqual([]);
+        expect(plan.payments).toEqual([{ id: 1, unallocatedAmount: 1000 }, { id: 2, unallocatedAmount: 300 }]);
+        expect(plan.schedules.map((schedule) => [schedule.id, schedule.allocatedAmount])).toEqual([[10, 0], [11, 0]]);
+    });
+
+    test("waived charges keep what was paid and get nothing more", () => {
+        const plan = planAllocations(
+            [payment(1, "2024-02-20", 100, [allocation(100, 10, 20)], { unallocatedAmount: 80 })],
+            [charge(10, "2024-02-10", 0, { status: "WAIVED" }), charge(11, "2024-03-01", 1000)]
+        );
+
+        expect(plan.update).toEqual([]);
+        expect(plan.remove).toEqual([]);
+        expect(plan.create).toEqual([{ paymentId: 1, scheduleId: 11, amount: 80 }]);
+        expect(plan.payments).toEqual([{ id: 1, unallocatedAmount: 0 }]);
+    });
+
+    test("nothing changes for allocations that are up to date", () => {
+        const plan = planAllocations(
+            [payment(1, "2024-01-03", 1000, [allocation(100, 10, 1000)])],
+            [charge(10, "2024-01-01", 1000, { status: "PAID" })]
+        );
+
+        expect(plan).toEqual({ remove: [], update: [], create: [], payments: [], schedules: [] });
+    });
+});
@@ -0,0 +1,74 @@
+import crypto from "crypto";
+import prisma from "../prisma.js";
+import {hashToken} from "./tokenService.js";
+
+// Personal API tokens let realtors script against the API without their password.
+// The plain token is only returned once on creation, afterwards only its hash is known
+
+export const API_TOKEN_PREFIX = "rr_";
+
+// Resources API tokens can access, each with a read (GET) and a write (everything else) scope
+export const API_TOKEN_RESOURCES = ["properties", "leases", "payments"];
+
+export const API_TOKEN_SCOPES = API_TOKEN_RESOURCES.flatMap((resource) => [`${resource}:read`, `${resource}:write`]);
+
+export function isApiToken(token) {
+    return token?.startsWith(API_TOKEN_PREFIX);
+}
+
+// Scope needed for a request, null if API tokens can not be used for the route at all.
+// Bulk routes (e.g. /bulk/payments) need the scope of the resource they change
+export function getRequiredScope(method, path) {
+    const segments = path.split("/");
+    const resource = segments[1] === "bulk" ? segments[2] : segments[1];
+
+    if (!API_TOKEN_RESOURCES.includes(resource)) {
+        return null;
+    }
+
+    return `${resource}:${method === "GET" ? "read" : "write"}`;
+}
+
+export async function createApiToken(userId, name, scopes, expiresInDays) {
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString("hex");
+
+    const storedToken = await prisma.token.create({
+        data: {
+            type: "API",
+            tokenHash: hashToken(token),
+            name: name,
+            scopes: scopes,
+            expiration: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+            userId: userId
+        }
+    });
+
+    return { token, storedToken };
+}
+
+// Returns the stored token together with its user, null if it is unknown, revoked or expired
+export async function findValidApiToken(token) {
+    const storedToken = await prisma.token.findUnique({
+        where: {
+            tokenHash: hashToken(token)
+        },
+        include: {
+            user: true
+        }
+    });
+
+    if (!storedToken || storedToken.type !== "API" || !storedToken.valid || storedToken.expiration < new Date() || !storedToken.user) {
+        return null;
+    }
+
+    await prisma.token.update({
+        where: {
+            id: storedToken.id
+        },
+        data: {
+            lastUsedAt: new Date()
+        }
+    });
+
+    return storedToken;
+}
@@ -0,0 +1,23 @@
+import prisma from "../prisma.js";
+
+// Audit log of security relevant events, see the AuditLog model
+
+
+// Writing the entry must never fail the request it belongs to
+export async function recordAuditEvent(action, {userId, email, client, details} = {}) {
+    try {
+        await prisma.auditLog.create({
+            data: {
+                action: action,
+                email: email,
+                ipAddress: client?.ipAddress,
+                userAgent: client?.userAgent,
+                details: details,
+                userId: userId
+            }
+        });
+    }
+    catch (error) {
+        console.log(error);
+    }
+}
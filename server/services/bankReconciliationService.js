@@ -0,0 +1,358 @@
+import prisma from "../prisma.js";
+import {allocateAmount, getOpenAmount} from "../../shared/allocation.js";
+import {parseStatement} from "./bankStatementService.js";
+import {createAllocations, reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {DAY} from "../../shared/dates.js";
+import {roundCents} from "../../shared/money.js";
+
+// Reconciliation of the rent against imported bank statements. Every credit of a statement is matched to the open
+// charges of the payment schedule: a charge scores by its open amount, a due date close to the day the money came in
+// and by the name of a tenant or the unit in the counterparty or reference of the credit. The best match is suggested
+// if it scores high enough and no other lease scores the same. The realtor confirms the suggestion, splits the credit
+// over other charges or ignores it. Confirmed credits are recorded as paid payments of the leases they pay
+
+// Rent is usually paid a few days before it is due, or late
+const DAYS_BEFORE_DUE = 10;
+const DAYS_AFTER_DUE = 45;
+
+export const MIN_MATCH_SCORE = 60;
+
+const OPEN_SCHEDULE_STATUSES = ["SCHEDULED", "OVERDUE", "PARTIALLY_PAID"];
+
+function normalize(text) {
+    return ` ${(text ?? "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+function containsWords(text, words) {
+    const normalized = normalize(words);
+    return normalized.trim().length >= 2 && text.includes(normalized);
+}
+
+// Score of the lease by the names of its tenants and its unit in the counterparty and reference of the credit
+function scoreParties(transaction, lease) {
+    const text = normalize(`${transaction.counterparty ?? ""} ${transaction.reference ?? ""}`);
+    const tenants = [lease.tenant, ...(lease.parties ?? []).map((party) => party.tenant)].filter(Boolean);
+
+    let score = 0;
+
+    if (tenants.some((tenant) => containsWords(text, `${tenant.firstName ?? ""} ${tenant.lastName ?? ""}`) ||
+        containsWords(text, `${tenant.lastName ?? ""} ${tenant.firstName ?? ""}`))) {
+        score += 40;
+    }
+    else if (tenants.some((tenant) => (tenant.lastName ?? "").length >= 3 && containsWords(text, tenant.lastName))) {
+        score += 25;
+    }
+
+    if (lease.unit?.unitIdentifier && containsWords(text, lease.unit.unitIdentifier)) {
+        score += 20;
+    }
+
+    return Math.min(score, 50);
+}
+
+function isInDateWindow(schedule, date) {
+    const dueTime = new Date(schedule.dueDate).getTime();
+    const time = new Date(date).getTime();
+
+    return time >= dueTime - DAYS_BEFORE_DUE * DAY && time <= dueTime + DAYS_AFTER_DUE * DAY;
+}
+
+// Candidate matches of the credit among the charges of the lease (with allocations, tenant, parties and unit):
+// every open charge on its own and the open charges that are due by then together, e.g. rent and its late fee
+function findCandidates(transaction, lease) {
+    const openSchedules = lease.paymentSchedule.filter((schedule) => getOpenAmount(schedule) > 0);
+
+    if (!openSchedules.length) {
+        return [];
+    }
+
+    const partyScore = scoreParties(transaction, lease);
+    const candidates = openSchedules.map((schedule) => {
+        const openAmount = getOpenAmount(schedule);
+
+        return {
+            leaseId: lease.id,
+            score: Math.min(100, partyScore + (openAmount === transaction.amount ? 40 : 0) + (isInDateWindow(schedule, transaction.date) ? 20 : 0)),
+            matches: [{ scheduleId: schedule.id, amount: Math.min(openAmount, transaction.amount) }],
+        };
+    });
+
+    const dueSchedules = openSchedules.filter((schedule) => new Date(schedule.dueDate).getTime() <= new Date(transaction.date).getTime() + DAYS_BEFORE_DUE * DAY);
+    const {allocations, remainder} = allocateAmount(transaction.amount, dueSchedules);
+
+    if (allocations.length > 1 && remainder === 0 && allocations.reduce((total, allocation) => total + getOpenAmount(dueSchedules.find((schedule) => schedule.id === allocation.scheduleId)), 0) === transaction.amount) {
+        candidates.push({
+            leaseId: lease.id,
+            score: Math.min(100, partyScore + 40 + 10),
+            matches: allocations.map((allocation) => ({ scheduleId: allocation.scheduleId, amount: allocation.amount })),
+        });
+    }
+
+    return candidates;
+}
+
+// Suggested matches of the credit, none if the best candidate scores too low or another lease scores the same
+export function matchTransaction(transaction, leases) {
+    const candidates = leases
+        .filter((lease) => !transaction.currency || (lease.currency ?? "USD") === transaction.currency)
+        .flatMap((lease) => findCandidates(transaction, lease))
+        .sort((a, b) => b.score - a.score);
+
+    const [best] = candidates;
+
+    if (!best || best.score < MIN_MATCH_SCORE ||
+        candidates.some((candidate) => candidate.leaseId !== best.leaseId && candidate.score === best.score)) {
+        return [];
+    }
+
+    return best.matches.map((match) => ({ ...match, score: best.score }));
+}
+
+// Leases of the realtor with open charges. Charges suggested for credits that are not confirmed yet count as paid,
+// so they are not suggested twice
+async function findOpenLeases(realtorId) {
+    const leases = await prisma.lease.findMany({
+        where: {
+            realtorId: realtorId,
+            paymentSchedule: {
+                some: {
+                    status: {
+                        in: OPEN_SCHEDULE_STATUSES
+                    }
+                }
+            }
+        },
+        include: {
+            tenant: true,
+            parties: {
+                include: {
+                    tenant: true
+                }
+            },
+            unit: true,
+            paymentSchedule: {
+                include: {
+                    allocations: true,
+                    bankMatches: {
+                        where: {
+                            transaction: {
+                                status: "SUGGESTED"
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    return leases.map((lease) => ({
+        ...lease,
+        paymentSchedule: lease.paymentSchedule.map((schedule) => ({
+            ...schedule,
+            allocations: [...schedule.allocations, ...schedule.bankMatches]
+        }))
+    }));
+}
+
+// Imports the credits of the statement and suggests their matches. Credits that were imported before are skipped,
+// also when another import of the same statement stores them in the meantime. Returns {statement, imported, duplicates}
+// or {error}
+export async function importBankStatement(realtorId, userId, {fileName, format, preset, mapping, content}) {
+    const parsed = parseStatement(format, content, mapping);
+
+    if (parsed.error) {
+        return { error: parsed.error };
+    }
+
+    const existing = await prisma.bankTransaction.findMany({
+        where: {
+            realtorId: realtorId,
+            fingerprint: {
+                in: parsed.transactions.map((transaction) => transaction.fingerprint)
+            }
+        },
+        select: {
+            fingerprint: true
+        }
+    });
+    const existingFingerprints = new Set(existing.map((transaction) => transaction.fingerprint));
+    const transactions = parsed.transactions.filter((transaction) => !existingFingerprints.has(transaction.fingerprint));
+
+    const leases = await findOpenLeases(realtorId);
+    const scheduleById = new Map(leases.flatMap((lease) => lease.paymentSchedule.map((schedule) => [schedule.id, schedule])));
+
+    const suggestions = transactions.map((transaction) => {
+        const matches = matchTransaction(transaction, leases);
+
+        // Later credits of the statement are matched to what is still open
+        for (const match of matches) {
+            scheduleById.get(match.scheduleId).allocations.push({ amount: match.amount });
+        }
+
+        return { transaction, matches };
+    });
+
+    const {statement, imported} = await prisma.$transaction(async (tx) => {
+        const newStatement = await tx.bankStatementImport.create({
+            data: {
+                fileName: fileName,
+                format: format,
+                preset: preset ?? null,
+                realtorId: realtorId,
+                userId: userId
+            }
+        });
+
+        // Skipping the credits whose fingerprint exists keeps the transaction intact, a failed insert would abort it
+        const created = await tx.bankTransaction.createMany({
+            data: suggestions.map(({transaction, matches}) => ({
+                ...transaction,
+                status: matches.length ? "SUGGESTED" : "UNMATCHED",
+                importId: newStatement.id,
+                realtorId: realtorId
+            })),
+            skipDuplicates: true
+        });
+
+        const stored = await tx.bankTransaction.findMany({
+            where: {
+                importId: newStatement.id
+            },
+            select: {
+                id: true,
+                fingerprint: true
+            }
+        });
+        const idByFingerprint = new Map(stored.map((transaction) => [transaction.fingerprint, transaction.id]));
+
+        const matches = suggestions
+            .filter(({transaction}) => idByFingerprint.has(transaction.fingerprint))
+            .flatMap(({transaction, matches}) => matches.map((match) => ({ ...match, transactionId: idByFingerprint.get(transaction.fingerprint) })));
+
+        if (matches.length) {
+            await tx.bankTransactionMatch.createMany({
+                data: matches
+            });
+        }
+
+        return { statement: newStatement, imported: created.count };
+    });
+
+    return { statement: statement, imported: imported, duplicates: parsed.transactions.length - imported };
+}
+
+// Records the credit as paid payments, one per lease of the matched charges (with their lease), allocated to the
+// charges. What the matches leave of the credit is credit of the tenants of the first lease.
+// Returns null if the credit was confirmed or ignored in the meantime
+export async function confirmBankTransaction(transaction, matches, schedules, userId, now = new Date()) {
+    const leaseIds = [...new Set(matches.map((match) => schedules.find((schedule) => schedule.id === match.scheduleId).leaseId))];
+    const rest = roundCents(transaction.amount - matches.reduce((total, match) => total + match.amount, 0));
+
+    return prisma.$transaction(async (tx) => {
+        const claimed = await tx.bankTransaction.updateMany({
+            where: {
+                id: transaction.id,
+                status: {
+                    in: ["UNMATCHED", "SUGGESTED"]
+                }
+            },
+            data: {
+                status: "CONFIRMED",
+                confirmedById: userId,
+                confirmedAt: now
+            }
+        });
+
+        if (!claimed.count) {
+            return null;
+        }
+
+        const suggested = await tx.bankTransactionMatch.findMany({
+            where: {
+                transactionId: transaction.id
+            }
+        });
+
+        await tx.bankTransactionMatch.deleteMany({
+            where: {
+                transactionId: transaction.id
+            }
+        });
+
+        // Matches that were suggested as they are keep their score
+        await tx.bankTransactionMatch.createMany({
+            data: matches.map((match) => ({
+                amount: match.amount,
+                score: suggested.find((item) => item.scheduleId === match.scheduleId && item.amount === match.amount)?.score ?? null,
+                transactionId: transaction.id,
+                scheduleId: match.scheduleId
+            }))
+        });
+
+        for (const [index, leaseId] of leaseIds.entries()) {
+            const lease = schedules.find((schedule) => schedule.leaseId === leaseId).lease;
+            const leaseMatches = matches.filter((match) => schedules.find((schedule) => schedule.id === match.scheduleId).leaseId === leaseId);
+            const amount = roundCents(leaseMatches.reduce((total, match) => total + match.amount, 0) + (index === 0 ? rest : 0));
+
+            const payment = await tx.rentPayment.create({
+                data: {
+                    amount: amount,
+                    currency: lease.currency ?? transaction.currency ?? "USD",
+                    date: transaction.date,
+                    status: "PAID",
+                    paymentMethod: "Bank Transfer",
+                    notes: [transaction.counterparty, transaction.reference].filter(Boolean).join(", ") || null,
+                    submittedBy: userId,
+                    submissionDate: now,
+                    approvalDate: now,
+                    unallocatedAmount: amount,
+                    leaseId: lease.id,
+                    tenantId: lease.tenantId,
+                    bankTransactionId: transaction.id
+                }
+            });
+
+            await createAllocations(tx, payment, leaseMatches);
+            await reconcileAllocations(lease.id, tx, now);
+            await syncLeaseLedger(lease.id, tx, now);
+        }
+
+        return tx.bankTransaction.findUnique({
+            where: {
+                id: transaction.id
+            },
+            include: {
+                matches: true,
+                payments: true
+            }
+        });
+    });
+}
+
+// Returns null if the credit was confirmed or ignored in the meantime
+export async function ignoreBankTransaction(transaction, userId, now = new Date()) {
+    const claimed = await prisma.bankTransaction.updateMany({
+        where: {
+            id: transaction.id,
+            status: {
+                in: ["UNMATCHED", "SUGGESTED"]
+            }
+        },
+        data: {
+            status: "IGNORED",
+            confirmedById: userId,
+            confirmedAt: now
+        }
+    });
+
+    if (!claimed.count) {
+        return null;
+    }
+
+    return prisma.bankTransaction.findUnique({
+        where: {
+            id: transaction.id
+        }
+    });
+}
@@ -0,0 +1,143 @@
+import fs from "fs";
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {importBankStatement, matchTransaction} from "./bankReconciliationService.js";
+import {getBankStatementPreset} from "../../shared/bankStatementPresets.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+function fixture(fileName) {
+    return fs.readFileSync(new URL(`../test/fixtures/bankStatements/${fileName}`, import.meta.url), "utf8");
+}
+
+function charge(id, dueDate, amountDue, data = {}) {
+    return { id: id, chargeType: "RENT", status: "SCHEDULED", dueDate: new Date(dueDate), amountDue: amountDue, allocations: [], ...data };
+}
+
+function lease(id, tenant, unitIdentifier, paymentSchedule, data = {}) {
+    return { id: id, currency: "USD", tenant: tenant, parties: [], unit: { unitIdentifier: unitIdentifier }, paymentSchedule: paymentSchedule, ...data };
+}
+
+function credit(amount, data = {}) {
+    return { date: new Date("2024-05-01"), amount: amount, currency: "USD", counterparty: null, reference: null, ...data };
+}
+
+const JOHN_DOE = { firstName: "John", lastName: "Doe" };
+const ANNA_SMITH = { firstName: "Anna", lastName: "Smith" };
+
+describe("matchTransaction", () => {
+    test("suggests the charge of the lease whose tenant and unit are named", () => {
+        const leases = [
+            lease(1, JOHN_DOE, "4B", [charge(10, "2024-05-01", 1500)]),
+            lease(2, ANNA_SMITH, "2A", [charge(20, "2024-05-01", 1500)]),
+        ];
+
+        expect(matchTransaction(credit(1500, { counterparty: "ZELLE FROM DOE JOHN, UNIT 4B" }), leases)).toEqual([
+            { scheduleId: 10, amount: 1500, score: 100 }
+        ]);
+    });
+
+    test("suggests nothing if leases of different tenants score the same", () => {
+        const leases = [
+            lease(1, JOHN_DOE, "4B", [charge(10, "2024-05-01", 1500)]),
+            lease(2, ANNA_SMITH, "2A", [charge(20, "2024-05-01", 1500)]),
+        ];
+
+        expect(matchTransaction(credit(1500, { reference: "Rent May" }), leases)).toEqual([]);
+    });
+
+    test("suggests nothing if the best match scores too low", () => {
+        const leases = [lease(1, JOHN_DOE, "4B", [charge(10, "2024-05-01", 1500)])];
+
+        expect(matchTransaction(credit(1400, { reference: "Rent May" }), leases)).toEqual([]);
+    });
+
+    test("suggests the charges that are due together if the credit pays them", () => {
+        const leases = [lease(1, JOHN_DOE, "4B", [
+            charge(10, "2024-04-01", 1500),
+            charge(11, "2024-04-07", 50, { chargeType: "LATE_FEE" }),
+            charge(12, "2024-06-01", 1500),
+        ])];
+
+        expect(matchTransaction(credit(1550, { counterparty: "John Doe" }), leases)).toEqual([
+            { scheduleId: 10, amount: 1500, score: 90 },
+            { scheduleId: 11, amount: 50, score: 90 },
+        ]);
+    });
+
+    test("what was paid of a charge is not suggested again", () => {
+        const leases = [lease(1, JOHN_DOE, "4B", [charge(10, "2024-05-01", 1500, { allocations: [{ amount: 1000 }] })])];
+
+        expect(matchTransaction(credit(500, { counterparty: "John Doe" }), leases)).toEqual([{ scheduleId: 10, amount: 500, score: 100 }]);
+        expect(matchTransaction(credit(1500, { counterparty: "John Doe" }), leases)).toEqual([{ scheduleId: 10, amount: 500, score: 60 }]);
+    });
+
+    test("leases in another currency than the credit are not matched", () => {
+        const leases = [lease(1, JOHN_DOE, "4B", [charge(10, "2024-05-01", 1500)], { currency: "EUR" })];
+
+        expect(matchTransaction(credit(1500, { counterparty: "John Doe" }), leases)).toEqual([]);
+        expect(matchTransaction(credit(1500, { counterparty: "John Doe", currency: "EUR" }), leases)).toHaveLength(1);
+        expect(matchTransaction(credit(1500, { counterparty: "John Doe", currency: null }), leases)).toHaveLength(1);
+    });
+});
+
+describe("importBankStatement", () => {
+    const chase = {
+        fileName: "chase.csv",
+        format: "CSV",
+        preset: "chase",
+        mapping: getBankStatementPreset("chase"),
+        content: fixture("chase.csv")
+    };
+
+    beforeEach(() => {
+        fakePrisma.reset();
+        fakePrisma.records("tenant").push({ id: 5, ...JOHN_DOE });
+        fakePrisma.records("unit").push({ id: 3, unitIdentifier: "4B" });
+        fakePrisma.records("lease").push({ id: 1, realtorId: 7, tenantId: 5, unitId: 3, currency: "USD" });
+        fakePrisma.records("leasePaymentSchedule").push({ id: 10, leaseId: 1, chargeType: "RENT", status: "SCHEDULED", dueDate: new Date("2024-05-01"), amountDue: 1500 });
+    });
+
+    function bankTransactions() {
+        return fakePrisma.records("bankTransaction");
+    }
+
+    test("stores the credits of the statement with their suggested matches", async () => {
+        const {statement, imported, duplicates} = await importBankStatement(7, 2, chase);
+
+        expect({ imported, duplicates }).toEqual({ imported: 3, duplicates: 0 });
+        expect(bankTransactions().map((transaction) => [transaction.amount, transaction.status, transaction.importId])).toEqual([
+            [1500, "SUGGESTED", statement.id],
+            [1250, "UNMATCHED", statement.id],
+            [1250, "UNMATCHED", statement.id],
+        ]);
+        expect(fakePrisma.records("bankTransactionMatch")).toEqual([
+            expect.objectContaining({ transactionId: bankTransactions()[0].id, scheduleId: 10, amount: 1500, score: 100 })
+        ]);
+    });
+
+    test("credits that were imported before are skipped", async () => {
+        await importBankStatement(7, 2, chase);
+
+        expect(await importBankStatement(7, 2, chase)).toMatchObject({ imported: 0, duplicates: 3 });
+        expect(bankTransactions()).toHaveLength(3);
+        expect(fakePrisma.records("bankTransactionMatch")).toHaveLength(1);
+    });
+
+    test("importing the same statement twice at once stores its credits once", async () => {
+        const results = await Promise.all([importBankStatement(7, 2, chase), importBankStatement(7, 2, chase)]);
+
+        expect(results.map((result) => result.imported + result.duplicates)).toEqual([3, 3]);
+        expect(results[0].imported + results[1].imported).toBe(3);
+        expect(bankTransactions()).toHaveLength(3);
+        expect(fakePrisma.records("bankTransactionMatch")).toHaveLength(1);
+    });
+
+    test("charges suggested for another credit are not suggested again", async () => {
+        await importBankStatement(7, 2, chase);
+        await importBankStatement(7, 2, { fileName: "statement.ofx", format: "OFX", content: fixture("statement.ofx") });
+
+        expect(bankTransactions().slice(3).map((transaction) => transaction.status)).toEqual(["UNMATCHED", "UNMATCHED"]);
+        expect(fakePrisma.records("bankTransactionMatch")).toHaveLength(1);
+    });
+});
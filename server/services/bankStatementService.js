@@ -0,0 +1,325 @@
+import crypto from "crypto";
+import {roundCents} from "../../shared/money.js";
+
+// Reading of bank statement files. CSV files are read with the column mapping of their bank (see
+// shared/bankStatementPresets.js) or a custom one, OFX and CAMT.053 files describe their transactions themselves.
+// Only credits are read, the rent is reconciled against the money that came in. Every credit gets a fingerprint that
+// stays the same when the statement is imported again, so a statement can be imported twice without duplicates.
+// Parsing returns {transactions} or {error} with a message for the realtor
+
+function decodeEntities(text) {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
+
+function cleanText(text) {
+    const cleaned = text?.replace(/\s+/g, " ").trim();
+    return cleaned ? cleaned : null;
+}
+
+// Amounts like "1,234.56", "-1.234,56", "(50.00)", "$ 1,000.00" or "100.00-"
+export function parseAmount(text, decimalSeparator = ".") {
+    if (text === null || text === undefined) {
+        return null;
+    }
+
+    let value = String(text).trim();
+    const negative = /^-|-$|^\(.*\)$/.test(value);
+    const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+
+    value = value.replace(/[^\d.,]/g, "").split(thousandsSeparator).join("");
+    if (decimalSeparator === ",") {
+        value = value.replace(",", ".");
+    }
+
+    if (!value || isNaN(Number(value))) {
+        return null;
+    }
+
+    return roundCents(Number(value) * (negative ? -1 : 1));
+}
+
+// Dates in one of the DATE_FORMATS of shared/bankStatementPresets.js, as UTC midnight
+export function parseDate(text, dateFormat) {
+    const parts = String(text ?? "").trim().match(/^(\d{1,4})[-./](\d{1,2})[-./](\d{2,4})/);
+
+    if (!parts) {
+        return null;
+    }
+
+    const [first, second, third] = parts.slice(1).map(Number);
+    const [year, month, day] = {
+        "YYYY-MM-DD": [first, second, third],
+        "MM/DD/YYYY": [third, first, second],
+        "DD/MM/YYYY": [third, second, first],
+        "DD.MM.YYYY": [third, second, first],
+        "DD.MM.YY": [third < 100 ? 2000 + third : third, second, first],
+    }[dateFormat] ?? [];
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    if (!year || isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+
+    return date;
+}
+
+// Dates like "20240501" or "20240501120000.000[-5:EST]", the day is taken as it is
+function parseCompactDate(text) {
+    const parts = String(text ?? "").match(/^(\d{4})(\d{2})(\d{2})/);
+    return parts ? parseDate(`${parts[1]}-${parts[2]}-${parts[3]}`, "YYYY-MM-DD") : null;
+}
+
+// Rows of a CSV file, quoted values may contain the delimiter, line breaks and doubled quotes
+export function parseCsv(content, delimiter = ",") {
+    const rows = [];
+    let row = [];
+    let value = "";
+    let quoted = false;
+
+    const text = content.replace(/^\uFEFF/, "");
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+
+        if (quoted) {
+            if (char === "\"" && text[index + 1] === "\"") {
+                value += "\"";
+                index++;
+            }
+            else if (char === "\"") {
+                quoted = false;
+            }
+            else {
+                value += char;
+            }
+        }
+        else if (char === "\"") {
+            quoted = true;
+        }
+        else if (char === delimiter) {
+            row.push(value);
+            value = "";
+        }
+        else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[index + 1] === "\n") {
+                index++;
+            }
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = "";
+        }
+        else {
+            value += char;
+        }
+    }
+
+    if (value || row.length) {
+        row.push(value);
+        rows.push(row);
+    }
+
+    return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function readCsv(content, mapping) {
+    if (!mapping) {
+        return { error: "Please select the bank of the statement or map its columns" };
+    }
+
+    const rows = parseCsv(content, mapping.delimiter);
+    const columns = mapping.columns;
+    const normalize = (name) => String(name).trim().toLowerCase();
+
+    let dataRows = rows;
+    let indexOf = (column) => column;
+
+    if (mapping.header) {
+        // Some banks put a summary above the transactions, the header is the first row that names the date column
+        const headerIndex = rows.findIndex((cells) => cells.some((cell) => normalize(cell) === normalize(columns.date)));
+
+        if (headerIndex === -1) {
+            return { error: `The statement has no column "${columns.date}", please check the bank or the column mapping` };
+        }
+
+        const header = rows[headerIndex].map(normalize);
+        const missing = Object.values(columns).find((column) => !header.includes(normalize(column)));
+
+        if (missing) {
+            return { error: `The statement has no column "${missing}", please check the bank or the column mapping` };
+        }
+
+        dataRows = rows.slice(headerIndex + 1);
+        indexOf = (column) => header.indexOf(normalize(column));
+    }
+
+    const cell = (cells, column) => column === undefined || column === null ? null : cells[indexOf(column)] ?? null;
+
+    const transactions = [];
+
+    for (const cells of dataRows) {
+        const date = parseDate(cell(cells, columns.date), mapping.dateFormat);
+        const amount = parseAmount(cell(cells, columns.credit ?? columns.amount), mapping.decimalSeparator);
+
+        // Summary and balance rows have no date or amount
+        if (!date || !amount || amount <= 0) {
+            continue;
+        }
+
+        transactions.push({
+            date: date,
+            amount: amount,
+            currency: cleanText(cell(cells, columns.currency))?.toUpperCase() ?? null,
+            counterparty: cleanText(cell(cells, columns.counterparty)),
+            reference: cleanText(cell(cells, columns.reference)),
+            externalId: null,
+        });
+    }
+
+    return { transactions };
+}
+
+function ofxValue(block, tag) {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+    return match ? cleanText(decodeEntities(match[1])) : null;
+}
+
+// OFX 1.x (SGML, without closing tags) and 2.x (XML)
+function readOfx(content) {
+    if (!/<OFX>/i.test(content)) {
+        return { error: "The file is no OFX statement" };
+    }
+
+    const currency = ofxValue(content, "CURDEF");
+    const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+    const transactions = blocks.map((block) => {
+        const name = ofxValue(block, "NAME");
+        const memo = ofxValue(block, "MEMO");
+
+        return {
+            date: parseCompactDate(ofxValue(block, "DTPOSTED")),
+            amount: parseAmount(ofxValue(block, "TRNAMT"), /,\d{1,2}$/.test(ofxValue(block, "TRNAMT") ?? "") ? "," : "."),
+            currency: currency?.toUpperCase() ?? null,
+            counterparty: name,
+            reference: memo ?? name,
+            externalId: ofxValue(block, "FITID"),
+        };
+    });
+
+    return { transactions: transactions.filter((transaction) => transaction.date && transaction.amount > 0) };
+}
+
+function xmlElements(xml, tag) {
+    return xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, "g")) ?? [];
+}
+
+function xmlValue(xml, path) {
+    let current = xml;
+
+    for (const tag of path) {
+        current = xmlElements(current, tag)[0];
+
+        if (!current) {
+            return null;
+        }
+    }
+
+    return cleanText(decodeEntities(current.replace(/^<[^>]*>/, "").replace(/<\/[^>]*>$/, "")));
+}
+
+function camtAmount(xml) {
+    const match = xml?.match(/<Amt(\s[^>]*)?>([^<]*)<\/Amt>/);
+    return match ? { amount: parseAmount(match[2]), currency: match[1]?.match(/Ccy="([A-Z]{3})"/)?.[1] ?? null } : null;
+}
+
+// Amount of a single transaction of a batch booking, older versions only have it in the amount details
+function detailAmount(detail) {
+    return camtAmount(xmlElements(detail, "TxAmt")[0]) ?? camtAmount(detail.split(/<(?:AmtDtls|RltdPties|RmtInf)>/)[0]);
+}
+
+// ISO 20022 bank to customer statements. Batch bookings with several transaction details are read as one credit
+// per detail
+function readCamt(content) {
+    // Namespace prefixes differ between banks
+    const xml = content.replace(/<(\/?)[\w-]+:/g, "<$1");
+
+    if (!/<BkToCstmrStmt>/.test(xml)) {
+        return { error: "The file is no CAMT.053 statement" };
+    }
+
+    const transactions = [];
+
+    for (const entry of xmlElements(xml, "Ntry")) {
+        const entryLevel = entry.split(/<NtryDtls>/)[0];
+
+        if (xmlValue(entryLevel, ["CdtDbtInd"]) !== "CRDT" || xmlValue(entryLevel, ["RvslInd"]) === "true") {
+            continue;
+        }
+
+        const date = parseDate(xmlValue(entryLevel, ["BookgDt", "Dt"]) ?? xmlValue(entryLevel, ["BookgDt", "DtTm"]) ??
+            xmlValue(entryLevel, ["ValDt", "Dt"]), "YYYY-MM-DD");
+        const entryAmount = camtAmount(entryLevel);
+        const details = xmlElements(entry, "TxDtls");
+        const splitDetails = details.length > 1 && details.every((detail) => detailAmount(detail));
+
+        for (const [index, detail] of (splitDetails ? details : [details[0] ?? ""]).entries()) {
+            const amount = splitDetails ? detailAmount(detail) : entryAmount;
+            const unstructured = xmlElements(detail, "Ustrd").map((element) => xmlValue(element, ["Ustrd"])).filter(Boolean);
+            const entryReference = xmlValue(entryLevel, ["AcctSvcrRef"]);
+
+            transactions.push({
+                date: date,
+                amount: amount?.amount,
+                currency: amount?.currency ?? xmlValue(xml, ["Acct", "Ccy"]),
+                counterparty: xmlValue(detail, ["RltdPties", "Dbtr", "Nm"]),
+                reference: cleanText(unstructured.join(" ")) ?? xmlValue(detail, ["CdtrRefInf", "Ref"]) ??
+                    xmlValue(entryLevel, ["AddtlNtryInf"]),
+                externalId: xmlValue(detail, ["Refs", "AcctSvcrRef"]) ??
+                    (entryReference ? `${entryReference}${splitDetails ? `/${index + 1}` : ""}` : null),
+            });
+        }
+    }
+
+    return { transactions: transactions.filter((transaction) => transaction.date && transaction.amount > 0) };
+}
+
+// The id the bank gave the transaction, or its content together with how often the same content occurred before in
+// the statement (e.g. two tenants paying the same rent with the same reference)
+function addFingerprints(transactions) {
+    const occurrences = new Map();
+
+    return transactions.map((transaction) => {
+        const content = [transaction.date.toISOString().slice(0, 10), transaction.amount.toFixed(2), transaction.currency,
+            transaction.counterparty, transaction.reference].join("|");
+        const occurrence = occurrences.get(content) ?? 0;
+        occurrences.set(content, occurrence + 1);
+
+        const key = transaction.externalId ? `id|${transaction.externalId}` : `${content}|${occurrence}`;
+
+        return { ...transaction, fingerprint: crypto.createHash("sha256").update(key).digest("hex") };
+    });
+}
+
+// Credits of the statement. CSV files need the column mapping of their bank
+export function parseStatement(format, content, mapping) {
+    const result = {
+        CSV: () => readCsv(content, mapping),
+        OFX: () => readOfx(content),
+        CAMT053: () => readCamt(content),
+    }[format]?.() ?? { error: "Unknown statement format" };
+
+    if (result.error) {
+        return result;
+    }
+
+    return { transactions: addFingerprints(result.transactions) };
+}
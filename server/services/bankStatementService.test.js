@@ -0,0 +1,121 @@
+import fs from "fs";
+import {describe, expect, test} from "vitest";
+import {parseAmount, parseCsv, parseDate, parseStatement} from "./bankStatementService.js";
+import {getBankStatementPreset} from "../../shared/bankStatementPresets.js";
+
+function fixture(fileName) {
+    return fs.readFileSync(new URL(`../test/fixtures/bankStatements/${fileName}`, import.meta.url), "utf8");
+}
+
+function credits(format, fileName, preset) {
+    const {transactions, error} = parseStatement(format, fixture(fileName), preset && getBankStatementPreset(preset));
+
+    expect(error).toBeUndefined();
+    return transactions;
+}
+
+describe("parseAmount", () => {
+    test("reads thousands and decimal separators", () => {
+        expect(parseAmount("1,234.56")).toBe(1234.56);
+        expect(parseAmount("$ 1,000.00")).toBe(1000);
+        expect(parseAmount("1.234,56", ",")).toBe(1234.56);
+        expect(parseAmount("-89,90", ",")).toBe(-89.9);
+    });
+
+    test("reads negative amounts in parentheses and with a trailing minus", () => {
+        expect(parseAmount("(50.00)")).toBe(-50);
+        expect(parseAmount("100.00-")).toBe(-100);
+    });
+
+    test("is null without an amount", () => {
+        expect(parseAmount("")).toBeNull();
+        expect(parseAmount("n/a")).toBeNull();
+        expect(parseAmount(null)).toBeNull();
+    });
+});
+
+describe("parseDate", () => {
+    test("reads every date format as UTC midnight", () => {
+        expect(parseDate("2024-05-01", "YYYY-MM-DD")).toEqual(new Date("2024-05-01"));
+        expect(parseDate("05/01/2024", "MM/DD/YYYY")).toEqual(new Date("2024-05-01"));
+        expect(parseDate("01/05/2024", "DD/MM/YYYY")).toEqual(new Date("2024-05-01"));
+        expect(parseDate("01.05.2024", "DD.MM.YYYY")).toEqual(new Date("2024-05-01"));
+        expect(parseDate("01.05.24", "DD.MM.YY")).toEqual(new Date("2024-05-01"));
+    });
+
+    test("is null for dates that do not exist or do not match the format", () => {
+        expect(parseDate("2023-02-29", "YYYY-MM-DD")).toBeNull();
+        expect(parseDate("13/01/2024", "MM/DD/YYYY")).toBeNull();
+        expect(parseDate("Total credits", "MM/DD/YYYY")).toBeNull();
+        expect(parseDate("2024-05-01", "unknown")).toBeNull();
+    });
+});
+
+describe("parseCsv", () => {
+    test("quoted values may contain the delimiter, line breaks and quotes", () => {
+        expect(parseCsv("a;\"b;c\";\"d\r\ne\"\r\n\"f \"\"g\"\"\";h\n\n", ";")).toEqual([["a", "b;c", "d\r\ne"], ["f \"g\"", "h"]]);
+    });
+});
+
+describe("parseStatement", () => {
+    test("reads Chase statements", () => {
+        expect(credits("CSV", "chase.csv", "chase")).toMatchObject([
+            { date: new Date("2024-05-01"), amount: 1500, currency: null, counterparty: "ZELLE FROM DOE JOHN, UNIT 4B", reference: "ZELLE FROM DOE JOHN, UNIT 4B", externalId: null },
+            { date: new Date("2024-05-03"), amount: 1250, currency: null, counterparty: "ZELLE FROM SMITH ANNA", reference: "ZELLE FROM SMITH ANNA", externalId: null },
+            { date: new Date("2024-05-03"), amount: 1250, currency: null, counterparty: "ZELLE FROM SMITH ANNA", reference: "ZELLE FROM SMITH ANNA", externalId: null },
+        ]);
+    });
+
+    test("skips the summary above the transactions of Bank of America statements", () => {
+        expect(credits("CSV", "bank_of_america.csv", "bank_of_america")).toMatchObject([
+            { date: new Date("2024-05-01"), amount: 1500, currency: null, counterparty: "ZELLE PAYMENT FROM JOHN DOE", reference: "ZELLE PAYMENT FROM JOHN DOE", externalId: null },
+        ]);
+    });
+
+    test("reads the credit column of Capital One statements", () => {
+        expect(credits("CSV", "capital_one.csv", "capital_one")).toMatchObject([
+            { date: new Date("2024-05-01"), amount: 1500, currency: null, counterparty: "JOHN DOE RENT MAY", reference: "JOHN DOE RENT MAY", externalId: null },
+        ]);
+    });
+
+    test("reads the comma decimals and short dates of Sparkasse statements", () => {
+        expect(credits("CSV", "sparkasse.csv", "sparkasse")).toMatchObject([
+            { date: new Date("2024-05-01"), amount: 1234.56, currency: "EUR", counterparty: "Mueller, Hans", reference: "Miete Mai Whg 4B", externalId: null },
+        ]);
+    });
+
+    test("reads OFX 1.x statements in SGML", () => {
+        expect(credits("OFX", "statement.ofx")).toMatchObject([
+            { date: new Date("2024-05-01"), amount: 1500, currency: "USD", counterparty: "JOHN DOE", reference: "RENT MAY UNIT 4B", externalId: "202405011" },
+            { date: new Date("2024-05-03"), amount: 1250, currency: "USD", counterparty: "SMITH & SONS", reference: "SMITH & SONS", externalId: "202405033" },
+        ]);
+    });
+
+    test("reads batch bookings of CAMT.053 statements as one credit per transaction and skips reversals", () => {
+        expect(credits("CAMT053", "camt053.xml")).toMatchObject([
+            { date: new Date("2024-05-02"), amount: 1500, currency: "EUR", counterparty: "Hans Mueller", reference: "Miete Mai Whg 4B", externalId: "E-1" },
+            { date: new Date("2024-05-03"), amount: 1000, currency: "EUR", counterparty: "Anna Schmidt", reference: "Miete Mai Whg 2A", externalId: "E-2/1" },
+            { date: new Date("2024-05-03"), amount: 1300, currency: "EUR", counterparty: "Jonas Weber", reference: "Miete Mai Whg 3C", externalId: "E-2/2" },
+        ]);
+    });
+
+    test("fingerprints stay the same when the statement is read again and tell equal credits apart", () => {
+        const fingerprints = (format, fileName, preset) => parseStatement(format, fixture(fileName), preset && getBankStatementPreset(preset))
+            .transactions.map((transaction) => transaction.fingerprint);
+
+        const chase = fingerprints("CSV", "chase.csv", "chase");
+        expect(fingerprints("CSV", "chase.csv", "chase")).toEqual(chase);
+        expect(new Set(chase).size).toBe(3);
+
+        expect(fingerprints("CAMT053", "camt053.xml")).toEqual(fingerprints("CAMT053", "camt053.xml"));
+    });
+
+    test("files that do not match their format or mapping are errors", () => {
+        expect(parseStatement("CSV", fixture("chase.csv"), null)).toEqual({ error: "Please select the bank of the statement or map its columns" });
+        expect(parseStatement("CSV", fixture("chase.csv"), getBankStatementPreset("capital_one")).error)
+            .toBe("The statement has no column \"Transaction Date\", please check the bank or the column mapping");
+        expect(parseStatement("OFX", fixture("chase.csv")).error).toBe("The file is no OFX statement");
+        expect(parseStatement("CAMT053", fixture("statement.ofx")).error).toBe("The file is no CAMT.053 statement");
+        expect(parseStatement("PDF", "")).toEqual({ error: "Unknown statement format" });
+    });
+});
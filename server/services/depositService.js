@@ -0,0 +1,177 @@
+import prisma from "../prisma.js";
+import {storeDocument} from "./documentService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {DAY} from "../../shared/dates.js";
+import {roundCents} from "../../shared/money.js";
+
+// Security deposits and their move-out settlement. The settlement itemizes the deductions, adds the interest the
+// deposit earned while it was held and refunds the rest to the tenant. The statement is stored as a document of the lease
+
+// Simple interest from the day the deposit was received until the move-out
+export function calculateInterest(deposit, moveOutDate) {
+    if (!deposit.interestRate || !deposit.receivedDate) {
+        return 0;
+    }
+
+    const days = Math.max(0, Math.floor((new Date(moveOutDate) - new Date(deposit.receivedDate)) / DAY));
+
+    return roundCents(deposit.amount * deposit.interestRate / 100 * days / 365);
+}
+
+// Amounts of the settlement, the refund is negative if the deductions exceed the deposit and its interest
+export function calculateSettlement(deposit, deductions, moveOutDate) {
+    const interestAmount = calculateInterest(deposit, moveOutDate);
+    const totalDeductions = roundCents(deductions.reduce((total, deduction) => total + deduction.amount, 0));
+
+    return {
+        interestAmount: interestAmount,
+        totalDeductions: totalDeductions,
+        refundAmount: roundCents(deposit.amount + interestAmount - totalDeductions),
+    };
+}
+
+function settlementStatementHtml(deposit, lease, deductions, settlement, moveOutDate, notes, realtorUser) {
+    const currency = deposit.currency ?? lease.currency ?? "USD";
+    const formatMoney = (amount) => amount.toLocaleString("en-US", { style: "currency", currency: currency });
+    const formatDate = (date) => date ? new Date(date).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" }) : "-";
+
+    const realtorName = [realtorUser?.firstName, realtorUser?.lastName].filter(Boolean).join(" ") || realtorUser?.email;
+    const tenantName = [lease.tenant?.firstName, lease.tenant?.lastName].filter(Boolean).join(" ");
+
+    const rows = deductions.map((deduction) => `
+            <tr>
+                <td>${escapeHtml(deduction.description)}</td>
+                <td style="text-align: right">${formatMoney(deduction.amount)}</td>
+            </tr>`).join("");
+
+    const result = settlement.refundAmount >= 0 ?
+        `<p><strong>Refund to the tenant: ${formatMoney(settlement.refundAmount)}</strong></p>` :
+        `<p><strong>Amount owed by the tenant: ${formatMoney(-settlement.refundAmount)}</strong></p>`;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Security Deposit Settlement</title>
+</head>
+<body style="font-family: sans-serif">
+    <h1>Security Deposit Settlement</h1>
+    <p>
+        ${escapeHtml(realtorName)}<br/>
+        ${escapeHtml(realtorUser?.email)}${realtorUser?.phone ? `<br/>${escapeHtml(realtorUser.phone)}` : ""}
+    </p>
+    <p>
+        Tenant: ${escapeHtml(tenantName)}<br/>
+        Unit: ${escapeHtml(lease.unit?.unitIdentifier ?? "-")}<br/>
+        Lease: ${formatDate(lease.startDate)} to ${formatDate(lease.endDate)}<br/>
+        Move-out: ${formatDate(moveOutDate)}
+    </p>
+    <table style="border-collapse: collapse; min-width: 400px">
+        <tr>
+            <td>Security deposit (received ${formatDate(deposit.receivedDate)})</td>
+            <td style="text-align: right">${formatMoney(deposit.amount)}</td>
+        </tr>
+        <tr>
+            <td>Interest${deposit.interestRate ? ` (${deposit.interestRate}% per year)` : ""}</td>
+            <td style="text-align: right">${formatMoney(settlement.interestAmount)}</td>
+        </tr>
+    </table>
+    <h2>Deductions</h2>
+    <table style="border-collapse: collapse; min-width: 400px">${rows || `
+        <tr><td>No deductions</td></tr>`}
+        <tr>
+            <td><strong>Total deductions</strong></td>
+            <td style="text-align: right"><strong>${formatMoney(settlement.totalDeductions)}</strong></td>
+        </tr>
+    </table>
+    ${result}
+    ${notes ? `<p>${escapeHtml(notes)}</p>` : ""}
+    <p>Settled on ${formatDate(new Date())}</p>
+</body>
+</html>
+`;
+}
+
+// Records the deductions, stores the settlement statement and marks the deposit as settled.
+// Returns null if the deposit was settled in the meantime
+export async function settleDeposit(deposit, {moveOutDate, deductions, notes}, userId) {
+    const lease = await prisma.lease.findUnique({
+        where: {
+            id: deposit.leaseId
+        },
+        include: {
+            tenant: true,
+            unit: true
+        }
+    });
+
+    const realtorUser = await prisma.user.findUnique({
+        where: {
+            id: userId
+        },
+        select: {
+            firstName: true,
+            lastName: true,
+            email: true,
+            phone: true
+        }
+    });
+
+    const settlement = calculateSettlement(deposit, deductions, moveOutDate);
+
+    return prisma.$transaction(async (tx) => {
+        const claimed = await tx.securityDeposit.updateMany({
+            where: {
+                id: deposit.id,
+                status: "HELD"
+            },
+            data: {
+                status: "SETTLED",
+                settledAt: new Date(),
+                moveOutDate: moveOutDate,
+                interestAmount: settlement.interestAmount,
+                refundAmount: settlement.refundAmount
+            }
+        });
+
+        if (!claimed.count) {
+            return null;
+        }
+
+        await tx.depositDeduction.createMany({
+            data: deductions.map((deduction) => ({
+                description: deduction.description,
+                amount: deduction.amount,
+                expenseId: deduction.expenseId ?? null,
+                maintenanceRequestId: deduction.maintenanceRequestId ?? null,
+                depositId: deposit.id
+            }))
+        });
+
+        const statement = await storeDocument({
+            documentType: "STATEMENT",
+            name: `deposit-settlement-lease-${lease.id}.html`,
+            mimeType: "text/html",
+            content: settlementStatementHtml(deposit, lease, deductions, settlement, moveOutDate, notes, realtorUser),
+            userId: userId,
+            leaseId: lease.id,
+            unitId: lease.unitId
+        }, tx);
+
+        await syncLeaseLedger(lease.id, tx);
+
+        return tx.securityDeposit.update({
+            where: {
+                id: deposit.id
+            },
+            data: {
+                statementId: statement.id
+            },
+            include: {
+                deductions: true,
+                statement: true
+            }
+        });
+    });
+}
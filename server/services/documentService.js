@@ -0,0 +1,36 @@
+import fs from "fs/promises";
+import path from "path";
+import {randomUUID} from "crypto";
+import prisma from "../prisma.js";
+
+// Documents the server generates (e.g. settlement statements) are written into DOCUMENT_DIR, the Document record
+// keeps the file name. Files are only handed out through the API, which checks the access to the document
+
+// eslint-disable-next-line no-undef
+const DOCUMENT_DIR = process.env.DOCUMENT_DIR || "documents";
+
+// Writes the content and creates the Document record, pass the client of a running transaction as tx
+export async function storeDocument({documentType, name, mimeType, content, userId, leaseId = null, unitId = null}, tx = prisma) {
+    await fs.mkdir(DOCUMENT_DIR, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}${path.extname(name)}`;
+
+    await fs.writeFile(path.join(DOCUMENT_DIR, fileName), content);
+
+    return tx.document.create({
+        data: {
+            documentType: documentType,
+            name: name,
+            mimeType: mimeType,
+            filePath: fileName,
+            userId: userId,
+            leaseId: leaseId,
+            unitId: unitId
+        }
+    });
+}
+
+// Absolute path of the file of the document, file names never leave the document directory
+export function getDocumentFilePath(document) {
+    return path.resolve(DOCUMENT_DIR, path.basename(document.filePath));
+}
@@ -0,0 +1,187 @@
+import prisma from "../prisma.js";
+import {reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {DAY, startOfDay} from "../../shared/dates.js";
+import {roundCents} from "../../shared/money.js";
+
+// Late fees of overdue rent. The fee of an overdue period is charged as a LATE_FEE row of the payment schedule that
+// links to the rent it is charged for, it grows with the daily accrual until the cap. Every change of the fee is
+// recorded as a LateFeeEntry, waived or fully paid fees are never changed again
+
+// Rows that are still owed, overdue rent of these rows is charged a late fee
+const UNPAID_RENT_STATUSES = ["OVERDUE", "PARTIALLY_PAID"];
+
+// Fees that are still open, the accrual stops once a fee was fully paid or waived
+const OPEN_FEE_STATUSES = ["SCHEDULED", "OVERDUE", "PARTIALLY_PAID"];
+
+// Full days the rent is overdue at the given time, 0 on its due date
+export function getDaysLate(dueDate, now = new Date()) {
+    return Math.max(0, Math.floor((startOfDay(now) - startOfDay(new Date(dueDate))) / DAY));
+}
+
+// The lease's own policy takes precedence over the policy of its property
+export function getLateFeePolicy(lease) {
+    return lease?.lateFeePolicy ?? lease?.unit?.realEstateObject?.lateFeePolicy ?? null;
+}
+
+// Fee owed for the rent at the given time: nothing during the grace period, the fee on the first day after it and the
+// daily amount for every further day, capped at the maximum. Percentages are taken of the amount of the rent
+export function calculateLateFee(policy, rentAmount, daysLate) {
+    if (!policy || daysLate <= policy.graceDays) {
+        return 0;
+    }
+
+    const toAmount = (value) => policy.feeType === "PERCENTAGE" ? rentAmount * value / 100 : value;
+
+    const accrualDays = daysLate - policy.graceDays - 1;
+    const fee = toAmount(policy.feeAmount) + toAmount(policy.dailyAmount ?? 0) * accrualDays;
+
+    return roundCents(policy.maxAmount !== null && policy.maxAmount !== undefined ? Math.min(fee, policy.maxAmount) : fee);
+}
+
+// Charges or accrues the late fee of one overdue rent row, returns the change of the fee
+async function applyLateFee(rent, policy, now) {
+    const daysLate = getDaysLate(rent.dueDate, now);
+    const totalAmount = calculateLateFee(policy, rent.amountDue, daysLate);
+    const currentFee = rent.lateFee;
+
+    if (currentFee && !OPEN_FEE_STATUSES.includes(currentFee.status)) {
+        return 0;
+    }
+
+    const amount = roundCents(totalAmount - (currentFee?.amountDue ?? 0));
+
+    if (amount <= 0) {
+        return 0;
+    }
+
+    await prisma.$transaction(async (tx) => {
+        const fee = currentFee ?
+            await tx.leasePaymentSchedule.update({
+                where: {
+                    id: currentFee.id
+                },
+                data: {
+                    amountDue: totalAmount
+                }
+            }) :
+            await tx.leasePaymentSchedule.create({
+                data: {
+                    chargeType: "LATE_FEE",
+                    dueDate: startOfDay(now),
+                    amountDue: totalAmount,
+                    leaseId: rent.leaseId,
+                    lateFeeForId: rent.id
+                }
+            });
+
+        await tx.lateFeeEntry.create({
+            data: {
+                amount: amount,
+                totalAmount: totalAmount,
+                daysLate: daysLate,
+                note: currentFee ? "Daily accrual" : "Late fee charged",
+                chargeId: fee.id,
+                policyId: policy.id
+            }
+        });
+
+        // Pays the fee with the credit of the tenant and derives the status of a fee that was partially paid again,
+        // the fee is posted with its new amount
+        await reconcileAllocations(rent.leaseId, tx, now);
+        await syncLeaseLedger(rent.leaseId, tx, now);
+    });
+
+    return amount;
+}
+
+// Charges and accrues the late fees of all overdue rent, running it again on the same day changes nothing
+export async function applyLateFees(now = new Date()) {
+    const overdueRent = await prisma.leasePaymentSchedule.findMany({
+        where: {
+            chargeType: "RENT",
+            status: {
+                in: UNPAID_RENT_STATUSES
+            },
+            dueDate: {
+                lt: startOfDay(now)
+            },
+            lease: {
+                OR: [
+                    { lateFeePolicy: { isNot: null } },
+                    { unit: { realEstateObject: { lateFeePolicy: { isNot: null } } } }
+                ]
+            }
+        },
+        include: {
+            lateFee: true,
+            lease: {
+                include: {
+                    lateFeePolicy: true,
+                    unit: {
+                        include: {
+                            realEstateObject: {
+                                include: {
+                                    lateFeePolicy: true
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    });
+
+    const result = { charged: 0, total: 0 };
+
+    for (const rent of overdueRent) {
+        const amount = await applyLateFee(rent, getLateFeePolicy(rent.lease), now);
+
+        if (amount > 0) {
+            result.charged++;
+            result.total = roundCents(result.total + amount);
+        }
+    }
+
+    return result;
+}
+
+// Records the waiver of late fees that were set to WAIVED, fees whose waiver was recorded before are skipped
+export async function recordLateFeeWaivers(schedules, userId) {
+    const waivedFees = schedules.filter((schedule) => schedule.chargeType === "LATE_FEE" && schedule.status === "WAIVED");
+
+    if (!waivedFees.length) {
+        return;
+    }
+
+    const recorded = await prisma.lateFeeEntry.findMany({
+        where: {
+            chargeId: {
+                in: waivedFees.map((fee) => fee.id)
+            },
+            amount: {
+                lt: 0
+            }
+        },
+        select: {
+            chargeId: true
+        }
+    });
+
+    const recordedIds = new Set(recorded.map((entry) => entry.chargeId));
+    const newWaivers = waivedFees.filter((fee) => !recordedIds.has(fee.id));
+
+    if (!newWaivers.length) {
+        return;
+    }
+
+    await prisma.lateFeeEntry.createMany({
+        data: newWaivers.map((fee) => ({
+            amount: -fee.amountDue,
+            totalAmount: 0,
+            note: "Waived",
+            chargeId: fee.id,
+            userId: userId
+        }))
+    });
+}
@@ -0,0 +1,127 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {applyLateFees, calculateLateFee, getDaysLate} from "./lateFeeService.js";
+import {reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+vi.mock("./allocationService.js", () => ({ reconcileAllocations: vi.fn() }));
+vi.mock("./ledgerService.js", () => ({ syncLeaseLedger: vi.fn() }));
+
+// 50 after five days of grace, 10 for every further day up to 100
+const FLAT_POLICY = { id: 1, graceDays: 5, feeType: "FLAT", feeAmount: 50, dailyAmount: 10, maxAmount: 100 };
+// 5% of the rent, 0.5% for every further day
+const PERCENTAGE_POLICY = { id: 2, graceDays: 0, feeType: "PERCENTAGE", feeAmount: 5, dailyAmount: 0.5, maxAmount: null };
+
+let lease;
+let rent;
+
+function fees() {
+    return fakePrisma.records("leasePaymentSchedule").filter((schedule) => schedule.chargeType === "LATE_FEE");
+}
+
+function entries() {
+    return fakePrisma.records("lateFeeEntry");
+}
+
+function runOn(date) {
+    return applyLateFees(new Date(`${date}T08:00:00Z`));
+}
+
+describe("calculateLateFee", () => {
+    test("nothing is owed during the grace period", () => {
+        expect(calculateLateFee(FLAT_POLICY, 1000, 0)).toBe(0);
+        expect(calculateLateFee(FLAT_POLICY, 1000, 5)).toBe(0);
+        expect(calculateLateFee(FLAT_POLICY, 1000, 6)).toBe(50);
+        expect(calculateLateFee(null, 1000, 30)).toBe(0);
+    });
+
+    test("flat fees are amounts, percentage fees are taken of the rent", () => {
+        expect(calculateLateFee(FLAT_POLICY, 2000, 6)).toBe(50);
+        expect(calculateLateFee(PERCENTAGE_POLICY, 1000, 1)).toBe(50);
+        expect(calculateLateFee(PERCENTAGE_POLICY, 1234.56, 1)).toBe(61.73);
+    });
+
+    test("the daily amount accrues for every further day up to the cap", () => {
+        expect(calculateLateFee(FLAT_POLICY, 1000, 7)).toBe(60);
+        expect(calculateLateFee(FLAT_POLICY, 1000, 10)).toBe(90);
+        expect(calculateLateFee(FLAT_POLICY, 1000, 11)).toBe(100);
+        expect(calculateLateFee(FLAT_POLICY, 1000, 40)).toBe(100);
+        expect(calculateLateFee(PERCENTAGE_POLICY, 1000, 41)).toBe(250);
+    });
+
+    test("days late are counted in full days from the due date", () => {
+        expect(getDaysLate(new Date("2024-03-01"), new Date("2024-03-01T23:00:00Z"))).toBe(0);
+        expect(getDaysLate(new Date("2024-03-01"), new Date("2024-03-07T00:30:00Z"))).toBe(6);
+        expect(getDaysLate(new Date("2024-03-01"), new Date("2024-02-20T00:00:00Z"))).toBe(0);
+    });
+});
+
+describe("applyLateFees", () => {
+    beforeEach(() => {
+        fakePrisma.reset();
+        vi.clearAllMocks();
+
+        lease = { id: 1, lateFeePolicy: FLAT_POLICY, unit: { realEstateObject: { lateFeePolicy: null } } };
+        rent = { id: 10, leaseId: 1, chargeType: "RENT", status: "OVERDUE", dueDate: new Date("2024-03-01"), amountDue: 1000, lease: lease };
+        fakePrisma.records("leasePaymentSchedule").push(rent);
+    });
+
+    test("the fee is charged on the first day after the grace period", async () => {
+        expect(await runOn("2024-03-06")).toEqual({ charged: 0, total: 0 });
+        expect(fees()).toHaveLength(0);
+
+        expect(await runOn("2024-03-07")).toEqual({ charged: 1, total: 50 });
+        expect(fees()).toEqual([expect.objectContaining({ leaseId: 1, lateFeeForId: 10, amountDue: 50, dueDate: new Date("2024-03-07") })]);
+        expect(entries()).toEqual([expect.objectContaining({ amount: 50, totalAmount: 50, daysLate: 6, note: "Late fee charged", policyId: 1 })]);
+        expect(reconcileAllocations).toHaveBeenCalledWith(1, fakePrisma, new Date("2024-03-07T08:00:00Z"));
+        expect(syncLeaseLedger).toHaveBeenCalledWith(1, fakePrisma, new Date("2024-03-07T08:00:00Z"));
+    });
+
+    test("the fee accrues daily up to the cap and running the job again on a day changes nothing", async () => {
+        await runOn("2024-03-07");
+        await runOn("2024-03-09");
+
+        expect(fees()).toEqual([expect.objectContaining({ amountDue: 70 })]);
+        expect(entries().at(-1)).toMatchObject({ amount: 20, totalAmount: 70, daysLate: 8, note: "Daily accrual" });
+
+        expect(await runOn("2024-03-09")).toEqual({ charged: 0, total: 0 });
+
+        await runOn("2024-03-31");
+        expect(fees()).toEqual([expect.objectContaining({ amountDue: 100 })]);
+        expect(entries().map((entry) => entry.amount)).toEqual([50, 20, 30]);
+    });
+
+    test("partially paid fees keep accruing, paid and waived ones do not", async () => {
+        await runOn("2024-03-07");
+
+        fees()[0].status = "PARTIALLY_PAID";
+        await runOn("2024-03-08");
+        expect(fees()[0].amountDue).toBe(60);
+
+        fees()[0].status = "PAID";
+        await runOn("2024-03-09");
+        expect(fees()[0].amountDue).toBe(60);
+
+        fees()[0].status = "WAIVED";
+        await runOn("2024-03-10");
+        expect(fees()[0].amountDue).toBe(60);
+    });
+
+    test("partially paid rent is charged, paid rent is not", async () => {
+        rent.status = "PARTIALLY_PAID";
+        expect((await runOn("2024-03-07")).charged).toBe(1);
+
+        fakePrisma.reset();
+        fakePrisma.records("leasePaymentSchedule").push({ ...rent, id: 11, status: "PAID" });
+        expect((await runOn("2024-03-07")).charged).toBe(0);
+    });
+
+    test("leases without a policy of their own use the policy of their property", async () => {
+        lease.lateFeePolicy = null;
+        expect((await runOn("2024-03-07")).charged).toBe(0);
+
+        lease.unit.realEstateObject.lateFeePolicy = PERCENTAGE_POLICY;
+        expect(await runOn("2024-03-07")).toEqual({ charged: 1, total: 75 });
+    });
+});
@@ -0,0 +1,144 @@
+import prisma from "../prisma.js";
+
+// Parties of leases: the primary tenant, co-tenants, guarantors and further occupants. The primary party is always
+// the tenant of the lease as well, both are changed together. Only the primary tenant and the co-tenants are
+// responsible for the rent, their shares are the percentages of the rent they pay
+
+const PAYING_ROLES = ["PRIMARY", "CO_TENANT"];
+
+function normalizeParty(party) {
+    return {
+        tenantId: party.tenantId,
+        role: party.role,
+        share: PAYING_ROLES.includes(party.role) ? party.share ?? null : null
+    };
+}
+
+// Parties of a new lease, without a list of parties its tenant is the only (primary) party
+export function getInitialParties(leaseData) {
+    if (leaseData.parties?.length) {
+        return leaseData.parties.map(normalizeParty);
+    }
+
+    return leaseData.tenantId ? [{ tenantId: leaseData.tenantId, role: "PRIMARY", share: 100 }] : [];
+}
+
+// Whether the tenant is a party of the lease, payments can only be attributed to parties
+export async function isLeaseParty(leaseId, tenantId) {
+    const party = await prisma.leaseParty.findUnique({
+        where: {
+            leaseId_tenantId: {
+                leaseId: leaseId,
+                tenantId: tenantId
+            }
+        }
+    });
+
+    return Boolean(party);
+}
+
+// Replaces all parties of the lease, the primary party becomes the tenant of the lease. A unit that is occupied
+// by the previous primary tenant of the lease is occupied by the new one
+export async function replaceLeaseParties(tx, lease, parties) {
+    const newParties = parties.map(normalizeParty);
+    const primary = newParties.find((party) => party.role === "PRIMARY");
+
+    await tx.leaseParty.deleteMany({
+        where: {
+            leaseId: lease.id
+        }
+    });
+
+    await tx.leaseParty.createMany({
+        data: newParties.map((party) => ({
+            ...party,
+            leaseId: lease.id
+        }))
+    });
+
+    if (primary.tenantId !== lease.tenantId) {
+        await tx.lease.update({
+            where: {
+                id: lease.id
+            },
+            data: {
+                tenantId: primary.tenantId
+            }
+        });
+
+        if (lease.unitId && lease.tenantId) {
+            await tx.unit.updateMany({
+                where: {
+                    id: lease.unitId,
+                    tenantId: lease.tenantId
+                },
+                data: {
+                    tenantId: primary.tenantId
+                }
+            });
+        }
+    }
+}
+
+// Makes the tenant the primary party of the lease when only the tenant of the lease was changed. The previous
+// primary tenant leaves the lease, the new one takes over their share
+export async function setPrimaryTenant(tx, leaseId, tenantId) {
+    const primary = await tx.leaseParty.findFirst({
+        where: {
+            leaseId: leaseId,
+            role: "PRIMARY"
+        }
+    });
+
+    if (primary?.tenantId === tenantId) {
+        return;
+    }
+
+    if (primary) {
+        await tx.leaseParty.delete({
+            where: {
+                id: primary.id
+            }
+        });
+    }
+
+    if (!tenantId) {
+        return;
+    }
+
+    const party = await tx.leaseParty.findUnique({
+        where: {
+            leaseId_tenantId: {
+                leaseId: leaseId,
+                tenantId: tenantId
+            }
+        }
+    });
+
+    // A co-tenant that becomes the primary tenant keeps their own share as well
+    const ownShare = party && PAYING_ROLES.includes(party.role) ? party.share ?? 0 : 0;
+    let share = party ? party.share : 100;
+
+    if (primary) {
+        share = primary.share === null ? null : primary.share + ownShare;
+    }
+
+    await tx.leaseParty.upsert({
+        where: {
+            leaseId_tenantId: {
+                leaseId: leaseId,
+                tenantId: tenantId
+            }
+        },
+        create: {
+            role: "PRIMARY",
+            share: share,
+            leaseId: leaseId,
+            tenantId: tenantId
+        },
+        update: {
+            role: "PRIMARY",
+            share: share
+        }
+    });
+}
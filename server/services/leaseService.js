@@ -1,29 +1,78 @@
 import prisma from '../prisma.js';
+import {getRentAt, getRentTimeline} from "../../shared/escalation.js";
+import {getInitialParties} from "./leasePartyService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {DAY} from "../../shared/dates.js";
 
 
-function calculatePaymentDates(startDate, endDate, paymentFrequency) {
+const PERIODS_PER_YEAR = { WEEKLY: 52, MONTHLY: 12, QUARTERLY: 4, ANNUALLY: 1 };
+// Days of a period when every month has 30 days
+const THIRTY_DAY_PERIOD_DAYS = { WEEKLY: 7, MONTHLY: 30, QUARTERLY: 90, ANNUALLY: 360 };
+
+const MONTHS_PER_PERIOD = { MONTHLY: 1, QUARTERLY: 3, ANNUALLY: 12 };
+
+// Start of the period after the one starting on the date, null for unknown frequencies. Periods of months start on the
+// given day of the month, on the last day of months that are shorter (a lease starting on January 31 is due on
+// February 29 and March 31)
+function addPeriod(date, paymentFrequency, dayOfMonth = new Date(date).getDate()) {
+    const nextDate = new Date(date);
+
+    if (paymentFrequency === "WEEKLY") {
+        nextDate.setDate(nextDate.getDate() + 7);
+        return nextDate;
+    }
+    if (!MONTHS_PER_PERIOD[paymentFrequency]) {
+        return null;
+    }
+
+    nextDate.setDate(1);
+    nextDate.setMonth(nextDate.getMonth() + MONTHS_PER_PERIOD[paymentFrequency]);
+
+    const lastDay = new Date(nextDate.getFullYear(), nextDate.getMonth() + 1, 0).getDate();
+    nextDate.setDate(Math.min(dayOfMonth, lastDay));
+
+    return nextDate;
+}
+
+// First date on the billing day that is not before the start date
+function getFirstBillingDate(startDate, billingDay) {
+    const billingDate = new Date(startDate);
+    billingDate.setDate(billingDay);
+
+    if (billingDate < startDate) {
+        billingDate.setMonth(billingDate.getMonth() + 1);
+    }
+
+    return billingDate;
+}
+
+// Due dates of the periods of a lease. With a billing day, rent is due on that day of the month and the time
+// until the first billing date is a period of its own (weekly rent is always due on the weekday of the start date)
+function calculatePaymentDates(startDate, endDate, paymentFrequency, billingDay = null) {
     if (!startDate || !endDate || !paymentFrequency) {
         return [];
     }
     try {
         const paymentDates = [];
-        const currentDate = new Date(startDate);
+        let currentDate = new Date(startDate);
         const lastDate = new Date(endDate);
+
+        if (billingDay && paymentFrequency !== "WEEKLY") {
+            const firstBillingDate = getFirstBillingDate(currentDate, billingDay);
+
+            if (firstBillingDate.getTime() !== currentDate.getTime()) {
+                paymentDates.push(new Date(currentDate));
+                currentDate = firstBillingDate;
+            }
+        }
+
+        const dayOfMonth = currentDate.getDate();
+
         while (currentDate <= lastDate) {
             paymentDates.push(new Date(currentDate));
-            if (paymentFrequency === "WEEKLY") {
-                currentDate.setDate(currentDate.getDate() + 7);
-            }
-            else if (paymentFrequency === "MONTHLY") {
-                currentDate.setMonth(currentDate.getMonth() + 1);
-            }
-            else if (paymentFrequency === "ANNUALLY") {
-                currentDate.setFullYear(currentDate.getFullYear() + 1);
-            }
-            else if (paymentFrequency === "QUARTERLY") {
-                currentDate.setMonth(currentDate.getMonth() + 3);
-            }
-            else {
+            currentDate = addPeriod(currentDate, paymentFrequency, dayOfMonth);
+
+            if (!currentDate) {
                 return [];
             }
         }
@@ -35,73 +84,316 @@ function calculatePaymentDates(startDate, endDate, paymentFrequency) {
     }
 }
 
-export async function createLeaseWithPaymentSchedule(leaseData, userId) {
-    let paymentDates = [];
-    if (leaseData.status === "ACTIVE") {
-        paymentDates = calculatePaymentDates(
-            leaseData.startDate,
-            leaseData.endDate,
-            leaseData.paymentFrequency
-        );
+// Rent of a period that only lasts the given number of days, never more than the rent of a full period
+function prorateRent(rentalPrice, days, paymentFrequency, prorationMethod) {
+    let amount = rentalPrice;
+
+    if (prorationMethod === "ACTUAL_365") {
+        amount = rentalPrice * PERIODS_PER_YEAR[paymentFrequency] * days / 365;
+    }
+    else if (prorationMethod === "THIRTY_DAY") {
+        amount = rentalPrice * days / THIRTY_DAY_PERIOD_DAYS[paymentFrequency];
     }
 
+    return Math.round(Math.min(amount, rentalPrice) * 100) / 100;
+}
+
+// Periods of the schedule that is paid by the lease, one row per due date. Periods that end before a full period
+// has passed (the first one with a billing day, the last one if the lease ends in the middle of a period) are prorated.
+// A period is charged the rent of its due date, escalations apply from the first period due on or after the anniversary.
+// Leases that escalate along a price index need its values (see loadPriceIndex)
+export function calculatePaymentSchedule(lease) {
+    const paymentDates = calculatePaymentDates(lease.startDate, lease.endDate, lease.paymentFrequency, lease.billingDay);
+    const leaseEnd = new Date(new Date(lease.endDate).getTime() + DAY);
+    const rentTimeline = getRentTimeline(lease);
+
+    // The first period starts on the start date, the others on the billing day (or the day of the start date)
+    const startDay = new Date(lease.startDate).getDate();
+    const dayOfMonth = lease.billingDay ?? startDay;
+
+    return paymentDates.map((dueDate, index) => {
+        const fullPeriodEnd = addPeriod(dueDate, lease.paymentFrequency, index === 0 ? startDay : dayOfMonth);
+        const periodEnd = paymentDates[index + 1] ?? (leaseEnd < fullPeriodEnd ? leaseEnd : fullPeriodEnd);
+        const rentalPrice = rentTimeline.length ? getRentAt(rentTimeline, dueDate) : lease.rentalPrice;
+
+        if (rentalPrice === null || rentalPrice === undefined || periodEnd >= fullPeriodEnd) {
+            return { dueDate: dueDate, amountDue: rentalPrice };
+        }
+
+        const days = Math.round((periodEnd - dueDate) / DAY);
 
-  const data = {...leaseData};
-
-  delete data.unitId;
-  delete data.tenantId;
-
-  let lease, paymentSchedules;
-  try {
-      lease = await prisma.lease.create({
-          data: {
-              ...data,
-              tenant: {
-                  connect: {
-                      id: leaseData.tenantId,
-                  },
-              },
-              unit: {
-                  connect: {
-                      id: leaseData.unitId,
-                  },
-              },
-              realtor: {
-                  connect: {
-                      userId: userId,
-                  },
-              },
-          },
-      });
-  } catch (error) {
-        console.log("failed to create lease", error);
-  }
-
-
-  try {
-    paymentSchedules = await prisma.leasePaymentSchedule.createMany({
-      data: paymentDates.map((date) => ({
-        dueDate: date,
-        amountDue: leaseData.rentalPrice,
-        leaseId: lease.id,
-      })),
+        return {
+            dueDate: dueDate,
+            amountDue: prorateRent(rentalPrice, days, lease.paymentFrequency, lease.prorationMethod),
+        };
     });
-  }
-    catch (error) {
-        console.log("failed to add payment schedules", error);
+}
+
+// Adds the values of the price index to leases that escalate along one, they are needed for their payment schedule
+export async function loadPriceIndex(lease) {
+    if (lease.escalationType !== "INDEX" || !lease.priceIndexId) {
+        return lease;
+    }
+
+    const priceIndex = await prisma.priceIndex.findUnique({
+        where: {
+            id: lease.priceIndexId
+        },
+        include: {
+            values: true
+        }
+    });
+
+    return {...lease, priceIndex: priceIndex};
+}
+
+// Pending leases are signed but have not started yet (e.g. renewals), they are paid on the same schedule
+export function hasPaymentSchedule(lease) {
+    return lease.status === "ACTIVE" || lease.status === "PENDING";
+}
+
+// Terminated leases do not occupy their unit anymore
+const NON_OCCUPYING_STATUSES = ["TERMINATED"];
+
+// Other leases of the unit whose dates overlap the dates of the lease, leases without an end date last indefinitely.
+// A lease can start on the day the previous one ends. The leases of excludedIds (e.g. the lease itself) are left out
+export async function findOverlappingLeases(lease, excludedIds = []) {
+    if (!lease.unitId || !lease.startDate || NON_OCCUPYING_STATUSES.includes(lease.status)) {
+        return [];
+    }
+
+    return prisma.lease.findMany({
+        where: {
+            unitId: lease.unitId,
+            id: {
+                notIn: excludedIds
+            },
+            status: {
+                notIn: NON_OCCUPYING_STATUSES
+            },
+            startDate: lease.endDate ? { lt: new Date(lease.endDate) } : { not: null },
+            OR: [
+                { endDate: null },
+                { endDate: { gt: new Date(lease.startDate) } }
+            ]
+        },
+        include: {
+            tenant: true,
+            nextLease: {
+                select: {
+                    id: true
+                }
+            }
+        },
+        orderBy: {
+            startDate: "asc"
+        }
+    });
+}
+
+// A planned successor may start while the lease it continues is still running, that is the latest of the overlapping
+// leases that started before it and has no successor yet. Returns the predecessor (null without one) and the other
+// overlapping leases, they are conflicts
+export function resolveSuccession(lease, overlappingLeases, plannedSuccessor) {
+    const startDate = new Date(lease.startDate);
+    const predecessor = plannedSuccessor ?
+        overlappingLeases.filter((other) => new Date(other.startDate) < startDate && !other.nextLease).at(-1) ?? null : null;
+
+    return {
+        predecessor: predecessor,
+        conflicts: overlappingLeases.filter((other) => other.id !== predecessor?.id)
+    };
+}
+
+// Answer to leases that overlap other leases of the unit, the realtor has to change them or plan the lease as a successor
+export function overlapConflict(conflicts) {
+    return {
+        message: "The unit is already leased during these dates",
+        code: "LEASE_OVERLAP",
+        conflicts: conflicts.map((lease) => ({
+            id: lease.id,
+            startDate: lease.startDate,
+            endDate: lease.endDate,
+            status: lease.status,
+            tenant: lease.tenant ? {
+                id: lease.tenant.id,
+                firstName: lease.tenant.firstName,
+                lastName: lease.tenant.lastName
+            } : null
+        }))
+    };
+}
+
+// Creates the lease with its parties and payment schedule and posts the charges that are already due, all in one
+// transaction. Pass the client of a running transaction as tx to create the lease together with other changes
+export async function createLeaseWithPaymentSchedule(leaseData, realtorId, tx = null) {
+    if (!tx) {
+        return prisma.$transaction((transaction) => createLeaseWithPaymentSchedule(leaseData, realtorId, transaction));
+    }
+
+    const paymentSchedule = hasPaymentSchedule(leaseData) ? calculatePaymentSchedule(await loadPriceIndex(leaseData)) : [];
+
+    const data = {...leaseData};
+
+    delete data.unitId;
+    delete data.tenantId;
+    delete data.priceIndexId;
+    delete data.parties;
+
+    if (leaseData.priceIndexId) {
+        data.priceIndex = {
+            connect: {
+                id: leaseData.priceIndexId,
+            },
+        };
     }
 
-    const updatedLease = await prisma.lease.findUnique({
+    const lease = await tx.lease.create({
+        data: {
+            ...data,
+            tenant: {
+                connect: {
+                    id: leaseData.tenantId,
+                },
+            },
+            parties: {
+                create: getInitialParties(leaseData).map((party) => ({
+                    role: party.role,
+                    share: party.share,
+                    tenant: {
+                        connect: {
+                            id: party.tenantId,
+                        },
+                    },
+                })),
+            },
+            unit: {
+                connect: {
+                    id: leaseData.unitId,
+                },
+            },
+            realtor: {
+                connect: {
+                    id: realtorId,
+                },
+            },
+        },
+    });
+
+    await tx.leasePaymentSchedule.createMany({
+        data: paymentSchedule.map((period) => ({
+            ...period,
+            leaseId: lease.id,
+        })),
+    });
+
+    // Charges of a lease that started in the past are due right away
+    await syncLeaseLedger(lease.id, tx);
+
+    return tx.lease.findUnique({
         where: {
-        id: lease.id,
+            id: lease.id,
         },
         include: {
-        tenant: true,
-        unit: true,
-        paymentSchedule: true,
+            tenant: true,
+            parties: true,
+            unit: true,
+            paymentSchedule: true,
         },
     });
+}
 
 
-  return updatedLease;
+// Rows that reflect money received or a decision of the realtor, they are never changed by a reconciliation
+const SETTLED_SCHEDULE_STATUSES = ["PAID", "PARTIALLY_PAID", "WAIVED"];
+
+function startOfToday(now) {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// Compares the current schedule rows of a lease with the schedule of its (new) terms. Settled rows are kept and
+// cover the period they fall into, open rows stay if their due date is still part of the schedule and get the new
+// amount if they are not due yet. All other open rows are removed and missing periods are created.
+// Returns the rows to keep, update (with the new amountDue), remove and create
+export function diffPaymentSchedule(schedules, lease, now = new Date()) {
+    const periods = hasPaymentSchedule(lease) ? calculatePaymentSchedule(lease) : [];
+    const today = startOfToday(now);
+
+    const settled = schedules.filter((schedule) => SETTLED_SCHEDULE_STATUSES.includes(schedule.status));
+    const open = schedules.filter((schedule) => !SETTLED_SCHEDULE_STATUSES.includes(schedule.status));
+
+    const diff = { keep: [...settled], update: [], remove: [], create: [] };
+    const matched = new Set();
+
+    periods.forEach((period, index) => {
+        const periodStart = period.dueDate.getTime();
+        const periodEnd = periods[index + 1]?.dueDate.getTime() ?? Infinity;
+
+        const isCovered = settled.some((schedule) => {
+            const dueDate = new Date(schedule.dueDate).getTime();
+            return dueDate >= periodStart && dueDate < periodEnd;
+        });
+
+        if (isCovered) {
+            return;
+        }
+
+        const existing = open.find((schedule) => new Date(schedule.dueDate).getTime() === periodStart);
+
+        if (!existing) {
+            diff.create.push(period);
+            return;
+        }
+
+        matched.add(existing.id);
+
+        if (existing.amountDue !== period.amountDue && period.dueDate >= today) {
+            diff.update.push({ ...existing, amountDue: period.amountDue, previousAmountDue: existing.amountDue });
+        }
+        else {
+            diff.keep.push(existing);
+        }
+    });
+
+    diff.remove = open.filter((schedule) => !matched.has(schedule.id));
+
+    return diff;
+}
+
+export function hasScheduleChanges(diff) {
+    return diff.update.length > 0 || diff.remove.length > 0 || diff.create.length > 0;
+}
+
+// Writes the changes of diffPaymentSchedule, tx is the client of a running transaction
+export async function applyPaymentScheduleDiff(tx, leaseId, diff) {
+    if (diff.remove.length) {
+        await tx.leasePaymentSchedule.deleteMany({
+            where: {
+                leaseId: leaseId,
+                id: {
+                    in: diff.remove.map((schedule) => schedule.id)
+                }
+            }
+        });
+    }
+
+    for (const schedule of diff.update) {
+        await tx.leasePaymentSchedule.update({
+            where: {
+                id: schedule.id
+            },
+            data: {
+                amountDue: schedule.amountDue
+            }
+        });
+    }
+
+    if (diff.create.length) {
+        await tx.leasePaymentSchedule.createMany({
+            data: diff.create.map((period) => ({
+                ...period,
+                leaseId: leaseId,
+            }))
+        });
+    }
 }
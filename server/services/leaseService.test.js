@@ -0,0 +1,106 @@
+import {describe, expect, test, vi} from "vitest";
+import {calculatePaymentSchedule} from "./leaseService.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+// A lease with a monthly rent of 1000 from January 2024
+function scheduleLease(data = {}) {
+    return {
+        startDate: new Date("2024-01-01"),
+        endDate: new Date("2024-12-31"),
+        rentalPrice: 1000,
+        paymentFrequency: "MONTHLY",
+        billingDay: null,
+        prorationMethod: "ACTUAL_365",
+        escalationType: null,
+        ...data
+    };
+}
+
+function schedule(lease) {
+    return calculatePaymentSchedule(lease).map((period) => [period.dueDate.toISOString().slice(0, 10), period.amountDue]);
+}
+
+describe("payment schedule", () => {
+    test("full periods are charged the rent", () => {
+        const periods = calculatePaymentSchedule(scheduleLease());
+
+        expect(periods).toHaveLength(12);
+        expect(periods.every((period) => period.amountDue === 1000)).toBe(true);
+    });
+
+    test("rent is due on the day of the start date, the last day of months that are shorter", () => {
+        expect(schedule(scheduleLease({ startDate: new Date("2024-01-31"), endDate: new Date("2024-04-29") }))).toEqual([
+            ["2024-01-31", 1000],
+            ["2024-02-29", 1000],
+            ["2024-03-31", 1000],
+        ]);
+    });
+});
+
+describe("proration", () => {
+    test("ACTUAL_365 charges the days of the last period as a share of the yearly rent", () => {
+        expect(schedule(scheduleLease({ endDate: new Date("2024-06-15") })).at(-1)).toEqual(["2024-06-01", 493.15]);
+    });
+
+    test("THIRTY_DAY charges the days of the last period as a share of a month of 30 days", () => {
+        expect(schedule(scheduleLease({ endDate: new Date("2024-06-15"), prorationMethod: "THIRTY_DAY" })).at(-1)).toEqual(["2024-06-01", 500]);
+    });
+
+    test("NONE charges the full rent for the last period", () => {
+        expect(schedule(scheduleLease({ endDate: new Date("2024-06-15"), prorationMethod: "NONE" })).at(-1)).toEqual(["2024-06-01", 1000]);
+    });
+
+    test("a prorated period is never charged more than the rent", () => {
+        // 30 of 31 days are more than a month of 30 days
+        expect(schedule(scheduleLease({ endDate: new Date("2024-07-30"), prorationMethod: "THIRTY_DAY" })).at(-1)).toEqual(["2024-07-01", 1000]);
+    });
+
+    test("weekly rent is prorated by the days of the week", () => {
+        const lease = scheduleLease({ startDate: new Date("2024-01-03"), endDate: new Date("2024-01-20"), rentalPrice: 250, paymentFrequency: "WEEKLY", billingDay: 1 });
+
+        expect(schedule(lease)).toEqual([
+            ["2024-01-03", 250],
+            ["2024-01-10", 250],
+            ["2024-01-17", 142.47],
+        ]);
+    });
+});
+
+describe("billing day", () => {
+    test("a lease starting on the 17th pays the days until the billing day first", () => {
+        const lease = scheduleLease({ startDate: new Date("2024-01-17"), endDate: new Date("2024-04-30"), billingDay: 1 });
+
+        expect(schedule(lease)).toEqual([
+            ["2024-01-17", 493.15],
+            ["2024-02-01", 1000],
+            ["2024-03-01", 1000],
+            ["2024-04-01", 1000],
+        ]);
+        expect(schedule({ ...lease, prorationMethod: "THIRTY_DAY" })[0]).toEqual(["2024-01-17", 500]);
+    });
+
+    test("a lease starting on the billing day has no first period of its own", () => {
+        expect(schedule(scheduleLease({ startDate: new Date("2024-01-15"), endDate: new Date("2024-03-14"), billingDay: 15 }))).toEqual([
+            ["2024-01-15", 1000],
+            ["2024-02-15", 1000],
+        ]);
+    });
+
+    test("the last period is prorated up to the end date", () => {
+        const lease = scheduleLease({ startDate: new Date("2024-01-17"), endDate: new Date("2024-04-15"), billingDay: 1 });
+
+        expect(schedule(lease).at(-1)).toEqual(["2024-04-01", 493.15]);
+    });
+
+    test("the billing day of short months is kept for later months", () => {
+        const lease = scheduleLease({ startDate: new Date("2024-02-10"), endDate: new Date("2024-05-27"), billingDay: 28 });
+
+        expect(schedule(lease)).toEqual([
+            ["2024-02-10", 591.78],
+            ["2024-02-28", 1000],
+            ["2024-03-28", 1000],
+            ["2024-04-28", 1000],
+        ]);
+    });
+});
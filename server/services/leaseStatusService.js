@@ -0,0 +1,194 @@
+import prisma from "../prisma.js";
+import {calculatePaymentSchedule, loadPriceIndex} from "./leaseService.js";
+import {reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {DAY, startOfDay} from "../../shared/dates.js";
+
+// Status lifecycle of leases: pending leases become active on their start date and active leases expire once their
+// end date has passed, unless they were terminated early (see terminationService.js): those are terminated on their
+// effective date. Terminated leases are never changed. The unit of a lease follows its status, every status
+// change is recorded as a LeaseStatusTransition. Leases that were created pending before pending leases got a payment
+// schedule get the missing rows when they start
+
+// Status the lease should have at the given time, null if the job does not manage it
+export function getScheduledStatus(lease, now = new Date()) {
+    if (lease.status !== "PENDING" && lease.status !== "ACTIVE") {
+        return null;
+    }
+
+    const today = startOfDay(now);
+
+    // A lease ends with its end date, so it expires the day after
+    if (lease.endDate && new Date(lease.endDate) < today) {
+        return lease.termination ? "TERMINATED" : "EXPIRED";
+    }
+    if (lease.startDate && new Date(lease.startDate) < new Date(today.getTime() + DAY)) {
+        return "ACTIVE";
+    }
+
+    return lease.status;
+}
+
+// Leases whose status does not match their dates anymore, together with the status they should have
+async function findDueTransitions(now = new Date()) {
+    const today = startOfDay(now);
+
+    const leases = await prisma.lease.findMany({
+        where: {
+            OR: [
+                {
+                    status: "PENDING",
+                    startDate: {
+                        lt: new Date(today.getTime() + DAY)
+                    }
+                },
+                {
+                    status: {
+                        in: ["PENDING", "ACTIVE"]
+                    },
+                    endDate: {
+                        lt: today
+                    }
+                }
+            ]
+        },
+        include: {
+            termination: {
+                select: {
+                    reason: true
+                }
+            }
+        },
+        orderBy: {
+            startDate: "asc"
+        }
+    });
+
+    return leases
+        .map((lease) => ({ lease, toStatus: getScheduledStatus(lease, now) }))
+        .filter(({lease, toStatus}) => toStatus && toStatus !== lease.status);
+}
+
+// Creates the rent of the periods of the lease that have no schedule row yet, rows that exist are kept as they are.
+// Returns the number of created rows
+async function createMissingSchedule(tx, lease) {
+    const schedules = await tx.leasePaymentSchedule.findMany({
+        where: {
+            leaseId: lease.id,
+            chargeType: "RENT"
+        }
+    });
+
+    const periods = calculatePaymentSchedule(await loadPriceIndex(lease));
+    const missingPeriods = periods.filter((period, index) => {
+        const periodStart = period.dueDate.getTime();
+        const periodEnd = periods[index + 1]?.dueDate.getTime() ?? Infinity;
+
+        return !schedules.some((schedule) => {
+            const dueDate = new Date(schedule.dueDate).getTime();
+            return dueDate >= periodStart && dueDate < periodEnd;
+        });
+    });
+
+    if (missingPeriods.length) {
+        await tx.leasePaymentSchedule.createMany({
+            data: missingPeriods.map((period) => ({
+                ...period,
+                leaseId: lease.id
+            }))
+        });
+    }
+
+    return missingPeriods.length;
+}
+
+// Changes the status and records the transition. The status is only changed if it is still the one that was read,
+// false if the lease was changed in the meantime (e.g. by a second run of the job)
+async function applyTransition(lease, toStatus, reason, now = new Date()) {
+    return prisma.$transaction(async (tx) => {
+        const updated = await tx.lease.updateMany({
+            where: {
+                id: lease.id,
+                status: lease.status
+            },
+            data: {
+                status: toStatus
+            }
+        });
+
+        if (!updated.count) {
+            return false;
+        }
+
+        await tx.leaseStatusTransition.create({
+            data: {
+                leaseId: lease.id,
+                fromStatus: lease.status,
+                toStatus: toStatus,
+                reason: reason
+            }
+        });
+
+        // Credit of the tenant pays the new charges, the ones that are already due are posted
+        if (toStatus === "ACTIVE" && await createMissingSchedule(tx, {...lease, status: toStatus})) {
+            await reconcileAllocations(lease.id, tx, now);
+            await syncLeaseLedger(lease.id, tx, now);
+        }
+
+        return true;
+    });
+}
+
+// Sets the tenant and status of the unit to the ones of its active lease, units without an active lease are released.
+// Renewals that start the day after the previous lease ended keep the unit rented. Pass the client of a running
+// transaction as tx
+export async function syncUnitWithLeases(unitId, tx = prisma) {
+    const activeLease = await tx.lease.findFirst({
+        where: {
+            unitId: unitId,
+            status: "ACTIVE"
+        },
+        orderBy: {
+            startDate: "desc"
+        }
+    });
+
+    return tx.unit.update({
+        where: {
+            id: unitId
+        },
+        data: activeLease ? {
+            status: "RENTED",
+            tenantId: activeLease.tenantId
+        } : {
+            status: "NOT_RENTED",
+            tenantId: null
+        }
+    });
+}
+
+// Applies all due transitions and updates the affected units. Running it again with the same time changes nothing
+export async function updateLeaseStatuses(now = new Date()) {
+    const transitions = await findDueTransitions(now);
+    const unitIds = new Set();
+    let count = 0;
+
+    for (const {lease, toStatus} of transitions) {
+        const reason = toStatus === "ACTIVE" ? "Lease started" :
+            toStatus === "TERMINATED" ? `Lease terminated: ${lease.termination.reason}` : "Lease ended";
+
+        if (await applyTransition(lease, toStatus, reason, now)) {
+            count++;
+
+            if (lease.unitId) {
+                unitIds.add(lease.unitId);
+            }
+        }
+    }
+
+    for (const unitId of unitIds) {
+        await syncUnitWithLeases(unitId);
+    }
+
+    return count;
+}
@@ -0,0 +1,186 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {getScheduledStatus, updateLeaseStatuses} from "./leaseStatusService.js";
+import {reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+vi.mock("./allocationService.js", () => ({ reconcileAllocations: vi.fn() }));
+vi.mock("./ledgerService.js", () => ({ syncLeaseLedger: vi.fn() }));
+
+// A pending lease of 2024 that is paid monthly
+function addLease(data = {}) {
+    const lease = {
+        id: 1,
+        unitId: 1,
+        tenantId: 1,
+        status: "PENDING",
+        startDate: new Date("2024-01-01"),
+        endDate: new Date("2024-12-31"),
+        rentalPrice: 1000,
+        paymentFrequency: "MONTHLY",
+        billingDay: null,
+        prorationMethod: "ACTUAL_365",
+        escalationType: null,
+        termination: null,
+        ...data
+    };
+
+    fakePrisma.records("lease").push(lease);
+    return lease;
+}
+
+function addSchedule(data) {
+    fakePrisma.records("leasePaymentSchedule").push({ id: 500 + fakePrisma.records("leasePaymentSchedule").length, leaseId: 1, chargeType: "RENT", status: "SCHEDULED", ...data });
+}
+
+function unit() {
+    return fakePrisma.records("unit")[0];
+}
+
+function transitions() {
+    return fakePrisma.records("leaseStatusTransition");
+}
+
+function schedules() {
+    return fakePrisma.records("leasePaymentSchedule");
+}
+
+beforeEach(() => {
+    fakePrisma.reset();
+    vi.clearAllMocks();
+
+    fakePrisma.records("unit").push({ id: 1, status: "NOT_RENTED", tenantId: null });
+});
+
+describe("activation", () => {
+    test("pending leases are activated on their start date", async () => {
+        const lease = addLease();
+
+        expect(await updateLeaseStatuses(new Date("2023-12-31T23:00:00Z"))).toBe(0);
+        expect(lease.status).toBe("PENDING");
+
+        expect(await updateLeaseStatuses(new Date("2024-01-01T08:00:00Z"))).toBe(1);
+        expect(lease.status).toBe("ACTIVE");
+        expect(unit()).toMatchObject({ status: "RENTED", tenantId: 1 });
+        expect(transitions()).toEqual([expect.objectContaining({ leaseId: 1, fromStatus: "PENDING", toStatus: "ACTIVE", reason: "Lease started" })]);
+    });
+
+    test("pending leases without a payment schedule get its rows", async () => {
+        addLease();
+        const now = new Date("2024-03-10T08:00:00Z");
+
+        await updateLeaseStatuses(now);
+
+        expect(schedules()).toHaveLength(12);
+        expect(schedules().map((schedule) => schedule.dueDate.toISOString().slice(0, 10))).toContain("2024-03-01");
+        expect(schedules().every((schedule) => schedule.amountDue === 1000)).toBe(true);
+        expect(reconcileAllocations).toHaveBeenCalledWith(1, fakePrisma, now);
+        expect(syncLeaseLedger).toHaveBeenCalledWith(1, fakePrisma, now);
+    });
+
+    test("only the periods without a row are created", async () => {
+        addLease();
+        addSchedule({ dueDate: new Date("2024-01-01"), amountDue: 1000, status: "PAID" });
+        addSchedule({ dueDate: new Date("2024-02-03"), amountDue: 900, status: "SCHEDULED" });
+
+        await updateLeaseStatuses(new Date("2024-01-01T08:00:00Z"));
+
+        const dueDates = schedules().map((schedule) => schedule.dueDate.toISOString().slice(0, 10));
+        expect(schedules()).toHaveLength(12);
+        expect(dueDates).not.toContain("2024-02-01");
+        expect(schedules().find((schedule) => schedule.id === 501)).toMatchObject({ amountDue: 900 });
+    });
+
+    test("leases with their whole schedule are activated without changing it", async () => {
+        addLease({ endDate: new Date("2024-02-29") });
+        addSchedule({ dueDate: new Date("2024-01-01"), amountDue: 1000 });
+        addSchedule({ dueDate: new Date("2024-02-01"), amountDue: 1000 });
+
+        await updateLeaseStatuses(new Date("2024-01-01T08:00:00Z"));
+
+        expect(schedules()).toHaveLength(2);
+        expect(reconcileAllocations).not.toHaveBeenCalled();
+        expect(syncLeaseLedger).not.toHaveBeenCalled();
+    });
+});
+
+describe("end of the lease", () => {
+    test("active leases expire the day after their end date and release the unit", async () => {
+        const lease = addLease({ status: "ACTIVE" });
+        Object.assign(unit(), { status: "RENTED", tenantId: 1 });
+
+        expect(await updateLeaseStatuses(new Date("2024-12-31T22:00:00Z"))).toBe(0);
+        expect(lease.status).toBe("ACTIVE");
+
+        expect(await updateLeaseStatuses(new Date("2025-01-01T08:00:00Z"))).toBe(1);
+        expect(lease.status).toBe("EXPIRED");
+        expect(unit()).toMatchObject({ status: "NOT_RENTED", tenantId: null });
+        expect(transitions()).toEqual([expect.objectContaining({ fromStatus: "ACTIVE", toStatus: "EXPIRED", reason: "Lease ended" })]);
+    });
+
+    test("terminated leases end as terminated", async () => {
+        const lease = addLease({ status: "ACTIVE", endDate: new Date("2024-06-30"), termination: { reason: "Moved out" } });
+
+        await updateLeaseStatuses(new Date("2024-07-01T08:00:00Z"));
+
+        expect(lease.status).toBe("TERMINATED");
+        expect(transitions()[0].reason).toBe("Lease terminated: Moved out");
+    });
+
+    test("pending leases that ended are expired without a schedule", async () => {
+        const lease = addLease();
+
+        await updateLeaseStatuses(new Date("2025-02-01T08:00:00Z"));
+
+        expect(lease.status).toBe("EXPIRED");
+        expect(schedules()).toHaveLength(0);
+    });
+
+    test("a renewal starting the day after keeps the unit rented", async () => {
+        addLease({ status: "ACTIVE" });
+        addSchedule({ dueDate: new Date("2025-01-01"), amountDue: 1000, leaseId: 2 });
+        addLease({ id: 2, tenantId: 2, startDate: new Date("2025-01-01"), endDate: new Date("2025-01-31") });
+
+        await updateLeaseStatuses(new Date("2025-01-01T08:00:00Z"));
+
+        expect(unit()).toMatchObject({ status: "RENTED", tenantId: 2 });
+    });
+});
+
+describe("idempotency", () => {
+    test("running the job again changes nothing", async () => {
+        addLease();
+        const now = new Date("2024-03-10T08:00:00Z");
+
+        expect(await updateLeaseStatuses(now)).toBe(1);
+        expect(await updateLeaseStatuses(now)).toBe(0);
+
+        expect(transitions()).toHaveLength(1);
+        expect(schedules()).toHaveLength(12);
+    });
+
+    test("leases changed by another run in the meantime are skipped", async () => {
+        const lease = addLease();
+        const findMany = fakePrisma.lease.findMany;
+
+        // The other run activates the lease after this run read it
+        vi.spyOn(fakePrisma.lease, "findMany").mockImplementationOnce(async (args) => {
+            const leases = await findMany(args);
+            lease.status = "ACTIVE";
+            return leases;
+        });
+
+        expect(await updateLeaseStatuses(new Date("2024-01-01T08:00:00Z"))).toBe(0);
+        expect(transitions()).toHaveLength(0);
+    });
+
+    test("the scheduled status only depends on the dates and the clock", () => {
+        const lease = { status: "PENDING", startDate: new Date("2024-01-01"), endDate: new Date("2024-12-31") };
+
+        expect(getScheduledStatus(lease, new Date("2023-12-31T12:00:00Z"))).toBe("PENDING");
+        expect(getScheduledStatus(lease, new Date("2024-01-01T00:00:00Z"))).toBe("ACTIVE");
+        expect(getScheduledStatus(lease, new Date("2025-01-01T00:00:00Z"))).toBe("EXPIRED");
+        expect(getScheduledStatus({...lease, status: "TERMINATED"}, new Date("2024-06-01"))).toBeNull();
+    });
+});
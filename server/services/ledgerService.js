@@ -0,0 +1,561 @@
+import prisma from "../prisma.js";
+import {getAllocatedAmount} from "../../shared/allocation.js";
+import {LEDGER_ACCOUNTS} from "../../shared/schemas.js";
+import {roundCents} from "../../shared/money.js";
+
+// Double-entry ledger behind the rent, fees, deposits and expenses of a realtor. Charges of the payment schedule are
+// receivable income once they are due, paid payments move the receivable into cash, expenses are paid from cash and
+// deposits are held for the tenant until they are settled. The ledger follows the records: syncing a source (a
+// charge, payment, expense or deposit) compares what is posted for it with what it records now and, if that differs,
+// reverses the posted transaction and posts a new one. Nothing that was posted is changed or removed. Balances and
+// reports are always derived from the entries
+
+// Accounts whose balance is debits minus credits, the balance of the others is credits minus debits
+const DEBIT_ACCOUNTS = ["CASH", "RENT_RECEIVABLE", "EXPENSES"];
+
+const LEASE_SOURCE_TYPES = ["CHARGE", "PAYMENT", "DEPOSIT", "DEPOSIT_SETTLEMENT"];
+
+// Name of the ledger job in job_run
+const LEDGER_JOB = "ledger";
+
+const CHARGE_DESCRIPTIONS = {
+    RENT: "Rent",
+    LATE_FEE: "Late fee",
+    BREAK_FEE: "Break fee",
+};
+
+// Debit of one account and credit of another
+function transfer(debitAccount, creditAccount, amount) {
+    return [
+        { account: debitAccount, debit: roundCents(amount), credit: 0 },
+        { account: creditAccount, debit: 0, credit: roundCents(amount) },
+    ];
+}
+
+// Net amount (debits minus credits) per account, accounts that net to zero are left out
+function netByAccount(entries) {
+    const net = {};
+
+    for (const entry of entries) {
+        net[entry.account] = roundCents((net[entry.account] ?? 0) + (entry.debit ?? 0) - (entry.credit ?? 0));
+    }
+
+    return Object.fromEntries(Object.entries(net).filter(([, amount]) => amount !== 0));
+}
+
+function recordsSame(transaction, posting) {
+    const posted = netByAccount(transaction.entries);
+    const wanted = netByAccount(posting.entries);
+
+    return new Date(transaction.date).getTime() === new Date(posting.date).getTime() &&
+        transaction.currency === posting.currency &&
+        Object.keys(posted).length === Object.keys(wanted).length &&
+        Object.entries(wanted).every(([account, amount]) => posted[account] === amount);
+}
+
+// Charges are receivable once they are due. Waived charges only keep what was paid of them
+export function chargePosting(schedule, now = new Date()) {
+    if (new Date(schedule.dueDate) > now) {
+        return null;
+    }
+
+    const amount = schedule.status === "WAIVED" ? getAllocatedAmount(schedule) : (schedule.amountDue ?? 0);
+
+    if (amount <= 0) {
+        return null;
+    }
+
+    return {
+        date: new Date(schedule.dueDate),
+        description: `${CHARGE_DESCRIPTIONS[schedule.chargeType] ?? "Charge"} #${schedule.id}`,
+        entries: transfer("RENT_RECEIVABLE", "INCOME", amount),
+    };
+}
+
+// Only paid payments are posted, overpayments leave a credit balance on the receivable
+export function paymentPosting(payment) {
+    if (payment.status !== "PAID" || !(payment.amount > 0)) {
+        return null;
+    }
+
+    return {
+        date: new Date(payment.date ?? payment.createdAt),
+        description: `Payment #${payment.id}${payment.paymentMethod ? ` (${payment.paymentMethod})` : ""}`,
+        entries: transfer("CASH", "RENT_RECEIVABLE", payment.amount),
+    };
+}
+
+export function expensePosting(expense) {
+    if (!(expense.amount > 0)) {
+        return null;
+    }
+
+    return {
+        date: new Date(expense.date ?? expense.createdAt),
+        description: `Expense #${expense.id}${expense.title ? `: ${expense.title}` : ""}`,
+        entries: transfer("EXPENSES", "CASH", expense.amount),
+    };
+}
+
+// The deposit is held from the day it was received, a settled deposit was held in any case
+export function depositPosting(deposit) {
+    if (!deposit.receivedDate && deposit.status !== "SETTLED") {
+        return null;
+    }
+
+    return {
+        date: new Date(deposit.receivedDate ?? deposit.createdAt),
+        description: `Security deposit #${deposit.id}`,
+        entries: transfer("CASH", "DEPOSITS_HELD", deposit.amount),
+    };
+}
+
+// The interest is an expense that is owed to the tenant, the deductions are income, the rest is refunded. A negative
+// refund is owed by the tenant
+export function depositSettlementPosting(deposit) {
+    if (deposit.status !== "SETTLED") {
+        return null;
+    }
+
+    const deductionsAmount = roundCents((deposit.deductions ?? []).reduce((total, deduction) => total + deduction.amount, 0));
+    const refundAmount = deposit.refundAmount ?? 0;
+
+    const entries = [
+        ...(deposit.interestAmount > 0 ? transfer("EXPENSES", "DEPOSITS_HELD", deposit.interestAmount) : []),
+        ...(deductionsAmount > 0 ? transfer("DEPOSITS_HELD", "INCOME", deductionsAmount) : []),
+        ...(refundAmount > 0 ? transfer("DEPOSITS_HELD", "CASH", refundAmount) : []),
+        ...(refundAmount < 0 ? transfer("RENT_RECEIVABLE", "DEPOSITS_HELD", -refundAmount) : []),
+    ];
+
+    if (!entries.length) {
+        return null;
+    }
+
+    return {
+        date: new Date(deposit.moveOutDate ?? deposit.settledAt),
+        description: `Settlement of security deposit #${deposit.id}`,
+        entries: entries,
+    };
+}
+
+async function postTransaction(tx, data, entries) {
+    return tx.ledgerTransaction.create({
+        data: {
+            ...data,
+            entries: {
+                create: entries.map((entry) => ({
+                    account: entry.account,
+                    debit: entry.debit ?? 0,
+                    credit: entry.credit ?? 0,
+                }))
+            }
+        },
+        include: {
+            entries: true
+        }
+    });
+}
+
+// Posts the same entries with debit and credit swapped, dated on the day of the correction
+async function postReversal(tx, transaction, userId = null, now = new Date()) {
+    return postTransaction(tx, {
+        date: now,
+        description: `Reversal of ${transaction.description}`,
+        currency: transaction.currency,
+        sourceType: transaction.sourceType,
+        sourceId: transaction.sourceId,
+        reversalOfId: transaction.id,
+        realtorId: transaction.realtorId,
+        leaseId: transaction.leaseId,
+        unitId: transaction.unitId,
+        userId: userId,
+    }, transaction.entries.map((entry) => ({ account: entry.account, debit: entry.credit, credit: entry.debit })));
+}
+
+// Brings the posted transactions (with entries and reversal) of the sources in line with their postings. A posting
+// is {sourceType, sourceId, posting: {date, description, entries} or null, data: {realtorId, leaseId, unitId, currency}},
+// sources that are posted but have no posting anymore are reversed
+async function syncSources(tx, transactions, postings, now) {
+    const key = (sourceType, sourceId) => `${sourceType}:${sourceId}`;
+    const postingsByKey = new Map(postings.map((posting) => [key(posting.sourceType, posting.sourceId), posting]));
+    const keys = new Set([...postingsByKey.keys(), ...transactions.map((transaction) => key(transaction.sourceType, transaction.sourceId))]);
+
+    let changes = 0;
+
+    for (const sourceKey of keys) {
+        const source = postingsByKey.get(sourceKey);
+        // Transactions that record the source now, i.e. neither reversed nor reversals themselves
+        const current = transactions.filter((transaction) => key(transaction.sourceType, transaction.sourceId) === sourceKey &&
+            !transaction.reversalOfId && !transaction.reversal);
+        const posting = source?.posting ? { ...source.posting, currency: source.data.currency ?? "USD" } : null;
+
+        if (posting && current.length === 1 && recordsSame(current[0], posting)) {
+            continue;
+        }
+        if (!posting && !current.length) {
+            continue;
+        }
+
+        for (const transaction of current) {
+            await postReversal(tx, transaction, null, now);
+        }
+
+        if (posting) {
+            await postTransaction(tx, {
+                date: posting.date,
+                description: posting.description,
+                currency: posting.currency,
+                sourceType: source.sourceType,
+                sourceId: source.sourceId,
+                realtorId: source.data.realtorId,
+                leaseId: source.data.leaseId ?? null,
+                unitId: source.data.unitId ?? null,
+            }, posting.entries);
+        }
+
+        changes++;
+    }
+
+    return changes;
+}
+
+async function findLeaseTransactions(tx, leaseId) {
+    return tx.ledgerTransaction.findMany({
+        where: {
+            leaseId: leaseId,
+            sourceType: {
+                in: LEASE_SOURCE_TYPES
+            }
+        },
+        include: {
+            entries: true,
+            reversal: {
+                select: {
+                    id: true
+                }
+            }
+        }
+    });
+}
+
+// Posts the due charges, paid payments and the deposit of the lease in the currency of the lease. Pass the client
+// of a running transaction as tx. Returns the number of sources whose postings changed
+export async function syncLeaseLedger(leaseId, tx = prisma, now = new Date()) {
+    const lease = await tx.lease.findUnique({
+        where: {
+            id: leaseId
+        },
+        include: {
+            paymentSchedule: {
+                include: {
+                    allocations: true
+                }
+            },
+            rentPayments: true,
+            deposit: {
+                include: {
+                    deductions: true
+                }
+            }
+        }
+    });
+
+    const transactions = await findLeaseTransactions(tx, leaseId);
+
+    if (!lease) {
+        return syncSources(tx, transactions, [], now);
+    }
+
+    const data = { realtorId: lease.realtorId, leaseId: lease.id, unitId: lease.unitId, currency: lease.currency };
+    // The deposit may be held in another currency than the rent
+    const depositData = { ...data, currency: lease.deposit?.currency ?? lease.currency };
+
+    const postings = [
+        ...lease.paymentSchedule.map((schedule) => ({ sourceType: "CHARGE", sourceId: schedule.id, posting: chargePosting(schedule, now), data })),
+        ...lease.rentPayments.map((payment) => ({ sourceType: "PAYMENT", sourceId: payment.id, posting: paymentPosting(payment), data })),
+        ...(lease.deposit ? [
+            { sourceType: "DEPOSIT", sourceId: lease.deposit.id, posting: depositPosting(lease.deposit), data: depositData },
+            { sourceType: "DEPOSIT_SETTLEMENT", sourceId: lease.deposit.id, posting: depositSettlementPosting(lease.deposit), data: depositData },
+        ] : []),
+    ];
+
+    return syncSources(tx, transactions, postings, now);
+}
+
+// Reverses everything posted for the lease before it is deleted, the transactions are kept without their lease
+export async function reverseLeaseLedger(leaseId, tx = prisma, now = new Date()) {
+    return syncSources(tx, await findLeaseTransactions(tx, leaseId), [], now);
+}
+
+// Posts the expense, or reverses what was posted for it once it is deleted
+export async function syncExpenseLedger(expenseId, tx = prisma, now = new Date()) {
+    const expense = await tx.expense.findUnique({
+        where: {
+            id: expenseId
+        },
+        include: {
+            lease: {
+                select: {
+                    unitId: true
+                }
+            }
+        }
+    });
+
+    const transactions = await tx.ledgerTransaction.findMany({
+        where: {
+            sourceType: "EXPENSE",
+            sourceId: expenseId
+        },
+        include: {
+            entries: true,
+            reversal: {
+                select: {
+                    id: true
+                }
+            }
+        }
+    });
+
+    const postings = expense ? [{
+        sourceType: "EXPENSE",
+        sourceId: expense.id,
+        posting: expensePosting(expense),
+        data: {
+            realtorId: expense.realtorId,
+            leaseId: expense.leaseId,
+            unitId: expense.unitId ?? expense.lease?.unitId,
+            currency: expense.currency
+        }
+    }] : [];
+
+    return syncSources(tx, transactions, postings, now);
+}
+
+// Posts the charges that became due since the last run of the ledger job. Every other change of a source syncs its ledger
+// right away (see syncLeaseLedger and syncExpenseLedger), only due dates pass without a change. The first run syncs
+// every lease and expense. Returns the number of sources whose postings changed
+export async function syncLedgers(now = new Date()) {
+    const lastRun = await prisma.jobRun.findUnique({
+        where: {
+            name: LEDGER_JOB
+        }
+    });
+
+    const leases = await prisma.lease.findMany({
+        where: lastRun ? {
+            paymentSchedule: {
+                some: {
+                    dueDate: {
+                        gt: lastRun.lastRunAt,
+                        lte: now
+                    }
+                }
+            }
+        } : {},
+        select: {
+            id: true
+        }
+    });
+    const expenses = lastRun ? [] : await prisma.expense.findMany({
+        select: {
+            id: true
+        }
+    });
+
+    let changes = 0;
+
+    for (const lease of leases) {
+        changes += await prisma.$transaction((tx) => syncLeaseLedger(lease.id, tx, now));
+    }
+    for (const expense of expenses) {
+        changes += await prisma.$transaction((tx) => syncExpenseLedger(expense.id, tx, now));
+    }
+
+    // A run that fails is repeated from the same time by the next one
+    await prisma.jobRun.upsert({
+        where: {
+            name: LEDGER_JOB
+        },
+        create: {
+            name: LEDGER_JOB,
+            lastRunAt: now
+        },
+        update: {
+            lastRunAt: now
+        }
+    });
+
+    return changes;
+}
+
+// Manual transaction of the realtor, e.g. an owner contribution or withdrawal
+export async function postManualTransaction(realtorId, {date, description, currency, debitAccount, creditAccount, amount, leaseId}, userId) {
+    return prisma.$transaction(async (tx) => {
+        const lease = leaseId ? await tx.lease.findUnique({
+            where: {
+                id: leaseId
+            },
+            select: {
+                unitId: true
+            }
+        }) : null;
+
+        return postTransaction(tx, {
+            date: new Date(date),
+            description: description,
+            currency: currency ?? "USD",
+            sourceType: "MANUAL",
+            realtorId: realtorId,
+            leaseId: leaseId ?? null,
+            unitId: lease?.unitId ?? null,
+            userId: userId,
+        }, transfer(debitAccount, creditAccount, amount));
+    });
+}
+
+// Reverses a manual transaction. Returns null if it was reversed already
+export async function reverseTransaction(transaction, userId, now = new Date()) {
+    return prisma.$transaction(async (tx) => {
+        const reversed = await tx.ledgerTransaction.findFirst({
+            where: {
+                reversalOfId: transaction.id
+            }
+        });
+
+        if (reversed) {
+            return null;
+        }
+
+        return postReversal(tx, transaction, userId, now);
+    });
+}
+
+// Filter of the transactions of a report: the currency, an optional property and the dates
+function transactionFilter(realtorId, {currency, propertyId, from, to}) {
+    return {
+        realtorId: realtorId,
+        currency: currency ?? "USD",
+        ...(propertyId ? { unit: { realEstateObjectId: propertyId } } : {}),
+        ...(from || to ? {
+            date: {
+                ...(from ? { gte: new Date(from) } : {}),
+                ...(to ? { lte: new Date(to) } : {})
+            }
+        } : {})
+    };
+}
+
+async function sumByAccount(where) {
+    const sums = await prisma.ledgerEntry.groupBy({
+        by: ["account"],
+        where: {
+            transaction: where
+        },
+        _sum: {
+            debit: true,
+            credit: true
+        }
+    });
+
+    return Object.fromEntries(LEDGER_ACCOUNTS.map((account) => {
+        const sum = sums.find((item) => item.account === account)?._sum;
+        return [account, { debit: roundCents(sum?.debit ?? 0), credit: roundCents(sum?.credit ?? 0) }];
+    }));
+}
+
+function balanceOf(account, sum) {
+    return DEBIT_ACCOUNTS.includes(account) ? roundCents(sum.debit - sum.credit) : roundCents(sum.credit - sum.debit);
+}
+
+// Balances of the accounts at the end of the period, the income statement of the period and the trial balance
+export async function getLedgerReport(realtorId, {currency, propertyId, from, to}) {
+    const closing = await sumByAccount(transactionFilter(realtorId, {currency, propertyId, to}));
+    const period = await sumByAccount(transactionFilter(realtorId, {currency, propertyId, from, to}));
+
+    const balances = Object.fromEntries(LEDGER_ACCOUNTS.map((account) => [account, balanceOf(account, closing[account])]));
+    const income = balanceOf("INCOME", period.INCOME);
+    const expenses = balanceOf("EXPENSES", period.EXPENSES);
+
+    const totalDebit = roundCents(LEDGER_ACCOUNTS.reduce((total, account) => total + closing[account].debit, 0));
+    const totalCredit = roundCents(LEDGER_ACCOUNTS.reduce((total, account) => total + closing[account].credit, 0));
+
+    const currencies = await prisma.ledgerTransaction.findMany({
+        where: {
+            realtorId: realtorId
+        },
+        select: {
+            currency: true
+        },
+        distinct: ["currency"]
+    });
+
+    return {
+        currency: currency ?? "USD",
+        currencies: currencies.map((item) => item.currency),
+        balances: balances,
+        incomeStatement: {
+            income: income,
+            expenses: expenses,
+            netIncome: roundCents(income - expenses),
+        },
+        balanceSheet: {
+            assets: roundCents(balances.CASH + balances.RENT_RECEIVABLE),
+            liabilities: balances.DEPOSITS_HELD,
+            // Earnings that were not withdrawn belong to the owner
+            equity: roundCents(balances.OWNER_EQUITY + balances.INCOME - balances.EXPENSES),
+        },
+        trialBalance: {
+            debit: totalDebit,
+            credit: totalCredit,
+            balanced: totalDebit === totalCredit,
+        },
+    };
+}
+
+// Receivable of every lease in the currency of the lease: what was charged, what was paid and the balance that is
+// still owed (negative if the tenant has credit)
+export async function getLeaseBalances(realtorId, {currency}) {
+    const entries = await prisma.ledgerEntry.findMany({
+        where: {
+            account: "RENT_RECEIVABLE",
+            transaction: {
+                realtorId: realtorId,
+                ...(currency ? { currency: currency } : {}),
+                leaseId: {
+                    not: null
+                }
+            }
+        },
+        select: {
+            debit: true,
+            credit: true,
+            transaction: {
+                select: {
+                    leaseId: true,
+                    sourceType: true
+                }
+            }
+        }
+    });
+
+    const balances = new Map();
+
+    for (const entry of entries) {
+        const {leaseId, sourceType} = entry.transaction;
+        const balance = balances.get(leaseId) ?? { leaseId: leaseId, charged: 0, paid: 0, balance: 0 };
+        const amount = entry.debit - entry.credit;
+
+        if (sourceType === "PAYMENT") {
+            balance.paid = roundCents(balance.paid - amount);
+        }
+        else {
+            balance.charged = roundCents(balance.charged + amount);
+        }
+        balance.balance = roundCents(balance.balance + amount);
+
+        balances.set(leaseId, balance);
+    }
+
+    return [...balances.values()];
+}
@@ -0,0 +1,146 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {syncLeaseLedger, syncLedgers} from "./ledgerService.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+const NOW = new Date("2024-02-15T08:00:00Z");
+
+function addLease(id) {
+    fakePrisma.records("lease").push({ id: id, realtorId: 7, unitId: 3, currency: "USD" });
+}
+
+function addCharge(id, dueDate, amountDue, data = {}) {
+    const charge = { id: id, leaseId: 1, chargeType: "RENT", status: "SCHEDULED", dueDate: new Date(dueDate), amountDue: amountDue, ...data };
+    fakePrisma.records("leasePaymentSchedule").push(charge);
+    return charge;
+}
+
+function addPayment(id, date, amount, data = {}) {
+    const payment = { id: id, leaseId: 1, status: "PAID", date: new Date(date), amount: amount, paymentMethod: null, ...data };
+    fakePrisma.records("rentPayment").push(payment);
+    return payment;
+}
+
+function transactions() {
+    return fakePrisma.records("ledgerTransaction");
+}
+
+function entriesOf(transaction) {
+    return fakePrisma.records("ledgerEntry").filter((entry) => entry.transactionId === transaction.id);
+}
+
+// Net of the account (debits minus credits) over all entries
+function netOf(account) {
+    return fakePrisma.records("ledgerEntry")
+        .filter((entry) => entry.account === account)
+        .reduce((total, entry) => Math.round((total + entry.debit - entry.credit) * 100) / 100, 0);
+}
+
+beforeEach(() => {
+    fakePrisma.reset();
+    addLease(1);
+});
+
+describe("syncLeaseLedger", () => {
+    test("posts due charges, paid payments and the deposit in balanced transactions", async () => {
+        addCharge(10, "2024-01-01", 1000);
+        addCharge(11, "2024-02-01", 1000);
+        addCharge(12, "2024-03-01", 1000);
+        addPayment(20, "2024-01-03", 1200);
+        addPayment(21, "2024-02-03", 500, { status: "REPORTED" });
+        fakePrisma.records("securityDeposit").push({
+            id: 30, leaseId: 1, amount: 2000, currency: "USD", receivedDate: new Date("2024-01-01"), status: "SETTLED",
+            moveOutDate: new Date("2024-02-10"), interestAmount: 10, refundAmount: 1860
+        });
+        fakePrisma.records("depositDeduction").push({ id: 31, depositId: 30, description: "Cleaning", amount: 150 });
+
+        expect(await syncLeaseLedger(1, fakePrisma, NOW)).toBe(5);
+
+        expect(transactions().map((transaction) => [transaction.sourceType, transaction.sourceId])).toEqual([
+            ["CHARGE", 10], ["CHARGE", 11], ["PAYMENT", 20], ["DEPOSIT", 30], ["DEPOSIT_SETTLEMENT", 30]
+        ]);
+        transactions().forEach((transaction) => {
+            const entries = entriesOf(transaction);
+            expect(entries.reduce((total, entry) => total + entry.debit - entry.credit, 0)).toBe(0);
+            expect(transaction).toMatchObject({ realtorId: 7, leaseId: 1, unitId: 3, currency: "USD" });
+        });
+
+        // Rent of 2000 less the payment of 1200, the deposit was refunded but for the deduction
+        expect(netOf("RENT_RECEIVABLE")).toBe(800);
+        expect(netOf("INCOME")).toBe(-2150);
+        expect(netOf("CASH")).toBe(1340);
+        expect(netOf("DEPOSITS_HELD")).toBe(0);
+        expect(netOf("EXPENSES")).toBe(10);
+    });
+
+    test("sources that did not change are not posted again", async () => {
+        addCharge(10, "2024-01-01", 1000);
+        addPayment(20, "2024-01-03", 1000);
+
+        await syncLeaseLedger(1, fakePrisma, NOW);
+
+        expect(await syncLeaseLedger(1, fakePrisma, NOW)).toBe(0);
+        expect(transactions()).toHaveLength(2);
+    });
+
+    test("a changed source is reversed and posted again", async () => {
+        const charge = addCharge(10, "2024-01-01", 1000);
+        await syncLeaseLedger(1, fakePrisma, NOW);
+        const posted = transactions()[0];
+
+        charge.amountDue = 900;
+        const later = new Date("2024-02-20T08:00:00Z");
+        expect(await syncLeaseLedger(1, fakePrisma, later)).toBe(1);
+
+        const [, reversal, correction] = transactions();
+        expect(reversal).toMatchObject({ reversalOfId: posted.id, sourceType: "CHARGE", sourceId: 10, date: later, description: "Reversal of Rent #10" });
+        expect(entriesOf(reversal).map((entry) => [entry.account, entry.debit, entry.credit])).toEqual([
+            ["RENT_RECEIVABLE", 0, 1000],
+            ["INCOME", 1000, 0],
+        ]);
+        expect(correction).toMatchObject({ sourceId: 10, description: "Rent #10", date: new Date("2024-01-01") });
+        expect(correction.reversalOfId ?? null).toBeNull();
+        expect(netOf("RENT_RECEIVABLE")).toBe(900);
+
+        expect(await syncLeaseLedger(1, fakePrisma, later)).toBe(0);
+        expect(transactions()).toHaveLength(3);
+    });
+
+    test("sources that are not posted anymore are only reversed", async () => {
+        const payment = addPayment(20, "2024-01-03", 1000);
+        const charge = addCharge(10, "2024-01-01", 50, { chargeType: "LATE_FEE" });
+        await syncLeaseLedger(1, fakePrisma, NOW);
+
+        payment.status = "REJECTED";
+        charge.status = "WAIVED";
+        expect(await syncLeaseLedger(1, fakePrisma, NOW)).toBe(2);
+
+        expect(transactions()).toHaveLength(4);
+        expect(transactions().slice(2).map((transaction) => transaction.description)).toEqual(["Reversal of Late fee #10", "Reversal of Payment #20"]);
+        expect(netOf("CASH")).toBe(0);
+        expect(netOf("RENT_RECEIVABLE")).toBe(0);
+    });
+});
+
+describe("syncLedgers", () => {
+    test("the first run syncs every lease, later runs the leases with charges that became due since", async () => {
+        addLease(2);
+        addCharge(10, "2024-01-01", 1000);
+        addCharge(11, "2024-02-01", 1000);
+        addCharge(12, "2024-01-01", 800, { leaseId: 2 });
+        const payment = addPayment(20, "2024-01-03", 800, { leaseId: 2 });
+
+        expect(await syncLedgers(new Date("2024-01-15T08:00:00Z"))).toBe(3);
+        expect(fakePrisma.records("jobRun")).toEqual([expect.objectContaining({ name: "ledger", lastRunAt: new Date("2024-01-15T08:00:00Z") })]);
+
+        // Changes of other leases are synced right away, not by the job
+        payment.amount = 700;
+
+        expect(await syncLedgers(new Date("2024-02-05T08:00:00Z"))).toBe(1);
+        expect(transactions().at(-1)).toMatchObject({ sourceType: "CHARGE", sourceId: 11, leaseId: 1 });
+        expect(fakePrisma.records("jobRun")).toEqual([expect.objectContaining({ lastRunAt: new Date("2024-02-05T08:00:00Z") })]);
+
+        expect(await syncLedgers(new Date("2024-02-06T08:00:00Z"))).toBe(0);
+    });
+});
@@ -1,19 +1,39 @@
-import { Resend } from "resend";
+import { createConsoleTransport, createFileTransport, createResendTransport } from "./mailTransports.js";
 
-const API_KEY = 'XYZ'
+const FROM = "Realtor Rocket <support@realtorrocket.app>";
 
-const resend = new Resend(API_KEY);
+let transport = null;
 
-resend.domains.create({
-    name: "realtorrocket.app",
-})
+// Picks the transport from MAIL_TRANSPORT (resend, file or console), defaults to resend if an API key is configured
+function createTransport() {
+    // eslint-disable-next-line no-undef
+    const {MAIL_TRANSPORT, MAIL_FILE_DIR, RESEND_API_KEY} = process.env;
 
+    switch (MAIL_TRANSPORT || (RESEND_API_KEY ? "resend" : "console")) {
+        case "resend":
+            return createResendTransport(RESEND_API_KEY);
+        case "file":
+            return createFileTransport(MAIL_FILE_DIR || "mails");
+        default:
+            return createConsoleTransport();
+    }
+}
+
+// Replaces the transport, e.g. to capture mails in scripts
+export function setTransport(newTransport) {
+    transport = newTransport;
+}
 
 export const sendEmail = async (to, subject, html) => {
     try {
-        return await resend.emails.send({
-            from: "Realtor Rocket <support@realtorrocket.app>",
-            to: [to],
+        // Created lazily so the environment is loaded before the transport is chosen
+        if (!transport) {
+            transport = createTransport();
+        }
+
+        return await transport.send({
+            from: FROM,
+            to: to,
             subject: subject,
             html: html
         });
@@ -23,11 +43,3 @@ export const sendEmail = async (to, subject, html) => {
         return error;
     }
 };
-
-/*
-sendEmail("pablotanner@hotmail.ch", "Test222", "<h1>Test222</h1>").then((response) => {
-    console.log(response);
-}).catch((error) => {
-    console.log("err",error)
-})
- */
@@ -0,0 +1,48 @@
+import { Resend } from "resend";
+import fs from "fs/promises";
+import path from "path";
+
+// A transport delivers a single mail of the shape { from, to, subject, html }
+
+
+// Production transport, sends the mail through the Resend API
+export function createResendTransport(apiKey) {
+    const resend = new Resend(apiKey);
+
+    return {
+        send: async (mail) => resend.emails.send({
+            from: mail.from,
+            to: [mail.to],
+            subject: mail.subject,
+            html: mail.html
+        })
+    }
+}
+
+// Development transport, prints the mail to the server log
+export function createConsoleTransport() {
+    return {
+        send: async (mail) => {
+            console.log(`[mail] From: ${mail.from}\n[mail] To: ${mail.to}\n[mail] Subject: ${mail.subject}\n${mail.html}`);
+            return { data: { id: null } };
+        }
+    }
+}
+
+// Development transport, writes every mail as a .html file so links in it can be opened in the browser
+export function createFileTransport(directory) {
+    return {
+        send: async (mail) => {
+            await fs.mkdir(directory, { recursive: true });
+
+            const fileName = `${Date.now()}-${mail.to.replace(/[^a-zA-Z0-9.@_-]/g, "_")}.html`;
+            const filePath = path.join(directory, fileName);
+            const header = `<!--\nFrom: ${mail.from}\nTo: ${mail.to}\nSubject: ${mail.subject}\n-->\n`;
+
+            await fs.writeFile(filePath, header + mail.html);
+            console.log(`[mail] "${mail.subject}" to ${mail.to} written to ${filePath}`);
+
+            return { data: { id: fileName } };
+        }
+    }
+}
@@ -0,0 +1,65 @@
+import prisma from "../prisma.js";
+
+// Organization a user works in and their role there, null if the user is no member.
+// Without organizationId the first organization of the user is used (usually their own).
+// requireTwoFactor tells whether members need two-factor authentication to work in it
+export async function getWorkspace(user, organizationId) {
+    const id = organizationId ? parseInt(organizationId) : null;
+
+    // Admins can work in every organization with owner rights
+    if (user.role === "ADMIN" && id) {
+        const organization = await prisma.organization.findUnique({
+            where: {
+                id: id
+            }
+        });
+
+        return organization ? { organizationId: organization.id, realtorId: organization.realtorId, role: "OWNER", requireTwoFactor: organization.requireTwoFactor } : null;
+    }
+
+    const membership = await prisma.organizationMember.findFirst({
+        where: {
+            userId: user.userId,
+            ...(id ? { organizationId: id } : {})
+        },
+        include: {
+            organization: true
+        },
+        orderBy: {
+            createdAt: "asc"
+        }
+    });
+
+    if (!membership) {
+        return null;
+    }
+
+    return { organizationId: membership.organizationId, realtorId: membership.organization.realtorId, role: membership.role, requireTwoFactor: membership.organization.requireTwoFactor };
+}
+
+// Creates the organization of a new realtor with the user as its owner
+export async function createOrganization(user, realtorId, tx = prisma) {
+    const name = user.company || [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email;
+
+    return tx.organization.create({
+        data: {
+            name: name,
+            realtor: {
+                connect: {
+                    id: realtorId
+                }
+            },
+            members: {
+                create: {
+                    role: "OWNER",
+                    email: user.email,
+                    user: {
+                        connect: {
+                            id: user.id
+                        }
+                    }
+                }
+            }
+        }
+    });
+}
@@ -0,0 +1,67 @@
+import {Buffer} from "buffer";
+import prisma from "../prisma.js";
+import {reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {storeDocument} from "./documentService.js";
+
+// Review of the payments tenants report in the portal. A reported payment pays nothing until the realtor approves it,
+// approving it marks it as paid and allocates it to the open charges of its lease, rejecting it keeps it for the
+// record. The realtor who decided, when and why is kept with the payment
+
+// Stores the proof the tenant attached as a document of the lease, pass the client of a running transaction as tx
+export async function storePaymentProof(proof, lease, userId, tx = prisma) {
+    return storeDocument({
+        documentType: "PAYMENT_PROOF",
+        name: proof.name,
+        mimeType: proof.mimeType,
+        content: Buffer.from(proof.content, "base64"),
+        userId: userId,
+        leaseId: lease.id,
+        unitId: lease.unitId
+    }, tx);
+}
+
+// Approves (PAID) or rejects (REJECTED) the reported payment. Returns null if it was reviewed in the meantime
+export async function reviewPayment(payment, approve, note, userId, now = new Date()) {
+    return prisma.$transaction(async (tx) => {
+        const claimed = await tx.rentPayment.updateMany({
+            where: {
+                id: payment.id,
+                status: "REPORTED"
+            },
+            data: {
+                status: approve ? "PAID" : "REJECTED",
+                approvalDate: approve ? now : null,
+                reviewedById: userId,
+                reviewedAt: now,
+                reviewNote: note ?? null
+            }
+        });
+
+        if (!claimed.count) {
+            return null;
+        }
+
+        if (payment.leaseId) {
+            await reconcileAllocations(payment.leaseId, tx, now);
+            await syncLeaseLedger(payment.leaseId, tx, now);
+        }
+
+        return tx.rentPayment.findUnique({
+            where: {
+                id: payment.id
+            },
+            include: {
+                lease: {
+                    include: {
+                        tenant: true,
+                        unit: true
+                    }
+                },
+                tenant: true,
+                allocations: true,
+                proof: true
+            }
+        });
+    });
+}
@@ -0,0 +1,276 @@
+import {Buffer} from "buffer";
+
+// Minimal PDF writer for the documents the server generates (receipts and statements). Documents are laid out top to
+// bottom from blocks, pages break on their own and tables repeat their header on every page. Only the standard
+// Helvetica fonts are used, so nothing is embedded and text is limited to the WinAnsi characters (Latin-1 and a few
+// more), others are printed as "?"
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const FONT_SIZES = { title: 18, heading: 12, text: 10, small: 8 };
+const LINE_HEIGHT = 1.4;
+
+// Widths of the printable ASCII characters (32 to 126) of Helvetica in 1/1000 of the font size. Bold text is measured
+// with them too, its digits have the same width, so right aligned amounts line up
+const CHAR_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters of WinAnsiEncoding outside of Latin-1
+const WIN_ANSI_EXTRAS = {
+    "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88,
+    "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93,
+    "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b,
+    "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+function encodeChar(char) {
+    const code = char.codePointAt(0);
+
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+        return code;
+    }
+    return WIN_ANSI_EXTRAS[char] ?? (/\s/.test(char) ? 32 : 63);
+}
+
+// Whether the text can be printed as it is
+export function isPrintable(text) {
+    return [...String(text)].every((char) => encodeChar(char) !== 63 || char === "?");
+}
+
+function textWidth(text, size) {
+    return [...String(text)].reduce((width, char) => {
+        const code = encodeChar(char);
+        return width + (code >= 32 && code <= 126 ? CHAR_WIDTHS[code - 32] : 556);
+    }, 0) * size / 1000;
+}
+
+// PDF string literal, characters above 126 are written as octal escapes
+function pdfString(text) {
+    return `(${[...String(text)].map((char) => {
+        const code = encodeChar(char);
+
+        if (code === 40 || code === 41 || code === 92) {
+            return `\\${char}`;
+        }
+        return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : String.fromCharCode(code);
+    }).join("")})`;
+}
+
+// Cuts the text to the width, with an ellipsis
+function fitText(text, width, size) {
+    let fitted = String(text ?? "");
+
+    if (textWidth(fitted, size) <= width) {
+        return fitted;
+    }
+    while (fitted && textWidth(`${fitted}...`, size) > width) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+}
+
+function wrapText(text, width, size) {
+    const lines = [];
+
+    for (const paragraph of String(text ?? "").split("\n")) {
+        let line = "";
+
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+
+            if (line && textWidth(candidate, size) > width) {
+                lines.push(line);
+                line = word;
+            }
+            else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+
+    return lines;
+}
+
+function createLayout() {
+    const pages = [];
+    let operations;
+    let y;
+
+    const newPage = () => {
+        operations = [];
+        pages.push(operations);
+        y = PAGE_HEIGHT - MARGIN;
+    };
+
+    const ensureSpace = (height) => {
+        if (y - height < MARGIN) {
+            newPage();
+            return true;
+        }
+        return false;
+    };
+
+    const text = (value, x, size, bold = false) => {
+        operations.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(value)} Tj ET`);
+    };
+
+    const line = (width = 0.5) => {
+        operations.push(`${width} w ${MARGIN} ${(y + 3).toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${(y + 3).toFixed(2)} l S`);
+    };
+
+    newPage();
+
+    return {
+        pages,
+        moveDown: (height) => {
+            y -= height;
+        },
+        ensureSpace,
+        text,
+        line,
+    };
+}
+
+function renderLines(layout, lines, size, bold) {
+    for (const value of lines) {
+        layout.ensureSpace(size * LINE_HEIGHT);
+        layout.moveDown(size * LINE_HEIGHT);
+        layout.text(value, MARGIN, size, bold);
+    }
+}
+
+// Columns have a width (share of the page), an alignment and a header. Rows are arrays of cells, or
+// {cells, bold} for totals
+function renderTable(layout, {columns, rows}) {
+    const size = FONT_SIZES.text;
+    const rowHeight = size * LINE_HEIGHT + 2;
+    const totalWidth = columns.reduce((total, column) => total + (column.width ?? 1), 0);
+
+    let x = MARGIN;
+    const positions = columns.map((column) => {
+        const width = CONTENT_WIDTH * (column.width ?? 1) / totalWidth;
+        const position = { x: x, width: width, align: column.align ?? "left" };
+        x += width;
+        return position;
+    });
+
+    const renderRow = (cells, bold) => {
+        cells.forEach((cell, index) => {
+            const {x: cellX, width, align} = positions[index];
+            const value = fitText(cell ?? "", width - 6, size);
+            const offset = align === "right" ? width - 3 - textWidth(value, size) : 3;
+
+            layout.text(value, cellX + offset, size, bold);
+        });
+    };
+
+    const renderHeader = () => {
+        layout.moveDown(rowHeight);
+        renderRow(columns.map((column) => column.header), true);
+        layout.moveDown(4);
+        layout.line();
+    };
+
+    layout.ensureSpace(rowHeight * 2 + 4);
+    renderHeader();
+
+    for (const row of rows) {
+        const {cells, bold} = Array.isArray(row) ? { cells: row, bold: false } : row;
+
+        if (layout.ensureSpace(rowHeight)) {
+            renderHeader();
+        }
+
+        layout.moveDown(rowHeight);
+        if (bold) {
+            layout.line();
+        }
+        renderRow(cells, bold);
+    }
+}
+
+// Blocks: {title}, {heading}, {text} (wrapped, "\n" starts a new line), {small}, {table: {columns, rows}}, {space}
+function layoutBlocks(blocks) {
+    const layout = createLayout();
+
+    for (const block of blocks) {
+        if (block.title !== undefined) {
+            renderLines(layout, [block.title], FONT_SIZES.title, true);
+            layout.moveDown(6);
+        }
+        else if (block.heading !== undefined) {
+            layout.moveDown(8);
+            renderLines(layout, [block.heading], FONT_SIZES.heading, true);
+        }
+        else if (block.text !== undefined) {
+            renderLines(layout, wrapText(block.text, CONTENT_WIDTH, FONT_SIZES.text), FONT_SIZES.text, block.bold);
+        }
+        else if (block.small !== undefined) {
+            renderLines(layout, wrapText(block.small, CONTENT_WIDTH, FONT_SIZES.small), FONT_SIZES.small, false);
+        }
+        else if (block.table) {
+            renderTable(layout, block.table);
+        }
+        else if (block.space) {
+            layout.moveDown(block.space);
+        }
+    }
+
+    return layout.pages;
+}
+
+// The PDF file of the blocks, with page numbers in the footer
+export function renderPdf(blocks, {title} = {}) {
+    const pages = layoutBlocks(blocks);
+    const objects = [];
+
+    const addObject = (content) => {
+        objects.push(content);
+        return objects.length;
+    };
+
+    const catalogId = addObject(null);
+    const pagesId = addObject(null);
+    const fontId = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const boldFontId = addObject("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    const infoId = addObject(`<< /Producer (RealtorRocket)${title ? ` /Title ${pdfString(title)}` : ""} >>`);
+
+    const pageIds = pages.map((operations, index) => {
+        const footer = `Page ${index + 1} of ${pages.length}`;
+        const stream = [
+            ...operations,
+            `BT /F1 ${FONT_SIZES.small} Tf ${(PAGE_WIDTH - MARGIN - textWidth(footer, FONT_SIZES.small)).toFixed(2)} ${MARGIN / 2} Td ${pdfString(footer)} Tj ET`,
+        ].join("\n");
+        const contentId = addObject(`<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`);
+
+        return addObject(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets = objects.map((content, index) => {
+        const offset = Buffer.byteLength(output, "latin1");
+        output += `${index + 1} 0 obj\n${content}\nendobj\n`;
+        return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,264 @@
+import prisma from "../prisma.js";
+
+// Authorization policies of all organization resources. An actor is the logged in user together with the
+// organization they work in ({user, workspace}), tenants have no workspace and only reach their own data.
+// Every resource defines which member roles may perform an action and the filter that limits queries
+// to the records an actor can access. Records outside of that filter are treated as not existing.
+// References are fields of request bodies that point to other resources, they have to be accessible as well.
+
+const ALL_MEMBERS = ["OWNER", "MANAGER", "BOOKKEEPER", "READ_ONLY"];
+const PORTFOLIO = ["OWNER", "MANAGER"];
+const FINANCIALS = ["OWNER", "MANAGER", "BOOKKEEPER"];
+const OWNERS = ["OWNER"];
+
+// Leases of the tenant user, every party of a lease (co-tenants, guarantors and occupants as well) can see it
+const partyOf = (userId) => ({ parties: { some: { tenant: { userId: userId } } } });
+
+// Can never be set through a request body, ownership is only ever derived from the actor
+const PROTECTED_FIELDS = ["id", "createdAt", "updatedAt", "realtorId", "userId", "organizationId"];
+
+const POLICIES = {
+    property: {
+        model: "realEstateObject",
+        label: "Property",
+        actions: { read: ALL_MEMBERS, create: PORTFOLIO, update: PORTFOLIO, delete: PORTFOLIO },
+        scope: ({workspace}) => ({ realtorId: workspace.realtorId }),
+    },
+    unit: {
+        model: "unit",
+        label: "Unit",
+        actions: { read: ALL_MEMBERS, update: PORTFOLIO },
+        scope: ({user, workspace}) => workspace ?
+            { realEstateObject: { realtorId: workspace.realtorId } } :
+            { leases: { some: partyOf(user.userId) } },
+        tenantActions: ["read"],
+        references: { realEstateObjectId: "property", tenantId: "tenant" },
+    },
+    tenant: {
+        model: "tenant",
+        label: "Tenant",
+        actions: { read: ALL_MEMBERS, create: PORTFOLIO, update: PORTFOLIO, delete: PORTFOLIO },
+        scope: ({user, workspace}) => workspace ?
+            { OR: [{ leases: { some: { realtorId: workspace.realtorId } } }, { leaseParties: { some: { lease: { realtorId: workspace.realtorId } } } }] } :
+            { userId: user.userId },
+        references: { unitId: "unit", "lease.unitId": "unit" },
+    },
+    lease: {
+        model: "lease",
+        label: "Lease",
+        actions: { read: ALL_MEMBERS, create: PORTFOLIO, update: PORTFOLIO, delete: PORTFOLIO },
+        scope: ({user, workspace}) => workspace ?
+            { realtorId: workspace.realtorId } :
+            partyOf(user.userId),
+        tenantActions: ["read"],
+        references: { unitId: "unit", tenantId: "tenant", priceIndexId: "priceIndex" },
+    },
+    payment: {
+        model: "rentPayment",
+        label: "Payment",
+        actions: { read: ALL_MEMBERS, create: FINANCIALS, update: FINANCIALS, delete: FINANCIALS },
+        scope: ({user, workspace}) => workspace ?
+            { lease: { realtorId: workspace.realtorId } } :
+            { OR: [{ submittedBy: user.userId }, { lease: partyOf(user.userId) }] },
+        tenantActions: ["read", "create"],
+        // The charges a payment is allocated to are checked against its lease by the controller
+        references: { leaseId: "lease", tenantId: "tenant" },
+        // The lease, tenant and submitter of a payment never change
+        fields: ["amount", "currency", "date", "status", "notes", "paymentMethod", "approvalDate"],
+    },
+    paymentSchedule: {
+        model: "leasePaymentSchedule",
+        label: "Payment schedule",
+        actions: { read: ALL_MEMBERS, update: FINANCIALS, delete: FINANCIALS },
+        scope: ({user, workspace}) => workspace ?
+            { lease: { realtorId: workspace.realtorId } } :
+            { lease: partyOf(user.userId) },
+        fields: ["dueDate", "amountDue", "status"],
+    },
+    renewalOffer: {
+        model: "leaseRenewalOffer",
+        label: "Renewal offer",
+        actions: { read: ALL_MEMBERS, create: PORTFOLIO, update: PORTFOLIO },
+        // Tenants only see offers once they were sent to them, they can accept or decline them
+        scope: ({user, workspace}) => workspace ?
+            { lease: { realtorId: workspace.realtorId } } :
+            { status: { not: "DRAFT" }, lease: partyOf(user.userId) },
+        tenantActions: ["read", "update"],
+        // The status only changes by sending and answering the offer
+        fields: ["startDate", "endDate", "rentalPrice", "paymentFrequency", "notes"],
+    },
+    deposit: {
+        model: "securityDeposit",
+        label: "Deposit",
+        actions: { read: ALL_MEMBERS, create: FINANCIALS, update: FINANCIALS, delete: FINANCIALS },
+        scope: ({workspace}) => ({ lease: { realtorId: workspace.realtorId } }),
+        references: { leaseId: "lease" },
+        // The settlement is only changed by settling the deposit
+        fields: ["amount", "receivedDate", "holdingAccount", "interestRate", "notes"],
+    },
+    expense: {
+        model: "expense",
+        label: "Expense",
+        actions: { read: ALL_MEMBERS, create: FINANCIALS, delete: FINANCIALS },
+        scope: ({workspace}) => ({ realtorId: workspace.realtorId }),
+        references: { unitId: "unit", leaseId: "lease", maintenanceRequestId: "maintenance" },
+    },
+    ledger: {
+        model: "ledgerTransaction",
+        label: "Ledger transaction",
+        // Transactions are only ever added, corrections are reversals
+        actions: { read: ALL_MEMBERS, create: FINANCIALS },
+        scope: ({workspace}) => ({ realtorId: workspace.realtorId }),
+        references: { leaseId: "lease" },
+    },
+    bankStatement: {
+        model: "bankStatementImport",
+        label: "Bank statement",
+        actions: { read: FINANCIALS, create: FINANCIALS },
+        scope: ({workspace}) => ({ realtorId: workspace.realtorId }),
+    },
+    bankTransaction: {
+        model: "bankTransaction",
+        label: "Bank transaction",
+        // Credits are only confirmed or ignored, the charges they are matched to are checked by the controller
+        actions: { read: FINANCIALS, update: FINANCIALS },
+        scope: ({workspace}) => ({ realtorId: workspace.realtorId }),
+    },
+    maintenance: {
+        model: "maintenanceRequest",
+        label: "Maintenance request",
+        actions: { read: ALL_MEMBERS, create: PORTFOLIO },
+        scope: ({user, workspace}) => workspace ?
+            { realtorId: workspace.realtorId } :
+            { reporter: { userId: user.userId } },
+        tenantActions: ["read", "create"],
+        references: { unitId: "unit", reporterId: "tenant" },
+    },
+    document: {
+        model: "document",
+        label: "Document",
+        actions: { read: ALL_MEMBERS },
+        // Tenants get the documents of their own leases, e.g. their settlement statements
+        scope: ({user, workspace}) => workspace ?
+            { lease: { realtorId: workspace.realtorId } } :
+            { lease: partyOf(user.userId) },
+        tenantActions: ["read"],
+    },
+    priceIndex: {
+        model: "priceIndex",
+        label: "Price index",
+        actions: { read: ALL_MEMBERS },
+        // Price indexes are maintained for all organizations
+        scope: () => ({}),
+    },
+    organization: {
+        model: "organization",
+        label: "Organization",
+        actions: { read: ALL_MEMBERS, update: OWNERS },
+        scope: ({workspace}) => ({ id: workspace.organizationId }),
+    },
+    member: {
+        model: "organizationMember",
+        label: "Member",
+        // Members that are no owner can only remove themselves (leave), the controller checks that
+        actions: { read: ALL_MEMBERS, create: OWNERS, update: OWNERS, delete: ALL_MEMBERS },
+        scope: ({workspace}) => ({ organizationId: workspace.organizationId }),
+    },
+}
+
+function getPolicy(resource) {
+    const policy = POLICIES[resource];
+
+    if (!policy) {
+        throw new Error(`Unknown resource ${resource}`);
+    }
+
+    return policy;
+}
+
+export function getResourceLabel(resource) {
+    return getPolicy(resource).label;
+}
+
+// Whether the actor may perform the action on the resource at all, access to single records is checked with the scope
+export function can(actor, action, resource) {
+    const policy = getPolicy(resource);
+
+    if (!actor.workspace) {
+        return actor.user.role === "TENANT" && (policy.tenantActions?.includes(action) ?? false);
+    }
+
+    return policy.actions[action]?.includes(actor.workspace.role) ?? false;
+}
+
+// Prisma filter of all records of the resource the actor can access, combine it with the filters of the query
+export function scopeOf(actor, resource) {
+    return getPolicy(resource).scope(actor);
+}
+
+// Single record of the resource if the actor can access it, null otherwise
+export async function findAuthorized(actor, resource, id, args = {}) {
+    const recordId = parseInt(id);
+
+    if (isNaN(recordId)) {
+        return null;
+    }
+
+    return prisma[getPolicy(resource).model].findFirst({
+        ...args,
+        where: {
+            AND: [args.where ?? {}, scopeOf(actor, resource)],
+            id: recordId
+        }
+    });
+}
+
+// Whether the actor can access every record of the given ids, used for bulk requests
+export async function canAccessAll(actor, resource, ids) {
+    const recordIds = [...new Set(ids.map((id) => parseInt(id)))];
+
+    if (recordIds.some((id) => isNaN(id))) {
+        return false;
+    }
+
+    // Scopes can filter on the id themselves (e.g. the organization), so they are combined and not merged
+    const count = await prisma[getPolicy(resource).model].count({
+        where: {
+            AND: [scopeOf(actor, resource)],
+            id: {
+                in: recordIds
+            }
+        }
+    });
+
+    return count === recordIds.length;
+}
+
+// Value of a dotted path ("lease.unitId") in a request body
+function getPath(data, path) {
+    return path.split(".").reduce((value, key) => value?.[key], data);
+}
+
+// First referenced resource of the items the actor can not access, null if all references are fine
+export async function findInaccessibleReference(actor, resource, items) {
+    const references = Object.entries(getPolicy(resource).references ?? {});
+
+    for (const [path, referencedResource] of references) {
+        const ids = items.map((item) => getPath(item, path)).filter((id) => id !== undefined && id !== null && id !== "");
+
+        if (ids.length && !await canAccessAll(actor, referencedResource, ids)) {
+            return referencedResource;
+        }
+    }
+
+    return null;
+}
+
+// Removes all fields from the data that can not be changed. Resources with a field list only keep those fields
+export function permittedFields(resource, data) {
+    const fields = getPolicy(resource).fields;
+
+    return Object.fromEntries(Object.entries(data ?? {}).filter(([key]) =>
+        fields ? fields.includes(key) : !PROTECTED_FIELDS.includes(key)
+    ));
+}
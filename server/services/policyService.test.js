@@ -0,0 +1,174 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {can, canAccessAll, findAuthorized, findInaccessibleReference, permittedFields} from "./policyService.js";
+import {authorize} from "../controllers/authController.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+// Two accounts with one record of every resource each. Realtor n owns organization n and every record with id n,
+// tenant n is the tenant of lease n of that realtor
+const ACCOUNT_A = 1;
+const ACCOUNT_B = 2;
+
+function realtorUserId(account) {
+    return 100 + account;
+}
+
+function tenantUserId(account) {
+    return 200 + account;
+}
+
+function seedAccount(account) {
+    const add = (model, record) => {
+        fakePrisma.records(model).push(record);
+        return record;
+    };
+
+    const organization = add("organization", { id: account, realtorId: account, requireTwoFactor: false });
+    add("organizationMember", { id: account, organizationId: account, organization: organization, userId: realtorUserId(account), role: "OWNER", createdAt: new Date() });
+
+    const property = add("realEstateObject", { id: account, realtorId: account });
+    const tenant = add("tenant", { id: account, userId: tenantUserId(account), leases: [], leaseParties: [] });
+    const unit = add("unit", { id: account, realEstateObjectId: account, realEstateObject: property, leases: [] });
+    const lease = add("lease", { id: account, realtorId: account, unitId: account, unit: unit, tenantId: account, tenant: tenant, parties: [], status: "ACTIVE" });
+    const party = { id: account, role: "PRIMARY", tenantId: account, tenant: tenant, leaseId: account, lease: lease };
+
+    lease.parties.push(party);
+    tenant.leases.push(lease);
+    tenant.leaseParties.push(party);
+    unit.leases.push(lease);
+
+    add("rentPayment", { id: account, leaseId: account, lease: lease, tenantId: account, submittedBy: tenantUserId(account), status: "PAID" });
+    add("leasePaymentSchedule", { id: account, leaseId: account, lease: lease, status: "SCHEDULED" });
+    add("leaseRenewalOffer", { id: account, leaseId: account, lease: lease, status: "SENT" });
+    add("securityDeposit", { id: account, leaseId: account, lease: lease });
+    add("expense", { id: account, realtorId: account });
+    add("ledgerTransaction", { id: account, realtorId: account });
+    add("bankStatementImport", { id: account, realtorId: account });
+    add("bankTransaction", { id: account, realtorId: account });
+    add("maintenanceRequest", { id: account, realtorId: account, reporter: tenant });
+    add("document", { id: account, leaseId: account, lease: lease });
+    add("priceIndex", { id: account });
+}
+
+function realtor(account, role = "OWNER") {
+    return {
+        user: { userId: realtorUserId(account), role: "REALTOR" },
+        workspace: { realtorId: account, organizationId: account, role: role, requireTwoFactor: false }
+    };
+}
+
+function tenant(account) {
+    return { user: { userId: tenantUserId(account), role: "TENANT" }, workspace: null };
+}
+
+// Runs the authorize middleware, returns the status it answered with or "next" if the request passed
+async function runAuthorize(resource, {method = "GET", userId, params = {}, body, headers = {}}) {
+    const result = {};
+    const req = { method: method, user: { userId: userId, role: "REALTOR" }, params: params, body: body, headers: headers };
+    const res = {
+        status(code) {
+            result.status = code;
+            return this;
+        },
+        json() {
+            return this;
+        }
+    };
+
+    await authorize(resource)(req, res, () => {
+        result.status = "next";
+    });
+
+    return result.status;
+}
+
+const RESOURCES = ["property", "unit", "tenant", "lease", "payment", "paymentSchedule", "renewalOffer", "deposit", "expense",
+    "ledger", "bankStatement", "bankTransaction", "maintenance", "document", "organization", "member"];
+
+// Resources tenants reach in the portal
+const TENANT_RESOURCES = ["unit", "tenant", "lease", "payment", "paymentSchedule", "renewalOffer", "maintenance", "document"];
+
+beforeEach(() => {
+    fakePrisma.reset();
+    seedAccount(ACCOUNT_A);
+    seedAccount(ACCOUNT_B);
+});
+
+describe("cross-account access", () => {
+    test.each(RESOURCES)("realtor A can not find the %s of realtor B", async (resource) => {
+        expect(await findAuthorized(realtor(ACCOUNT_A), resource, ACCOUNT_B)).toBeNull();
+        expect(await findAuthorized(realtor(ACCOUNT_A), resource, ACCOUNT_A)).not.toBeNull();
+    });
+
+    test.each(RESOURCES)("realtor A can not address the %s of realtor B in bulk", async (resource) => {
+        expect(await canAccessAll(realtor(ACCOUNT_A), resource, [ACCOUNT_A, ACCOUNT_B])).toBe(false);
+        expect(await canAccessAll(realtor(ACCOUNT_A), resource, [ACCOUNT_A])).toBe(true);
+    });
+
+    test.each(RESOURCES)("the %s route answers realtor A with 404 for the record of realtor B", async (resource) => {
+        expect(await runAuthorize(resource, { userId: realtorUserId(ACCOUNT_A), params: { id: String(ACCOUNT_B) } })).toBe(404);
+        expect(await runAuthorize(resource, { userId: realtorUserId(ACCOUNT_A), params: { id: String(ACCOUNT_A) } })).toBe("next");
+    });
+
+    test("realtor A can not work in the organization of realtor B", async () => {
+        expect(await runAuthorize("lease", {
+            userId: realtorUserId(ACCOUNT_A),
+            params: { id: String(ACCOUNT_B) },
+            headers: { "x-organization-id": String(ACCOUNT_B) }
+        })).toBe(403);
+    });
+
+    test.each(TENANT_RESOURCES)("tenant A can not find the %s of tenant B", async (resource) => {
+        expect(await findAuthorized(tenant(ACCOUNT_A), resource, ACCOUNT_B)).toBeNull();
+        expect(await findAuthorized(tenant(ACCOUNT_A), resource, ACCOUNT_A)).not.toBeNull();
+    });
+
+    test("price indexes are shared by all organizations", async () => {
+        expect(await findAuthorized(realtor(ACCOUNT_A), "priceIndex", ACCOUNT_B)).not.toBeNull();
+    });
+});
+
+describe("references", () => {
+    test("records of realtor A can not reference records of realtor B", async () => {
+        const actor = realtor(ACCOUNT_A);
+
+        expect(await findInaccessibleReference(actor, "lease", [{ unitId: ACCOUNT_B, tenantId: ACCOUNT_A }])).toBe("unit");
+        expect(await findInaccessibleReference(actor, "lease", [{ unitId: ACCOUNT_A, tenantId: ACCOUNT_B }])).toBe("tenant");
+        expect(await findInaccessibleReference(actor, "payment", [{ leaseId: ACCOUNT_B }])).toBe("lease");
+        expect(await findInaccessibleReference(actor, "deposit", [{ leaseId: ACCOUNT_B }])).toBe("lease");
+        expect(await findInaccessibleReference(actor, "expense", [{ unitId: ACCOUNT_B }])).toBe("unit");
+        expect(await findInaccessibleReference(actor, "maintenance", [{ unitId: ACCOUNT_A, reporterId: ACCOUNT_B }])).toBe("tenant");
+        expect(await findInaccessibleReference(actor, "ledger", [{ leaseId: ACCOUNT_A }])).toBeNull();
+    });
+
+    test("a create request of realtor A referencing the unit of realtor B is answered with 404", async () => {
+        expect(await runAuthorize("lease", {
+            method: "POST",
+            userId: realtorUserId(ACCOUNT_A),
+            body: { unitId: ACCOUNT_B, tenantId: ACCOUNT_A }
+        })).toBe(404);
+    });
+
+    test("ownership can not be set through the request body", () => {
+        expect(permittedFields("property", { title: "Home", realtorId: ACCOUNT_B })).toEqual({ title: "Home" });
+        expect(permittedFields("payment", { amount: 10, leaseId: ACCOUNT_B, submittedBy: 1 })).toEqual({ amount: 10 });
+    });
+});
+
+describe("actions", () => {
+    test("members only perform the actions of their role", () => {
+        expect(can(realtor(ACCOUNT_A, "READ_ONLY"), "read", "lease")).toBe(true);
+        expect(can(realtor(ACCOUNT_A, "READ_ONLY"), "update", "lease")).toBe(false);
+        expect(can(realtor(ACCOUNT_A, "BOOKKEEPER"), "create", "payment")).toBe(true);
+        expect(can(realtor(ACCOUNT_A, "BOOKKEEPER"), "create", "lease")).toBe(false);
+        expect(can(realtor(ACCOUNT_A, "MANAGER"), "update", "organization")).toBe(false);
+    });
+
+    test("tenants only perform the actions of the portal", () => {
+        expect(can(tenant(ACCOUNT_A), "read", "lease")).toBe(true);
+        expect(can(tenant(ACCOUNT_A), "update", "lease")).toBe(false);
+        expect(can(tenant(ACCOUNT_A), "create", "payment")).toBe(true);
+        expect(can(tenant(ACCOUNT_A), "read", "expense")).toBe(false);
+    });
+});
@@ -0,0 +1,208 @@
+import prisma from "../prisma.js";
+import {createLeaseWithPaymentSchedule, findOverlappingLeases} from "./leaseService.js";
+import {DAY} from "../../shared/dates.js";
+
+// Renewal offers of leases that are about to end. An offer is drafted automatically a number of days before the lease ends
+// (set per organization), the realtor adjusts and sends it, and the tenant or the realtor accepts or declines it.
+// Accepting creates the successor lease, offers that are still open when the lease ends lapse
+
+const DEFAULT_NOTICE_DAYS = 60;
+// Longest notice period an organization can set
+const MAX_NOTICE_DAYS = 365;
+const DEFAULT_TERM_MONTHS = 12;
+
+export const OPEN_OFFER_STATUSES = ["DRAFT", "SENT"];
+
+function getTermMonths(startDate, endDate) {
+    if (!startDate || !endDate) {
+        return DEFAULT_TERM_MONTHS;
+    }
+
+    return Math.max(1, Math.round((new Date(endDate) - new Date(startDate)) / (DAY * 30.44)));
+}
+
+// Terms of the renewal: the new lease starts the day after the current one ends and runs as long,
+// the rent changes by rentIncrease percent
+export function proposeRenewal(lease, rentIncrease = 0) {
+    const startDate = new Date(new Date(lease.endDate).getTime() + DAY);
+
+    const endDate = new Date(startDate);
+    endDate.setUTCMonth(endDate.getUTCMonth() + getTermMonths(lease.startDate, lease.endDate));
+    endDate.setUTCDate(endDate.getUTCDate() - 1);
+
+    return {
+        startDate: startDate,
+        endDate: endDate,
+        rentalPrice: Math.round((lease.rentalPrice ?? 0) * (100 + rentIncrease)) / 100,
+        paymentFrequency: lease.paymentFrequency ?? "MONTHLY",
+    };
+}
+
+// Drafts offers for active leases that end within the notice period of their organization.
+// Leases that already had an offer or were renewed are skipped, so running it again creates nothing new
+export async function createRenewalOffers(now = new Date()) {
+    const leases = await prisma.lease.findMany({
+        where: {
+            status: "ACTIVE",
+            endDate: {
+                gte: now,
+                lte: new Date(now.getTime() + MAX_NOTICE_DAYS * DAY)
+            },
+            nextLease: {
+                is: null
+            },
+            renewalOffers: {
+                none: {}
+            }
+        },
+        include: {
+            realtor: {
+                include: {
+                    organization: true
+                }
+            }
+        }
+    });
+
+    const dueLeases = leases.filter((lease) => {
+        const noticeDays = lease.realtor.organization?.renewalNoticeDays ?? DEFAULT_NOTICE_DAYS;
+
+        return lease.endDate.getTime() - now.getTime() <= noticeDays * DAY;
+    });
+
+    const offers = await prisma.leaseRenewalOffer.createMany({
+        data: dueLeases.map((lease) => ({
+            leaseId: lease.id,
+            ...proposeRenewal(lease, lease.realtor.organization?.renewalRentIncrease ?? 0),
+        }))
+    });
+
+    return offers.count;
+}
+
+// Open offers of leases that have ended can no longer be accepted
+export async function lapseRenewalOffers(now = new Date()) {
+    const offers = await prisma.leaseRenewalOffer.updateMany({
+        where: {
+            status: {
+                in: OPEN_OFFER_STATUSES
+            },
+            lease: {
+                endDate: {
+                    lt: now
+                }
+            }
+        },
+        data: {
+            status: "LAPSED"
+        }
+    });
+
+    return offers.count;
+}
+
+// Records the answer to an offer that is in one of the given statuses, false if it was answered in the meantime
+export async function declineRenewalOffer(offer, fromStatuses = OPEN_OFFER_STATUSES) {
+    const declined = await prisma.leaseRenewalOffer.updateMany({
+        where: {
+            id: offer.id,
+            status: {
+                in: fromStatuses
+            }
+        },
+        data: {
+            status: "DECLINED",
+            respondedAt: new Date()
+        }
+    });
+
+    return declined.count > 0;
+}
+
+// Leases that keep the offer from being accepted: other leases of the unit that overlap the new term (the renewed lease
+// may overlap it, the successor continues it) and a successor the renewed lease already has
+export async function findRenewalConflicts(offer) {
+    const lease = await prisma.lease.findUnique({
+        where: {
+            id: offer.leaseId
+        },
+        include: {
+            nextLease: {
+                include: {
+                    tenant: true
+                }
+            }
+        }
+    });
+
+    const overlappingLeases = await findOverlappingLeases({
+        unitId: lease.unitId,
+        startDate: offer.startDate,
+        endDate: offer.endDate
+    }, [lease.id]);
+
+    if (lease.nextLease && !overlappingLeases.some((other) => other.id === lease.nextLease.id)) {
+        return [...overlappingLeases, lease.nextLease];
+    }
+
+    return overlappingLeases;
+}
+
+// Accepts the offer and creates the successor lease with its payment schedule. The lease starts as PENDING,
+// the rest of the terms are taken over from the current lease. Returns null if the offer was answered in the meantime
+export async function acceptRenewalOffer(offer, fromStatuses = OPEN_OFFER_STATUSES) {
+    // Claiming the offer and creating the successor in one transaction makes sure exactly one successor is created,
+    // an offer whose successor could not be created stays open
+    return prisma.$transaction(async (tx) => {
+        const accepted = await tx.leaseRenewalOffer.updateMany({
+            where: {
+                id: offer.id,
+                status: {
+                    in: fromStatuses
+                }
+            },
+            data: {
+                status: "ACCEPTED",
+                respondedAt: new Date()
+            }
+        });
+
+        if (!accepted.count) {
+            return null;
+        }
+
+        const lease = await tx.lease.findUnique({
+            where: {
+                id: offer.leaseId
+            },
+            include: {
+                parties: true
+            }
+        });
+
+        return createLeaseWithPaymentSchedule({
+            startDate: offer.startDate,
+            endDate: offer.endDate,
+            rentalPrice: offer.rentalPrice,
+            paymentFrequency: offer.paymentFrequency,
+            prorationMethod: lease.prorationMethod,
+            billingDay: lease.billingDay,
+            escalationType: lease.escalationType,
+            escalationValue: lease.escalationValue,
+            priceIndexId: lease.priceIndexId,
+            status: "PENDING",
+            currency: lease.currency,
+            specialTerms: lease.specialTerms,
+            notes: offer.notes,
+            tenantId: lease.tenantId,
+            // The parties of the lease continue the renewed lease
+            parties: lease.parties,
+            unitId: lease.unitId,
+            previousLease: {
+                connect: {
+                    id: lease.id
+                }
+            }
+        }, lease.realtorId, tx);
+    });
+}
@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import prisma from "../prisma.js";
+import {hashToken} from "./tokenService.js";
+
+// A session is a login on one device. Its refresh token is rotated on every refresh, all tokens of a session
+// share the same family. Only hashes of refresh tokens are stored
+
+
+// Signs a new access and refresh token for the session and stores the refresh token
+async function issueTokens(user, family, client) {
+    const payload = { userId: user.id, email: user.email, role: user.role, sessionId: family };
+
+    // eslint-disable-next-line no-undef
+    const accessToken = jwt.sign(payload, process.env.SECRET_KEY, { expiresIn: process.env.ACCESS_TOKEN_EXPIRES_IN });
+    // The jwtid keeps two refresh tokens signed within the same second apart
+    // eslint-disable-next-line no-undef
+    const refreshToken = jwt.sign(payload, process.env.REFRESH_TOKEN_SECRET, { expiresIn: process.env.REFRESH_TOKEN_EXPIRES_IN, jwtid: crypto.randomUUID() });
+
+    await prisma.token.create({
+        data: {
+            type: "REFRESH",
+            tokenHash: hashToken(refreshToken),
+            family: family,
+            expiration: new Date(jwt.decode(refreshToken).exp * 1000),
+            userAgent: client?.userAgent,
+            ipAddress: client?.ipAddress,
+            userId: user.id
+        }
+    });
+
+    return { accessToken, refreshToken };
+}
+
+export function getClientInfo(req) {
+    return {
+        userAgent: req.headers['user-agent'],
+        ipAddress: req.ip
+    }
+}
+
+export async function createSession(user, client) {
+    return issueTokens(user, crypto.randomUUID(), client);
+}
+
+// Exchanges a refresh token for a new token pair, returns null if the token is not (or no longer) valid.
+// A token that was already rotated is being reused, either by an attacker or by the owner after it was stolen,
+// so the whole session is revoked
+export async function rotateSession(refreshToken, client) {
+    try {
+        // eslint-disable-next-line no-undef
+        jwt.verify(refreshToken, process.env.REFRESH_TOKEN_SECRET);
+    }
+    catch (error) {
+        return null;
+    }
+
+    const storedToken = await prisma.token.findUnique({
+        where: {
+            tokenHash: hashToken(refreshToken)
+        },
+        include: {
+            user: true
+        }
+    });
+
+    if (!storedToken || storedToken.type !== "REFRESH" || !storedToken.user) {
+        return null;
+    }
+
+    // Only one request can use up the token, a concurrent second one counts as reuse
+    const consumed = await prisma.token.updateMany({
+        where: {
+            id: storedToken.id,
+            valid: true
+        },
+        data: {
+            valid: false
+        }
+    });
+
+    if (consumed.count !== 1) {
+        console.log(`Refresh token reuse detected, revoking session ${storedToken.family} of user ${storedToken.userId}`);
+        await revokeSession(storedToken.userId, storedToken.family);
+        return null;
+    }
+
+    return issueTokens(storedToken.user, storedToken.family, client);
+}
+
+export async function revokeSession(userId, family) {
+    const result = await prisma.token.updateMany({
+        where: {
+            userId: userId,
+            type: "REFRESH",
+            family: family,
+            valid: true
+        },
+        data: {
+            valid: false
+        }
+    });
+
+    return result.count;
+}
+
+// Revokes the session a refresh token belongs to, used when logging out
+export async function revokeSessionOfToken(refreshToken) {
+    const storedToken = await prisma.token.findUnique({
+        where: {
+            tokenHash: hashToken(refreshToken)
+        }
+    });
+
+    if (!storedToken || storedToken.type !== "REFRESH") {
+        return 0;
+    }
+
+    return revokeSession(storedToken.userId, storedToken.family);
+}
+
+export async function revokeAllSessions(userId) {
+    const result = await prisma.token.updateMany({
+        where: {
+            userId: userId,
+            type: "REFRESH",
+            valid: true
+        },
+        data: {
+            valid: false
+        }
+    });
+
+    return result.count;
+}
+
+// Revokes all sessions except the current one, e.g. after enabling two-factor authentication
+export async function revokeOtherSessions(userId, family) {
+    const result = await prisma.token.updateMany({
+        where: {
+            userId: userId,
+            type: "REFRESH",
+            family: {
+                not: family
+            },
+            valid: true
+        },
+        data: {
+            valid: false
+        }
+    });
+
+    return result.count;
+}
+
+// Active sessions of a user, each session only has one valid refresh token at a time
+export async function getActiveSessions(userId) {
+    const tokens = await prisma.token.findMany({
+        where: {
+            userId: userId,
+            type: "REFRESH",
+            valid: true,
+            expiration: {
+                gt: new Date()
+            }
+        },
+        orderBy: {
+            createdAt: "desc"
+        }
+    });
+
+    // The first token of a family was issued at login
+    const logins = await prisma.token.groupBy({
+        by: ["family"],
+        where: {
+            userId: userId,
+            type: "REFRESH",
+            family: {
+                in: tokens.map((token) => token.family)
+            }
+        },
+        _min: {
+            createdAt: true
+        }
+    });
+
+    return tokens.map((token) => ({
+        id: token.family,
+        userAgent: token.userAgent,
+        ipAddress: token.ipAddress,
+        createdAt: logins.find((login) => login.family === token.family)?._min.createdAt ?? token.createdAt,
+        lastActiveAt: token.createdAt,
+        expiresAt: token.expiration
+    }));
+}
@@ -0,0 +1,358 @@
+import prisma from "../prisma.js";
+import {chargePosting, paymentPosting} from "./ledgerService.js";
+import {isPrintable, renderPdf} from "./pdfService.js";
+import {storeDocument} from "./documentService.js";
+import {roundCents} from "../../shared/money.js";
+
+// Rent receipts of payments and account statements of leases and tenants as PDF. Statements list the charges and
+// paid payments of a period with the running balance, the same amounts the ledger posts to the rent receivable of the
+// lease, so a statement balance is what the ledger shows for the lease. Amounts are in the currency of the lease
+
+const CHARGE_LABELS = {
+    RENT: "Rent",
+    LATE_FEE: "Late fee",
+    BREAK_FEE: "Break fee",
+};
+
+const PDF_MIME_TYPE = "application/pdf";
+
+// Currencies whose symbol is no WinAnsi character are printed with their code
+function moneyFormatter(currency) {
+    const code = currency ?? "USD";
+
+    return (amount) => {
+        const formatted = amount.toLocaleString("en-US", { style: "currency", currency: code });
+        return isPrintable(formatted) ? formatted : amount.toLocaleString("en-US", { style: "currency", currency: code, currencyDisplay: "code" });
+    };
+}
+
+function formatDate(date) {
+    return date ? new Date(date).toLocaleDateString("en-US", { dateStyle: "medium", timeZone: "UTC" }) : "-";
+}
+
+function fileDate(date) {
+    return new Date(date).toISOString().slice(0, 10);
+}
+
+function personName(person) {
+    return [person?.firstName, person?.lastName].filter(Boolean).join(" ");
+}
+
+// Company and contact of the realtor the document is issued by
+function realtorBlocks(realtorUser) {
+    const name = personName(realtorUser);
+    const lines = [
+        realtorUser?.company,
+        name,
+        realtorUser?.street,
+        [realtorUser?.zip, realtorUser?.city, realtorUser?.state].filter(Boolean).join(" "),
+        [realtorUser?.email, realtorUser?.phone].filter(Boolean).join(" | "),
+        realtorUser?.website,
+    ].filter(Boolean);
+
+    return [{ text: lines.join("\n") }, { space: 10 }];
+}
+
+function leaseLabel(lease) {
+    const property = lease.unit?.realEstateObject?.title;
+    const unit = lease.unit?.unitIdentifier;
+
+    return [property, unit].filter(Boolean).join(", ") || `Lease #${lease.id}`;
+}
+
+const realtorUserSelect = {
+    firstName: true,
+    lastName: true,
+    email: true,
+    phone: true,
+    company: true,
+    website: true,
+    street: true,
+    city: true,
+    state: true,
+    zip: true
+};
+
+const leaseInclude = {
+    tenant: true,
+    unit: {
+        include: {
+            realEstateObject: {
+                select: {
+                    title: true
+                }
+            }
+        }
+    },
+    realtor: {
+        include: {
+            User: {
+                select: realtorUserSelect
+            }
+        }
+    }
+};
+
+const statementLeaseInclude = {
+    ...leaseInclude,
+    paymentSchedule: {
+        include: {
+            allocations: true
+        }
+    },
+    rentPayments: {
+        where: {
+            status: "PAID"
+        }
+    }
+};
+
+// Charges and payments of the lease up to the end of the period. Everything before the start is summed up in the
+// opening balance. Charges come before payments of the same day
+export function buildLeaseStatement(lease, {from, to}) {
+    const items = [
+        ...lease.paymentSchedule.map((schedule) => {
+            const posting = chargePosting(schedule, to);
+
+            return posting && {
+                date: posting.date,
+                description: `${CHARGE_LABELS[schedule.chargeType] ?? "Charge"}${schedule.status === "WAIVED" ? " (waived, paid part)" : ""}`,
+                charge: posting.entries[0].debit,
+                payment: 0,
+                order: 0
+            };
+        }),
+        ...lease.rentPayments.map((payment) => {
+            const posting = paymentPosting(payment);
+
+            return posting && posting.date <= to && {
+                date: posting.date,
+                description: `Payment${payment.paymentMethod ? ` (${payment.paymentMethod})` : ""}`,
+                charge: 0,
+                payment: posting.entries[0].debit,
+                order: 1
+            };
+        }),
+    ].filter(Boolean).sort((a, b) => a.date - b.date || a.order - b.order);
+
+    const earlier = items.filter((item) => item.date < from);
+    const openingBalance = roundCents(earlier.reduce((total, item) => total + item.charge - item.payment, 0));
+
+    let balance = openingBalance;
+    const rows = items.filter((item) => item.date >= from).map((item) => {
+        balance = roundCents(balance + item.charge - item.payment);
+        return { ...item, balance: balance };
+    });
+
+    return {
+        openingBalance: openingBalance,
+        rows: rows,
+        totalCharges: roundCents(rows.reduce((total, item) => total + item.charge, 0)),
+        totalPayments: roundCents(rows.reduce((total, item) => total + item.payment, 0)),
+        closingBalance: balance
+    };
+}
+
+function statementTableBlocks(lease, period) {
+    const formatMoney = moneyFormatter(lease.currency);
+    const statement = buildLeaseStatement(lease, period);
+
+    return [
+        { heading: `${leaseLabel(lease)} (${lease.currency ?? "USD"})` },
+        { small: `Lease from ${formatDate(lease.startDate)}${lease.endDate ? ` to ${formatDate(lease.endDate)}` : ""}` },
+        {
+            table: {
+                columns: [
+                    { header: "Date", width: 1.2 },
+                    { header: "Description", width: 2.6 },
+                    { header: "Charges", width: 1.4, align: "right" },
+                    { header: "Payments", width: 1.4, align: "right" },
+                    { header: "Balance", width: 1.4, align: "right" },
+                ],
+                rows: [
+                    [formatDate(period.from), "Opening balance", "", "", formatMoney(statement.openingBalance)],
+                    ...statement.rows.map((row) => [
+                        formatDate(row.date),
+                        row.description,
+                        row.charge ? formatMoney(row.charge) : "",
+                        row.payment ? formatMoney(row.payment) : "",
+                        formatMoney(row.balance),
+                    ]),
+                    {
+                        cells: [formatDate(period.to), "Closing balance", formatMoney(statement.totalCharges), formatMoney(statement.totalPayments), formatMoney(statement.closingBalance)],
+                        bold: true
+                    },
+                ]
+            }
+        },
+        {
+            small: statement.closingBalance > 0 ? `Amount owed: ${formatMoney(statement.closingBalance)}` :
+                statement.closingBalance < 0 ? `Credit of the tenant: ${formatMoney(-statement.closingBalance)}` :
+                    "The account is settled."
+        },
+    ];
+}
+
+// The period defaults to the start of the earliest lease until today
+function statementPeriod(leases, {from, to}, now) {
+    const end = new Date(to ?? now);
+    const start = from ? new Date(from) :
+        new Date(Math.min(...leases.map((lease) => new Date(lease.startDate ?? lease.createdAt).getTime())));
+
+    // The end date is included as a whole day
+    end.setUTCHours(23, 59, 59, 999);
+
+    return { from: start, to: end };
+}
+
+function statementPdf(title, recipient, leases, period, now) {
+    const blocks = [
+        ...realtorBlocks(leases[0]?.realtor?.User),
+        { title: title },
+        { text: `${recipient}\nPeriod: ${formatDate(period.from)} to ${formatDate(period.to)}` },
+        ...leases.flatMap((lease) => statementTableBlocks(lease, period)),
+        { space: 16 },
+        { small: `Issued on ${formatDate(now)}. Payments are listed once they were received.` },
+    ];
+
+    return renderPdf(blocks, { title: title });
+}
+
+// Returns {fileName, content, lease} or null if the payment does not exist
+export async function getPaymentReceipt(paymentId, now = new Date()) {
+    const payment = await prisma.rentPayment.findUnique({
+        where: {
+            id: paymentId
+        },
+        include: {
+            tenant: true,
+            lease: {
+                include: leaseInclude
+            },
+            allocations: {
+                include: {
+                    schedule: true
+                }
+            }
+        }
+    });
+
+    if (!payment) {
+        return null;
+    }
+
+    const lease = payment.lease;
+    const formatMoney = moneyFormatter(lease?.currency ?? payment.currency);
+    const allocations = [...payment.allocations].sort((a, b) => new Date(a.schedule.dueDate) - new Date(b.schedule.dueDate));
+    const credit = roundCents(payment.unallocatedAmount ?? 0);
+
+    const blocks = [
+        ...realtorBlocks(lease?.realtor?.User),
+        { title: "Rent Receipt" },
+        {
+            text: [
+                `Receipt no. ${payment.id}`,
+                `Date of payment: ${formatDate(payment.date ?? payment.createdAt)}`,
+                `Received from: ${personName(payment.tenant ?? lease?.tenant) || "-"}`,
+                lease ? `Lease: ${leaseLabel(lease)}` : null,
+                payment.paymentMethod ? `Payment method: ${payment.paymentMethod}` : null,
+            ].filter(Boolean).join("\n")
+        },
+        {
+            table: {
+                columns: [
+                    { header: "Charge", width: 3 },
+                    { header: "Due date", width: 1.5 },
+                    { header: "Amount", width: 1.5, align: "right" },
+                ],
+                rows: [
+                    ...allocations.map((allocation) => [
+                        CHARGE_LABELS[allocation.schedule.chargeType] ?? "Charge",
+                        formatDate(allocation.schedule.dueDate),
+                        formatMoney(allocation.amount),
+                    ]),
+                    ...(credit > 0 || !allocations.length ? [["Credit for future charges", "", formatMoney(credit || payment.amount || 0)]] : []),
+                    { cells: ["Total received", "", formatMoney(payment.amount ?? 0)], bold: true },
+                ]
+            }
+        },
+        ...(payment.notes ? [{ space: 6 }, { small: `Notes: ${payment.notes}` }] : []),
+        { space: 16 },
+        { small: `Issued on ${formatDate(now)}. This receipt confirms the payment above was received.` },
+    ];
+
+    return {
+        fileName: `rent-receipt-${payment.id}.pdf`,
+        content: renderPdf(blocks, { title: `Rent Receipt ${payment.id}` }),
+        lease: lease
+    };
+}
+
+// Returns {fileName, content, lease} or null if the lease does not exist
+export async function getLeaseStatement(leaseId, period = {}, now = new Date()) {
+    const lease = await prisma.lease.findUnique({
+        where: {
+            id: leaseId
+        },
+        include: statementLeaseInclude
+    });
+
+    if (!lease) {
+        return null;
+    }
+
+    const statementRange = statementPeriod([lease], period, now);
+
+    return {
+        fileName: `statement-lease-${lease.id}-${fileDate(statementRange.to)}.pdf`,
+        content: statementPdf("Account Statement", `Tenant: ${personName(lease.tenant) || "-"}`, [lease], statementRange, now),
+        lease: lease
+    };
+}
+
+// One section per lease of the tenant (as primary tenant or party) within the given lease scope, e.g. the leases of
+// one realtor. Returns {fileName, content, leases} or null if the tenant has no such leases
+export async function getTenantStatement(tenant, leaseScope, period = {}, now = new Date()) {
+    const leases = await prisma.lease.findMany({
+        where: {
+            AND: [
+                leaseScope,
+                {
+                    OR: [
+                        { tenantId: tenant.id },
+                        { parties: { some: { tenantId: tenant.id } } }
+                    ]
+                }
+            ]
+        },
+        include: statementLeaseInclude,
+        orderBy: {
+            startDate: "asc"
+        }
+    });
+
+    if (!leases.length) {
+        return null;
+    }
+
+    const statementRange = statementPeriod(leases, period, now);
+
+    return {
+        fileName: `statement-tenant-${tenant.id}-${fileDate(statementRange.to)}.pdf`,
+        content: statementPdf("Account Statement", `Tenant: ${personName(tenant) || "-"}`, leases, statementRange, now),
+        leases: leases
+    };
+}
+
+// Stores the PDF as a document of the lease, tenants can download it from their portal
+export async function attachPdf({fileName, content}, documentType, lease, userId) {
+    return storeDocument({
+        documentType: documentType,
+        name: fileName,
+        mimeType: PDF_MIME_TYPE,
+        content: content,
+        userId: userId,
+        leaseId: lease?.id ?? null,
+        unitId: lease?.unitId ?? null
+    });
+}
@@ -0,0 +1,102 @@
+import {beforeEach, describe, expect, test, vi} from "vitest";
+import {fakePrisma} from "../test/fakePrisma.js";
+import {buildLeaseStatement, getLeaseStatement} from "./statementService.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+function charge(id, dueDate, amountDue, data = {}) {
+    return { id: id, chargeType: "RENT", status: "SCHEDULED", dueDate: new Date(dueDate), amountDue: amountDue, allocations: [], ...data };
+}
+
+function payment(id, date, amount, data = {}) {
+    return { id: id, status: "PAID", date: new Date(date), amount: amount, paymentMethod: null, ...data };
+}
+
+// Rent of 1000 from January to April, a late fee in February that was waived after 20 of it were paid
+function statementLease() {
+    return {
+        id: 1,
+        currency: "USD",
+        startDate: new Date("2024-01-01"),
+        endDate: new Date("2024-12-31"),
+        paymentSchedule: [
+            charge(1, "2024-01-01", 1000, { status: "PAID" }),
+            charge(2, "2024-02-01", 1000, { status: "PARTIALLY_PAID" }),
+            charge(3, "2024-02-10", 50, { chargeType: "LATE_FEE", status: "WAIVED", allocations: [{ amount: 20 }] }),
+            charge(4, "2024-02-20", 30, { chargeType: "LATE_FEE", status: "WAIVED" }),
+            charge(5, "2024-03-01", 1000),
+            charge(6, "2024-04-01", 1000),
+        ],
+        rentPayments: [
+            payment(1, "2024-01-03", 800),
+            payment(2, "2024-02-05", 500, { paymentMethod: "BANK_TRANSFER" }),
+            payment(3, "2024-03-01", 300),
+            payment(4, "2024-03-02", 100, { status: "REPORTED" }),
+        ]
+    };
+}
+
+const PERIOD = { from: new Date("2024-02-01"), to: new Date("2024-03-31T23:59:59.999Z") };
+
+describe("lease statements", () => {
+    test("everything before the period is summed up in the opening balance", () => {
+        expect(buildLeaseStatement(statementLease(), PERIOD).openingBalance).toBe(200);
+    });
+
+    test("every row shows the running balance, charges come before payments of the same day", () => {
+        const statement = buildLeaseStatement(statementLease(), PERIOD);
+
+        expect(statement.rows.map((row) => [row.date.toISOString().slice(0, 10), row.charge, row.payment, row.balance])).toEqual([
+            ["2024-02-01", 1000, 0, 1200],
+            ["2024-02-05", 0, 500, 700],
+            ["2024-02-10", 20, 0, 720],
+            ["2024-03-01", 1000, 0, 1720],
+            ["2024-03-01", 0, 300, 1420],
+        ]);
+        expect(statement).toMatchObject({ totalCharges: 2020, totalPayments: 800, closingBalance: 1420 });
+    });
+
+    test("waived charges only show the part that was paid", () => {
+        const rows = buildLeaseStatement(statementLease(), PERIOD).rows;
+
+        expect(rows.find((row) => row.description.startsWith("Late fee"))).toMatchObject({ description: "Late fee (waived, paid part)", charge: 20 });
+        expect(rows.some((row) => row.charge === 30)).toBe(false);
+    });
+
+    test("charges due and payments received after the period are left out", () => {
+        const statement = buildLeaseStatement(statementLease(), { from: new Date("2024-01-01"), to: new Date("2024-01-31T23:59:59.999Z") });
+
+        expect(statement.rows).toHaveLength(2);
+        expect(statement.closingBalance).toBe(200);
+    });
+});
+
+describe("getLeaseStatement", () => {
+    beforeEach(() => {
+        fakePrisma.reset();
+
+        fakePrisma.records("lease").push({
+            ...statementLease(),
+            tenant: { id: 1, firstName: "Ada", lastName: "Lovelace" },
+            unit: { unitIdentifier: "2B", realEstateObject: { title: "Elm Street 5" } },
+            realtor: { User: { firstName: "Grace", lastName: "Hopper", company: "Hopper Homes" } }
+        });
+    });
+
+    test("renders the statement of the lease as a PDF", async () => {
+        const statement = await getLeaseStatement(1, { from: "2024-02-01", to: "2024-03-31" }, new Date("2024-04-02T10:00:00Z"));
+
+        expect(statement.fileName).toBe("statement-lease-1-2024-03-31.pdf");
+        expect(statement.lease.id).toBe(1);
+
+        const content = statement.content.toString("latin1");
+        expect(content.startsWith("%PDF")).toBe(true);
+        expect(content).toContain("Period: Feb 1, 2024 to Mar 31, 2024");
+        expect(content).toContain("Elm Street 5, 2B");
+        expect(content).toContain("Amount owed: $1,420.00");
+    });
+
+    test("returns null for leases that do not exist", async () => {
+        expect(await getLeaseStatement(2)).toBeNull();
+    });
+});
@@ -0,0 +1,318 @@
+import prisma from "../prisma.js";
+import {getRentAt, getRentTimeline} from "../../shared/escalation.js";
+import {getAllocatedAmount} from "../../shared/allocation.js";
+import {calculatePaymentSchedule, hasPaymentSchedule, loadPriceIndex} from "./leaseService.js";
+import {storeDocument} from "./documentService.js";
+import {escapeHtml} from "../util/escapeHtml.js";
+import {syncUnitWithLeases} from "./leaseStatusService.js";
+import {recordLateFeeWaivers} from "./lateFeeService.js";
+import {reconcileAllocations} from "./allocationService.js";
+import {syncLeaseLedger} from "./ledgerService.js";
+import {DAY, startOfDay} from "../../shared/dates.js";
+import {roundCents} from "../../shared/money.js";
+
+// Early termination of leases. The lease ends on the effective date: the rent of the period the date falls into is
+// prorated like the last period of any lease, charges that are due later are cancelled (removed from the
+// schedule) or waived and the break fee is charged on the effective date. What was paid for the cancelled or waived
+// charges and beyond the prorated rent is released to the credit of the tenant, which pays the break fee first.
+// The termination notice is stored as a document of the lease. A termination that takes effect later only shortens the lease, the status job terminates
+// it once its end date has passed and releases the unit then
+
+// Charges that are waived already owe nothing, the termination leaves them as they are
+function isCharged(schedule) {
+    return schedule.status !== "WAIVED";
+}
+
+// A fixed amount or a number of periods of the rent that applies on the effective date
+export function calculateBreakFee(lease, breakFeeType, breakFeeValue, effectiveDate) {
+    if (breakFeeType === "FIXED") {
+        return roundCents(breakFeeValue ?? 0);
+    }
+    if (breakFeeType === "RENT_PERIODS") {
+        const rentTimeline = getRentTimeline(lease);
+        const rentalPrice = rentTimeline.length ? getRentAt(rentTimeline, effectiveDate) : lease.rentalPrice;
+
+        return roundCents((rentalPrice ?? 0) * (breakFeeValue ?? 0));
+    }
+
+    return 0;
+}
+
+// Changes of the payment schedule (all charges of the lease with their allocations) when the lease ends on the
+// effective date. Returns the rent of the last period with its prorated amount (null if it is not changed), the
+// charges that are due after the effective date, including the late fees of that rent, the amount paid for them and
+// beyond the prorated rent that is released to credit, and the break fee
+export function calculateTermination(lease, schedules, {effectiveDate, breakFeeType, breakFeeValue}) {
+    const endDate = new Date(effectiveDate);
+    const charges = schedules.filter(isCharged);
+
+    const periods = hasPaymentSchedule(lease) ? calculatePaymentSchedule({...lease, endDate: endDate}) : [];
+    const lastPeriod = periods[periods.length - 1];
+    const lastRent = lastPeriod && charges.find((schedule) => schedule.chargeType === "RENT" &&
+        new Date(schedule.dueDate).getTime() === lastPeriod.dueDate.getTime());
+
+    const futureRent = charges.filter((schedule) => schedule.chargeType === "RENT" && new Date(schedule.dueDate) > endDate);
+    const futureRentIds = new Set(futureRent.map((schedule) => schedule.id));
+    const futureCharges = charges.filter((schedule) => new Date(schedule.dueDate) > endDate ||
+        futureRentIds.has(schedule.lateFeeForId));
+
+    const finalRentExcess = lastRent ? Math.max(0, getAllocatedAmount(lastRent) - lastPeriod.amountDue) : 0;
+    const releasedAmount = roundCents(futureCharges.reduce((total, schedule) => total + getAllocatedAmount(schedule), finalRentExcess));
+
+    return {
+        effectiveDate: endDate,
+        finalRent: lastRent && lastRent.amountDue !== lastPeriod.amountDue ?
+            { ...lastRent, amountDue: lastPeriod.amountDue, previousAmountDue: lastRent.amountDue } : null,
+        finalRentAmount: lastRent ? lastPeriod.amountDue : null,
+        futureCharges: futureCharges,
+        futureChargesTotal: roundCents(futureCharges.reduce((total, schedule) => total + (schedule.amountDue ?? 0), 0)),
+        releasedAmount: releasedAmount,
+        breakFeeAmount: calculateBreakFee(lease, breakFeeType, breakFeeValue, endDate),
+    };
+}
+
+// Whether the termination takes effect right away, i.e. the effective date is today or has passed
+export function takesEffect(effectiveDate, now = new Date()) {
+    return new Date(effectiveDate) < new Date(startOfDay(now).getTime() + DAY);
+}
+
+function terminationNoticeHtml(lease, termination, {reason, futureCharges}, realtorUser) {
+    const currency = lease.currency ?? "USD";
+    const formatMoney = (amount) => amount.toLocaleString("en-US", { style: "currency", currency: currency });
+    const formatDate = (date) => date ? new Date(date).toLocaleDateString("en-US", { dateStyle: "long", timeZone: "UTC" }) : "-";
+
+    const realtorName = [realtorUser?.firstName, realtorUser?.lastName].filter(Boolean).join(" ") || realtorUser?.email;
+    const tenants = lease.parties?.length ? lease.parties.map((party) => party.tenant) : [lease.tenant];
+    const tenantNames = tenants.filter(Boolean).map((tenant) => [tenant.firstName, tenant.lastName].filter(Boolean).join(" "));
+
+    const futureChargesText = futureCharges === "WAIVE" ? "waived" : "cancelled";
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Lease Termination Notice</title>
+</head>
+<body style="font-family: sans-serif">
+    <h1>Lease Termination Notice</h1>
+    <p>
+        ${escapeHtml(realtorName)}<br/>
+        ${escapeHtml(realtorUser?.email)}${realtorUser?.phone ? `<br/>${escapeHtml(realtorUser.phone)}` : ""}
+    </p>
+    <p>
+        Tenant: ${escapeHtml(tenantNames.join(", "))}<br/>
+        Unit: ${escapeHtml(lease.unit?.unitIdentifier ?? "-")}<br/>
+        Lease: ${formatDate(lease.startDate)} to ${formatDate(lease.endDate)}
+    </p>
+    <p>The lease is terminated effective ${formatDate(termination.effectiveDate)}.</p>
+    <p>Reason: ${escapeHtml(reason)}</p>
+    <table style="border-collapse: collapse; min-width: 400px">
+        <tr>
+            <td>Rent of the last period</td>
+            <td style="text-align: right">${termination.finalRentAmount === null ? "-" : formatMoney(termination.finalRentAmount)}</td>
+        </tr>
+        <tr>
+            <td>Break fee (due ${formatDate(termination.effectiveDate)})</td>
+            <td style="text-align: right">${formatMoney(termination.breakFeeAmount)}</td>
+        </tr>
+        <tr>
+            <td>Later charges (${termination.futureCharges.length}), ${futureChargesText}</td>
+            <td style="text-align: right">${formatMoney(termination.futureChargesTotal)}</td>
+        </tr>
+        <tr>
+            <td>Paid in advance, credited to the tenant</td>
+            <td style="text-align: right">${formatMoney(termination.releasedAmount)}</td>
+        </tr>
+    </table>
+    <p>Issued on ${formatDate(new Date())}</p>
+</body>
+</html>
+`;
+}
+
+// Lease with everything the termination and its notice need
+async function loadLease(leaseId) {
+    const lease = await prisma.lease.findUnique({
+        where: {
+            id: leaseId
+        },
+        include: {
+            tenant: true,
+            parties: {
+                include: {
+                    tenant: true
+                }
+            },
+            unit: true,
+            paymentSchedule: {
+                include: {
+                    allocations: true
+                },
+                orderBy: {
+                    dueDate: "asc"
+                }
+            }
+        }
+    });
+
+    return loadPriceIndex(lease);
+}
+
+// Termination of the lease with the given terms, without changing anything
+export async function previewTermination(leaseId, terms, now = new Date()) {
+    const lease = await loadLease(leaseId);
+    const termination = calculateTermination(lease, lease.paymentSchedule, terms);
+
+    return { ...termination, takesEffect: takesEffect(termination.effectiveDate, now) };
+}
+
+// Terminates the lease on the effective date, changes its payment schedule and stores the notice.
+// Returns null if the lease was terminated or changed its status in the meantime
+export async function terminateLease(leaseId, {effectiveDate, reason, breakFeeType, breakFeeValue, futureCharges}, userId, now = new Date()) {
+    const lease = await loadLease(leaseId);
+
+    const realtorUser = await prisma.user.findUnique({
+        where: {
+            id: userId
+        },
+        select: {
+            firstName: true,
+            lastName: true,
+            email: true,
+            phone: true
+        }
+    });
+
+    const termination = calculateTermination(lease, lease.paymentSchedule, {effectiveDate, breakFeeType, breakFeeValue});
+    const isEffective = takesEffect(termination.effectiveDate, now);
+
+    const leaseTermination = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.lease.updateMany({
+            where: {
+                id: lease.id,
+                status: lease.status,
+                termination: {
+                    is: null
+                }
+            },
+            data: {
+                endDate: termination.effectiveDate,
+                ...(isEffective ? { status: "TERMINATED" } : {})
+            }
+        });
+
+        if (!claimed.count) {
+            return null;
+        }
+
+        if (isEffective) {
+            await tx.leaseStatusTransition.create({
+                data: {
+                    leaseId: lease.id,
+                    fromStatus: lease.status,
+                    toStatus: "TERMINATED",
+                    reason: `Lease terminated: ${reason}`
+                }
+            });
+        }
+
+        const futureChargeIds = termination.futureCharges.map((schedule) => schedule.id);
+
+        // Payments of later charges become credit, waived charges keep no allocations either
+        if (futureChargeIds.length) {
+            await tx.paymentAllocation.deleteMany({
+                where: {
+                    scheduleId: {
+                        in: futureChargeIds
+                    }
+                }
+            });
+        }
+
+        if (futureChargeIds.length && futureCharges === "WAIVE") {
+            await tx.leasePaymentSchedule.updateMany({
+                where: {
+                    id: {
+                        in: futureChargeIds
+                    }
+                },
+                data: {
+                    status: "WAIVED"
+                }
+            });
+        }
+        else if (futureChargeIds.length) {
+            await tx.leasePaymentSchedule.deleteMany({
+                where: {
+                    id: {
+                        in: futureChargeIds
+                    }
+                }
+            });
+        }
+
+        if (termination.finalRent) {
+            await tx.leasePaymentSchedule.update({
+                where: {
+                    id: termination.finalRent.id
+                },
+                data: {
+                    amountDue: termination.finalRent.amountDue
+                }
+            });
+        }
+
+        if (termination.breakFeeAmount > 0) {
+            await tx.leasePaymentSchedule.create({
+                data: {
+                    dueDate: termination.effectiveDate,
+                    amountDue: termination.breakFeeAmount,
+                    chargeType: "BREAK_FEE",
+                    leaseId: lease.id
+                }
+            });
+        }
+
+        const notice = await storeDocument({
+            documentType: "NOTICE",
+            name: `termination-notice-lease-${lease.id}.html`,
+            mimeType: "text/html",
+            content: terminationNoticeHtml(lease, termination, {reason, futureCharges}, realtorUser),
+            userId: userId,
+            leaseId: lease.id,
+            unitId: lease.unitId
+        }, tx);
+
+        if (isEffective && lease.unitId) {
+            await syncUnitWithLeases(lease.unitId, tx);
+        }
+
+        // Releases what was paid beyond the prorated rent, the credit of the tenant pays the break fee
+        await reconcileAllocations(lease.id, tx, now);
+        await syncLeaseLedger(lease.id, tx, now);
+
+        return tx.leaseTermination.create({
+            data: {
+                effectiveDate: termination.effectiveDate,
+                reason: reason,
+                breakFeeType: breakFeeType,
+                breakFeeValue: breakFeeType === "NONE" ? null : breakFeeValue,
+                breakFeeAmount: termination.breakFeeAmount,
+                finalRentAmount: termination.finalRentAmount,
+                futureCharges: futureCharges,
+                leaseId: lease.id,
+                noticeId: notice.id,
+                userId: userId
+            },
+            include: {
+                notice: true
+            }
+        });
+    });
+
+    if (leaseTermination && futureCharges === "WAIVE") {
+        await recordLateFeeWaivers(termination.futureCharges.map((schedule) => ({ ...schedule, status: "WAIVED" })), userId);
+    }
+
+    return leaseTermination;
+}
@@ -0,0 +1,115 @@
+import {describe, expect, test, vi} from "vitest";
+import {calculateBreakFee, calculateTermination, takesEffect} from "./terminationService.js";
+
+vi.mock("../prisma.js", async () => ({ default: (await import("../test/fakePrisma.js")).fakePrisma }));
+
+// An active lease of 2024 with a monthly rent of 1000
+function termLease(data = {}) {
+    return {
+        id: 1,
+        status: "ACTIVE",
+        startDate: new Date("2024-01-01"),
+        endDate: new Date("2024-12-31"),
+        rentalPrice: 1000,
+        paymentFrequency: "MONTHLY",
+        billingDay: null,
+        prorationMethod: "ACTUAL_365",
+        escalationType: null,
+        ...data
+    };
+}
+
+function charge(id, dueDate, amountDue, paid = 0, data = {}) {
+    return {
+        id: id,
+        chargeType: "RENT",
+        status: paid >= amountDue ? "PAID" : "SCHEDULED",
+        dueDate: new Date(dueDate),
+        amountDue: amountDue,
+        allocations: paid ? [{ amount: paid }] : [],
+        ...data
+    };
+}
+
+// The rent until July is paid, the late fee of the May rent as well and the one of the July rent in part
+function schedules() {
+    const rent = Array.from({ length: 12 }, (_, month) => {
+        const dueDate = new Date(Date.UTC(2024, month, 1));
+        return charge(month + 1, dueDate, 1000, month < 7 ? 1000 : 0);
+    });
+
+    return [
+        ...rent,
+        charge(20, "2024-05-10", 50, 50, { chargeType: "LATE_FEE", lateFeeForId: 5 }),
+        charge(21, "2024-07-10", 30, 10, { chargeType: "LATE_FEE", lateFeeForId: 7, status: "PARTIALLY_PAID" }),
+        charge(22, "2024-08-10", 30, 0, { chargeType: "LATE_FEE", lateFeeForId: 8, status: "WAIVED" }),
+    ];
+}
+
+describe("calculateTermination", () => {
+    test("the rent of the last period is prorated up to the effective date", () => {
+        const termination = calculateTermination(termLease(), schedules(), { effectiveDate: "2024-06-15", breakFeeType: "NONE" });
+
+        // 15 days of June
+        expect(termination.finalRent).toMatchObject({ id: 6, amountDue: 493.15, previousAmountDue: 1000 });
+        expect(termination.finalRentAmount).toBe(493.15);
+    });
+
+    test("the last period is prorated with the proration method of the lease", () => {
+        const termination = calculateTermination(termLease({ prorationMethod: "THIRTY_DAY" }), schedules(), { effectiveDate: "2024-06-15" });
+
+        expect(termination.finalRentAmount).toBe(500);
+    });
+
+    test("the rent of a period that ends on the effective date is not changed", () => {
+        const termination = calculateTermination(termLease(), schedules(), { effectiveDate: "2024-06-30" });
+
+        expect(termination.finalRent).toBeNull();
+        expect(termination.finalRentAmount).toBe(1000);
+    });
+
+    test("charges due after the effective date and the late fees of that rent are removed", () => {
+        const termination = calculateTermination(termLease(), schedules(), { effectiveDate: "2024-06-15" });
+
+        expect(termination.futureCharges.map((schedule) => schedule.id)).toEqual([7, 8, 9, 10, 11, 12, 21]);
+        expect(termination.futureChargesTotal).toBe(6030);
+    });
+
+    test("what was paid for later charges and beyond the prorated rent is released", () => {
+        const termination = calculateTermination(termLease(), schedules(), { effectiveDate: "2024-06-15" });
+
+        // The July rent, the paid part of its late fee and the June rent beyond 493.15
+        expect(termination.releasedAmount).toBe(1516.85);
+    });
+
+    test("leases without a payment schedule only get the break fee", () => {
+        const termination = calculateTermination(termLease({ status: "EXPIRED" }), schedules(),
+            { effectiveDate: "2024-06-15", breakFeeType: "FIXED", breakFeeValue: 500 });
+
+        expect(termination).toMatchObject({ finalRent: null, finalRentAmount: null, releasedAmount: 1010, breakFeeAmount: 500 });
+    });
+});
+
+describe("calculateBreakFee", () => {
+    test("a fixed break fee is charged as it is", () => {
+        expect(calculateBreakFee(termLease(), "FIXED", 750.555, new Date("2024-06-15"))).toBe(750.56);
+        expect(calculateBreakFee(termLease(), "NONE", 750, new Date("2024-06-15"))).toBe(0);
+    });
+
+    test("rent periods are charged with the rent that applies on the effective date", () => {
+        const lease = termLease({ startDate: new Date("2023-03-01"), endDate: new Date("2025-02-28"), escalationType: "FIXED", escalationValue: 100 });
+
+        expect(calculateBreakFee(lease, "RENT_PERIODS", 2, new Date("2024-02-15"))).toBe(2000);
+        expect(calculateBreakFee(lease, "RENT_PERIODS", 2, new Date("2024-06-15"))).toBe(2200);
+        expect(calculateBreakFee(termLease(), "RENT_PERIODS", 1.5, new Date("2024-06-15"))).toBe(1500);
+    });
+});
+
+describe("takesEffect", () => {
+    test("terminations take effect on their effective date", () => {
+        expect(takesEffect("2024-06-15", new Date("2024-06-14T23:59:59Z"))).toBe(false);
+        expect(takesEffect("2024-06-15", new Date("2024-06-15T00:00:00Z"))).toBe(true);
+        expect(takesEffect("2024-06-15", new Date("2024-06-15T20:00:00Z"))).toBe(true);
+        expect(takesEffect("2024-06-01", new Date("2024-06-15T08:00:00Z"))).toBe(true);
+    });
+});
@@ -0,0 +1,158 @@
+import {createMemoryStore} from "./throttleStores.js";
+
+// Login throttling. Failed logins are counted per IP address and per account (the entered email, whether an
+// account exists or not). After a few free attempts every further failure doubles the wait until the next
+// attempt is accepted, too many failures on one account lock it for a while. Signups are limited per IP address.
+// Every attempt is counted as failed before its credentials are checked and taken back if they were right, so
+// concurrent attempts can not get around the backoff. The clock and the store can be replaced, e.g. to check the
+// backoff for a fixed point in time
+
+const ACCOUNT_LIMITS = { freeAttempts: 3, baseDelay: 1000, maxDelay: 15 * 60 * 1000 };
+// Several users can share an IP address (offices, mobile networks), so it gets more attempts
+const IP_LIMITS = { freeAttempts: 10, baseDelay: 1000, maxDelay: 60 * 60 * 1000 };
+// Every LOCK_THRESHOLD failures lock the account again
+const LOCK_THRESHOLD = 10;
+const LOCK_DURATION = 30 * 60 * 1000;
+// Failures are forgotten a day after the last one
+const FAILURE_WINDOW = 24 * 60 * 60 * 1000;
+const SIGNUP_LIMITS = { attempts: 5, window: 60 * 60 * 1000 };
+
+let clock = () => Date.now();
+let store = createMemoryStore(() => clock());
+
+export function setClock(newClock) {
+    clock = newClock ?? (() => Date.now());
+}
+
+// Replaces the store, see throttleStores.js for the interface
+export function setStore(newStore) {
+    store = newStore ?? createMemoryStore(() => clock());
+}
+
+function accountKey(email) {
+    return `login:account:${String(email ?? "").trim().toLowerCase()}`;
+}
+
+function ipKey(ipAddress) {
+    return `login:ip:${ipAddress}`;
+}
+
+function signupKey(ipAddress) {
+    return `signup:ip:${ipAddress}`;
+}
+
+function getDelay(failures, limits) {
+    if (failures < limits.freeAttempts) {
+        return 0;
+    }
+
+    return Math.min(limits.baseDelay * 2 ** (failures - limits.freeAttempts), limits.maxDelay);
+}
+
+function secondsUntil(time, now) {
+    return time > now ? Math.ceil((time - now) / 1000) : 0;
+}
+
+// Entries are {failures, lastFailureAt, lockedUntil}, the wait after the last failure grows with the failures
+function getBlockedUntil(entry, limits) {
+    return Math.max(entry ? entry.lastFailureAt + getDelay(entry.failures, limits) : 0, entry?.lockedUntil ?? 0);
+}
+
+function storedFailures(entry) {
+    return { entry: entry, expiresAt: Math.max(entry.lastFailureAt + FAILURE_WINDOW, entry.lockedUntil) };
+}
+
+// Counts a failure of the key unless it is blocked. Returns until when it is blocked (0 if the failure was counted),
+// until when it is locked and whether this failure locked it
+async function countFailure(key, limits, now) {
+    let blockedUntil = 0;
+    let locked = false;
+
+    const entry = await store.update(key, (current) => {
+        if (getBlockedUntil(current, limits) > now) {
+            blockedUntil = getBlockedUntil(current, limits);
+            return null;
+        }
+
+        const failures = (current?.failures ?? 0) + 1;
+        locked = limits === ACCOUNT_LIMITS && failures % LOCK_THRESHOLD === 0;
+
+        return storedFailures({
+            failures: failures,
+            lastFailureAt: now,
+            lockedUntil: locked ? now + LOCK_DURATION : (current?.lockedUntil ?? 0)
+        });
+    });
+
+    return { blockedUntil: blockedUntil, lockedUntil: entry?.lockedUntil ?? 0, locked: locked };
+}
+
+// Takes back a counted failure, unlock lifts the lock it caused
+async function takeBackFailure(key, unlock) {
+    await store.update(key, (current) => current ? storedFailures({
+        ...current,
+        failures: Math.max(0, current.failures - 1),
+        lockedUntil: unlock ? 0 : current.lockedUntil
+    }) : null);
+}
+
+// Counts a login as failed before the credentials are checked. If the account or the IP address has to wait, the
+// attempt is not counted and {retryAfter (seconds), locked} tells how long and whether the account is locked.
+// Otherwise the attempt is returned, locked tells whether it locked the account. Attempts with the right credentials
+// are taken back with recordLoginSuccess or releaseLoginAttempt
+export async function beginLoginAttempt(email, ipAddress) {
+    const now = clock();
+
+    const ip = await countFailure(ipKey(ipAddress), IP_LIMITS, now);
+
+    if (ip.blockedUntil) {
+        return { retryAfter: secondsUntil(ip.blockedUntil, now), locked: false };
+    }
+
+    const account = await countFailure(accountKey(email), ACCOUNT_LIMITS, now);
+
+    if (account.blockedUntil) {
+        await takeBackFailure(ipKey(ipAddress), false);
+        return { retryAfter: secondsUntil(account.blockedUntil, now), locked: account.lockedUntil > now };
+    }
+
+    return {
+        email: email,
+        ipAddress: ipAddress,
+        retryAfter: 0,
+        locked: account.locked,
+        lockedUntil: account.locked ? new Date(account.lockedUntil) : null
+    };
+}
+
+// The credentials of the attempt were right, but the login needs another step (the two-factor code). The attempt is
+// no failure, the account keeps the failures it had
+export async function releaseLoginAttempt(attempt) {
+    await takeBackFailure(ipKey(attempt.ipAddress), false);
+    await takeBackFailure(accountKey(attempt.email), attempt.locked);
+}
+
+// A successful login resets the account, the IP address keeps its other failures until they are forgotten
+export async function recordLoginSuccess(attempt) {
+    await takeBackFailure(ipKey(attempt.ipAddress), false);
+    await store.delete(accountKey(attempt.email));
+}
+
+// Counts a signup of the IP address, returns the seconds until the next signup is accepted if the limit is reached
+export async function consumeSignupAttempt(ipAddress) {
+    const now = clock();
+    let retryAfter = 0;
+
+    await store.update(signupKey(ipAddress), (entry) => {
+        if (entry && entry.attempts >= SIGNUP_LIMITS.attempts) {
+            retryAfter = secondsUntil(entry.windowStart + SIGNUP_LIMITS.window, now);
+            return null;
+        }
+
+        const windowStart = entry?.windowStart ?? now;
+
+        return { entry: { attempts: (entry?.attempts ?? 0) + 1, windowStart: windowStart }, expiresAt: windowStart + SIGNUP_LIMITS.window };
+    });
+
+    return retryAfter;
+}
@@ -0,0 +1,168 @@
+import {afterEach, beforeEach, describe, expect, test} from "vitest";
+import {
+    beginLoginAttempt,
+    consumeSignupAttempt,
+    recordLoginSuccess,
+    releaseLoginAttempt,
+    setClock,
+    setStore
+} from "./throttleService.js";
+
+const EMAIL = "ada@example.com";
+const IP_ADDRESS = "203.0.113.7";
+
+let now;
+
+function wait(seconds) {
+    now += seconds * 1000;
+}
+
+// Fails logins until the given number of failures is counted, waiting whenever an attempt is not accepted.
+// Returns the last counted attempt
+async function failLogins(count, email = EMAIL) {
+    let attempt;
+
+    for (let failures = 0; failures < count;) {
+        attempt = await beginLoginAttempt(email, IP_ADDRESS);
+
+        if (attempt.retryAfter) {
+            wait(attempt.retryAfter);
+        }
+        else {
+            failures++;
+        }
+    }
+
+    return attempt;
+}
+
+beforeEach(() => {
+    now = Date.UTC(2024, 4, 12, 9, 0, 0);
+    setClock(() => now);
+    setStore(null);
+});
+
+afterEach(() => {
+    setClock(null);
+    setStore(null);
+});
+
+describe("login backoff", () => {
+    test("the first failures are free", async () => {
+        await failLogins(2);
+
+        expect((await beginLoginAttempt(EMAIL, IP_ADDRESS)).retryAfter).toBe(0);
+        expect(await beginLoginAttempt(EMAIL, IP_ADDRESS)).toEqual({ retryAfter: 1, locked: false });
+    });
+
+    test("every further failure doubles the wait", async () => {
+        const waits = [];
+
+        await failLogins(3);
+
+        for (let failure = 0; failure < 5; failure++) {
+            const {retryAfter} = await beginLoginAttempt(EMAIL, IP_ADDRESS);
+            waits.push(retryAfter);
+
+            wait(retryAfter);
+            await beginLoginAttempt(EMAIL, IP_ADDRESS);
+        }
+
+        expect(waits).toEqual([1, 2, 4, 8, 16]);
+    });
+
+    test("the wait is capped", async () => {
+        await failLogins(14);
+
+        expect(await beginLoginAttempt(EMAIL, "198.51.100.1")).toEqual({ retryAfter: 15 * 60, locked: false });
+    });
+
+    test("attempts that are not accepted do not count", async () => {
+        await failLogins(3);
+
+        await beginLoginAttempt(EMAIL, IP_ADDRESS);
+        await beginLoginAttempt(EMAIL, IP_ADDRESS);
+        wait(1);
+
+        expect((await beginLoginAttempt(EMAIL, IP_ADDRESS)).retryAfter).toBe(0);
+    });
+
+    test("concurrent attempts are counted before their credentials are checked", async () => {
+        const attempts = await Promise.all(Array.from({ length: 10 }, () => beginLoginAttempt(EMAIL, IP_ADDRESS)));
+
+        expect(attempts.filter((attempt) => !attempt.retryAfter)).toHaveLength(3);
+    });
+
+    test("the IP address is throttled across accounts", async () => {
+        for (let account = 0; account < 10; account++) {
+            await failLogins(1, `user${account}@example.com`);
+        }
+
+        expect((await beginLoginAttempt("other@example.com", IP_ADDRESS)).retryAfter).toBe(1);
+        expect((await beginLoginAttempt("other@example.com", "198.51.100.1")).retryAfter).toBe(0);
+    });
+});
+
+describe("account lock", () => {
+    test("every tenth failure locks the account for 30 minutes", async () => {
+        const tenth = await failLogins(10);
+
+        expect(tenth).toMatchObject({ locked: true, lockedUntil: new Date(now + 30 * 60 * 1000) });
+        expect(await beginLoginAttempt(EMAIL, "198.51.100.1")).toEqual({ retryAfter: 30 * 60, locked: true });
+
+        wait(30 * 60);
+        expect((await failLogins(9)).locked).toBe(false);
+        expect((await failLogins(1)).locked).toBe(true);
+    });
+});
+
+describe("successful logins", () => {
+    test("reset the failures of the account", async () => {
+        await failLogins(5);
+        wait(60);
+
+        await recordLoginSuccess(await beginLoginAttempt(EMAIL, IP_ADDRESS));
+        await failLogins(2);
+
+        expect((await beginLoginAttempt(EMAIL, IP_ADDRESS)).retryAfter).toBe(0);
+    });
+
+    test("a password before the two-factor code is no failure, but does not reset the account", async () => {
+        await failLogins(2);
+
+        await releaseLoginAttempt(await beginLoginAttempt(EMAIL, IP_ADDRESS));
+
+        expect((await beginLoginAttempt(EMAIL, IP_ADDRESS)).retryAfter).toBe(0);
+        expect((await beginLoginAttempt(EMAIL, IP_ADDRESS)).retryAfter).toBe(1);
+    });
+
+    test("a lock caused by an attempt with the right password is lifted", async () => {
+        await failLogins(9);
+
+        const attempt = await failLogins(1);
+        expect(attempt.locked).toBe(true);
+
+        await releaseLoginAttempt(attempt);
+        // The wait of the nine failures left
+        wait(64);
+
+        expect((await beginLoginAttempt(EMAIL, IP_ADDRESS)).retryAfter).toBe(0);
+    });
+});
+
+describe("signups", () => {
+    test("five signups per hour and IP address are accepted", async () => {
+        for (let signup = 0; signup < 5; signup++) {
+            expect(await consumeSignupAttempt(IP_ADDRESS)).toBe(0);
+        }
+
+        expect(await consumeSignupAttempt(IP_ADDRESS)).toBe(60 * 60);
+        expect(await consumeSignupAttempt("198.51.100.1")).toBe(0);
+
+        wait(30 * 60);
+        expect(await consumeSignupAttempt(IP_ADDRESS)).toBe(30 * 60);
+
+        wait(30 * 60);
+        expect(await consumeSignupAttempt(IP_ADDRESS)).toBe(0);
+    });
+});
@@ -0,0 +1,50 @@
+// A throttle store keeps the attempt counters of login throttling. Every method is async, so a shared
+// store (e.g. Redis) can replace the in-process one once the server runs on several instances:
+//   update(key, updater)      replaces the entry of the key (undefined if there is none or it expired) with the
+//                             {entry, expiresAt (ms timestamp)} updater returns, null keeps it. Reading and writing
+//                             the entry is one atomic step (e.g. a Lua script), concurrent attempts are counted one
+//                             after the other. Returns the entry that is stored afterwards
+//   delete(key)
+
+
+// Keeps the counters in memory of this process, they are lost on restart.
+// Expired entries are dropped when read and swept at most once a minute
+export function createMemoryStore(clock = () => Date.now()) {
+    const entries = new Map();
+    let lastSweep = clock();
+
+    function sweep(now) {
+        if (now - lastSweep < 60 * 1000) {
+            return;
+        }
+
+        lastSweep = now;
+        for (const [key, stored] of entries) {
+            if (stored.expiresAt <= now) {
+                entries.delete(key);
+            }
+        }
+    }
+
+    return {
+        // Nothing is awaited between reading and writing, so no other update of the process runs in between
+        update: async (key, updater) => {
+            const now = clock();
+            sweep(now);
+
+            const stored = entries.get(key);
+            const entry = stored && stored.expiresAt > now ? stored.entry : undefined;
+            const updated = updater(entry);
+
+            if (!updated) {
+                return entry;
+            }
+
+            entries.set(key, { entry: updated.entry, expiresAt: updated.expiresAt });
+            return updated.entry;
+        },
+        delete: async (key) => {
+            entries.delete(key);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import prisma from "../prisma.js";
+
+// Short lived email tokens (invitations, password resets, email changes) and the challenges of the second login step.
+// Only a hash of the token is stored, the plain token is only ever part of the mailed link or the login response
+
+export const EMAIL_TOKEN_LIFETIME = {
+    EMAIL_CONFIRMATION: 7 * 24 * 60 * 60 * 1000,
+    PASSWORD_RESET: 60 * 60 * 1000,
+    EMAIL_CHANGE: 24 * 60 * 60 * 1000,
+    TWO_FACTOR: 5 * 60 * 1000
+}
+
+export function hashToken(token) {
+    return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Creates a token for a user, tenant or organization member ({userId}, {tenantId} or {memberId}), earlier tokens of the same type are invalidated
+// Additional fields (e.g. the new email of EMAIL_CHANGE tokens) can be stored with data
+export async function createEmailToken(type, owner, data = {}) {
+    const token = crypto.randomBytes(32).toString("hex");
+
+    await prisma.$transaction([
+        prisma.token.updateMany({
+            where: {
+                type: type,
+                valid: true,
+                ...owner
+            },
+            data: {
+                valid: false
+            }
+        }),
+        prisma.token.create({
+            data: {
+                type: type,
+                emailToken: hashToken(token),
+                expiration: new Date(Date.now() + EMAIL_TOKEN_LIFETIME[type]),
+                ...owner,
+                ...data
+            }
+        })
+    ]);
+
+    return token;
+}
+
+// Returns the stored token if it exists, has the expected type, was not used yet and has not expired
+export async function findValidEmailToken(token, type) {
+    if (!token) {
+        return null;
+    }
+
+    const storedToken = await prisma.token.findUnique({
+        where: {
+            emailToken: hashToken(token)
+        }
+    });
+
+    if (!storedToken || storedToken.type !== type || !storedToken.valid || storedToken.expiration < new Date()) {
+        return null;
+    }
+
+    return storedToken;
+}
+
+// Marks a token as used, returns false if it was already used concurrently
+export async function consumeEmailToken(id, tx = prisma) {
+    const result = await tx.token.updateMany({
+        where: {
+            id: id,
+            valid: true
+        },
+        data: {
+            valid: false
+        }
+    });
+
+    return result.count === 1;
+}
@@ -0,0 +1,130 @@
+import crypto from "crypto";
+import {Buffer} from "buffer";
+
+// Time based one-time passwords (RFC 6238) as used by authenticator apps: HMAC-SHA1, 6 digits, 30 second steps.
+// The clock can be replaced to verify codes for a fixed point in time. The module has no database access,
+// so it can be used on its own
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TIME_STEP = 30;
+const DIGITS = 6;
+// Codes of the previous and next step are accepted as well, authenticator apps and servers are rarely in sync
+const ALLOWED_DRIFT = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "Realtor Rocket";
+
+let clock = () => Date.now();
+
+export function setClock(newClock) {
+    clock = newClock ?? (() => Date.now());
+}
+
+function base32Encode(buffer) {
+    let bits = "";
+    for (const byte of buffer) {
+        bits += byte.toString(2).padStart(8, "0");
+    }
+
+    let encoded = "";
+    for (let i = 0; i < bits.length; i += 5) {
+        encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+    }
+
+    return encoded;
+}
+
+function base32Decode(encoded) {
+    let bits = "";
+    for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) {
+            throw new Error("Invalid base32 character");
+        }
+        bits += value.toString(2).padStart(5, "0");
+    }
+
+    const bytes = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+
+    return Buffer.from(bytes);
+}
+
+function hashRecoveryCode(code) {
+    return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+function getStep(time) {
+    return Math.floor(time / 1000 / TIME_STEP);
+}
+
+export function generateSecret() {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+// Code of the step the given time (ms) falls into
+export function generateCode(secret, time = clock()) {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(getStep(time)));
+
+    const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+    // Dynamic truncation
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+    return String(binary).padStart(DIGITS, "0");
+}
+
+// Step of the given code, null if it is invalid. Codes of the last used step and earlier ones are rejected,
+// so a code that was seen once can not be used again
+export function matchCode(secret, code, lastUsedStep = null, time = clock()) {
+    const normalized = String(code ?? "").replace(/\s/g, "");
+
+    if (!secret || !/^\d{6}$/.test(normalized)) {
+        return null;
+    }
+
+    for (let drift = -ALLOWED_DRIFT; drift <= ALLOWED_DRIFT; drift++) {
+        const step = getStep(time) + drift;
+        if (lastUsedStep !== null && step <= lastUsedStep) {
+            continue;
+        }
+
+        const expected = generateCode(secret, step * TIME_STEP * 1000);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+
+    return null;
+}
+
+// URI authenticator apps read from the QR code
+export function getProvisioningUri(secret, email) {
+    const label = encodeURIComponent(`${ISSUER}:${email}`);
+
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&algorithm=SHA1&digits=${DIGITS}&period=${TIME_STEP}`;
+}
+
+// Plain codes are only shown once, the user stores their hashes
+export function generateRecoveryCodes() {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const code = crypto.randomBytes(5).toString("hex");
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map((code) => hashRecoveryCode(code)) };
+}
+
+// Hashes of the recovery codes that are left after using the given code, null if the code is not one of them
+export function consumeRecoveryCode(hashes, code) {
+    const hash = hashRecoveryCode(String(code ?? "").trim().toLowerCase());
+
+    if (!hashes?.includes(hash)) {
+        return null;
+    }
+
+    return hashes.filter((storedHash) => storedHash !== hash);
+}
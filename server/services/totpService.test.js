@@ -0,0 +1,105 @@
+import {afterEach, beforeEach, describe, expect, test} from "vitest";
+import {consumeRecoveryCode, generateCode, generateRecoveryCodes, matchCode, setClock} from "./totpService.js";
+
+// Secret of the RFC 6238 test vectors ("12345678901234567890" in base32)
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const NOW = Date.UTC(2024, 4, 12, 9, 30, 15);
+const STEP = Math.floor(NOW / 1000 / 30);
+
+function codeAt(step) {
+    return generateCode(SECRET, step * 30 * 1000);
+}
+
+beforeEach(() => {
+    setClock(() => NOW);
+});
+
+afterEach(() => {
+    setClock(null);
+});
+
+describe("codes", () => {
+    test("match the test vectors of RFC 6238", () => {
+        expect(generateCode(SECRET, 59 * 1000)).toBe("287082");
+        expect(generateCode(SECRET, 1111111109 * 1000)).toBe("081804");
+        expect(generateCode(SECRET, 2000000000 * 1000)).toBe("279037");
+    });
+
+    test("use the clock when no time is given", () => {
+        expect(generateCode(SECRET)).toBe(codeAt(STEP));
+        expect(matchCode(SECRET, codeAt(STEP))).toBe(STEP);
+    });
+
+    test("are accepted with spaces", () => {
+        const code = codeAt(STEP);
+
+        expect(matchCode(SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(STEP);
+    });
+
+    test("are rejected for another secret or in another format", () => {
+        expect(matchCode("JBSWY3DPEHPK3PXP", codeAt(STEP))).toBeNull();
+        expect(matchCode(SECRET, "12345")).toBeNull();
+        expect(matchCode(SECRET, "abcdef")).toBeNull();
+        expect(matchCode(null, codeAt(STEP))).toBeNull();
+    });
+});
+
+describe("window drift", () => {
+    test("codes of the previous and the next step are accepted", () => {
+        expect(matchCode(SECRET, codeAt(STEP - 1))).toBe(STEP - 1);
+        expect(matchCode(SECRET, codeAt(STEP + 1))).toBe(STEP + 1);
+    });
+
+    test("codes two steps away are rejected", () => {
+        expect(matchCode(SECRET, codeAt(STEP - 2))).toBeNull();
+        expect(matchCode(SECRET, codeAt(STEP + 2))).toBeNull();
+    });
+
+    test("a code expires a step after its own", () => {
+        const code = codeAt(STEP);
+
+        setClock(() => (STEP + 1) * 30 * 1000 + 29 * 1000);
+        expect(matchCode(SECRET, code)).toBe(STEP);
+
+        setClock(() => (STEP + 2) * 30 * 1000);
+        expect(matchCode(SECRET, code)).toBeNull();
+    });
+});
+
+describe("replay", () => {
+    test("a code can not be used again", () => {
+        const step = matchCode(SECRET, codeAt(STEP));
+
+        expect(matchCode(SECRET, codeAt(STEP), step)).toBeNull();
+    });
+
+    test("codes older than the last used one are rejected", () => {
+        expect(matchCode(SECRET, codeAt(STEP - 1), STEP)).toBeNull();
+        expect(matchCode(SECRET, codeAt(STEP + 1), STEP)).toBe(STEP + 1);
+    });
+});
+
+describe("recovery codes", () => {
+    test("every code can be used once", () => {
+        const {codes, hashes} = generateRecoveryCodes();
+
+        const remaining = consumeRecoveryCode(hashes, codes[0]);
+        expect(remaining).toHaveLength(hashes.length - 1);
+
+        expect(consumeRecoveryCode(remaining, codes[0])).toBeNull();
+        expect(consumeRecoveryCode(remaining, codes[1])).toHaveLength(hashes.length - 2);
+    });
+
+    test("are accepted in upper case and with spaces around them", () => {
+        const {codes, hashes} = generateRecoveryCodes();
+
+        expect(consumeRecoveryCode(hashes, ` ${codes[3].toUpperCase()} `)).toHaveLength(hashes.length - 1);
+    });
+
+    test("unknown codes are rejected", () => {
+        const {hashes} = generateRecoveryCodes();
+
+        expect(consumeRecoveryCode(hashes, "00000-00000")).toBeNull();
+        expect(consumeRecoveryCode([], "00000-00000")).toBeNull();
+    });
+});
@@ -0,0 +1,47 @@
+// Validation of request bodies, queries and route parameters with the zod schemas of shared/schemas.js, the same ones the forms of the client use.
+// The parsed data replaces the request data, so controllers only get the known fields with their parsed values.
+// Invalid requests get a 400 with the path of every invalid field, forms show the messages next to their fields
+
+function getErrors(error) {
+    return error.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+    }));
+}
+
+// Schemas for the parts of the request, e.g. validate({body: leaseSchema, query: leaseFilterSchema})
+export function validate({body, query, params}) {
+    return (req, res, next) => {
+        if (params) {
+            const result = params.safeParse(req.params);
+
+            if (!result.success) {
+                return res.status(400).json({ message: "Invalid link", errors: getErrors(result.error) });
+            }
+
+            req.params = result.data;
+        }
+
+        if (query) {
+            const result = query.safeParse(req.query);
+
+            if (!result.success) {
+                return res.status(400).json({ message: "Invalid query parameters", errors: getErrors(result.error) });
+            }
+
+            req.query = result.data;
+        }
+
+        if (body) {
+            const result = body.safeParse(req.body ?? {});
+
+            if (!result.success) {
+                return res.status(400).json({ message: "Invalid request data", errors: getErrors(result.error) });
+            }
+
+            req.body = result.data;
+        }
+
+        next();
+    }
+}
@@ -0,0 +1,468 @@
+import {readFileSync} from "fs";
+
+// In-memory stand-in for the Prisma client, tests replace server/prisma.js with it (see vi.mock) and run without a
+// database. Records of a model are plain objects, relations are the related records themselves, so filters can follow
+// them like Prisma does. It supports the filters and queries the services use: equals, in, notIn, not, lt(e), gt(e),
+// is, isNot, some, none, every, AND, OR and NOT. Relations that are not stored on a record are looked up by their
+// foreign key for filters, includes and selects. Includes and selects return the whole record, their fields are
+// checked against prisma/schema.prisma like Prisma does. Created records get the literal defaults of the schema and
+// have to keep its unique constraints, relations can be connected or created with them
+
+// Literal default of a field (enum values, numbers, booleans, strings and empty lists), undefined for the defaults the
+// database generates (now(), autoincrement() and the like)
+function parseDefault(value) {
+    if (value === "true" || value === "false") {
+        return value === "true";
+    }
+    if (value === "[]") {
+        return [];
+    }
+    if (/^".*"$/.test(value)) {
+        return value.slice(1, -1);
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+
+    return /^\w+$/.test(value) ? value : undefined;
+}
+
+function delegateName(modelName) {
+    return modelName[0].toLowerCase() + modelName.slice(1);
+}
+
+// Fields of every model with their type, the literal defaults of its fields, its relations and the sets of fields
+// that are unique, by the name of the model and the name of its client property. A relation is {model (client
+// property), list, name, fields, references}, fields and references are only set on the side that holds the foreign key
+function readModels() {
+    const schema = readFileSync(new URL("../../prisma/schema.prisma", import.meta.url), "utf8");
+    const blocks = [...schema.matchAll(/^model (\w+) \{([\s\S]*?)^\}/gm)];
+    const modelNames = new Set(blocks.map(([, name]) => name));
+
+    const models = {};
+    const defaults = {};
+    const relations = {};
+    const uniques = {};
+
+    for (const [, name, body] of blocks) {
+        const fields = {};
+        const fieldDefaults = {};
+        const fieldRelations = {};
+        const uniqueFields = [];
+
+        for (const line of body.split("\n")) {
+            const compound = line.trim().match(/^@@(?:unique|id)\(\[([\w, ]+)\]/);
+            if (compound) {
+                uniqueFields.push(compound[1].split(/,\s*/));
+            }
+
+            const field = line.trim().match(/^(\w+)\s+(\w+)(\[\])?/);
+            if (!field) {
+                continue;
+            }
+
+            fields[field[1]] = field[2];
+
+            if (/@(id|unique)\b/.test(line)) {
+                uniqueFields.push([field[1]]);
+            }
+
+            const value = parseDefault(line.match(/@default\(([^()]*)\)/)?.[1]);
+            if (value !== undefined) {
+                fieldDefaults[field[1]] = value;
+            }
+
+            if (modelNames.has(field[2])) {
+                fieldRelations[field[1]] = {
+                    model: delegateName(field[2]),
+                    list: Boolean(field[3]),
+                    name: line.match(/@relation\("(\w+)"/)?.[1] ?? null,
+                    fields: line.match(/fields: \[(\w+)\]/)?.[1] ?? null,
+                    references: line.match(/references: \[(\w+)\]/)?.[1] ?? null,
+                };
+            }
+        }
+
+        const delegate = delegateName(name);
+        models[name] = models[delegate] = fields;
+        defaults[name] = defaults[delegate] = fieldDefaults;
+        relations[name] = relations[delegate] = fieldRelations;
+        uniques[name] = uniques[delegate] = uniqueFields;
+    }
+
+    return { models, defaults, relations, uniques };
+}
+
+const {models: MODELS, defaults: DEFAULTS, relations: RELATIONS, uniques: UNIQUES} = readModels();
+
+// The side of the relation that holds the foreign key, when the field of the model is the other side
+function foreignKeySide(modelName, field) {
+    const relation = RELATIONS[modelName]?.[field];
+
+    return Object.values(RELATIONS[relation.model]).find((other) => other.model === delegateName(modelName) &&
+        other.name === relation.name && other.fields) ?? null;
+}
+
+// Throws for included or selected fields the model does not have, nested includes are checked with their model
+function checkFields(modelName, args) {
+    const fields = MODELS[modelName];
+
+    if (!fields || !isPlainObject(args)) {
+        return;
+    }
+
+    for (const option of ["include", "select"]) {
+        for (const [field, value] of Object.entries(args[option] ?? {})) {
+            if (field === "_count") {
+                continue;
+            }
+            if (!(field in fields)) {
+                throw new Error(`Unknown field ${field} of ${modelName}`);
+            }
+
+            checkFields(fields[field], value);
+        }
+    }
+}
+
+const SCALAR_FILTERS = ["equals", "in", "notIn", "not", "lt", "lte", "gt", "gte"];
+
+function isPlainObject(value) {
+    return value !== null && typeof value === "object" && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function comparable(value) {
+    return value instanceof Date ? value.getTime() : value;
+}
+
+function matchesScalar(value, filter) {
+    if (filter === null) {
+        return value === null || value === undefined;
+    }
+    if (!isPlainObject(filter)) {
+        return comparable(value) === comparable(filter);
+    }
+
+    return Object.entries(filter).every(([operator, operand]) => {
+        switch (operator) {
+            case "equals":
+                return comparable(value) === comparable(operand);
+            case "in":
+                return operand.map(comparable).includes(comparable(value));
+            case "notIn":
+                return !operand.map(comparable).includes(comparable(value));
+            case "not":
+                return !matchesScalar(value, operand);
+            case "lt":
+                return value !== null && value !== undefined && comparable(value) < comparable(operand);
+            case "lte":
+                return value !== null && value !== undefined && comparable(value) <= comparable(operand);
+            case "gt":
+                return value !== null && value !== undefined && comparable(value) > comparable(operand);
+            case "gte":
+                return value !== null && value !== undefined && comparable(value) >= comparable(operand);
+            default:
+                throw new Error(`Unsupported filter ${operator}`);
+        }
+    });
+}
+
+function matchesList(records, filter) {
+    return Object.entries(filter).every(([operator, where]) => {
+        switch (operator) {
+            case "some":
+                return records.some((record) => matches(record, where));
+            case "none":
+                return !records.some((record) => matches(record, where));
+            case "every":
+                return records.every((record) => matches(record, where));
+            default:
+                throw new Error(`Unsupported list filter ${operator}`);
+        }
+    });
+}
+
+function matchesRelation(record, filter) {
+    if ("is" in filter || "isNot" in filter) {
+        const is = "is" in filter ? filter.is : undefined;
+        const isNot = "isNot" in filter ? filter.isNot : undefined;
+
+        return (is === undefined || (is === null ? !record : !!record && matches(record, is))) &&
+            (isNot === undefined || (isNot === null ? !!record : !record || !matches(record, isNot)));
+    }
+
+    return !!record && matches(record, filter);
+}
+
+export function matches(record, where = {}) {
+    return Object.entries(where ?? {}).every(([key, condition]) => {
+        if (condition === undefined) {
+            return true;
+        }
+        if (key === "AND") {
+            return [].concat(condition).every((part) => matches(record, part));
+        }
+        if (key === "OR") {
+            return condition.some((part) => matches(record, part));
+        }
+        if (key === "NOT") {
+            return ![].concat(condition).some((part) => matches(record, part));
+        }
+
+        const value = record[key];
+
+        if (Array.isArray(value)) {
+            return matchesList(value, condition);
+        }
+        if (isPlainObject(condition) && !Object.keys(condition).every((operator) => SCALAR_FILTERS.includes(operator))) {
+            return matchesRelation(value, condition);
+        }
+
+        return matchesScalar(value, condition);
+    });
+}
+
+function sortRecords(records, orderBy) {
+    const orders = [].concat(orderBy ?? []).flatMap((order) => Object.entries(order));
+
+    return [...records].sort((a, b) => {
+        for (const [field, direction] of orders) {
+            const difference = comparable(a[field]) - comparable(b[field]);
+
+            if (difference) {
+                return direction === "desc" ? -difference : difference;
+            }
+        }
+        return 0;
+    });
+}
+
+// Related records of the relation field, records that store the field themselves keep what they store
+function findRelated(client, modelName, record, field) {
+    const relation = RELATIONS[modelName][field];
+
+    if (relation.fields) {
+        return client.records(relation.model).find((other) => other[relation.references] === record[relation.fields]) ?? null;
+    }
+
+    const foreignKey = foreignKeySide(modelName, field);
+    const related = foreignKey ? client.records(relation.model).filter((other) => other[foreignKey.fields] === record[foreignKey.references]) : [];
+
+    return relation.list ? related : related[0] ?? null;
+}
+
+// Copy of the record with the included or selected relations, nested includes and the where and orderBy of included
+// lists are applied to the related records that were looked up
+function withRelations(client, modelName, record, args) {
+    const result = {...record};
+
+    for (const [field, value] of Object.entries(args?.include ?? args?.select ?? {})) {
+        const relation = RELATIONS[modelName]?.[field];
+
+        if (!value || !relation) {
+            continue;
+        }
+
+        let related = record[field];
+
+        if (related === undefined) {
+            related = findRelated(client, modelName, record, field);
+
+            if (Array.isArray(related) && isPlainObject(value)) {
+                related = sortRecords(related.filter((other) => matches(withFilteredRelations(client, relation.model, other, value.where), value.where)), value.orderBy);
+            }
+        }
+
+        const nested = isPlainObject(value) ? value : null;
+        result[field] = Array.isArray(related) ?
+            related.map((other) => withRelations(client, relation.model, other, nested)) :
+            related && withRelations(client, relation.model, related, nested);
+    }
+
+    return result;
+}
+
+// Copy of the record with the relations the filter follows, relations that are stored on the record are kept
+function withFilteredRelations(client, modelName, record, where) {
+    const result = {...record};
+
+    for (const [key, condition] of Object.entries(isPlainObject(where) ? where : {})) {
+        if (["AND", "OR", "NOT"].includes(key)) {
+            [].concat(condition).forEach((part) => Object.assign(result, withFilteredRelations(client, modelName, result, part)));
+            continue;
+        }
+
+        const relation = RELATIONS[modelName]?.[key];
+
+        if (!relation || !isPlainObject(condition)) {
+            continue;
+        }
+
+        const related = result[key] === undefined ? findRelated(client, modelName, record, key) : result[key];
+        // Filters of the related records: some, none and every of lists, is, isNot or the filter itself of single ones
+        const filters = relation.list ? [condition.some, condition.none, condition.every] : [condition.is, condition.isNot, condition];
+        const follow = (other) => filters.reduce((resolved, filter) => withFilteredRelations(client, relation.model, resolved, filter), other);
+
+        result[key] = relation.list ? related.map(follow) : related && follow(related);
+    }
+
+    return result;
+}
+
+function createModel(name, client, nextId) {
+    const records = client.records(name);
+    // Queries return copies like Prisma does, so later changes do not show up in records that were read before
+    const copy = (record, args) => withRelations(client, name, record, args);
+    const select = (args = {}) => {
+        checkFields(name, args);
+        return sortRecords(records.filter((record) => matches(withFilteredRelations(client, name, record, args.where), args.where)), args.orderBy);
+    };
+
+    const findMany = async (args) => select(args).map((record) => copy(record, args));
+    const findFirst = async (args) => findMany(args).then((found) => found[0] ?? null);
+
+    // Splits nested writes of relations (connect and create) from the fields of the record, connected records set the
+    // foreign key, created ones are created once the record exists
+    const writeData = (data) => {
+        const fields = {};
+        const creates = [];
+
+        for (const [field, value] of Object.entries(data)) {
+            const relation = RELATIONS[name]?.[field];
+
+            if (!relation || !isPlainObject(value)) {
+                fields[field] = value;
+                continue;
+            }
+            if (value.connect && relation.fields) {
+                const connected = client.records(relation.model).find((other) => matches(other, value.connect));
+                fields[relation.fields] = connected?.[relation.references] ?? value.connect[relation.references];
+            }
+            if (value.create) {
+                creates.push(...[].concat(value.create).map((item) => ({ field, item })));
+            }
+        }
+
+        const createRelated = async (record) => {
+            for (const {field, item} of creates) {
+                const relation = RELATIONS[name][field];
+                const foreignKey = foreignKeySide(name, field);
+
+                await client[relation.model].create({ data: { ...item, [foreignKey.fields]: record[foreignKey.references] } });
+            }
+        };
+
+        return { fields, createRelated };
+    };
+
+    // Throws like Prisma does if another record has the same values of unique fields
+    const checkUnique = (record) => {
+        const conflict = (UNIQUES[name] ?? []).find((fields) => fields.every((field) => record[field] !== null && record[field] !== undefined) &&
+            records.some((other) => other !== record && fields.every((field) => comparable(other[field]) === comparable(record[field]))));
+
+        if (conflict) {
+            throw Object.assign(new Error(`Unique constraint failed on the fields: (${conflict.join(", ")})`), { code: "P2002", meta: { target: conflict } });
+        }
+    };
+
+    const create = async ({data, ...args}) => {
+        checkFields(name, args);
+        const {fields, createRelated} = writeData(data);
+        // Lists are copied, records must not share their default
+        const defaults = structuredClone(DEFAULTS[name] ?? {});
+        const record = { id: nextId(), createdAt: new Date(), ...defaults, ...fields };
+        checkUnique(record);
+        records.push(record);
+        await createRelated(record);
+        return copy(record, args);
+    };
+
+    const update = async ({where, data, ...args}) => {
+        const record = select({where, ...args})[0];
+
+        if (!record) {
+            throw Object.assign(new Error("Record to update not found"), { code: "P2025" });
+        }
+
+        const {fields, createRelated} = writeData(data);
+        Object.assign(record, fields);
+        await createRelated(record);
+        return copy(record, args);
+    };
+
+    return {
+        findMany,
+        findFirst,
+        findUnique: findFirst,
+        count: async (args) => select(args).length,
+        create,
+        createMany: async ({data, skipDuplicates}) => {
+            let count = 0;
+
+            for (const item of data) {
+                try {
+                    await create({data: item});
+                    count++;
+                }
+                catch (error) {
+                    if (!skipDuplicates || error.code !== "P2002") {
+                        throw error;
+                    }
+                }
+            }
+            return { count };
+        },
+        update,
+        updateMany: async ({where, data}) => {
+            const matched = select({where});
+            matched.forEach((record) => Object.assign(record, data));
+            return { count: matched.length };
+        },
+        upsert: async ({where, create: createData, update: updateData, ...args}) => select({where}).length ?
+            update({where, data: updateData, ...args}) :
+            create({data: createData, ...args}),
+        deleteMany: async ({where} = {}) => {
+            const matched = select({where});
+            matched.forEach((record) => records.splice(records.indexOf(record), 1));
+            return { count: matched.length };
+        },
+    };
+}
+
+// Client whose models are created on first use, reset() removes all records
+export function createFakePrisma() {
+    let tables = {};
+    let lastId = 1000;
+
+    const models = {};
+
+    const client = new Proxy({}, {
+        get(target, name) {
+            if (name === "$transaction") {
+                return async (operations) => typeof operations === "function" ? operations(client) : Promise.all(operations);
+            }
+            if (name === "reset") {
+                return () => {
+                    tables = {};
+                    Object.keys(models).forEach((model) => delete models[model]);
+                };
+            }
+            if (name === "records") {
+                return (model) => {
+                    tables[model] ??= [];
+                    return tables[model];
+                };
+            }
+            if (typeof name !== "string" || name === "then") {
+                return undefined;
+            }
+
+            models[name] ??= createModel(name, client, () => ++lastId);
+            return models[name];
+        }
+    });
+
+    return client;
+}
+
+export const fakePrisma = createFakePrisma();
@@ -0,0 +1,8 @@
+// Escapes values that are written into generated HTML, like the body of emails and documents
+export function escapeHtml(value) {
+    return String(value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
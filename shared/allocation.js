@@ -0,0 +1,63 @@
+import {roundCents} from "./money.js";
+
+// Allocation of payments to the charges of the payment schedule, used by the server to allocate payments and by the
+// client to preview them. A payment pays the oldest open charges first, the rest is credit of the tenant that pays
+// the next charges. The status of a charge follows from the amount allocated to it
+
+export function getAllocatedAmount(schedule) {
+    return roundCents((schedule?.allocations ?? []).reduce((total, allocation) => total + allocation.amount, 0));
+}
+
+// Amount of the charge that is still owed, waived charges are owed nothing
+export function getOpenAmount(schedule) {
+    if (schedule.status === "WAIVED") {
+        return 0;
+    }
+
+    return Math.max(0, roundCents((schedule.amountDue ?? 0) - getAllocatedAmount(schedule)));
+}
+
+// Splits the amount over the open charges, oldest due date first. Returns the allocations and the rest of the amount
+export function allocateAmount(amount, schedules) {
+    const openSchedules = schedules
+        .filter((schedule) => getOpenAmount(schedule) > 0)
+        .sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate) || a.id - b.id);
+
+    const allocations = [];
+    let remainder = roundCents(amount ?? 0);
+
+    for (const schedule of openSchedules) {
+        if (remainder <= 0) {
+            break;
+        }
+
+        const allocationAmount = Math.min(getOpenAmount(schedule), remainder);
+
+        allocations.push({ scheduleId: schedule.id, amount: allocationAmount });
+        remainder = roundCents(remainder - allocationAmount);
+    }
+
+    return { allocations, remainder };
+}
+
+// Status of a charge with the allocated amount, charges without payments are overdue once their due date has passed
+export function getAllocatedStatus(schedule, allocatedAmount, now = new Date()) {
+    if (schedule.status === "WAIVED") {
+        return "WAIVED";
+    }
+    if (allocatedAmount > 0 && allocatedAmount >= (schedule.amountDue ?? 0)) {
+        return "PAID";
+    }
+    if (allocatedAmount > 0) {
+        return "PARTIALLY_PAID";
+    }
+
+    return new Date(schedule.dueDate) < now ? "OVERDUE" : "SCHEDULED";
+}
+
+// Credit of the tenant: the parts of paid payments that are not allocated to a charge
+export function getCreditAmount(payments) {
+    return roundCents((payments ?? [])
+        .filter((payment) => payment.status === "PAID")
+        .reduce((total, payment) => total + (payment.unallocatedAmount ?? 0), 0));
+}
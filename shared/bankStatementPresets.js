@@ -0,0 +1,78 @@
+// Column mappings of the CSV statements of common banks, used by the server to read CSV statements and by the client
+// to offer them on import. Columns are named by their header, or by their position (from 0) in files without a header
+// row. Banks that book credits and debits in separate columns map the credit column instead of the amount. Statements
+// of other banks are read with a custom mapping of the same shape
+
+export const BANK_STATEMENT_FORMATS = ["CSV", "OFX", "CAMT053"];
+export const DATE_FORMATS = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY", "DD.MM.YY"];
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+export const DECIMAL_SEPARATORS = [".", ","];
+
+export const BANK_STATEMENT_PRESETS = [
+    {
+        id: "generic",
+        label: "Generic (Date, Amount, Name, Reference)",
+        delimiter: ",",
+        header: true,
+        dateFormat: "YYYY-MM-DD",
+        decimalSeparator: ".",
+        columns: { date: "Date", amount: "Amount", counterparty: "Name", reference: "Reference" },
+    },
+    {
+        id: "chase",
+        label: "Chase",
+        delimiter: ",",
+        header: true,
+        dateFormat: "MM/DD/YYYY",
+        decimalSeparator: ".",
+        columns: { date: "Posting Date", amount: "Amount", counterparty: "Description", reference: "Description" },
+    },
+    {
+        id: "bank_of_america",
+        label: "Bank of America",
+        // The file starts with a summary, the transactions follow under their own header
+        delimiter: ",",
+        header: true,
+        dateFormat: "MM/DD/YYYY",
+        decimalSeparator: ".",
+        columns: { date: "Date", amount: "Amount", counterparty: "Description", reference: "Description" },
+    },
+    {
+        id: "wells_fargo",
+        label: "Wells Fargo",
+        delimiter: ",",
+        header: false,
+        dateFormat: "MM/DD/YYYY",
+        decimalSeparator: ".",
+        columns: { date: 0, amount: 1, counterparty: 4, reference: 4 },
+    },
+    {
+        id: "capital_one",
+        label: "Capital One",
+        delimiter: ",",
+        header: true,
+        dateFormat: "YYYY-MM-DD",
+        decimalSeparator: ".",
+        columns: { date: "Transaction Date", credit: "Credit", counterparty: "Description", reference: "Description" },
+    },
+    {
+        id: "sparkasse",
+        label: "Sparkasse (CSV-CAMT)",
+        delimiter: ";",
+        header: true,
+        dateFormat: "DD.MM.YY",
+        decimalSeparator: ",",
+        encoding: "iso-8859-1",
+        columns: {
+            date: "Buchungstag",
+            amount: "Betrag",
+            counterparty: "Beguenstigter/Zahlungspflichtiger",
+            reference: "Verwendungszweck",
+            currency: "Waehrung",
+        },
+    },
+];
+
+export function getBankStatementPreset(id) {
+    return BANK_STATEMENT_PRESETS.find((preset) => preset.id === id) ?? null;
+}
@@ -0,0 +1,9 @@
+// Date helpers of the server and the client. Dates without a time, like due dates and lease dates, are stored as UTC
+// midnight
+
+export const DAY = 24 * 60 * 60 * 1000;
+
+// Start of the (UTC) day of the date
+export function startOfDay(date) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
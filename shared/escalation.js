@@ -0,0 +1,93 @@
+import {roundCents} from "./money.js";
+
+// Rent escalation of leases, used by the payment schedule of the server and the rent timeline of the client.
+// The rent changes on every anniversary of the start date: by a fixed amount, by a percentage of the rent before
+// or along a price index (the rent follows the index from the start date to the anniversary)
+
+// Value of the index on the date, the latest value that was published on or before it
+export function getIndexValue(priceIndex, date) {
+    const time = new Date(date).getTime();
+    let indexValue = null;
+
+    for (const value of priceIndex?.values ?? []) {
+        const valueTime = new Date(value.date).getTime();
+
+        if (valueTime <= time && (!indexValue || valueTime >= new Date(indexValue.date).getTime())) {
+            indexValue = value;
+        }
+    }
+
+    return indexValue?.value ?? null;
+}
+
+// Rent from the anniversary on, null if it can not be calculated (e.g. the index has no value yet)
+function getEscalatedRent(lease, previousRent, anniversary) {
+    if (lease.escalationType === "FIXED") {
+        return roundCents(previousRent + (lease.escalationValue ?? 0));
+    }
+    if (lease.escalationType === "PERCENTAGE") {
+        return roundCents(previousRent * (1 + (lease.escalationValue ?? 0) / 100));
+    }
+    if (lease.escalationType === "INDEX") {
+        const startValue = getIndexValue(lease.priceIndex, lease.startDate);
+        const anniversaryValue = getIndexValue(lease.priceIndex, anniversary);
+
+        if (!startValue || !anniversaryValue) {
+            return null;
+        }
+
+        return roundCents(lease.rentalPrice * anniversaryValue / startValue);
+    }
+
+    return previousRent;
+}
+
+export function hasEscalation(lease) {
+    return Boolean(lease?.escalationType && lease.escalationType !== "NONE");
+}
+
+// Rent of the lease from its start date and from every anniversary until its end date on: [{date, rentalPrice, change}]
+export function getRentTimeline(lease) {
+    if (!lease?.startDate || lease.rentalPrice === null || lease.rentalPrice === undefined) {
+        return [];
+    }
+
+    const startDate = new Date(lease.startDate);
+    const timeline = [{ date: startDate, rentalPrice: lease.rentalPrice, change: 0 }];
+
+    if (!hasEscalation(lease) || !lease.endDate) {
+        return timeline;
+    }
+
+    const endDate = new Date(lease.endDate);
+
+    for (let year = 1; ; year++) {
+        const anniversary = new Date(startDate);
+        anniversary.setFullYear(anniversary.getFullYear() + year);
+
+        if (anniversary > endDate) {
+            break;
+        }
+
+        const previousRent = timeline[timeline.length - 1].rentalPrice;
+        const rentalPrice = getEscalatedRent(lease, previousRent, anniversary) ?? previousRent;
+
+        timeline.push({ date: anniversary, rentalPrice: rentalPrice, change: roundCents(rentalPrice - previousRent) });
+    }
+
+    return timeline;
+}
+
+// Rent of the lease on the date, the rent of the start date for dates before it
+export function getRentAt(timeline, date) {
+    const time = new Date(date).getTime();
+    let rentalPrice = timeline[0]?.rentalPrice ?? null;
+
+    for (const step of timeline) {
+        if (step.date.getTime() <= time) {
+            rentalPrice = step.rentalPrice;
+        }
+    }
+
+    return rentalPrice;
+}
@@ -0,0 +1,98 @@
+import {describe, expect, test} from "vitest";
+import {getIndexValue, getRentAt, getRentTimeline} from "./escalation.js";
+
+// A lease of three years from March 2022 with a rent of 1000
+function escalatingLease(data = {}) {
+    return {
+        startDate: new Date("2022-03-01"),
+        endDate: new Date("2025-02-28"),
+        rentalPrice: 1000,
+        escalationType: "NONE",
+        escalationValue: null,
+        priceIndex: null,
+        ...data
+    };
+}
+
+function priceIndex(values) {
+    return { values: Object.entries(values).map(([date, value]) => ({ date: new Date(date), value: value })) };
+}
+
+function timeline(lease) {
+    return getRentTimeline(lease).map((step) => [step.date.toISOString().slice(0, 10), step.rentalPrice, step.change]);
+}
+
+describe("getRentTimeline", () => {
+    test("leases without escalation keep their rent", () => {
+        expect(timeline(escalatingLease())).toEqual([["2022-03-01", 1000, 0]]);
+        expect(timeline(escalatingLease({ escalationType: "FIXED", escalationValue: 50, endDate: null }))).toEqual([["2022-03-01", 1000, 0]]);
+        expect(getRentTimeline(escalatingLease({ rentalPrice: null }))).toEqual([]);
+    });
+
+    test("FIXED adds the amount on every anniversary", () => {
+        expect(timeline(escalatingLease({ escalationType: "FIXED", escalationValue: 50 }))).toEqual([
+            ["2022-03-01", 1000, 0],
+            ["2023-03-01", 1050, 50],
+            ["2024-03-01", 1100, 50],
+        ]);
+    });
+
+    test("PERCENTAGE raises the rent before by the percentage on every anniversary", () => {
+        expect(timeline(escalatingLease({ escalationType: "PERCENTAGE", escalationValue: 3, endDate: new Date("2026-02-28") }))).toEqual([
+            ["2022-03-01", 1000, 0],
+            ["2023-03-01", 1030, 30],
+            ["2024-03-01", 1060.9, 30.9],
+            ["2025-03-01", 1092.73, 31.83],
+        ]);
+    });
+
+    test("INDEX follows the index from the start date to the anniversary", () => {
+        const lease = escalatingLease({
+            escalationType: "INDEX",
+            priceIndex: priceIndex({ "2022-01-01": 100, "2022-06-01": 104, "2023-02-01": 108, "2024-02-01": 105 })
+        });
+
+        expect(timeline(lease)).toEqual([
+            ["2022-03-01", 1000, 0],
+            ["2023-03-01", 1080, 80],
+            ["2024-03-01", 1050, -30],
+        ]);
+    });
+
+    test("the rent stays as it is while the index has no value", () => {
+        const lease = escalatingLease({ escalationType: "INDEX", priceIndex: priceIndex({ "2023-06-01": 100 }) });
+
+        expect(timeline(lease)).toEqual([
+            ["2022-03-01", 1000, 0],
+            ["2023-03-01", 1000, 0],
+            ["2024-03-01", 1000, 0],
+        ]);
+        expect(timeline({ ...lease, priceIndex: null }).map(([, rentalPrice]) => rentalPrice)).toEqual([1000, 1000, 1000]);
+    });
+});
+
+describe("getIndexValue", () => {
+    test("is the latest value published on or before the date", () => {
+        const index = priceIndex({ "2023-02-01": 108, "2022-01-01": 100 });
+
+        expect(getIndexValue(index, new Date("2021-12-31"))).toBeNull();
+        expect(getIndexValue(index, new Date("2022-01-01"))).toBe(100);
+        expect(getIndexValue(index, new Date("2023-01-31"))).toBe(100);
+        expect(getIndexValue(index, new Date("2024-01-01"))).toBe(108);
+    });
+});
+
+describe("getRentAt", () => {
+    const rentTimeline = getRentTimeline(escalatingLease({ escalationType: "FIXED", escalationValue: 50 }));
+
+    test("the rent changes on the anniversary", () => {
+        expect(getRentAt(rentTimeline, new Date("2023-02-28"))).toBe(1000);
+        expect(getRentAt(rentTimeline, new Date("2023-03-01"))).toBe(1050);
+        expect(getRentAt(rentTimeline, new Date("2025-02-01"))).toBe(1100);
+    });
+
+    test("dates before the start date have the rent of the start date", () => {
+        expect(getRentAt(rentTimeline, new Date("2021-01-01"))).toBe(1000);
+        expect(getRentAt([], new Date("2021-01-01"))).toBeNull();
+    });
+});
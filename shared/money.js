@@ -0,0 +1,5 @@
+// Amounts are stored in the unit of their currency, calculations with them round to cents
+
+export function roundCents(amount) {
+    return Math.round(amount * 100) / 100;
+}
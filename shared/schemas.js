@@ -0,0 +1,636 @@
+import {z} from "zod";
+import {zodDateInputPipe, zodNumberInputPipe, zodStringPipe} from "./zodPipes.js";
+import {isValidPhoneNumber} from "react-phone-number-input";
+import {BANK_STATEMENT_FORMATS, CSV_DELIMITERS, DATE_FORMATS, DECIMAL_SEPARATORS} from "./bankStatementPresets.js";
+
+// Schemas of the forms and of the API requests. The client validates forms with them, the server validates
+// request bodies and queries (see server/services/validationService.js). Unknown fields are stripped
+
+// Values of the Prisma enums that can be set through forms
+const REAL_ESTATE_TYPES = ["SINGLE_FAMILY_HOME", "MULTI_FAMILY_HOME", "CONDO", "APARTMENT", "TOWNHOUSE", "LUXURY", "OFFICE", "RETAIL", "INDUSTRIAL", "LAND", "FARM"];
+const LISTING_STATUSES = ["ACTIVE", "INACTIVE", "RENTED", "NOT_RENTED", "RESERVED", "SOLD", "PENDING", "UNKNOWN"];
+const LEASE_STATUSES = ["ACTIVE", "PENDING", "EXPIRED", "TERMINATED"];
+const PAYMENT_FREQUENCIES = ["MONTHLY", "QUARTERLY", "ANNUALLY", "WEEKLY"];
+const PRORATION_METHODS = ["NONE", "ACTUAL_365", "THIRTY_DAY"];
+const ESCALATION_TYPES = ["NONE", "FIXED", "PERCENTAGE", "INDEX"];
+const PAYMENT_STATUSES = ["PENDING", "REPORTED", "PAID", "CANCELLED", "REJECTED"];
+const PAYMENT_SCHEDULE_STATUSES = ["SCHEDULED", "PARTIALLY_PAID", "PAID", "OVERDUE", "WAIVED"];
+const LATE_FEE_TYPES = ["FLAT", "PERCENTAGE"];
+const BREAK_FEE_TYPES = ["NONE", "FIXED", "RENT_PERIODS"];
+const FUTURE_CHARGE_HANDLINGS = ["CANCEL", "WAIVE"];
+const LEASE_PARTY_ROLES = ["PRIMARY", "CO_TENANT", "GUARANTOR", "OCCUPANT"];
+// Parties that are responsible for the rent, only their shares count
+const PAYING_PARTY_ROLES = ["PRIMARY", "CO_TENANT"];
+const CIVIL_STATUSES = ["SINGLE", "MARRIED", "DIVORCED", "WIDOWED", "SEPARATED", "OTHER"];
+const PRIORITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+const MAINTENANCE_STATUSES = ["REPORTED", "OPEN", "SCHEDULED", "IN_PROGRESS", "COMPLETED"];
+// Accounts of the ledger, see server/services/ledgerService.js
+export const LEDGER_ACCOUNTS = ["CASH", "RENT_RECEIVABLE", "DEPOSITS_HELD", "INCOME", "EXPENSES", "OWNER_EQUITY"];
+// Files tenants can attach as proof of a payment, sent base64 encoded
+export const PAYMENT_PROOF_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg"];
+export const MAX_PAYMENT_PROOF_SIZE = 5 * 1024 * 1024;
+// Bank statements are sent as text
+export const MAX_BANK_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+
+export const propertySchema = z.object({
+    title: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a title for the property'})})),
+    description: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a description'})})),
+    lotSize: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    yearBuilt: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    realEstateType: zodStringPipe(z.enum(REAL_ESTATE_TYPES, {errorMap: () => ({message: 'Please select a real estate type'})})),
+    marketPrice: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    street: zodStringPipe(z.string().or(z.null())),
+    city: zodStringPipe(z.string().or(z.null())),
+    state: zodStringPipe(z.string().or(z.null())),
+    zip: zodStringPipe(z.string().or(z.null())),
+    country: zodStringPipe(z.string().or(z.null())),
+    images: z.array(z.string().or(z.null())),
+    units: z.array(z.object({
+        unitNumber: zodStringPipe(z.string().or(z.null())),
+        floor: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        unitSize: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        numOfFloors: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        numOfRooms: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        numOfBedrooms: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        numOfBathrooms: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        garages:  zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        status: zodStringPipe(z.enum(LISTING_STATUSES).or(z.null())),
+        rentalPrice:zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        images: z.array(z.string().or(z.null())),
+    })),
+})
+
+
+export const unitSchema = z.object({
+    unitIdentifier: zodStringPipe(z.string({errorMap: () => ({message: 'The unit identifier is required'})})),
+    unitNumber: zodStringPipe(z.string().or(z.null())),
+    floor: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    unitSize: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    numOfFloors: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    numOfRooms: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    numOfBedrooms: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    numOfBathrooms: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    garages:  zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    status: zodStringPipe(z.enum(LISTING_STATUSES).or(z.null())),
+    rentalPrice:zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+})
+
+export const leaseSchema = z.object({
+    startDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    endDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    rentalPrice:zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    paymentFrequency: zodStringPipe(z.enum(PAYMENT_FREQUENCIES, {errorMap: () => ({message: 'Please select a payment frequency'})})),
+    prorationMethod: zodStringPipe(z.enum(PRORATION_METHODS, {errorMap: () => ({message: 'Please select a proration method'})})).optional(),
+    billingDay: zodNumberInputPipe(z.number().int().min(1, {message: 'Please enter a day between 1 and 28'}).max(28, {message: 'Please enter a day between 1 and 28'}).or(z.null())).optional(),
+    escalationType: zodStringPipe(z.enum(ESCALATION_TYPES, {errorMap: () => ({message: 'Please select an escalation type'})})).optional(),
+    escalationValue: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})}).or(z.null())).optional(),
+    priceIndexId: zodNumberInputPipe(z.number().int().or(z.null())).optional(),
+    status: zodStringPipe(z.enum(LEASE_STATUSES, {errorMap: () => ({message: 'Please select a status'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    unitId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a unit'})}).or(z.number())),
+    specialTerms: zodStringPipe(z.string().or(z.null())),
+    tenantId: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+})
+
+// Tenants on a lease, see LeaseParty in prisma/schema.prisma. There is exactly one primary tenant, the shares of
+// the rent are optional but if they are given, the shares of the primary tenant and the co-tenants add up to 100
+export const leasePartiesSchema = z.array(z.object({
+    tenantId: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please select a tenant.'})}).int().positive()),
+    role: zodStringPipe(z.enum(LEASE_PARTY_ROLES, {errorMap: () => ({message: 'Please select a role'})})),
+    share: zodNumberInputPipe(z.number().min(0, {message: 'Please enter a share between 0 and 100%'}).max(100, {message: 'Please enter a share between 0 and 100%'}).or(z.null())).optional(),
+})).superRefine((parties, ctx) => {
+    if (parties.filter((party) => party.role === "PRIMARY").length !== 1) {
+        ctx.addIssue({code: z.ZodIssueCode.custom, message: 'Please select exactly one primary tenant'});
+    }
+
+    const tenantIds = parties.map((party) => party.tenantId);
+    if (new Set(tenantIds).size !== tenantIds.length) {
+        ctx.addIssue({code: z.ZodIssueCode.custom, message: 'A tenant can only be added to a lease once'});
+    }
+
+    const shares = parties.filter((party) => PAYING_PARTY_ROLES.includes(party.role)).map((party) => party.share);
+    if (shares.some((share) => share !== null && share !== undefined)) {
+        const total = shares.reduce((sum, share) => sum + (share ?? 0), 0);
+
+        if (Math.abs(total - 100) > 0.001) {
+            ctx.addIssue({code: z.ZodIssueCode.custom, message: 'The shares of the primary tenant and the co-tenants have to add up to 100%'});
+        }
+    }
+})
+
+// New leases always belong to a tenant, the primary tenant of the parties (if given) is the tenant of the lease
+export const leaseCreationSchema = z.object({
+    startDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    endDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    rentalPrice: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})})),
+    paymentFrequency: zodStringPipe(z.enum(PAYMENT_FREQUENCIES, {errorMap: () => ({message: 'Please enter a valid payment frequency.'})})),
+    prorationMethod: zodStringPipe(z.enum(PRORATION_METHODS, {errorMap: () => ({message: 'Please select a proration method'})})).optional(),
+    billingDay: zodNumberInputPipe(z.number().int().min(1, {message: 'Please enter a day between 1 and 28'}).max(28, {message: 'Please enter a day between 1 and 28'}).or(z.null())).optional(),
+    escalationType: zodStringPipe(z.enum(ESCALATION_TYPES, {errorMap: () => ({message: 'Please select an escalation type'})})).optional(),
+    escalationValue: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})}).or(z.null())).optional(),
+    priceIndexId: zodNumberInputPipe(z.number().int().or(z.null())).optional(),
+    tenantId: z.number({errorMap: () => ({message: 'Please select a tenant.'})}),
+    parties: leasePartiesSchema.optional(),
+    unitId: z.number({errorMap: () => ({message: 'Please select a unit.'})}),
+    // Continues the lease of the unit that runs at its start, it may overlap that lease
+    plannedSuccessor: z.boolean().optional(),
+    status: zodStringPipe(z.enum(LEASE_STATUSES, {errorMap: () => ({message: 'Please select a status'})})),
+    notes: zodStringPipe(z.string().or(z.null())).optional(),
+    specialTerms: zodStringPipe(z.string().or(z.null())).optional(),
+}).refine((lease) => !lease.parties || lease.parties.some((party) => party.role === "PRIMARY" && party.tenantId === lease.tenantId), {
+    message: 'The primary tenant has to be the tenant of the lease',
+    path: ["parties"],
+})
+
+// Terms of a lease renewal, see server/services/renewalService.js
+export const renewalOfferSchema = z.object({
+    startDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    endDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    rentalPrice: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})}).nonnegative()),
+    paymentFrequency: zodStringPipe(z.enum(PAYMENT_FREQUENCIES, {errorMap: () => ({message: 'Please select a payment frequency'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+})
+
+// Late fee policy of a lease or property, see server/services/lateFeeService.js
+export const lateFeePolicySchema = z.object({
+    graceDays: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a number of days.'})}).int().nonnegative({message: 'Please enter a number of days.'})),
+    feeType: zodStringPipe(z.enum(LATE_FEE_TYPES, {errorMap: () => ({message: 'Please select a fee type'})})),
+    feeAmount: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid amount.'})}).positive({message: 'Please enter a valid amount.'})),
+    dailyAmount: zodNumberInputPipe(z.number().nonnegative({message: 'Please enter a valid amount.'}).or(z.null())),
+    maxAmount: zodNumberInputPipe(z.number().positive({message: 'Please enter a valid amount.'}).or(z.null())),
+})
+
+export const depositSchema = z.object({
+    amount: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid amount.'})}).positive({message: 'Please enter a valid amount.'})),
+    receivedDate: zodDateInputPipe(z.string().or(z.null())),
+    holdingAccount: zodStringPipe(z.string().or(z.null())),
+    interestRate: zodNumberInputPipe(z.number().min(0, {message: 'Please enter a rate between 0 and 100%'}).max(100, {message: 'Please enter a rate between 0 and 100%'}).or(z.null())),
+    notes: zodStringPipe(z.string().or(z.null())),
+})
+
+// Move-out settlement of a deposit, see server/services/depositService.js
+export const depositSettlementSchema = z.object({
+    moveOutDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    deductions: z.array(z.object({
+        description: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a description'})})),
+        amount: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid amount.'})}).positive({message: 'Please enter a valid amount.'})),
+        expenseId: zodNumberInputPipe(z.number().int().or(z.null())).optional(),
+        maintenanceRequestId: zodNumberInputPipe(z.number().int().or(z.null())).optional(),
+    })),
+    notes: zodStringPipe(z.string().or(z.null())).optional(),
+})
+
+// Early termination of a lease, see server/services/terminationService.js
+export const leaseTerminationSchema = z.object({
+    effectiveDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    reason: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a reason'})})),
+    breakFeeType: zodStringPipe(z.enum(BREAK_FEE_TYPES, {errorMap: () => ({message: 'Please select a break fee'})})),
+    breakFeeValue: zodNumberInputPipe(z.number().positive({message: 'Please enter a valid amount.'}).or(z.null())),
+    futureCharges: zodStringPipe(z.enum(FUTURE_CHARGE_HANDLINGS, {errorMap: () => ({message: 'Please select what happens to later charges'})})),
+}).refine((termination) => termination.breakFeeType === "NONE" || termination.breakFeeValue, {
+    message: 'Please enter the break fee',
+    path: ["breakFeeValue"],
+})
+
+export const tenantSchema = z.object({
+    firstName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a first name'})})),
+    lastName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a last name'})})),
+    email: zodStringPipe(z.string().or(z.null())),
+    phone: zodStringPipe(z.string().refine(isValidPhoneNumber, { message: "Invalid phone number" }).or(z.null())),
+    civilStatus: zodStringPipe(z.enum(CIVIL_STATUSES).or(z.null())),
+    occupation: zodStringPipe(z.string().or(z.null())),
+    income: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    //creditScore: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    leases: z.array(z.object({
+        startDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+        endDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+        rentalPrice:zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+        paymentFrequency: zodStringPipe(z.enum(PAYMENT_FREQUENCIES, {errorMap: () => ({message: 'Please select a payment frequency'})})),
+        status: zodStringPipe(z.enum(LEASE_STATUSES, {errorMap: () => ({message: 'Please select a status'})})),
+        notes: zodStringPipe(z.string().or(z.null())),
+        unitId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a unit'})}).or(z.number())),
+    })),
+    leaseId: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    unitId: zodNumberInputPipe(z.string().or(z.null()).or(z.number()).or(z.null())),
+})
+
+export const tenantProfileSchema = z.object({
+    firstName: zodStringPipe(z.string({errorMap: () => ({message: 'First name is required.'})})),
+    lastName: zodStringPipe(z.string({errorMap: () => ({message: 'Last name is required.'})})),
+    email: zodStringPipe(z.string().email().or(z.null())),
+    phone: zodStringPipe(z.string().refine(isValidPhoneNumber, { message: "Invalid phone number" }).or(z.null())),
+    civilStatus: zodStringPipe(z.enum(CIVIL_STATUSES).or(z.null())),
+    occupation: zodStringPipe(z.string().or(z.null())),
+    income: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})}).or(z.null())),
+    creditScore: zodNumberInputPipe(z.number().positive('Number must be positive')).or(z.null()),
+})
+
+export const userSchema = z.object({
+    firstName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a first name'})})),
+    lastName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a last name'})})),
+    email: zodStringPipe(z.string().email({errorMap: () => ({message: 'Please enter a valid email'})})),
+    phone: zodStringPipe(z.string().refine(isValidPhoneNumber, { message: "Invalid phone number" }).or(z.null())),
+    dob: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    bio: zodStringPipe(z.string().or(z.null())),
+    company: zodStringPipe(z.string().or(z.null())),
+    title: zodStringPipe(z.string().or(z.null())),
+    website: zodStringPipe(z.string().url({errorMap: () => ({message: 'Please enter a valid URL'})}).or(z.null())),
+    street: zodStringPipe(z.string().or(z.null())),
+    city: zodStringPipe(z.string().or(z.null())),
+    state: zodStringPipe(z.string().or(z.null())),
+    zip: zodStringPipe(z.string().or(z.null())),
+    country: zodStringPipe(z.string().or(z.null())),
+})
+
+
+export const paymentSchema = z.object({
+    amount: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please enter the payment amount'})}).or(z.number())),
+    date: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date'})})),
+    status: zodStringPipe(z.enum(PAYMENT_STATUSES, {errorMap: () => ({message: 'Please select a status'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    paymentMethod: zodStringPipe(z.string().or(z.null())),
+    leaseId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a lease'})}).or(z.number())),
+    // Party of the lease the payment is attributed to
+    tenantId: zodNumberInputPipe(z.number().int().positive().or(z.null())).optional(),
+})
+
+// Paid payments are allocated to the oldest open charges of the lease, see shared/allocation.js
+export const paymentCreationSchema = z.object({
+    date: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
+    amount:  zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    status: zodStringPipe(z.enum(PAYMENT_STATUSES, {errorMap: () => ({message: 'Please select a valid status'})})),
+    paymentMethod: zodStringPipe(z.string().or(z.null())),
+    leaseId: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please select a lease.'})})),
+    tenantId: zodNumberInputPipe(z.number().int().positive().or(z.null())).optional(),
+})
+
+export const leasePaymentScheduleSchema = z.object({
+    dueDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date'})})),
+    amountDue: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please enter the payment amount'})}).or(z.number())),
+    status: zodStringPipe(z.enum(PAYMENT_SCHEDULE_STATUSES, {errorMap: () => ({message: 'Please select a status'})})),
+    leaseId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a lease'})}).or(z.number())),
+})
+
+export const maintenanceReportSchema = z.object({
+    title: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a title'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    status: zodStringPipe(z.enum(MAINTENANCE_STATUSES, {errorMap: () => ({message: 'Please select a status'})})),
+    priority: zodStringPipe(z.enum(PRIORITIES).or(z.null())),
+    category: zodStringPipe(z.string().or(z.null())),
+    reporterId: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    unitId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a unit'})}).or(z.number())),
+})
+
+export const expenseSchema = z.object({
+    title: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a title'})})),
+    amount: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please enter the expense amount'})}).or(z.number())),
+    date: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    description: zodStringPipe(z.string().or(z.null())),
+    category: zodStringPipe(z.string().or(z.null())),
+    unitId: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    leaseId: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+    maintenanceRequestId: zodNumberInputPipe(z.string().or(z.null()).or(z.number())),
+})
+// Manual transaction of the ledger, e.g. an owner contribution. The amount is debited to one account and credited to
+// the other, see server/services/ledgerService.js
+export const ledgerTransactionSchema = z.object({
+    date: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date'})})),
+    description: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a description'})})),
+    debitAccount: zodStringPipe(z.enum(LEDGER_ACCOUNTS, {errorMap: () => ({message: 'Please select an account'})})),
+    creditAccount: zodStringPipe(z.enum(LEDGER_ACCOUNTS, {errorMap: () => ({message: 'Please select an account'})})),
+    amount: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid amount.'})}).positive({message: 'Please enter a valid amount.'})),
+    currency: zodStringPipe(z.string().length(3, {message: 'Please select a currency'}).or(z.null())).optional(),
+    leaseId: zodNumberInputPipe(z.number().int().positive().or(z.null())).optional(),
+}).refine((transaction) => transaction.debitAccount !== transaction.creditAccount, {
+    message: 'Please select two different accounts',
+    path: ["creditAccount"],
+})
+
+export const paymentProofSchema = z.object({
+    name: z.string().max(255),
+    mimeType: z.enum(PAYMENT_PROOF_MIME_TYPES, {errorMap: () => ({message: 'Please attach a PDF, PNG or JPEG file'})}),
+    content: z.string().max(Math.ceil(MAX_PAYMENT_PROOF_SIZE / 3) * 4, {message: 'The file can be at most 5 MB'}),
+})
+
+export const reportedPaymentSchema = z.object({
+    amount: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter the payment amount'})}).positive({message: 'Please enter a valid amount.'})),
+    date: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date'})})),
+    paymentMethod: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter how you paid'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    leaseId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a lease'})}).or(z.number())),
+    proof: paymentProofSchema.or(z.null()).optional(),
+})
+
+// Approval or rejection of a reported payment, the note is sent to the tenant
+export const paymentReviewSchema = z.object({
+    note: zodStringPipe(z.string().or(z.null())).optional(),
+})
+
+// Split of a bank credit over the charges of the payment schedule it pays, see
+// server/services/bankReconciliationService.js
+export const bankTransactionConfirmSchema = z.object({
+    matches: z.array(z.object({
+        scheduleId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a charge'})}).or(z.number())),
+        amount: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid amount.'})}).positive({message: 'Please enter a valid amount.'})),
+    })).min(1, {message: 'Please match the credit to at least one charge'}),
+})
+
+// Period of an account statement, it defaults to the start of the lease until today, see
+// server/services/statementService.js
+export const statementPeriodSchema = z.object({
+    from: zodDateInputPipe(z.string().or(z.null())).optional(),
+    to: zodDateInputPipe(z.string().or(z.null())).optional(),
+}).refine((period) => !period.from || !period.to || new Date(period.from) <= new Date(period.to), {
+    message: 'The end has to be after the start',
+    path: ["to"],
+})
+
+export const tenantMaintenanceRequestSchema = z.object({
+    title: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a title'})})),
+    notes: zodStringPipe(z.string().or(z.null())),
+    priority: zodStringPipe(z.enum(PRIORITIES).or(z.null())),
+    category: zodStringPipe(z.string().or(z.null())),
+    unitId: zodNumberInputPipe(z.string({errorMap: () => ({message: 'Please select a unit'})}).or(z.number())),
+})
+
+// Same complexity rules as the sign up form: at least 8 characters with an uppercase, a lowercase letter and a number
+export const passwordSchema = z.string()
+    .min(8, {message: 'Password must be at least 8 characters long'})
+    .refine((password) => /[A-Z]/.test(password) && /[a-z]/.test(password) && /[0-9]/.test(password), {
+        message: "Please use at least one uppercase, one lowercase letter and one number",
+    })
+
+export const acceptInvitationSchema = z.object({
+    firstName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter your first name'})})),
+    lastName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter your last name'})})),
+    phone: zodStringPipe(z.string().refine(isValidPhoneNumber, { message: "Invalid phone number" }).or(z.null())),
+    password: passwordSchema,
+})
+
+export const passwordResetRequestSchema = z.object({
+    email: z.string().email({message: 'Please enter a valid email address'}),
+})
+
+export const passwordResetSchema = z.object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+}).refine(({password, confirmPassword}) => password === confirmPassword, {
+    path: ["confirmPassword"],
+    message: "Passwords do not match",
+})
+
+export const loginSchema = z.object({
+    email: z.string().email( {message: 'Please enter a valid email address'}),
+    password: z.string().min(8, {message: 'Password must be at least 8 characters long'}),
+})
+
+export const signUpSchema = z.object({
+    email: z.string().email( {message: 'Please enter a valid email address'}),
+    password: passwordSchema,
+    first_name: z.string().min(1, {message: 'Please enter your first name'}),
+    last_name: z.string().min(1, {message: 'Please enter your last name'}),
+})
+
+export const settingsSchema = z.object({
+    currencyCode: z.string().or(z.null()).or(z.undefined()),
+})
+
+export const emailChangeSchema = z.object({
+    email: z.string().email({message: 'Please enter a valid email address'}),
+    password: z.string().min(1, {message: 'Please enter your current password'}),
+})
+
+export const apiTokenSchema = z.object({
+    name: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a name for the token'})})),
+    scopes: z.array(z.string()).min(1, {message: 'Please select at least one scope'}),
+    expiresInDays: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please select an expiration'})})),
+})
+
+export const organizationSchema = z.object({
+    name: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a name for the organization'})})),
+    renewalNoticeDays: zodNumberInputPipe(z.number().int().min(1, {message: 'Please enter at least 1 day'}).max(365, {message: 'Please enter at most 365 days'})),
+    renewalRentIncrease: zodNumberInputPipe(z.number().min(-100, {message: 'Please enter at least -100%'}).max(100, {message: 'Please enter at most 100%'})),
+})
+
+export const memberInvitationSchema = z.object({
+    email: z.string().email({message: 'Please enter a valid email address'}),
+    role: z.enum(["OWNER", "MANAGER", "BOOKKEEPER", "READ_ONLY"], {errorMap: () => ({message: 'Please select a role'})}),
+})
+
+export const joinOrganizationSchema = z.object({
+    firstName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter your first name'})})),
+    lastName: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter your last name'})})),
+    password: passwordSchema,
+})
+
+// Users that already have an account only confirm with their current password
+export const joinOrganizationWithAccountSchema = z.object({
+    password: z.string().min(1, {message: 'Please enter your password'}),
+})
+
+// Six digit code of the authenticator app
+export const twoFactorCodeSchema = z.object({
+    code: z.string().trim().regex(/^\d{6}$/, {message: 'Please enter the 6 digit code of your authenticator app'}),
+})
+
+// The second login step also accepts recovery codes
+export const twoFactorLoginSchema = z.object({
+    code: z.string().trim().min(6, {message: 'Please enter a code of your authenticator app or a recovery code'}),
+})
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+    password: z.string().min(1, {message: 'Please enter your current password'}),
+})
+
+
+// Requests of the API. Form schemas are used as they are where the form data is sent unchanged,
+// the schemas below cover bodies that differ from their form
+
+const idSchema = zodNumberInputPipe(z.number().int().positive());
+
+const withId = (schema) => schema.extend({id: idSchema});
+
+const idListSchema = z.array(z.object({id: idSchema}));
+
+export const twoFactorLoginRequestSchema = twoFactorLoginSchema.extend({
+    twoFactorToken: z.string({errorMap: () => ({message: 'Please log in again'})}),
+})
+
+// Tokens of the links sent by email
+export const emailTokenParamsSchema = z.object({
+    token: z.string().regex(/^[0-9a-f]{64}$/, {message: 'The link is invalid'}),
+})
+
+// The token of the link is the only input
+export const emailChangeConfirmRequestSchema = z.object({})
+
+export const refreshTokenRequestSchema = z.object({
+    refreshToken: z.string().nullish(),
+})
+
+// Email changes and credentials have their own confirmed flows
+export const userUpdateRequestSchema = userSchema.omit({email: true}).merge(settingsSchema).partial();
+
+export const organizationUpdateRequestSchema = organizationSchema.extend({
+    requireTwoFactor: z.boolean(),
+}).partial()
+
+export const memberUpdateRequestSchema = memberInvitationSchema.pick({role: true});
+
+// New members enter their name, existing users only their password
+export const memberInvitationAcceptRequestSchema = joinOrganizationWithAccountSchema.extend({
+    firstName: zodStringPipe(z.string().or(z.null())).optional(),
+    lastName: zodStringPipe(z.string().or(z.null())).optional(),
+})
+
+export const messageRequestSchema = z.object({
+    senderId: idSchema,
+    receiverId: idSchema,
+    content: z.string().min(1, {message: 'Please enter a message'}),
+    subject: zodStringPipe(z.string().or(z.null())).optional(),
+})
+
+export const currencyRequestSchema = z.object({
+    currency: z.string({errorMap: () => ({message: 'Please select a currency'})}),
+})
+
+// Images are sent as objects, the images of the units are not stored
+export const propertyRequestSchema = propertySchema.extend({
+    images: z.array(z.object({imageUrl: z.string().min(1)})),
+    units: z.array(propertySchema.shape.units.element.omit({images: true})),
+})
+
+export const unitUpdateRequestSchema = unitSchema.partial();
+
+// Null removes the tenant of the unit
+export const unitTenantRequestSchema = z.object({
+    tenantId: zodNumberInputPipe(z.number().int().positive().or(z.null())),
+})
+
+export const leaseFilterRequestSchema = z.object({
+    unitId: idSchema.optional(),
+    tenantId: idSchema.optional(),
+})
+
+// Changes of the payment schedule the new terms cause have to be confirmed and dates that overlap other leases of the
+// unit are only accepted for a planned successor, see server/controllers/leaseController.js
+export const leaseUpdateRequestSchema = leaseSchema.partial().extend({
+    confirmScheduleChanges: z.boolean().optional(),
+    plannedSuccessor: z.boolean().optional(),
+});
+
+// Bulk changes can not move leases to other dates or units or change their rent, those are checked for overlaps and
+// reconcile the payment schedule one lease at a time
+export const leaseBulkUpdateRequestSchema = z.array(withId(leaseSchema.pick({status: true, notes: true, specialTerms: true}).partial()));
+
+export const leaseBulkDeleteRequestSchema = idListSchema;
+
+export const lateFeePolicyRequestSchema = lateFeePolicySchema;
+
+export const leasePartiesRequestSchema = z.object({
+    parties: leasePartiesSchema,
+});
+
+export const leaseTerminationRequestSchema = leaseTerminationSchema;
+
+export const depositCreationRequestSchema = depositSchema.extend({
+    leaseId: idSchema,
+});
+
+export const depositUpdateRequestSchema = depositSchema.partial();
+
+export const depositSettlementRequestSchema = depositSettlementSchema;
+
+// Terms that are not given are proposed by the server
+export const renewalOfferRequestSchema = renewalOfferSchema.partial();
+
+// The new lease may continue the lease of its unit, see server/controllers/tenantController.js
+export const tenantCreationRequestSchema = tenantSchema.omit({leases: true, leaseId: true}).extend({
+    lease: tenantSchema.shape.leases.element.extend({
+        plannedSuccessor: z.boolean().optional(),
+    }).optional(),
+})
+
+export const tenantCreationQuerySchema = z.object({
+    leaseId: idSchema.optional(),
+})
+
+export const tenantUpdateRequestSchema = tenantProfileSchema.partial();
+
+// Payments can name the charges they pay, the rest of a paid payment is allocated to the oldest open charges
+export const paymentRequestSchema = paymentSchema.partial({notes: true, paymentMethod: true}).extend({
+    allocations: z.array(z.object({
+        scheduleId: idSchema,
+        amount: zodNumberInputPipe(z.number().positive()),
+    })).optional(),
+})
+
+export const paymentUpdateRequestSchema = paymentSchema.partial();
+
+export const paymentBulkCreationRequestSchema = z.array(paymentRequestSchema);
+
+export const paymentBulkUpdateRequestSchema = z.array(withId(paymentUpdateRequestSchema));
+
+export const paymentBulkDeleteRequestSchema = idListSchema;
+
+export const paymentScheduleUpdateRequestSchema = leasePaymentScheduleSchema.partial();
+
+export const paymentScheduleBulkUpdateRequestSchema = z.array(withId(paymentScheduleUpdateRequestSchema));
+
+export const paymentScheduleBulkDeleteRequestSchema = idListSchema;
+
+// Reports are in one currency, see server/services/ledgerService.js
+export const ledgerReportRequestSchema = z.object({
+    currency: z.string().length(3).optional(),
+    propertyId: idSchema.optional(),
+    from: zodDateInputPipe(z.string()).optional(),
+    to: zodDateInputPipe(z.string()).optional(),
+})
+
+export const ledgerTransactionFilterRequestSchema = ledgerReportRequestSchema.extend({
+    leaseId: idSchema.optional(),
+})
+
+export const ledgerTransactionRequestSchema = ledgerTransactionSchema;
+
+// Columns are named by their header or by their position, see shared/bankStatementPresets.js
+const bankStatementColumnSchema = z.string().trim().min(1).or(z.number().int().min(0));
+
+export const bankStatementMappingSchema = z.object({
+    delimiter: z.enum(CSV_DELIMITERS),
+    header: z.boolean(),
+    dateFormat: z.enum(DATE_FORMATS),
+    decimalSeparator: z.enum(DECIMAL_SEPARATORS),
+    columns: z.object({
+        date: bankStatementColumnSchema,
+        amount: bankStatementColumnSchema.optional(),
+        credit: bankStatementColumnSchema.optional(),
+        counterparty: bankStatementColumnSchema.optional(),
+        reference: bankStatementColumnSchema.optional(),
+        currency: bankStatementColumnSchema.optional(),
+    }).refine((columns) => columns.amount !== undefined || columns.credit !== undefined, {
+        message: 'Please map the amount or the credit column',
+    }),
+})
+
+export const bankStatementImportSchema = z.object({
+    fileName: z.string().max(255),
+    format: z.enum(BANK_STATEMENT_FORMATS),
+    preset: z.string().max(50).optional(),
+    mapping: bankStatementMappingSchema.optional(),
+    content: z.string().min(1, {message: 'Please select a statement file'}).max(MAX_BANK_STATEMENT_SIZE, {message: 'The file can be at most 5 MB'}),
+}).refine((statement) => statement.format !== "CSV" || statement.preset || statement.mapping, {
+    message: 'Please select the bank of the statement or map its columns',
+    path: ["preset"],
+})
+
+export const bankTransactionFilterRequestSchema = z.object({
+    status: z.enum(["UNMATCHED", "SUGGESTED", "CONFIRMED", "IGNORED"]).optional(),
+})
+
+export const bankTransactionConfirmRequestSchema = bankTransactionConfirmSchema;
+
+export const statementRequestSchema = statementPeriodSchema;
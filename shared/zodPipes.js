@@ -0,0 +1,66 @@
+import {z} from "zod";
+
+// Zod pipes for form inputs, shared by the forms of the client and the request validation of the server.
+// Inputs arrive as strings, the pipes turn them into the values that are stored
+
+
+// Turns empty strings into null
+export const zodStringPipe = (zodPipe) =>
+    z
+        .string()
+        .transform((value) => (value === '' ? null : value))
+        .nullable()
+        .pipe(zodPipe);
+
+// ISO string of the date, dates without a time are UTC midnight like the server stores them
+export function getDateTimeString(date) {
+    // If date is date object, and has time, return it as string
+    if (date instanceof Date && date.toISOString().includes('T')) {
+        let utcDate = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()));
+        return utcDate.toISOString();
+    }
+    // If date is string, and has time, return it as is
+    if (typeof date === 'string' && date.includes('T')) {
+        return date;
+    }
+    // If date is date object, and has no time, return it as string with time
+    if (date instanceof Date) {
+        let utcDate = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+        return utcDate.toISOString();
+    }
+    // If date is string, and has no time, return it as is with time
+    if (typeof date === 'string') {
+        return date + 'T00:00:00Z';
+    }
+}
+
+
+// Accepts dates in format "yyyy-mm-dd" or if empty string, returns null, also if no time is provided, it will default to 00:00:00
+export const zodDateInputPipe = (zodPipe) =>
+    z
+        .string()
+        .or(z.date())
+        .transform((value) => (value === '' ? null : value))
+        .nullable()
+        .refine((value) => value === null || !isNaN(Date.parse(value)), {
+            message: 'Invalid input',
+        })
+        //.transform((value) => (value === null ? null : new Date(value)))
+        .transform((value) => (value === null ? null :
+            getDateTimeString(value) )
+        )
+        .pipe(zodPipe);
+
+
+// Transforms a Zod string into a nullable number (null if empty)
+export const zodNumberInputPipe = (zodPipe) =>
+    z
+        .string()
+        .or(z.number())
+        .transform((value) => (value === '' ? null : value))
+        .nullable()
+        .refine((value) => value === null || !isNaN(Number(value)), {
+            message: 'Invalid input',
+        })
+        .transform((value) => (value === null ? null : Number(value)))
+        .pipe(zodPipe);
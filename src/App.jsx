@@ -5,6 +5,11 @@ import LoginCard from "./components/auth/LoginCard.js";
 import {Provider, useSelector} from "react-redux";
 import {store} from "./services/store/store.js";
 import {SignUpCard} from "./components/auth/SignUpCard.tsx";
+import AcceptInvitationCard from "./components/auth/AcceptInvitationCard.js";
+import AcceptOrganizationInvitationCard from "./components/auth/AcceptOrganizationInvitationCard.js";
+import ForgotPasswordCard from "./components/auth/ForgotPasswordCard.js";
+import ResetPasswordCard from "./components/auth/ResetPasswordCard.js";
+import ConfirmEmailCard from "./components/auth/ConfirmEmailCard.js";
 import Navbar from "./components/nav/Navbar.jsx";
 import {TooltipProvider} from "./components/ui/tooltip.tsx";
 import {
@@ -21,7 +26,10 @@ import {
     PropertyCreationPage,
     TenantCreationPage,
     AccountPage,
-    MessagesPage, MaintenancePage
+    MessagesPage, MaintenancePage,
+    PortalHomePage,
+    PortalPaymentsPage,
+    PortalMaintenancePage
 } from "./pages/WrappedPages.js";
 import {useSocket} from "./services/hooks/useSocket.js";
 import SocketContext from "./services/contexts/SocketContext.js";
@@ -48,20 +56,38 @@ function App() {
 
 const AppContent = () => {
     const location = useLocation();
-    const showNavbar = location.pathname !== '/login' && location.pathname !== '/signup';
+    // Pages that are reachable without being logged in
+    const isPublicPage = ['/login', '/signup', '/forgot-password'].includes(location.pathname)
+        || ['/invite/', '/join/', '/reset-password/', '/confirm-email/'].some((path) => location.pathname.startsWith(path));
+    const showNavbar = !isPublicPage;
 
     const token = useSelector(state => state.authSlice.accessToken)
     const socket = useSocket(token);
 
+    // Tenants only get access to the pages of the tenant portal
+    const isTenant = useSelector(state => state.authSlice.userInfo?.role) === "TENANT";
+
     return (
         <SocketContext.Provider value={socket}>
             <TooltipProvider>
-                {showNavbar && (<Navbar>
+                {showNavbar && isTenant && (<Navbar>
+                    <Routes>
+                        <Route path="/" element={<PortalHomePage/>} />
+                        <Route path="*" element={<NotFound/>} />
+                        <Route path="/account"  element={<AccountPage/>} />
+                        <Route path="/settings"  element={<AccountPage/>} />
+                        <Route path="/payments" element={<PortalPaymentsPage/>} />
+                        <Route path="/maintenance" element={<PortalMaintenancePage/>}/>
+                        <Route path="/messages" element={<MessagesPage/>}/>
+                    </Routes>
+                </Navbar>)}
+                {showNavbar && !isTenant && (<Navbar>
                     <Routes>
                         <Route path="/" element={<HomePage/>} />
                         <Route path="*" element={<NotFound/>} />
                         <Route path="/account"  element={<AccountPage/>} />
                         <Route path="/settings"  element={<AccountPage/>} />
+                        <Route path="/organization"  element={<AccountPage/>} />
                         <Route path="/properties/create" element={<PropertyCreationPage/>} />
                         <Route path="/properties/:id" element={<PropertyDetailPage/>} />
                         <Route path="/properties" element={<PropertiesPage/>} />
@@ -81,6 +107,11 @@ const AppContent = () => {
                     <Routes>
                         <Route path="/login" element={<LoginCard/>} />
                         <Route path="/signup" element={<SignUpCard/>}/>
+                        <Route path="/invite/:token" element={<AcceptInvitationCard/>}/>
+                        <Route path="/join/:token" element={<AcceptOrganizationInvitationCard/>}/>
+                        <Route path="/forgot-password" element={<ForgotPasswordCard/>}/>
+                        <Route path="/reset-password/:token" element={<ResetPasswordCard/>}/>
+                        <Route path="/confirm-email/:token" element={<ConfirmEmailCard/>}/>
                     </Routes>
                 )}
             </TooltipProvider>
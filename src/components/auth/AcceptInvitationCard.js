@@ -0,0 +1,141 @@
+import {useEffect} from "react";
+import {useParams, useNavigate} from "react-router-dom";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {AiFillRocket} from "react-icons/ai";
+import {Card, CardContent, CardHeader} from "../ui/card.tsx";
+import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {useAcceptInvitationMutation, useGetInvitationQuery, useLoginMutation} from "../../services/api/authApi.js";
+import {acceptInvitationSchema} from "../../../shared/schemas.js";
+
+// Landing page of the invitation link sent to tenants, creates their account and logs them in
+const AcceptInvitationCard = () => {
+    const {token} = useParams();
+    const navigate = useNavigate();
+
+    const {data: invitation, isLoading: isLoadingInvitation, isError} = useGetInvitationQuery(token);
+    const [acceptInvitation, {isLoading: isAccepting}] = useAcceptInvitationMutation();
+    const [login, {isLoading: isLoggingIn}] = useLoginMutation();
+
+    const form = useForm({
+        resolver: zodResolver(acceptInvitationSchema),
+        defaultValues: {
+            firstName: '',
+            lastName: '',
+            phone: '',
+            password: '',
+        }
+    })
+
+    // Prefill with the data the realtor entered
+    useEffect(() => {
+        if (invitation?.data) {
+            form.reset({
+                firstName: invitation.data.firstName ?? '',
+                lastName: invitation.data.lastName ?? '',
+                phone: invitation.data.phone ?? '',
+                password: '',
+            })
+        }
+    }, [invitation, form]);
+
+    function onSubmit(data) {
+        acceptInvitation({token, bodyData: data}).then((res) => {
+            if (res.data) {
+                login({email: res.data.data.email, password: data.password}).then((res) => {
+                    if (res.data) {
+                        navigate("/")
+                    }
+                })
+            }
+        })
+    }
+
+    return (
+        <div className="flex justify-center items-center min-h-screen rounded-xl shadow-inner">
+            <Card className=" shadow-2xl flex w-fit flex-col p-5">
+                <CardHeader className="flex justify-center items-center py-10">
+                    <AiFillRocket className="w-12 h-12"/>
+                    <h1 className="text-3xl">Welcome!</h1>
+                    <p className="text-muted-foreground text-center">
+                        {isError ?
+                            "This invitation is invalid or has expired, please ask your realtor for a new one."
+                            :
+                            "Your realtor invited you to Realtor Rocket, complete your details to create your account."
+                        }
+                    </p>
+                </CardHeader>
+                <CardContent className="w-[275px] md:w-[350px]" hidden={isError}>
+                    <Form {...form} >
+                        <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
+                            <FormItem>
+                                <FormLabel>E-Mail</FormLabel>
+                                <Input value={invitation?.data?.email ?? ''} disabled />
+                            </FormItem>
+                            <FormField
+                                control={form.control}
+                                name="firstName"
+                                render={({field}) => (
+                                    <FormItem >
+                                        <FormLabel>First Name</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="John" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="lastName"
+                                render={({field}) => (
+                                    <FormItem >
+                                        <FormLabel>Family Name</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Doe" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="phone"
+                                render={({field}) => (
+                                    <FormItem >
+                                        <FormLabel>Phone</FormLabel>
+                                        <FormControl>
+                                            <Input type="phone" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="password"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Password</FormLabel>
+                                        <FormControl>
+                                            <Input type="password" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <Button type="submit" variant="dark" isLoading={isLoadingInvitation || isAccepting || isLoggingIn}>
+                                Create Account
+                            </Button>
+                        </form>
+                    </Form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
+
+export default AcceptInvitationCard;
@@ -0,0 +1,127 @@
+import {useParams, useNavigate} from "react-router-dom";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {AiFillRocket} from "react-icons/ai";
+import {Card, CardContent, CardHeader} from "../ui/card.tsx";
+import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {useLoginMutation} from "../../services/api/authApi.js";
+import {
+    useAcceptMemberInvitationMutation,
+    useGetMemberInvitationQuery
+} from "../../services/api/organizationApi.js";
+import {joinOrganizationSchema, joinOrganizationWithAccountSchema} from "../../../shared/schemas.js";
+import {OrganizationRole} from "../../utils/magicNumbers.js";
+
+// Landing page of the link sent to new organization members. Existing users confirm with their password,
+// everybody else creates an account. Afterwards the user is logged in and works in the joined organization
+const AcceptOrganizationInvitationCard = () => {
+    const {token} = useParams();
+    const navigate = useNavigate();
+
+    const {data: invitation, isLoading: isLoadingInvitation, isError} = useGetMemberInvitationQuery(token);
+    const [acceptInvitation, {isLoading: isAccepting}] = useAcceptMemberInvitationMutation();
+    const [login, {isLoading: isLoggingIn}] = useLoginMutation();
+
+    const hasAccount = invitation?.data?.hasAccount;
+
+    const form = useForm({
+        resolver: zodResolver(hasAccount ? joinOrganizationWithAccountSchema : joinOrganizationSchema),
+        defaultValues: {
+            firstName: '',
+            lastName: '',
+            password: '',
+        }
+    })
+
+    function onSubmit(data) {
+        acceptInvitation({token, bodyData: data}).then((res) => {
+            if (res.data) {
+                localStorage.setItem('organizationId', res.data.data.organizationId);
+                login({email: res.data.data.email, password: data.password}).then((res) => {
+                    if (res.data) {
+                        navigate("/")
+                    }
+                })
+            }
+        })
+    }
+
+    return (
+        <div className="flex justify-center items-center min-h-screen rounded-xl shadow-inner">
+            <Card className=" shadow-2xl flex w-fit flex-col p-5">
+                <CardHeader className="flex justify-center items-center py-10">
+                    <AiFillRocket className="w-12 h-12"/>
+                    <h1 className="text-3xl">Welcome!</h1>
+                    <p className="text-muted-foreground text-center">
+                        {isError ?
+                            "This invitation is invalid or has expired, please ask for a new one."
+                            :
+                            `You have been invited to join ${invitation?.data?.organization ?? "an organization"} as ${OrganizationRole[invitation?.data?.role] ?? "member"}.`
+                        }
+                    </p>
+                </CardHeader>
+                <CardContent className="w-[275px] md:w-[350px]" hidden={isError}>
+                    <Form {...form} >
+                        <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
+                            <FormItem>
+                                <FormLabel>E-Mail</FormLabel>
+                                <Input value={invitation?.data?.email ?? ''} disabled />
+                            </FormItem>
+                            {!hasAccount && (
+                                <>
+                                    <FormField
+                                        control={form.control}
+                                        name="firstName"
+                                        render={({field}) => (
+                                            <FormItem >
+                                                <FormLabel>First Name</FormLabel>
+                                                <FormControl>
+                                                    <Input placeholder="John" {...field} />
+                                                </FormControl>
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="lastName"
+                                        render={({field}) => (
+                                            <FormItem >
+                                                <FormLabel>Family Name</FormLabel>
+                                                <FormControl>
+                                                    <Input placeholder="Doe" {...field} />
+                                                </FormControl>
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+                                </>
+                            )}
+                            <FormField
+                                control={form.control}
+                                name="password"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>{hasAccount ? "Your Password" : "Password"}</FormLabel>
+                                        <FormControl>
+                                            <Input type="password" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <Button type="submit" variant="dark" isLoading={isLoadingInvitation || isAccepting || isLoggingIn}>
+                                {hasAccount ? "Join Organization" : "Create Account"}
+                            </Button>
+                        </form>
+                    </Form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
+
+export default AcceptOrganizationInvitationCard;
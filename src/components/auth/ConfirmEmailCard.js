@@ -0,0 +1,50 @@
+import {useNavigate, useParams} from "react-router-dom";
+import {AiFillRocket} from "react-icons/ai";
+import {Card, CardContent, CardHeader} from "../ui/card.tsx";
+import {Button} from "../ui/button.tsx";
+import {useConfirmEmailChangeMutation} from "../../services/api/authApi.js";
+
+// Landing page of the link sent to the new address when a user changes their email
+// Confirming needs a click, otherwise link previews of mail clients would already use up the token
+const ConfirmEmailCard = () => {
+    const {token} = useParams();
+    const navigate = useNavigate();
+    const [confirmEmailChange, {data, isLoading, isError, isSuccess}] = useConfirmEmailChangeMutation();
+
+    const getMessage = () => {
+        if (!isError && !isSuccess) {
+            return "Please confirm that you want to use this email address for your account.";
+        }
+        if (isError) {
+            return "This link is invalid or has expired, please request the email change again.";
+        }
+        return `Your email address has been changed to ${data?.data?.email}.`;
+    }
+
+    return (
+        <div className="flex justify-center items-center min-h-screen rounded-xl shadow-inner">
+            <Card className="shadow-2xl flex w-fit flex-col p-5">
+                <CardHeader className="flex justify-center items-center py-10">
+                    <AiFillRocket className="w-12 h-12"/>
+                    <h1 className="text-3xl">Confirm Email</h1>
+                </CardHeader>
+                <CardContent className="w-[275px] md:w-[350px] flex flex-col gap-y-3">
+                    <p className="text-muted-foreground text-center">
+                        {getMessage()}
+                    </p>
+                    {isSuccess || isError ?
+                        <Button variant="dark" onClick={() => navigate("/")}>
+                            Continue
+                        </Button>
+                        :
+                        <Button variant="dark" isLoading={isLoading} onClick={() => confirmEmailChange(token)}>
+                            Confirm Email
+                        </Button>
+                    }
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
+
+export default ConfirmEmailCard;
@@ -0,0 +1,77 @@
+import {useState} from "react";
+import {useNavigate} from "react-router-dom";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {AiFillRocket} from "react-icons/ai";
+import {Card, CardContent, CardHeader} from "../ui/card.tsx";
+import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {useRequestPasswordResetMutation} from "../../services/api/authApi.js";
+import {passwordResetRequestSchema} from "../../../shared/schemas.js";
+
+const ForgotPasswordCard = () => {
+    const navigate = useNavigate();
+    const [requestReset, {isLoading}] = useRequestPasswordResetMutation();
+    const [isSent, setIsSent] = useState(false);
+
+    const form = useForm({
+        resolver: zodResolver(passwordResetRequestSchema),
+        defaultValues: {
+            email: '',
+        }
+    })
+
+    function onSubmit(data) {
+        requestReset(data).then((res) => {
+            if (res.data) {
+                setIsSent(true)
+            }
+        })
+    }
+
+    return (
+        <div className="flex justify-center items-center min-h-screen rounded-xl shadow-inner">
+            <Card className="shadow-2xl flex w-fit flex-col p-5">
+                <CardHeader className="flex justify-center items-center py-10">
+                    <AiFillRocket className="w-12 h-12"/>
+                    <h1 className="text-3xl">Forgot Password?</h1>
+                    <p className="text-muted-foreground text-center">
+                        {isSent ?
+                            "If an account with that email exists, we sent you a link to reset your password."
+                            :
+                            "Enter your email and we will send you a link to reset your password."
+                        }
+                    </p>
+                </CardHeader>
+                <CardContent className="w-[275px] md:w-[350px]">
+                    <Form {...form}>
+                        <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
+                            <FormField
+                                control={form.control}
+                                name="email"
+                                render={({field}) => (
+                                    <FormItem hidden={isSent}>
+                                        <FormLabel>E-Mail</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="your@email.com" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                            <Button variant="link" type="button" onClick={() => navigate("/login")}>
+                                Back to login
+                            </Button>
+                            <Button type="submit" variant="dark" isLoading={isLoading} hidden={isSent}>
+                                Send Reset Link
+                            </Button>
+                        </form>
+                    </Form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
+
+export default ForgotPasswordCard;
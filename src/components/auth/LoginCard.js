@@ -1,33 +1,82 @@
-import {useEffect} from "react";
-import {useLoginMutation} from "../../services/api/authApi.js";
+import {useState} from "react";
+import {useLoginMutation, useLoginTwoFactorMutation} from "../../services/api/authApi.js";
 
 import {Card, CardContent, CardHeader} from "../ui/card.tsx";
 import {AiFillRocket} from "react-icons/ai";
 import {Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
 
 
-import {z} from "zod";
 import {useForm} from "react-hook-form";
 import {Input} from "../ui/input.tsx";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {Button} from "../ui/button.tsx";
 import {useNavigate} from "react-router-dom";
-import {KeyRound} from "lucide-react";
+import {KeyRound, ShieldCheck} from "lucide-react";
+import {loginSchema, twoFactorLoginSchema} from "../../../shared/schemas.js";
+
+// Second login step of accounts with two-factor authentication
+const TwoFactorStep = ({twoFactorToken, onCancel}) => {
+    const navigate = useNavigate();
+
+    const [loginTwoFactor, {isLoading}] = useLoginTwoFactorMutation();
+
+    const form = useForm({
+        resolver: zodResolver(twoFactorLoginSchema),
+        defaultValues: {
+            code: '',
+        }
+    })
+
+    function onSubmit(zodValues) {
+        loginTwoFactor({twoFactorToken, code: zodValues.code}).then((res) => {
+            if (res.data) {
+                navigate('/')
+            }
+        })
+    }
+
+    return (
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
+                <FormField
+                    control={form.control}
+                    name="code"
+                    render={({field}) => (
+                        <FormItem>
+                            <FormLabel>Authentication Code</FormLabel>
+                            <FormControl>
+                                <Input placeholder="123456" autoComplete="one-time-code" autoFocus {...field} />
+                            </FormControl>
+                            <FormDescription>
+                                Enter the code of your authenticator app or one of your recovery codes
+                            </FormDescription>
+                            <FormMessage/>
+                        </FormItem>
+                    )}
+                />
+                <Button variant="link" type="button" onClick={onCancel}>
+                    Back to login
+                </Button>
+                <Button type="submit" variant="dark" isLoading={isLoading}>
+                    <ShieldCheck className="w-4 h-4 mr-2"/>
+                    Verify
+                </Button>
+            </form>
+        </Form>
+    )
+}
 
 const LoginCard = () => {
 
     const navigate = useNavigate();
 
     const [login, {isLoading}] = useLoginMutation();
+    // Set once the password was accepted for an account with two-factor authentication
+    const [twoFactorToken, setTwoFactorToken] = useState(null);
 
 
-    const loginFormSchema = z.object({
-        email: z.string().email( {message: 'Please enter a valid email address'}),
-        password: z.string().min(8, {message: 'Password must be at least 8 characters long'}),
-    })
-
     const form = useForm({
-        resolver: zodResolver(loginFormSchema),
+        resolver: zodResolver(loginSchema),
         defaultValues: {
             email: '',
             password: '',
@@ -36,7 +85,10 @@ const LoginCard = () => {
 
     function onSubmit(zodValues) {
         login(zodValues).then((res) => {
-            if (res.data) {
+            if (res.data?.twoFactorRequired) {
+                setTwoFactorToken(res.data.twoFactorToken);
+            }
+            else if (res.data) {
                 navigate('/')
             }
         })
@@ -66,44 +118,51 @@ const LoginCard = () => {
                     <DemoAccountButton/>
                 </CardHeader>
                     <CardContent className="w-[275px] md:w-[350px]">
-                        <Form {...form}>
-                            <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
-                                <FormField
-                                    control={form.control}
-                                    name="email"
-                                    render={({field}) => (
-                                        <FormItem >
-                                            <FormLabel>E-Mail</FormLabel>
-                                            <FormControl>
-                                                <Input placeholder="your@email.com" {...field} />
-                                            </FormControl>
-                                            <FormDescription hidden>Enter your email address</FormDescription>
-                                            <FormMessage/>
-                                        </FormItem>
-                                    )}
-                                />
-                                <FormField
-                                    control={form.control}
-                                    name="password"
-                                    render={({field}) => (
-                                        <FormItem>
-                                            <FormLabel>Password</FormLabel>
-                                            <FormControl>
-                                                <Input type="password" {...field} />
-                                            </FormControl>
-                                            <FormDescription hidden>Enter your password</FormDescription>
-                                            <FormMessage/>
-                                        </FormItem>
-                                    )}
-                                />
-                                <Button variant="link" type="button" onClick={() => navigate("/signup")}>
-                                    Don't have an account? Sign up
-                                </Button>
-                                <Button type="submit" variant="dark" isLoading={isLoading}>
-                                    Login
-                                </Button>
-                            </form>
-                        </Form>
+                        {twoFactorToken ? (
+                            <TwoFactorStep twoFactorToken={twoFactorToken} onCancel={() => setTwoFactorToken(null)}/>
+                        ) : (
+                            <Form {...form}>
+                                <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
+                                    <FormField
+                                        control={form.control}
+                                        name="email"
+                                        render={({field}) => (
+                                            <FormItem >
+                                                <FormLabel>E-Mail</FormLabel>
+                                                <FormControl>
+                                                    <Input placeholder="your@email.com" {...field} />
+                                                </FormControl>
+                                                <FormDescription hidden>Enter your email address</FormDescription>
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="password"
+                                        render={({field}) => (
+                                            <FormItem>
+                                                <FormLabel>Password</FormLabel>
+                                                <FormControl>
+                                                    <Input type="password" {...field} />
+                                                </FormControl>
+                                                <FormDescription hidden>Enter your password</FormDescription>
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <Button variant="link" type="button" className="self-end h-auto p-0" onClick={() => navigate("/forgot-password")}>
+                                        Forgot your password?
+                                    </Button>
+                                    <Button variant="link" type="button" onClick={() => navigate("/signup")}>
+                                        Don't have an account? Sign up
+                                    </Button>
+                                    <Button type="submit" variant="dark" isLoading={isLoading}>
+                                        Login
+                                    </Button>
+                                </form>
+                            </Form>
+                        )}
 
                     </CardContent>
 
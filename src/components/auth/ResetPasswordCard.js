@@ -0,0 +1,87 @@
+import {useNavigate, useParams} from "react-router-dom";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {AiFillRocket} from "react-icons/ai";
+import {Card, CardContent, CardHeader} from "../ui/card.tsx";
+import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {useResetPasswordMutation} from "../../services/api/authApi.js";
+import {passwordResetSchema} from "../../../shared/schemas.js";
+
+// Landing page of the password reset link
+const ResetPasswordCard = () => {
+    const {token} = useParams();
+    const navigate = useNavigate();
+    const [resetPassword, {isLoading}] = useResetPasswordMutation();
+
+    const form = useForm({
+        resolver: zodResolver(passwordResetSchema),
+        defaultValues: {
+            password: '',
+            confirmPassword: '',
+        }
+    })
+
+    function onSubmit(data) {
+        resetPassword({token, bodyData: {password: data.password}}).then((res) => {
+            if (res.data) {
+                navigate("/login")
+            }
+        })
+    }
+
+    return (
+        <div className="flex justify-center items-center min-h-screen rounded-xl shadow-inner">
+            <Card className="shadow-2xl flex w-fit flex-col p-5">
+                <CardHeader className="flex justify-center items-center py-10">
+                    <AiFillRocket className="w-12 h-12"/>
+                    <h1 className="text-3xl">Reset Password</h1>
+                    <p className="text-muted-foreground">
+                        Please choose a new password.
+                    </p>
+                </CardHeader>
+                <CardContent className="w-[275px] md:w-[350px]">
+                    <Form {...form}>
+                        <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 w-[100%] ">
+                            <FormField
+                                control={form.control}
+                                name="password"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>New Password</FormLabel>
+                                        <FormControl>
+                                            <Input type="password" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                            <FormField
+                                control={form.control}
+                                name="confirmPassword"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Confirm Password</FormLabel>
+                                        <FormControl>
+                                            <Input type="password" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                            <Button variant="link" type="button" onClick={() => navigate("/forgot-password")}>
+                                Link expired? Request a new one
+                            </Button>
+                            <Button type="submit" variant="dark" isLoading={isLoading}>
+                                Update Password
+                            </Button>
+                        </form>
+                    </Form>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
+
+export default ResetPasswordCard;
@@ -4,12 +4,12 @@ import {Card, CardContent, CardHeader} from "../ui/card.tsx";
 import {AiFillRocket} from "react-icons/ai";
 import {Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
 
-import {z} from "zod";
 import {useForm} from "react-hook-form";
 import {Input} from "../ui/input.tsx";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {Button} from "../ui/button.tsx";
 import {useNavigate} from "react-router-dom";
+import {signUpSchema} from "../../../shared/schemas.js";
 
 export const SignUpCard = () => {
     const navigate = useNavigate();
@@ -18,45 +18,8 @@ export const SignUpCard = () => {
     const [login, {isLoading: loginIsLoading }] = useLoginMutation();
 
 
-    const signUpFormSchema = z.object({
-        email: z.string().email( {message: 'Please enter a valid email address'}),
-        password: z.string().min(8, {message: 'Password must be at least 8 characters long'}),
-        first_name: z.string().min(1, {message: 'Please enter your first name'}),
-        last_name: z.string().min(1, {message: 'Please enter your last name'}),
-    }).superRefine(({ password }, checkPassComplexity) => {
-        const containsUppercase = (ch: string) => /[A-Z]/.test(ch);
-        const containsLowercase = (ch: string) => /[a-z]/.test(ch);
-        const containsSpecialChar = (ch: string) =>
-            /[`!@#$%^&*()_\-+=\[\]{};':"\\|,.<>\/?~ ]/.test(ch);
-        let countOfUpperCase = 0,
-            countOfLowerCase = 0,
-            countOfNumbers = 0,
-            countOfSpecialChar = 0;
-        for (let i = 0; i < password.length; i++) {
-            const ch = password.charAt(i);
-            if (!isNaN(+ch)) countOfNumbers++;
-            else if (containsUppercase(ch)) countOfUpperCase++;
-            else if (containsLowercase(ch)) countOfLowerCase++;
-            // eslint-disable-next-line @typescript-eslint/no-unused-vars
-            else if (containsSpecialChar(ch)) countOfSpecialChar++;
-        }
-        if (
-            countOfLowerCase < 1 ||
-            countOfUpperCase < 1 ||
-            //countOfSpecialChar < 1 ||
-            countOfNumbers < 1
-        ) {
-            checkPassComplexity.addIssue({
-                code: "custom",
-                path: ["password"],
-                //message: "Password does not meet complexity requirements",
-                message: "Please use at least one uppercase, one lowercase letter and one number",
-            });
-        }
-    });
-
     const form = useForm({
-        resolver: zodResolver(signUpFormSchema),
+        resolver: zodResolver(signUpSchema),
         defaultValues: {
             email: '',
             first_name: '',
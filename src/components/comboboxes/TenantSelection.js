@@ -7,7 +7,8 @@ import {cn} from "../../utils.ts";
 import {Avatar, AvatarFallback, AvatarImage} from "../ui/avatar.tsx";
 
 
-const TenantSelection = ({onSelect, selected, tenants, ...props}) => {
+// Tenants that are already selected elsewhere (e.g. the other parties of a lease) can be left out with excludedIds
+const TenantSelection = ({onSelect, selected, tenants, excludedIds, ...props}) => {
     const [open, setOpen] = useState(false)
     const [tenantId, setTenantId] = useState(selected?.id)
     const [tenant, setTenant] = useState(selected)
@@ -86,7 +87,7 @@ const TenantSelection = ({onSelect, selected, tenants, ...props}) => {
                         <CommandList className={"w-full"}>
                             <CommandEmpty>No Tenant found.</CommandEmpty>
                             <CommandGroup className="max-h-[300px] overflow-auto z-[100] min-w-fit">
-                                {tenants?.map((tenant) => (
+                                {tenants?.filter((tenant) => !excludedIds?.includes(tenant.id)).map((tenant) => (
                                     <CommandItem
                                         key={tenant.id}
                                         value={tenant.id}
@@ -4,7 +4,8 @@ import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, Dial
 import {Button} from "../ui/button.tsx";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {expenseSchema} from "../../utils/formSchemas.js";
+import {expenseSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {
     Form,
     FormControl,
@@ -54,6 +55,9 @@ const AddExpense = (props) => {
                 setOpen(false)
                 expenseForm.reset();
             }
+            else {
+                setServerErrors(expenseForm, res.error)
+            }
         })
     }
 
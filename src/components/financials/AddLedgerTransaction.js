@@ -0,0 +1,206 @@
+import {useState} from "react";
+import {useSelector} from "react-redux";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Button} from "../ui/button.tsx";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {LEDGER_ACCOUNTS, ledgerTransactionSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {Form, FormControl, FormDescription, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import LeaseSelection from "../comboboxes/LeaseSelection.js";
+import {BookOpen, FilePlus2, Plus} from "lucide-react";
+import {useGetLeasesQuery} from "../../services/api/leaseApi.js";
+import {useCreateLedgerTransactionMutation} from "../../services/api/ledgerApi.js";
+import {LedgerAccount} from "../../utils/magicNumbers.js";
+
+
+// Manual transaction of the ledger, e.g. an owner contribution or withdrawal. Everything else is posted by the app
+const AddLedgerTransaction = (props) => {
+
+    const [open, setOpen] = useState(false)
+
+    const currency = useSelector((state) => state.authSlice.userInfo?.currencyCode) || "USD";
+
+    const {data: leases} = useGetLeasesQuery();
+
+    const [createLedgerTransaction, {isLoading: isCreating}] = useCreateLedgerTransactionMutation();
+
+    const transactionForm = useForm({
+        resolver: zodResolver(ledgerTransactionSchema),
+        defaultValues: {
+            date: "",
+            description: "",
+            debitAccount: "CASH",
+            creditAccount: "OWNER_EQUITY",
+            amount: "",
+            currency: currency,
+            leaseId: null,
+        },
+    })
+
+    const onSubmit = (data) => {
+        createLedgerTransaction(data).then((res) => {
+            if (res.data) {
+                setOpen(false)
+                transactionForm.reset();
+            }
+            else {
+                setServerErrors(transactionForm, res.error)
+            }
+        })
+    }
+
+    const accountSelect = (field) => (
+        <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+                <SelectTrigger>
+                    <SelectValue placeholder="Select an account"/>
+                </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+                {LEDGER_ACCOUNTS.map((account) => (
+                    <SelectItem key={account} value={account}>{LedgerAccount[account]}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+
+
+    return (
+        <Dialog {...props} onOpenChange={() => setOpen(!open)} open={open}>
+            <Button onClick={() => setOpen(!open)} variant="outline" type="button">
+                <FilePlus2 className="h-4 w-4 mr-2"/>
+                Add Transaction
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <BookOpen className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Add Transaction
+                    </DialogTitle>
+                    <DialogDescription>
+                        Rent, payments, deposits and expenses are posted automatically. Post anything else here, e.g. money you put in or took out.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...transactionForm}>
+                    <form
+                        onSubmit={transactionForm.handleSubmit(onSubmit)}
+                        className="flex flex-col gap-2"
+                    >
+
+                        <FormField
+                            control={transactionForm.control}
+                            name="description"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Description *</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder="Owner contribution" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormGroup>
+                            <FormField
+                                control={transactionForm.control}
+                                name="date"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Date *</FormLabel>
+                                        <FormControl>
+                                            <Input type="date" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={transactionForm.control}
+                                name="amount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Amount *</FormLabel>
+                                        <FormControl>
+                                            <Input type="currency" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormGroup>
+                            <FormField
+                                control={transactionForm.control}
+                                name="debitAccount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Debit *</FormLabel>
+                                        {accountSelect(field)}
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={transactionForm.control}
+                                name="creditAccount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Credit *</FormLabel>
+                                        {accountSelect(field)}
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormField
+                            control={transactionForm.control}
+                            name="leaseId"
+                            render={() => (
+                                <FormItem>
+                                    <FormLabel>Lease</FormLabel>
+                                    <FormControl>
+                                        <LeaseSelection onSelect={(leaseId) => {
+                                            transactionForm.setValue('leaseId', leaseId)
+                                            transactionForm.trigger('leaseId')
+                                        }} selected={Number(transactionForm.getValues("leaseId"))} leases={leases?.data}
+                                                        className="w-full"
+                                        />
+                                    </FormControl>
+                                    <FormDescription>
+                                        Only if the transaction belongs to a lease
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" onClick={() => {
+                                setOpen(false)
+                                transactionForm.reset();
+                            }}>Cancel</Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isCreating}>
+                                <Plus className="h-4 w-4 mr-2"/>
+                                Submit
+                            </Button>
+                        </div>
+
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default AddLedgerTransaction;
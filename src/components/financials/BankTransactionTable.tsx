@@ -0,0 +1,183 @@
+import {
+    ColumnDef,
+} from "@tanstack/react-table";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {DataTable} from "../ui/data-table.js";
+import {BankTransaction} from "../../utils/classes.ts";
+import {Landmark, ListChecks} from "lucide-react";
+import {useState} from "react";
+import {BankTransactionStatus} from "../../utils/magicNumbers.js";
+import {BankTransactionStatusBadge} from "../../utils/statusBadges.js";
+import ReviewBankTransaction from "./ReviewBankTransaction.js";
+
+
+// Only credits that are not confirmed or ignored yet are reviewed
+const ReviewAction = ({transaction, paymentSchedules}) => {
+    const [isOpen, setIsOpen] = useState(false)
+
+    if (transaction.status === "CONFIRMED" || transaction.status === "IGNORED") {
+        return null
+    }
+
+    return (
+        <>
+            <ReviewBankTransaction
+                transaction={transaction}
+                paymentSchedules={paymentSchedules}
+                open={isOpen}
+                setIsOpen={setIsOpen}
+            />
+            <div
+                onClick={() => setIsOpen(true)}
+                className={"cursor-pointer text-muted-foreground w-5 h-5 hover:text-primary transition-colors"}
+            >
+                <ListChecks className={"w-5 h-5"} />
+            </div>
+        </>
+    )
+}
+
+const getMatchLabel = (transaction: BankTransaction) => {
+    const leases = [...new Map(transaction.matches.map((match) => [match.schedule?.leaseId, match.schedule?.lease])).values()]
+
+    return leases
+        .map((lease) => lease?.tenant ? `${lease.tenant.firstName ?? ""} ${lease.tenant.lastName ?? ""}`.trim() : lease?.unit?.unitIdentifier)
+        .filter(Boolean)
+        .join(", ")
+}
+
+const getColumns = (paymentSchedules): ColumnDef<BankTransaction>[] => [
+    {
+        id: "date",
+        header: "Date",
+        cell: ({ row }) => {
+            return (
+                <div>
+                    {dateParser(row?.original?.date)}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.date || "",
+        meta: {
+            type: "date",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "amount",
+        header: "Amount",
+        cell: ({ row }) => {
+            return (
+                <div className="font-600">
+                    {moneyParser(row?.original?.amount, row?.original?.currency ?? undefined)}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.amount,
+        meta: {
+            type: "number",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "counterparty",
+        header: "Payer",
+        cell: ({ row }) => {
+            return (
+                <div className="flex flex-col">
+                    {row?.original?.counterparty}
+                    <span className="text-muted-foreground text-xs">{row?.original?.reference}</span>
+                </div>
+            )
+        },
+        accessorFn: (row) => `${row?.counterparty ?? ""} ${row?.reference ?? ""}`,
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "match",
+        header: "Match",
+        cell: ({ row }) => {
+            return (
+                <div>
+                    {getMatchLabel(row.original)}
+                </div>
+            )
+        },
+        accessorFn: (row) => getMatchLabel(row),
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "status",
+        header: "Status",
+        cell: ({ row }) => {
+            return (
+                <BankTransactionStatusBadge status={row?.original?.status} />
+            )
+        },
+        accessorFn: (row) => BankTransactionStatus[row?.status] || "",
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "statement",
+        header: "Statement",
+        cell: ({ row }) => {
+            return (
+                <div className="text-muted-foreground">
+                    {row?.original?.import?.fileName}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.import?.fileName || "",
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "review",
+        header: "",
+        cell: ({ row }) => {
+            return (
+                <ReviewAction transaction={row.original} paymentSchedules={paymentSchedules} />
+            )
+        },
+        meta: {
+            type: "string",
+        },
+        enableSorting: false,
+        enableHiding: false,
+    },
+]
+
+
+const BankTransactionTable = ({ transactions, paymentSchedules, ...props }) => {
+
+    return (
+        <div className={"border-2 border-border p-4 rounded-lg"}>
+            <DataTable
+                data={transactions}
+                columns={getColumns(paymentSchedules)}
+                defaultSort={{id: "date", desc: true}}
+                title="Bank Transactions"
+                subtitle="Credits of your imported bank statements. Review their matches to record them as payments."
+                icon={<Landmark className={"w-5 h-5"} />}
+                {...props}
+            >
+                {props.children}
+            </DataTable>
+
+        </div>
+
+    )
+}
+
+export default BankTransactionTable;
@@ -0,0 +1,232 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useForm} from "react-hook-form";
+import {lateFeePolicySchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormGroup,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "../ui/form.tsx";
+import {AlarmClock} from "lucide-react";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {LateFeeType} from "../../utils/magicNumbers.js";
+import {Button} from "../ui/button.tsx";
+import {
+    useDeleteLeaseLateFeePolicyMutation,
+    useDeletePropertyLateFeePolicyMutation,
+    useUpdateLeaseLateFeePolicyMutation,
+    useUpdatePropertyLateFeePolicyMutation
+} from "../../services/api/lateFeeApi.js";
+
+
+// Late fee policy of a lease (leaseId) or of all leases of a property (propertyId), the overdue job charges the fees
+const EditLateFeePolicy = ({policy, leaseId, propertyId, open, setIsOpen}) => {
+
+    const policyForm = useForm({
+        resolver: zodResolver(lateFeePolicySchema),
+        defaultValues: {
+            graceDays: policy?.graceDays ?? 5,
+            feeType: policy?.feeType ?? "FLAT",
+            feeAmount: policy?.feeAmount,
+            dailyAmount: policy?.dailyAmount ?? null,
+            maxAmount: policy?.maxAmount ?? null,
+        }
+    })
+
+    const [updateLeasePolicy, {isLoading: isUpdatingLease}] = useUpdateLeaseLateFeePolicyMutation()
+    const [updatePropertyPolicy, {isLoading: isUpdatingProperty}] = useUpdatePropertyLateFeePolicyMutation()
+    const [deleteLeasePolicy, {isLoading: isDeletingLease}] = useDeleteLeaseLateFeePolicyMutation()
+    const [deletePropertyPolicy, {isLoading: isDeletingProperty}] = useDeletePropertyLateFeePolicyMutation()
+
+    const isLoading = isUpdatingLease || isUpdatingProperty || isDeletingLease || isDeletingProperty
+    const unit = policyForm.watch("feeType") === "PERCENTAGE" ? "%" : ""
+
+    const handleSubmit = (data) => {
+        const request = leaseId ? updateLeasePolicy({leaseId: leaseId, ...data}) : updatePropertyPolicy({propertyId: propertyId, ...data})
+
+        request.then((res) => {
+            if (res.error) {
+                setServerErrors(policyForm, res.error)
+            } else {
+                setIsOpen(false)
+            }
+        })
+    }
+
+    const handleRemove = () => {
+        const request = leaseId ? deleteLeasePolicy(leaseId) : deletePropertyPolicy(propertyId)
+
+        request.then((res) => {
+            if (!res.error) {
+                setIsOpen(false)
+                policyForm.reset()
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <AlarmClock className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Late Fee Policy
+                    </DialogTitle>
+                    <DialogDescription>
+                        {leaseId ?
+                            "Late fees of this lease. Without a policy of its own the policy of the property applies." :
+                            "Late fees of all leases of this property that have no policy of their own."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...policyForm}>
+                    <form onSubmit={policyForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <FormGroup>
+                            <FormField
+                                control={policyForm.control}
+                                name="graceDays"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Grace Period (Days) *</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" {...field}  />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={policyForm.control}
+                                name="feeType"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Fee Type *</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select..."/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {
+                                                    Object.keys(LateFeeType).map((type, index) => {
+                                                        return (
+                                                            <SelectItem key={index}
+                                                                        value={type}>{LateFeeType[type]}</SelectItem>
+                                                        )
+                                                    })
+                                                }
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormGroup>
+                            <FormField
+                                control={policyForm.control}
+                                name="feeAmount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Fee {unit} *</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" step="0.01" {...field} value={field.value ?? ""} />
+                                        </FormControl>
+                                        <FormDescription>
+                                            Charged on the first day after the grace period
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={policyForm.control}
+                                name="dailyAmount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Daily Fee {unit}</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" step="0.01" {...field} value={field.value ?? ""} />
+                                        </FormControl>
+                                        <FormDescription>
+                                            Added for every further day
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormField
+                            control={policyForm.control}
+                            name="maxAmount"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Maximum Fee</FormLabel>
+                                    <FormControl>
+                                        <Input type="currency" {...field} value={field.value ?? ""} />
+                                    </FormControl>
+                                    <FormDescription>
+                                        Cap of the late fee for one overdue period
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            {policy ? (
+                                <Button variant="outline" type="button" onClick={handleRemove}
+                                        disabled={isLoading}
+                                        className="w-full"
+                                >
+                                    Remove Policy
+                                </Button>
+                            ) : (
+                                <Button variant="outline" type="reset" onClick={() => {
+                                    setIsOpen(false)
+                                    policyForm.reset()
+                                }}
+                                        disabled={isLoading}
+                                        className="w-full"
+                                >
+                                    Cancel
+                                </Button>
+                            )}
+                            <Button variant="gradient" type="submit"
+                                    isLoading={isLoading}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                Save Policy
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default EditLateFeePolicy;
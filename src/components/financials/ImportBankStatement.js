@@ -0,0 +1,338 @@
+import {useEffect, useState} from "react";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Button} from "../ui/button.tsx";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {bankStatementImportSchema} from "../../../shared/schemas.js";
+import {
+    BANK_STATEMENT_PRESETS,
+    CSV_DELIMITERS,
+    DATE_FORMATS,
+    DECIMAL_SEPARATORS,
+    getBankStatementPreset
+} from "../../../shared/bankStatementPresets.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {Form, FormControl, FormDescription, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Landmark, Upload} from "lucide-react";
+import {useImportBankStatementMutation} from "../../services/api/bankStatementApi.js";
+
+
+// Preset value of statements whose columns are mapped by hand
+const CUSTOM_MAPPING = "custom"
+
+const FORMAT_LABELS = {
+    CSV: "CSV",
+    OFX: "OFX / QFX",
+    CAMT053: "CAMT.053 (XML)",
+}
+
+const DELIMITER_LABELS = {
+    ",": "Comma",
+    ";": "Semicolon",
+    "\t": "Tab",
+    "|": "Pipe",
+}
+
+// Columns of a custom mapping are named by the header row of the file
+const DEFAULT_MAPPING = {
+    delimiter: ",",
+    header: true,
+    dateFormat: "YYYY-MM-DD",
+    decimalSeparator: ".",
+    columns: {
+        date: "Date",
+        amount: "Amount",
+        counterparty: "",
+        reference: "",
+    },
+}
+
+function guessFormat(fileName) {
+    const extension = fileName.split(".").pop().toLowerCase()
+
+    if (extension === "ofx" || extension === "qfx") {
+        return "OFX"
+    }
+    if (extension === "xml") {
+        return "CAMT053"
+    }
+    return "CSV"
+}
+
+// Some banks export their statements in a legacy encoding, see shared/bankStatementPresets.js
+function readStatementFile(file, encoding = "utf-8") {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(String(reader.result))
+        reader.onerror = () => reject(reader.error)
+        reader.readAsText(file, encoding)
+    })
+}
+
+// Empty optional columns are not mapped
+function cleanMapping(mapping) {
+    return {
+        ...mapping,
+        columns: Object.fromEntries(Object.entries(mapping.columns).filter(([, column]) => column !== "" && column !== null)),
+    }
+}
+
+const ImportBankStatement = (props) => {
+
+    const [open, setOpen] = useState(false)
+    const [file, setFile] = useState(null)
+
+    const [importBankStatement, {isLoading: isImporting}] = useImportBankStatementMutation();
+
+    const statementForm = useForm({
+        resolver: zodResolver(bankStatementImportSchema),
+        defaultValues: {
+            fileName: "",
+            format: "CSV",
+            preset: "generic",
+            mapping: undefined,
+            content: "",
+        },
+    })
+
+    const format = statementForm.watch("format")
+    const preset = statementForm.watch("preset")
+
+    // The file is read again when the bank changes, its encoding may differ
+    useEffect(() => {
+        if (!file) {
+            return
+        }
+
+        readStatementFile(file, getBankStatementPreset(preset)?.encoding).then((content) => {
+            statementForm.setValue("content", content)
+            statementForm.clearErrors("content")
+        })
+    }, [file, preset, statementForm])
+
+    const selectPreset = (value) => {
+        statementForm.setValue("preset", value)
+        statementForm.setValue("mapping", value === CUSTOM_MAPPING ? DEFAULT_MAPPING : undefined)
+    }
+
+    const close = () => {
+        setOpen(false)
+        setFile(null)
+        statementForm.reset();
+    }
+
+    const onSubmit = (data) => {
+        const isCustom = data.preset === CUSTOM_MAPPING
+
+        importBankStatement({
+            ...data,
+            preset: data.format === "CSV" && !isCustom ? data.preset : undefined,
+            mapping: data.format === "CSV" && isCustom ? cleanMapping(data.mapping) : undefined,
+        }).then((res) => {
+            if (res.data) {
+                close()
+            }
+            else {
+                setServerErrors(statementForm, res.error)
+            }
+        })
+    }
+
+    const optionSelect = (field, options, labels = {}) => (
+        <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+                <SelectTrigger>
+                    <SelectValue placeholder="Select..."/>
+                </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+                {options.map((option) => (
+                    <SelectItem key={option} value={option}>{labels[option] ?? option}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    )
+
+    const columnField = (name, label, placeholder) => (
+        <FormField
+            control={statementForm.control}
+            name={`mapping.columns.${name}`}
+            render={({field}) => (
+                <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                        <Input placeholder={placeholder} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage/>
+                </FormItem>
+            )}
+        />
+    )
+
+
+    return (
+        <Dialog {...props} onOpenChange={() => open ? close() : setOpen(true)} open={open}>
+            <Button onClick={() => setOpen(!open)} variant="outline" type="button">
+                <Upload className="h-4 w-4 mr-2"/>
+                Import Statement
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <Landmark className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Import Bank Statement
+                    </DialogTitle>
+                    <DialogDescription>
+                        The credits of the statement are matched to the open rent of your leases. Review the matches before they are recorded as payments. Credits you imported before are skipped.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...statementForm}>
+                    <form
+                        onSubmit={statementForm.handleSubmit(onSubmit)}
+                        className="flex flex-col gap-2"
+                    >
+
+                        <FormField
+                            control={statementForm.control}
+                            name="content"
+                            render={() => (
+                                <FormItem>
+                                    <FormLabel>Statement *</FormLabel>
+                                    <FormControl>
+                                        <Input type="file" accept=".csv,.txt,.ofx,.qfx,.xml"
+                                               onChange={(event) => {
+                                                   const selectedFile = event.target.files?.[0] ?? null
+                                                   setFile(selectedFile)
+                                                   statementForm.setValue("content", "")
+                                                   statementForm.setValue("fileName", selectedFile?.name ?? "")
+                                                   if (selectedFile) {
+                                                       statementForm.setValue("format", guessFormat(selectedFile.name))
+                                                   }
+                                               }}
+                                        />
+                                    </FormControl>
+                                    <FormDescription>
+                                        CSV, OFX or CAMT.053 export of your bank account, at most 5 MB
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormGroup>
+                            <FormField
+                                control={statementForm.control}
+                                name="format"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Format *</FormLabel>
+                                        {optionSelect(field, Object.keys(FORMAT_LABELS), FORMAT_LABELS)}
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            {format === "CSV" && (
+                                <FormField
+                                    control={statementForm.control}
+                                    name="preset"
+                                    render={({field}) => (
+                                        <FormItem>
+                                            <FormLabel>Bank *</FormLabel>
+                                            <Select onValueChange={selectPreset} value={field.value}>
+                                                <FormControl>
+                                                    <SelectTrigger>
+                                                        <SelectValue placeholder="Select your bank"/>
+                                                    </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                    {BANK_STATEMENT_PRESETS.map((bankPreset) => (
+                                                        <SelectItem key={bankPreset.id} value={bankPreset.id}>{bankPreset.label}</SelectItem>
+                                                    ))}
+                                                    <SelectItem value={CUSTOM_MAPPING}>Other (map columns)</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            <FormMessage/>
+                                        </FormItem>
+                                    )}
+                                />
+                            )}
+                        </FormGroup>
+
+                        {format === "CSV" && preset === CUSTOM_MAPPING && (
+                            <div className="flex flex-col gap-2 border-2 border-border rounded-lg p-2">
+                                <p className="text-sm text-muted-foreground">
+                                    Name the columns as they appear in the header row of the file
+                                </p>
+
+                                <FormGroup>
+                                    <FormField
+                                        control={statementForm.control}
+                                        name="mapping.delimiter"
+                                        render={({field}) => (
+                                            <FormItem>
+                                                <FormLabel>Delimiter *</FormLabel>
+                                                {optionSelect(field, CSV_DELIMITERS, DELIMITER_LABELS)}
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+
+                                    <FormField
+                                        control={statementForm.control}
+                                        name="mapping.dateFormat"
+                                        render={({field}) => (
+                                            <FormItem>
+                                                <FormLabel>Date Format *</FormLabel>
+                                                {optionSelect(field, DATE_FORMATS)}
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+
+                                    <FormField
+                                        control={statementForm.control}
+                                        name="mapping.decimalSeparator"
+                                        render={({field}) => (
+                                            <FormItem>
+                                                <FormLabel>Decimals *</FormLabel>
+                                                {optionSelect(field, DECIMAL_SEPARATORS, {".": "1,000.00", ",": "1.000,00"})}
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+                                </FormGroup>
+
+                                <FormGroup>
+                                    {columnField("date", "Date Column *", "Date")}
+                                    {columnField("amount", "Amount Column *", "Amount")}
+                                </FormGroup>
+
+                                <FormGroup>
+                                    {columnField("counterparty", "Payer Column", "Name")}
+                                    {columnField("reference", "Reference Column", "Reference")}
+                                </FormGroup>
+                            </div>
+                        )}
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" onClick={close}>Cancel</Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isImporting}>
+                                <Upload className="h-4 w-4 mr-2"/>
+                                Import
+                            </Button>
+                        </div>
+
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default ImportBankStatement;
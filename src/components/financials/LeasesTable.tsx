@@ -336,7 +336,7 @@ const LeaseBulkActions = ({selectedRows}) => {
                             Set Status
                         </DropdownMenuSubTrigger>
                         <DropdownMenuSubContent>
-                            {Object.keys(LeaseStatus).map((status) => (
+                            {Object.keys(LeaseStatus).filter((status) => status !== "TERMINATED").map((status) => (
                                 <DropdownMenuItem key={status} onClick={() => handleStatusChange(status)}>
                                     {LeaseStatus[status]}
                                 </DropdownMenuItem>
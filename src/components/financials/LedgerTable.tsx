@@ -0,0 +1,221 @@
+import {
+    ColumnDef,
+} from "@tanstack/react-table";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {DataTable} from "../ui/data-table.js";
+import {LedgerTransaction} from "../../utils/classes.ts";
+import {BookOpen, Undo2} from "lucide-react";
+import {LedgerAccount, LedgerSourceType} from "../../utils/magicNumbers.js";
+import {useState} from "react";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel,
+    AlertDialogContent, AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle
+} from "../ui/alert-dialog.tsx";
+import {Badge} from "../ui/badge.tsx";
+import {useReverseLedgerTransactionMutation} from "../../services/api/ledgerApi.js";
+
+
+// Only manual transactions are reversed by hand, everything else follows its payment, charge, deposit or expense
+const ReverseTransaction = ({transaction}) => {
+    const [reverseTransaction] = useReverseLedgerTransactionMutation()
+
+    const [isOpen, setIsOpen] = useState(false)
+
+    if (transaction.sourceType !== "MANUAL" || transaction.reversalOfId || transaction.reversal) {
+        return null
+    }
+
+    return (
+        <>
+            <AlertDialog open={isOpen} onOpenChange={() => setIsOpen(!isOpen)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader className="text-left">
+                        <AlertDialogTitle>
+                            Reverse Transaction
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                            A transaction that swaps its debits and credits is posted today. The transaction itself stays in the ledger.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>
+                            Cancel
+                        </AlertDialogCancel>
+                        <AlertDialogAction onClick={() => reverseTransaction(transaction.id)}>
+                            Reverse
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+            <div
+                onClick={() => setIsOpen(true)}
+                className={"cursor-pointer text-muted-foreground w-5 h-5 hover:text-destructive transition-colors"}
+            >
+                <Undo2 className={"w-5 h-5"} />
+            </div>
+        </>
+    )
+}
+
+const getAmount = (transaction: LedgerTransaction) => {
+    return transaction.entries.reduce((total, entry) => total + entry.debit, 0)
+}
+
+const columns: ColumnDef<LedgerTransaction>[] = [
+    {
+        id: "id",
+        header: "ID",
+        cell: ({ row }) => (
+            <div>#{row?.original?.id}</div>
+        ),
+        meta: {
+            type: "number",
+        },
+        accessorFn: (row) => row?.id || "",
+        enableSorting: true,
+    },
+    {
+        id: "date",
+        header: "Date",
+        cell: ({ row }) => {
+            return (
+                <div>
+                    {dateParser(row?.original?.date)}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.date || "",
+        meta: {
+            type: "date",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "description",
+        header: "Description",
+        cell: ({ row }) => {
+            return (
+                <div className="flex flex-row gap-2 items-center font-600">
+                    {row?.original?.description}
+                    {row?.original?.reversal && <Badge variant="secondary">Reversed</Badge>}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.description || "",
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "source",
+        header: "Source",
+        cell: ({ row }) => {
+            return (
+                <div>
+                    {LedgerSourceType[row?.original?.sourceType]}
+                </div>
+            )
+        },
+        accessorFn: (row) => LedgerSourceType[row?.sourceType] || "",
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "entries",
+        header: "Entries",
+        cell: ({ row }) => {
+            return (
+                <div className="flex flex-col">
+                    {row?.original?.entries.map((entry) => (
+                        <div key={entry.id} className={entry.credit ? "pl-4 text-muted-foreground" : ""}>
+                            {entry.debit ? "Dr" : "Cr"} {LedgerAccount[entry.account]} {moneyParser(entry.debit || entry.credit, row?.original?.currency)}
+                        </div>
+                    ))}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.entries.map((entry) => LedgerAccount[entry.account]).join(", "),
+        meta: {
+            type: "string",
+        },
+        enableSorting: false,
+    },
+    {
+        id: "amount",
+        header: "Amount",
+        cell: ({ row }) => {
+            return (
+                <div>
+                    {moneyParser(getAmount(row.original), row?.original?.currency)}
+                </div>
+            )
+        },
+        accessorFn: (row) => getAmount(row),
+        meta: {
+            type: "number",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "lease",
+        header: "Lease",
+        cell: ({ row }) => {
+            const leaseId = row.original?.leaseId;
+
+            return (
+                <div>
+                    {leaseId ? `#${leaseId}` : ""}
+                </div>
+            )
+        },
+        accessorFn: (row) => row?.leaseId || "",
+        meta: {
+            type: "string",
+        },
+        enableSorting: true,
+    },
+    {
+        id: "reverse",
+        header: "",
+        cell: ({ row }) => {
+            return (
+                <ReverseTransaction transaction={row.original} />
+            )
+        },
+        meta: {
+            type: "string",
+        },
+        enableSorting: false,
+        enableHiding: false,
+    },
+]
+
+
+const LedgerTable = ({ transactions, ...props }) => {
+
+    return (
+        <div className={"border-2 border-border p-4 rounded-lg"}>
+            <DataTable
+                data={transactions}
+                columns={columns}
+                defaultSort={{id: "date", desc: true}}
+                title="Ledger"
+                subtitle="Every transaction of your ledger. Transactions are never changed, corrections are posted as reversals."
+                icon={<BookOpen className={"w-5 h-5"} />}
+                {...props}
+            >
+                {props.children}
+            </DataTable>
+
+        </div>
+
+    )
+}
+
+export default LedgerTable;
@@ -4,18 +4,20 @@ import {
 import {dateParser, moneyParser} from "../../utils/formatters.js";
 import {DataTable} from "../ui/data-table.js";
 import {LeasePaymentSchedule} from "../../utils/classes.ts";
-import {CalendarClock, Check, Coins, Eye, MoreHorizontal, Pencil, Trash2} from "lucide-react";
+import {AlarmClock, Ban, CalendarClock, Check, Coins, Eye, MoreHorizontal, Pencil, Trash2} from "lucide-react";
 import ViewPayment from "../payments/ViewPayment.js";
 import {PaymentScheduleStatusBadge, PaymentStatusBadge} from "../../utils/statusBadges.js";
-import {LeaseStatus, PaymentScheduleStatus, PaymentStatus} from "../../utils/magicNumbers.js";
+import {ChargeType, LeaseStatus, PaymentScheduleStatus, PaymentStatus} from "../../utils/magicNumbers.js";
 import {useMemo, useState} from "react";
+import {getAllocatedAmount, getOpenAmount} from "../../../shared/allocation.js";
 import {
     useDeletePaymentScheduleMutation,
     useUpdatePaymentScheduleMutation
 } from "../../services/api/financialsApi.js";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {leasePaymentScheduleSchema, paymentSchema} from "../../utils/formSchemas.js";
+import {leasePaymentScheduleSchema, paymentSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -38,11 +40,56 @@ import {
 } from "../../services/api/bulkApi";
 import {Checkbox} from "../ui/checkbox.tsx";
 import {ButtonGroup, ButtonGroupItem} from "../ui/button-group.tsx";
+import {Badge} from "../ui/badge.tsx";
+
+// Audit trail of a late fee: when it was charged, how it accrued and whether it was waived
+const LateFeeHistory = ({ paymentSchedule, open, setOpen }) => {
+    return (
+        <Dialog open={open} onOpenChange={() => setOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <AlarmClock className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Late Fee History
+                    </DialogTitle>
+                    <DialogDescription>
+                        Late fee for the rent #{paymentSchedule?.lateFeeForId}, currently {moneyParser(paymentSchedule?.amountDue)}.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col max-h-[300px] overflow-auto text-sm border-2 border-border rounded-lg">
+                    {paymentSchedule?.lateFeeEntries?.map((entry) => (
+                        <div key={entry.id} className="flex flex-row justify-between items-center gap-4 px-3 py-1 border-b border-border last:border-b-0">
+                            <p className="font-500">
+                                {dateParser(entry.createdAt)}
+                            </p>
+                            <p>
+                                {entry.note}{entry.daysLate ? ` (${entry.daysLate} days late)` : ""}
+                            </p>
+                            <p className={entry.amount < 0 ? "text-green-600" : "text-red-500"}>
+                                {entry.amount < 0 ? "-" : "+"}{moneyParser(Math.abs(entry.amount))}
+                            </p>
+                        </div>
+                    ))}
+                    {!paymentSchedule?.lateFeeEntries?.length && (
+                        <p className="px-3 py-1 text-muted-foreground">No entries yet.</p>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
 
 const PaymentScheduleActions = ({ paymentSchedule }) => {
     const [editModalOpen, setEditModalOpen] = useState(false)
     const [deleteModalOpen, setDeleteModalOpen] = useState(false)
     const [viewModalOpen, setViewModalOpen] = useState(false)
+    const [historyModalOpen, setHistoryModalOpen] = useState(false)
+
+    const isLateFee = paymentSchedule?.chargeType === "LATE_FEE"
+    const canWaive = isLateFee && (paymentSchedule?.status === "SCHEDULED" || paymentSchedule?.status === "OVERDUE")
 
     const [updatePaymentSchedule, {isLoading: isUpdating}] = useUpdatePaymentScheduleMutation()
     const [deletePaymentSchedule] = useDeletePaymentScheduleMutation()
@@ -57,7 +104,10 @@ const PaymentScheduleActions = ({ paymentSchedule }) => {
 
     const handleSubmit = (data) => {
         updatePaymentSchedule({id: paymentSchedule?.id, body: data}).then((res) => {
-            if (res.error) return
+            if (res.error) {
+                setServerErrors(paymentScheduleForm, res.error)
+                return
+            }
             setEditModalOpen(false)
         })
     }
@@ -164,6 +214,7 @@ const PaymentScheduleActions = ({ paymentSchedule }) => {
             />
 
             {viewModalOpen && <ViewPayment open={viewModalOpen} setOpen={setViewModalOpen} payment={paymentSchedule} />}
+            {historyModalOpen && <LateFeeHistory open={historyModalOpen} setOpen={setHistoryModalOpen} paymentSchedule={paymentSchedule} />}
 
 
             <DropdownMenuTrigger asChild className="cursor-pointer">
@@ -181,6 +232,22 @@ const PaymentScheduleActions = ({ paymentSchedule }) => {
                         <Pencil className="w-4 h-4"/>
                         Edit
                     </DropdownMenuItem>
+
+                    {isLateFee && (
+                        <DropdownMenuItem className="flex flex-row text-sm gap-2" onClick={() => setHistoryModalOpen(true)}>
+                            <AlarmClock className="w-4 h-4"/>
+                            Fee History
+                        </DropdownMenuItem>
+                    )}
+
+                    {canWaive && (
+                        <DropdownMenuItem className="flex flex-row text-sm gap-2"
+                                          onClick={() => updatePaymentSchedule({id: paymentSchedule?.id, body: {status: "WAIVED"}})}
+                        >
+                            <Ban className="w-4 h-4"/>
+                            Waive Fee
+                        </DropdownMenuItem>
+                    )}
                 </DropdownMenuGroup>
 
 
@@ -253,6 +320,49 @@ const columns: ColumnDef<LeasePaymentSchedule>[] = [
         accessorFn: (row) => row?.amountDue || 0,
         enableSorting: true,
     },
+    {
+        id: "paidAmount",
+        header: "Paid",
+        meta: {
+            type: "number",
+        },
+        cell: ({ row }) => {
+            return (
+                <div className="capitalize">
+                    {moneyParser(getAllocatedAmount(row?.original))}
+                </div>
+            )
+        },
+        accessorFn: (row) => getAllocatedAmount(row),
+        enableSorting: true,
+    },
+    {
+        id: "chargeType",
+        header: "Charge",
+        meta: {
+            type: "enum",
+            options: Object.values(ChargeType),
+        },
+        cell: ({ row }) => {
+            if (row?.original?.chargeType === "BREAK_FEE") {
+                return (
+                    <Badge variant="warning">{ChargeType.BREAK_FEE}</Badge>
+                )
+            }
+            if (row?.original?.chargeType !== "LATE_FEE") {
+                return ChargeType.RENT
+            }
+
+            return (
+                <div className="flex flex-row items-center gap-2">
+                    <Badge variant="warning">{ChargeType.LATE_FEE}</Badge>
+                    <span className="text-muted-foreground">for #{row?.original?.lateFeeForId}</span>
+                </div>
+            )
+        },
+        accessorFn: (row) => ChargeType[row?.chargeType] ?? ChargeType.RENT,
+        enableSorting: true,
+    },
     {
         id: "dueDate",
         header: "Due Date",
@@ -349,17 +459,18 @@ const PaymentScheduleBulkActions = ({selectedRows}) => {
     }
 
     const handleMarkAsPaid = () => {
-        const paymentsToCreate = selectedRows?.map((paymentSchedule: LeasePaymentSchedule) => {
+        // Charges that are paid or waived already need no payment
+        const openSchedules = selectedRows?.filter((paymentSchedule: LeasePaymentSchedule) => getOpenAmount(paymentSchedule) > 0)
+        const paymentsToCreate = openSchedules?.map((paymentSchedule: LeasePaymentSchedule) => {
             return {
-                amount: paymentSchedule.amountDue,
+                amount: getOpenAmount(paymentSchedule),
                 date: new Date().toISOString(),
                 leaseId: paymentSchedule.leaseId,
                 status: "PAID",
-                leasePaymentSchedule: {
-                    amountDue: 0,
-                    id: paymentSchedule.id,
-                    status: "PAID"
-                },
+                allocations: [{
+                    scheduleId: paymentSchedule.id,
+                    amount: getOpenAmount(paymentSchedule)
+                }],
                 notes: "Created from marking a payment schedule as paid."
             }
         })
@@ -458,6 +569,9 @@ const PaymentScheduleTable = ({ paymentSchedules, ...props }) => {
                 return payment.status === "OVERDUE"
             })
         }
+        if (selectedFilter === "only-late-fees") {
+            return paymentSchedules?.filter((payment: LeasePaymentSchedule) => payment.chargeType === "LATE_FEE")
+        }
 
     }, [selectedFilter, paymentSchedules])
 
@@ -487,6 +601,9 @@ const PaymentScheduleTable = ({ paymentSchedules, ...props }) => {
                     <ButtonGroupItem value={"only-overdue"}>
                         Overdue
                     </ButtonGroupItem>
+                    <ButtonGroupItem value={"only-late-fees"}>
+                        Late Fees
+                    </ButtonGroupItem>
                 </ButtonGroup>
 
                 <PaymentScheduleBulkActions selectedRows={selectedRows} />
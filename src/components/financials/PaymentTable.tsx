@@ -5,8 +5,9 @@ import {dateParser, moneyParser} from "../../utils/formatters.js";
 import {DataTable} from "../ui/data-table.js";
 import {LeasePaymentSchedule, RentPayment} from "../../utils/classes.ts";
 import {PaymentStatusBadge} from "../../utils/statusBadges.js";
-import {Check, Coins, Eye, MoreHorizontal, Pencil, Trash2} from "lucide-react";
+import {Check, Coins, Eye, MoreHorizontal, Pencil, ShieldCheck, Trash2} from "lucide-react";
 import ViewPayment from "../payments/ViewPayment.js"
+import ReviewPayment from "../payments/ReviewPayment.js";
 import {PaymentScheduleStatus, PaymentStatus} from "../../utils/magicNumbers.js";
 import {
     DropdownMenu,
@@ -27,7 +28,8 @@ import {
 import {useMemo, useState} from "react";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {paymentSchema} from "../../utils/formSchemas.js";
+import {paymentSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {Form, FormControl, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
 import {Input} from "../ui/input.tsx";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
@@ -50,6 +52,7 @@ const PaymentActions = ({ payment }) => {
     const [editModalOpen, setEditModalOpen] = useState(false)
     const [deleteModalOpen, setDeleteModalOpen] = useState(false)
     const [viewModalOpen, setViewModalOpen] = useState(false)
+    const [reviewModalOpen, setReviewModalOpen] = useState(false)
 
     const [updatePayment, {isLoading: isUpdating}] = useUpdatePaymentMutation()
     const [deletePayment] = useDeletePaymentMutation()
@@ -63,7 +66,10 @@ const PaymentActions = ({ payment }) => {
 
     const handleSubmit = (data) => {
         updatePayment({id: payment?.id, body: data}).then((res) => {
-            if (res.error) return
+            if (res.error) {
+                setServerErrors(paymentForm, res.error)
+                return
+            }
             setEditModalOpen(false)
         })
     }
@@ -201,6 +207,8 @@ const PaymentActions = ({ payment }) => {
 
             {viewModalOpen && <ViewPayment open={viewModalOpen} setOpen={setViewModalOpen} payment={payment} />}
 
+            {reviewModalOpen && <ReviewPayment open={reviewModalOpen} setIsOpen={setReviewModalOpen} payment={payment} />}
+
             <DropdownMenuTrigger asChild className="cursor-pointer">
                 <MoreHorizontal className="h-5 w-5 ml-3"/>
             </DropdownMenuTrigger>
@@ -211,6 +219,13 @@ const PaymentActions = ({ payment }) => {
                         View
                     </DropdownMenuItem>
 
+                    {payment?.status === "REPORTED" && (
+                        <DropdownMenuItem className="flex flex-row text-sm gap-2" onClick={() => setReviewModalOpen(true)}>
+                            <ShieldCheck className="w-4 h-4"/>
+                            Review
+                        </DropdownMenuItem>
+                    )}
+
                     <DropdownMenuItem className="flex flex-row text-sm gap-2" onClick={() => setEditModalOpen(true)}>
                         <Pencil className="w-4 h-4"/>
                         Edit
@@ -487,8 +502,14 @@ const PaymentTable = ({ payments, ...props }) => {
 
     const [selectedFilter, setSelectedFilter] = useState("all")
 
+    // Payments tenants reported, they wait for the approval of the realtor
+    const reportedPayments = useMemo(() => {
+        return payments?.filter((payment: RentPayment) => payment.status === "REPORTED") ?? []
+    }, [payments])
+
     const filteredPayments = useMemo(() => {
         if (selectedFilter === "all") return payments
+        if (selectedFilter === "awaiting-approval") return reportedPayments
         if (selectedFilter === "30-days") {
             return payments?.filter((payment: RentPayment) => isWithinInterval(new Date(payment.date), {
                 start: subDays(new Date(), 30),
@@ -502,7 +523,7 @@ const PaymentTable = ({ payments, ...props }) => {
             }))
         }
 
-    }, [selectedFilter, payments])
+    }, [selectedFilter, payments, reportedPayments])
 
 
     return (
@@ -532,6 +553,9 @@ const PaymentTable = ({ payments, ...props }) => {
                     <ButtonGroupItem value={"90-days"}>
                         90 Days
                     </ButtonGroupItem>
+                    <ButtonGroupItem value={"awaiting-approval"}>
+                        Awaiting Approval ({reportedPayments.length})
+                    </ButtonGroupItem>
                 </ButtonGroup>
 
                 {props.children}
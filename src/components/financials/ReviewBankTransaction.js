@@ -0,0 +1,224 @@
+import {useEffect} from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useFieldArray, useForm} from "react-hook-form";
+import {bankTransactionConfirmSchema} from "../../../shared/schemas.js";
+import {getOpenAmount} from "../../../shared/allocation.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {Form, FormControl, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Check, EyeOff, Landmark, Plus, Trash2} from "lucide-react";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Button} from "../ui/button.tsx";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {ChargeType} from "../../utils/magicNumbers.js";
+import {
+    useConfirmBankTransactionMutation,
+    useIgnoreBankTransactionMutation
+} from "../../services/api/bankStatementApi.js";
+
+
+const getScheduleLabel = (schedule) => {
+    const lease = schedule.lease
+    const tenant = lease?.tenant ? `${lease.tenant.firstName ?? ""} ${lease.tenant.lastName ?? ""}`.trim() : null
+
+    return [
+        tenant || lease?.unit?.unitIdentifier || `Lease ${schedule.leaseId}`,
+        ChargeType[schedule.chargeType] ?? "Rent",
+        dateParser(schedule.dueDate),
+        `${moneyParser(getOpenAmount(schedule), lease?.currency)} open`,
+    ].join(" · ")
+}
+
+const getDefaultMatches = (transaction) => {
+    return transaction?.matches?.length ?
+        transaction.matches.map((match) => ({scheduleId: String(match.scheduleId), amount: match.amount})) :
+        [{scheduleId: "", amount: transaction?.amount ?? ""}]
+}
+
+// Confirms the suggested match of a bank credit, splits it over other charges or ignores it. Confirmed credits are
+// recorded as payments of the charges, what is left of the credit is credited to the tenant
+const ReviewBankTransaction = ({transaction, paymentSchedules, open, setIsOpen}) => {
+
+    const [confirmBankTransaction, {isLoading: isConfirming}] = useConfirmBankTransactionMutation()
+    const [ignoreBankTransaction, {isLoading: isIgnoring}] = useIgnoreBankTransactionMutation()
+
+    const reviewForm = useForm({
+        resolver: zodResolver(bankTransactionConfirmSchema),
+        defaultValues: {
+            matches: getDefaultMatches(transaction),
+        }
+    })
+
+    const {fields, append, remove} = useFieldArray({
+        control: reviewForm.control,
+        name: "matches",
+    })
+
+    useEffect(() => {
+        reviewForm.reset({matches: getDefaultMatches(transaction)})
+    }, [transaction, reviewForm])
+
+    // Charges that are still open and the ones the credit was suggested for
+    const schedules = (paymentSchedules ?? []).filter((schedule) => schedule.status !== "WAIVED" &&
+        (getOpenAmount(schedule) > 0 || transaction?.matches?.some((match) => match.scheduleId === schedule.id)))
+
+    const matches = reviewForm.watch("matches")
+    const matchedAmount = matches.reduce((total, match) => total + (Number(match.amount) || 0), 0)
+    const restAmount = (transaction?.amount ?? 0) - matchedAmount
+
+    const selectSchedule = (index, value) => {
+        reviewForm.setValue(`matches.${index}.scheduleId`, value)
+
+        const schedule = schedules.find((item) => String(item.id) === value)
+        if (schedule) {
+            reviewForm.setValue(`matches.${index}.amount`, Math.min(getOpenAmount(schedule), Math.max(restAmount + (Number(matches[index]?.amount) || 0), 0)))
+        }
+    }
+
+    const handleSubmit = (data) => {
+        confirmBankTransaction({id: transaction.id, ...data}).then((res) => {
+            if (res.error) {
+                setServerErrors(reviewForm, res.error)
+            } else {
+                setIsOpen(false)
+            }
+        })
+    }
+
+    const handleIgnore = () => {
+        ignoreBankTransaction(transaction.id).then((res) => {
+            if (!res.error) {
+                setIsOpen(false)
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <Landmark className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Review Bank Transaction
+                    </DialogTitle>
+                    <DialogDescription>
+                        {moneyParser(transaction?.amount, transaction?.currency ?? undefined)} on {dateParser(transaction?.date)}
+                        {transaction?.counterparty ? ` from ${transaction.counterparty}` : ""}
+                        {transaction?.reference ? `: ${transaction.reference}` : ""}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...reviewForm}>
+                    <form onSubmit={reviewForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <div className="flex flex-col gap-2 max-h-[300px] overflow-auto">
+                            {fields.map((field, index) => (
+                                <div key={field.id} className="flex flex-col gap-2 border-2 border-border rounded-lg p-2">
+                                    <FormField
+                                        control={reviewForm.control}
+                                        name={`matches.${index}.scheduleId`}
+                                        render={({field}) => (
+                                            <FormItem>
+                                                <FormLabel>Charge *</FormLabel>
+                                                <Select onValueChange={(value) => selectSchedule(index, value)}
+                                                        value={field.value ? String(field.value) : undefined}>
+                                                    <FormControl>
+                                                        <SelectTrigger>
+                                                            <SelectValue placeholder="Select a charge"/>
+                                                        </SelectTrigger>
+                                                    </FormControl>
+                                                    <SelectContent>
+                                                        {schedules.map((schedule) => (
+                                                            <SelectItem key={schedule.id} value={String(schedule.id)}>
+                                                                {getScheduleLabel(schedule)}
+                                                            </SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                <FormMessage/>
+                                            </FormItem>
+                                        )}
+                                    />
+
+                                    <FormGroup>
+                                        <FormField
+                                            control={reviewForm.control}
+                                            name={`matches.${index}.amount`}
+                                            render={({field}) => (
+                                                <FormItem>
+                                                    <FormLabel>Amount *</FormLabel>
+                                                    <FormControl>
+                                                        <Input type="currency" {...field} value={field.value ?? ""} />
+                                                    </FormControl>
+                                                    <FormMessage/>
+                                                </FormItem>
+                                            )}
+                                        />
+
+                                        <Button variant="outline" size="sm" type="button" className="self-end"
+                                                disabled={fields.length === 1}
+                                                onClick={() => remove(index)}
+                                        >
+                                            <Trash2 className="w-4 h-4 mr-2"/>
+                                            Remove
+                                        </Button>
+                                    </FormGroup>
+                                </div>
+                            ))}
+                        </div>
+
+                        <Button variant="outline" size="sm" type="button" className="self-start"
+                                onClick={() => append({scheduleId: "", amount: Math.max(restAmount, 0)})}
+                        >
+                            <Plus className="w-4 h-4 mr-2"/>
+                            Split
+                        </Button>
+
+                        <FormField
+                            control={reviewForm.control}
+                            name="matches"
+                            render={() => (
+                                <FormItem>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex flex-col text-sm border-t border-input pt-2">
+                            <p>Credit: {moneyParser(transaction?.amount, transaction?.currency ?? undefined)}</p>
+                            <p>Matched: {moneyParser(matchedAmount, transaction?.currency ?? undefined)}</p>
+                            <p className="font-500">
+                                {restAmount >= 0 ?
+                                    `Credited to the tenant: ${moneyParser(restAmount, transaction?.currency ?? undefined)}` :
+                                    `Exceeds the credit by ${moneyParser(-restAmount, transaction?.currency ?? undefined)}`}
+                            </p>
+                        </div>
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="outline" type="button" className="w-full" isLoading={isIgnoring} onClick={handleIgnore}>
+                                <EyeOff className="w-4 h-4 mr-2"/>
+                                Ignore
+                            </Button>
+                            <Button variant="gradient" type="submit" className="w-full" isLoading={isConfirming}>
+                                <Check className="w-4 h-4 mr-2"/>
+                                Confirm
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default ReviewBankTransaction;
@@ -0,0 +1,103 @@
+import {useState} from "react";
+import {Check, Pencil, Send, X} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {RenewalOfferStatusBadge} from "../../utils/statusBadges.js";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {PaymentFrequency} from "../../utils/magicNumbers.js";
+import EditRenewalOffer from "../leases/EditRenewalOffer.js";
+import {
+    useAcceptRenewalOfferMutation,
+    useDeclineRenewalOfferMutation,
+    useGetRenewalOffersQuery,
+    useSendRenewalOfferMutation
+} from "../../services/api/renewalApi.js";
+
+
+const RenewalOfferRow = ({offer}) => {
+    const [editOpen, setEditOpen] = useState(false)
+
+    const [sendRenewalOffer, {isLoading: isSending}] = useSendRenewalOfferMutation()
+    const [acceptRenewalOffer, {isLoading: isAccepting}] = useAcceptRenewalOfferMutation()
+    const [declineRenewalOffer, {isLoading: isDeclining}] = useDeclineRenewalOfferMutation()
+
+    const lease = offer.lease
+    const isBusy = isSending || isAccepting || isDeclining
+
+    return (
+        <div className="flex flex-row flex-wrap justify-between items-center gap-4 bg-background-light border-2 border-border p-3 rounded-lg">
+            <div className="flex flex-col gap-1 text-sm">
+                <div className="flex flex-row items-center gap-2">
+                    <p className="font-500 text-foreground">
+                        {lease?.tenant?.firstName} {lease?.tenant?.lastName}
+                    </p>
+                    <RenewalOfferStatusBadge status={offer.status}/>
+                </div>
+                <p className="text-muted-foreground">
+                    {lease?.unit?.unitIdentifier || `Lease ${lease?.id}`}, ends on {dateParser(lease?.endDate)}
+                </p>
+                <p className="text-muted-foreground">
+                    {dateParser(offer.startDate)} - {dateParser(offer.endDate)}, {moneyParser(offer.rentalPrice)} {PaymentFrequency[offer.paymentFrequency]}
+                    {lease?.rentalPrice !== offer.rentalPrice && ` (currently ${moneyParser(lease?.rentalPrice)})`}
+                </p>
+            </div>
+
+            <div className="flex flex-row flex-wrap gap-2">
+                {offer.status === "DRAFT" && (
+                    <Button size="sm" variant="outline" onClick={() => setEditOpen(true)} disabled={isBusy}>
+                        <Pencil className="w-4 h-4 mr-1"/>
+                        Edit
+                    </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => sendRenewalOffer(offer.id)}
+                        isLoading={isSending} disabled={isBusy}
+                >
+                    <Send className="w-4 h-4 mr-1"/>
+                    {offer.status === "SENT" ? "Send Again" : "Send"}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => acceptRenewalOffer(offer.id)}
+                        isLoading={isAccepting} disabled={isBusy}
+                >
+                    <Check className="w-4 h-4 mr-1"/>
+                    Accepted
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => declineRenewalOffer(offer.id)}
+                        isLoading={isDeclining} disabled={isBusy}
+                >
+                    <X className="w-4 h-4 mr-1"/>
+                    Declined
+                </Button>
+            </div>
+
+            {editOpen && (
+                <EditRenewalOffer offer={offer} open={editOpen} setIsOpen={setEditOpen}/>
+            )}
+        </div>
+    )
+}
+
+// Open renewal offers of leases that end soon. Offers are drafted automatically, the realtor sends them
+// and records the answer if the tenant does not answer in the portal
+const UpcomingRenewals = () => {
+    const {data: offers} = useGetRenewalOffersQuery()
+
+    const openOffers = offers?.data?.filter(offer => offer.status === "DRAFT" || offer.status === "SENT") || []
+
+    return (
+        <div className="flex flex-col gap-3">
+            <h3 className="text-muted-foreground font-500 text-lg md:text-md">
+                Upcoming Renewals
+            </h3>
+            <div className="w-full h-[2px] bg-secondary"/>
+            {openOffers.length === 0 && (
+                <p className="text-sm">
+                    There are no leases to renew right now
+                </p>
+            )}
+            {openOffers.map(offer => (
+                <RenewalOfferRow key={offer.id} offer={offer}/>
+            ))}
+        </div>
+    )
+}
+
+export default UpcomingRenewals;
@@ -1,4 +1,3 @@
-import {z} from "zod";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {
@@ -10,18 +9,31 @@ import {
     DialogTitle,
     DialogTrigger
 } from "../ui/dialog.tsx";
-import {Form, FormControl, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormGroup,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "../ui/form.tsx";
 import {Input} from "../ui/input.tsx";
 import RentalSelection from "../comboboxes/RentalSelection.js";
 import {useGetUnitsQuery} from "../../services/api/unitApi.js";
-import TenantSelection from "../comboboxes/TenantSelection.js";
 import {useGetTenantsQuery} from "../../services/api/tenantApi.js";
 import {Button} from "../ui/button.tsx";
 import {FilePlus2, PlusIcon} from "lucide-react";
-import {zodDateInputPipe, zodNumberInputPipe, zodStringPipe} from "../../utils/formatters.js";
 import {useCreateLeaseMutation} from "../../services/api/leaseApi.js";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
-import {LeaseStatus, PaymentFrequency} from "../../utils/magicNumbers.js";
+import {LeaseStatus, PaymentFrequency, ProrationMethod} from "../../utils/magicNumbers.js";
+import {leaseCreationSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import LeaseEscalationFields from "./LeaseEscalationFields.js";
+import LeasePartiesFields from "./LeasePartiesFields.js";
+import LeaseOverlapConflicts from "./LeaseOverlapConflicts.js";
+import {useEffect, useState} from "react";
 
 
 const AddLease = ({unit, tenant, ...props}) => {
@@ -32,37 +44,49 @@ const AddLease = ({unit, tenant, ...props}) => {
 
     const [createLease, {isLoading: isCreating}] = useCreateLeaseMutation();
 
-    const leaseFormSchema = z.object({
-        startDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
-        endDate: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
-        rentalPrice: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})})),
-        paymentFrequency: zodStringPipe(z.string({errorMap: () => ({message: 'Please enter a valid payment frequency.'})})),
-        tenantId: z.number({errorMap: () => ({message: 'Please select a tenant.'})}),
-        unitId: z.number({errorMap: () => ({message: 'Please select a unit.'})}),
-        status: zodStringPipe(z.string({errorMap: () => ({message: 'Please select a status'})})),
-    })
-
     const leaseForm = useForm({
-        resolver: zodResolver(leaseFormSchema),
+        resolver: zodResolver(leaseCreationSchema),
         defaultValues: {
             startDate: null,
             endDate: null,
             rentalPrice: null,
             status: "ACTIVE",
             paymentFrequency: "MONTHLY",
+            prorationMethod: "NONE",
+            billingDay: null,
+            escalationType: "NONE",
+            escalationValue: null,
+            priceIndexId: null,
             tenantId: tenant?.id || null,
+            parties: [{tenantId: tenant?.id || null, role: "PRIMARY", share: 100}],
             unitId: unit?.id || null,
         },
     })
 
+    // The primary party is the tenant of the lease
+    const primaryTenantId = leaseForm.watch("parties")?.find((party) => party.role === "PRIMARY")?.tenantId ?? null
+
+    useEffect(() => {
+        leaseForm.setValue("tenantId", primaryTenantId)
+    }, [leaseForm, primaryTenantId])
+
+    // Other leases of the unit that overlap the dates, see LeaseOverlapConflicts
+    const [conflicts, setConflicts] = useState([])
+    const [plannedSuccessor, setPlannedSuccessor] = useState(false)
+
     const onSubmit = (data) => {
-        createLease(data).then((res) => {
-            if (res.error) {
-                console.log(res.error)
+        createLease({...data, plannedSuccessor: plannedSuccessor}).then((res) => {
+            if (res.error?.data?.code === "LEASE_OVERLAP") {
+                setConflicts(res.error.data.conflicts)
+            }
+            else if (res.error) {
+                setServerErrors(leaseForm, res.error)
             }
             else {
                 props.onOpenChange()
                 leaseForm.reset();
+                setConflicts([])
+                setPlannedSuccessor(false)
             }
         })
     }
@@ -199,23 +223,32 @@ const AddLease = ({unit, tenant, ...props}) => {
 
                         </FormGroup>
 
-
-
-                        <FormGroup className="mt-2">
+                        <FormGroup useFlex>
                             <FormField
                                 control={leaseForm.control}
-                                name="unitId"
+                                name="prorationMethod"
                                 render={({field}) => (
                                     <FormItem >
-                                        <FormLabel>Unit *</FormLabel>
-                                        <FormControl>
-                                            <RentalSelection onSelect={(unitId) => {
-                                                leaseForm.setValue('unitId', unitId)
-                                                leaseForm.trigger('unitId')
-                                            }} selected={unit} units={units?.data}
-                                                             className="w-full"
-                                            />
-                                        </FormControl>
+                                        <FormLabel>Proration</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select..." />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {
+                                                    Object.keys(ProrationMethod).map((method, index) => {
+                                                        return (
+                                                            <SelectItem key={index} value={method}>{ProrationMethod[method]}</SelectItem>
+                                                        )
+                                                    })
+                                                }
+                                            </SelectContent>
+                                        </Select>
+                                        <FormDescription>
+                                            Rent of partial first and last periods
+                                        </FormDescription>
                                         <FormMessage/>
                                     </FormItem>
                                 )}
@@ -223,26 +256,56 @@ const AddLease = ({unit, tenant, ...props}) => {
 
                             <FormField
                                 control={leaseForm.control}
-                                name="tenantId"
+                                name="billingDay"
                                 render={({field}) => (
                                     <FormItem >
-                                        <FormLabel>Tenant *</FormLabel>
+                                        <FormLabel>Billing Day</FormLabel>
                                         <FormControl>
-                                            <TenantSelection onSelect={(tenantId) => {
-                                                leaseForm.setValue('tenantId', tenantId)
-                                                leaseForm.trigger('tenantId')
-                                            }} selected={tenant} tenants={tenants?.data}
-                                                             className="w-full"
-                                            />
+                                            <Input type="number" min={1} max={28} placeholder="Start date" {...field} value={field.value ?? ""} />
                                         </FormControl>
+                                        <FormDescription>
+                                            Day of the month rent is due on
+                                        </FormDescription>
                                         <FormMessage/>
                                     </FormItem>
                                 )}
-
                             />
-
                         </FormGroup>
 
+                        <LeaseEscalationFields form={leaseForm}/>
+
+
+                        <FormField
+                            control={leaseForm.control}
+                            name="unitId"
+                            render={() => (
+                                <FormItem className="mt-2">
+                                    <FormLabel>Unit *</FormLabel>
+                                    <FormControl>
+                                        <RentalSelection onSelect={(unitId) => {
+                                            leaseForm.setValue('unitId', unitId)
+                                            leaseForm.trigger('unitId')
+                                        }} selected={unit} units={units?.data}
+                                                         className="w-full"
+                                        />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex flex-col mt-2">
+                            <p className="text-sm font-500">Parties</p>
+                            <p className="text-sm text-muted-foreground">
+                                The primary tenant, co-tenants and their shares of the rent, guarantors and further occupants
+                            </p>
+                        </div>
+
+                        <LeasePartiesFields form={leaseForm} tenants={tenants?.data}/>
+
+                        <LeaseOverlapConflicts conflicts={conflicts} plannedSuccessor={plannedSuccessor}
+                                               setPlannedSuccessor={setPlannedSuccessor}/>
+
                         <div className="flex justify-between gap-2 mt-4">
                             <Button type="button" variant="outline" className="w-full" onClick={() => {
                                 leaseForm.reset();
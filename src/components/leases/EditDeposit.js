@@ -0,0 +1,181 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useForm} from "react-hook-form";
+import {depositSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormGroup,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "../ui/form.tsx";
+import {PiggyBank} from "lucide-react";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {Textarea} from "../ui/textarea.tsx";
+import {useCreateDepositMutation, useUpdateDepositMutation} from "../../services/api/depositApi.js";
+
+
+// Adds the deposit of a lease or edits it while it is still held
+const EditDeposit = ({lease, deposit, open, setIsOpen}) => {
+
+    const depositForm = useForm({
+        resolver: zodResolver(depositSchema),
+        defaultValues: {
+            amount: deposit?.amount ?? lease?.rentalPrice,
+            receivedDate: deposit?.receivedDate ? new Date(deposit.receivedDate) : new Date(lease?.startDate ?? Date.now()),
+            holdingAccount: deposit?.holdingAccount ?? null,
+            interestRate: deposit?.interestRate ?? null,
+            notes: deposit?.notes ?? null,
+        }
+    })
+
+    const [createDeposit, {isLoading: isCreating}] = useCreateDepositMutation()
+    const [updateDeposit, {isLoading: isUpdating}] = useUpdateDepositMutation()
+
+    const isLoading = isCreating || isUpdating
+
+    const handleSubmit = (data) => {
+        const request = deposit ? updateDeposit({id: deposit.id, ...data}) : createDeposit({leaseId: lease.id, ...data})
+
+        request.then((res) => {
+            if (res.error) {
+                setServerErrors(depositForm, res.error)
+            } else {
+                setIsOpen(false)
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <PiggyBank className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        {deposit ? "Edit Security Deposit" : "Add Security Deposit"}
+                    </DialogTitle>
+                    <DialogDescription>
+                        The deposit is held in the currency of the lease until it is settled on move-out.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...depositForm}>
+                    <form onSubmit={depositForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <FormGroup>
+                            <FormField
+                                control={depositForm.control}
+                                name="amount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Amount *</FormLabel>
+                                        <FormControl>
+                                            <Input type="currency" {...field}  />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={depositForm.control}
+                                name="receivedDate"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Received On</FormLabel>
+                                        <FormControl>
+                                            <Input type="date" {...field}  />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormGroup>
+                            <FormField
+                                control={depositForm.control}
+                                name="holdingAccount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Holding Account</FormLabel>
+                                        <FormControl>
+                                            <Input {...field} value={field.value ?? ""} placeholder="e.g. Escrow account"/>
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={depositForm.control}
+                                name="interestRate"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Interest Rate (%)</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" step="0.01" {...field} value={field.value ?? ""} />
+                                        </FormControl>
+                                        <FormDescription>
+                                            Yearly rate the tenant is owed on the deposit
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormField
+                            control={depositForm.control}
+                            name="notes"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Notes</FormLabel>
+                                    <FormControl>
+                                        <Textarea {...field} value={field.value ?? ""} className="resize-none"/>
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="outline" type="reset" onClick={() => {
+                                setIsOpen(false)
+                                depositForm.reset()
+                            }}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                Cancel
+                            </Button>
+                            <Button variant="gradient" type="submit"
+                                    isLoading={isLoading}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                {deposit ? "Save Changes" : "Add Deposit"}
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default EditDeposit;
@@ -9,7 +9,8 @@ import {
 } from "../ui/dialog.tsx";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {useForm} from "react-hook-form";
-import {leaseSchema} from "../../utils/formSchemas.js";
+import {leaseSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {
     Form,
     FormControl,
@@ -23,7 +24,7 @@ import {
 import {Building, Scroll} from "lucide-react";
 import {Input} from "../ui/input.tsx";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
-import {LeaseStatus, PaymentFrequency} from "../../utils/magicNumbers.js";
+import {LeaseStatus, PaymentFrequency, ProrationMethod} from "../../utils/magicNumbers.js";
 import {Button} from "../ui/button.tsx";
 import {useUpdateLeaseMutation} from "../../services/api/leaseApi.js";
 import {Textarea} from "../ui/textarea.tsx";
@@ -31,6 +32,9 @@ import TenantSelection from "../comboboxes/TenantSelection.js";
 import RentalSelection from "../comboboxes/RentalSelection.js";
 import {selectAllTenants, selectAllUnits} from "../../services/slices/objectSlice.js";
 import {useSelector} from "react-redux";
+import ScheduleChangesPreview from "./ScheduleChangesPreview.js";
+import LeaseEscalationFields from "./LeaseEscalationFields.js";
+import LeaseOverlapConflicts from "./LeaseOverlapConflicts.js";
 
 
 const EditLease = ({lease, open, setIsOpen, ...props}) => {
@@ -50,6 +54,33 @@ const EditLease = ({lease, open, setIsOpen, ...props}) => {
 
     const units = useSelector(state => selectAllUnits(state))
 
+    // Changed payment schedule of the new terms, the lease is only updated once it is confirmed
+    const [schedulePreview, setSchedulePreview] = useState(null)
+
+    // Other leases of the unit that overlap the new dates, see LeaseOverlapConflicts
+    const [conflicts, setConflicts] = useState([])
+    const [plannedSuccessor, setPlannedSuccessor] = useState(false)
+
+    const saveLease = (body) => {
+        updateLease(body).then((res) => {
+            if (res.error?.data?.code === "SCHEDULE_CHANGES") {
+                setConflicts([])
+                setSchedulePreview({body: body, changes: res.error.data.preview})
+            } else if (res.error?.data?.code === "LEASE_OVERLAP") {
+                setSchedulePreview(null)
+                setConflicts(res.error.data.conflicts)
+            } else if (res.error) {
+                setSchedulePreview(null)
+                setServerErrors(leaseForm, res.error)
+            } else {
+                setSchedulePreview(null)
+                setConflicts([])
+                setIsOpen(false)
+                // Update the form with the new data
+                leaseForm.reset(body)
+            }
+        })
+    }
 
 
     const handleSubmit = (data) => {
@@ -67,17 +98,9 @@ const EditLease = ({lease, open, setIsOpen, ...props}) => {
             }
         })
         body.id = lease.id
+        body.plannedSuccessor = plannedSuccessor
 
-
-        updateLease(body).then((res) => {
-            if (res.error) {
-                console.log(res.error)
-            } else {
-                setIsOpen(false)
-                // Update the form with the new data
-                leaseForm.reset(body)
-            }
-        })
+        saveLease(body)
     }
 
     return (
@@ -189,7 +212,8 @@ const EditLease = ({lease, open, setIsOpen, ...props}) => {
                                             </FormControl>
                                             <SelectContent>
                                                 {
-                                                    Object.keys(LeaseStatus).map((status, index) => {
+                                                    // Leases are terminated with a termination (see TerminateLease)
+                                                    Object.keys(LeaseStatus).filter((status) => status !== "TERMINATED" || lease?.status === "TERMINATED").map((status, index) => {
                                                         return (
                                                             <SelectItem key={index}
                                                                         value={status}>{LeaseStatus[status]}</SelectItem>
@@ -205,6 +229,57 @@ const EditLease = ({lease, open, setIsOpen, ...props}) => {
 
                         </FormGroup>
 
+                        <FormGroup>
+                            <FormField
+                                control={leaseForm.control}
+                                name="prorationMethod"
+                                render={({field}) => (
+                                    <FormItem >
+                                        <FormLabel>Proration</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select..." />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {
+                                                    Object.keys(ProrationMethod).map((method, index) => {
+                                                        return (
+                                                            <SelectItem key={index} value={method}>{ProrationMethod[method]}</SelectItem>
+                                                        )
+                                                    })
+                                                }
+                                            </SelectContent>
+                                        </Select>
+                                        <FormDescription>
+                                            Rent of partial first and last periods
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={leaseForm.control}
+                                name="billingDay"
+                                render={({field}) => (
+                                    <FormItem >
+                                        <FormLabel>Billing Day</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min={1} max={28} placeholder="Start date" {...field} value={field.value ?? ""} />
+                                        </FormControl>
+                                        <FormDescription>
+                                            Day of the month rent is due on
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <LeaseEscalationFields form={leaseForm}/>
+
 
                         <FormField
                             control={leaseForm.control}
@@ -276,7 +351,8 @@ const EditLease = ({lease, open, setIsOpen, ...props}) => {
 
                         </FormGroup>
 
-
+                        <LeaseOverlapConflicts conflicts={conflicts} plannedSuccessor={plannedSuccessor}
+                                               setPlannedSuccessor={setPlannedSuccessor}/>
 
                         <div className="w-full flex flex-row gap-2 justify-between mt-2">
                             <Button variant="outline" type="reset" onClick={() => {
@@ -302,6 +378,15 @@ const EditLease = ({lease, open, setIsOpen, ...props}) => {
                 </Form>
             </DialogContent>
 
+            {schedulePreview && (
+                <ScheduleChangesPreview
+                    preview={schedulePreview.changes}
+                    open={!!schedulePreview}
+                    setIsOpen={(isOpen) => !isOpen && setSchedulePreview(null)}
+                    onConfirm={() => saveLease({...schedulePreview.body, confirmScheduleChanges: true})}
+                    isLoading={isUpdating}
+                />
+            )}
         </Dialog>
     )
 }
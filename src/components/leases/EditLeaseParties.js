@@ -0,0 +1,93 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useForm} from "react-hook-form";
+import {useSelector} from "react-redux";
+import {leasePartiesRequestSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {Form} from "../ui/form.tsx";
+import {Users} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {selectAllTenants} from "../../services/slices/objectSlice.js";
+import {useUpdateLeasePartiesMutation} from "../../services/api/leaseApi.js";
+import LeasePartiesFields from "./LeasePartiesFields.js";
+
+
+// Parties of an existing lease, the primary tenant becomes the tenant of the lease (and of its unit)
+const EditLeaseParties = ({lease, open, setIsOpen}) => {
+
+    const tenants = useSelector(state => selectAllTenants(state))
+
+    const partiesForm = useForm({
+        resolver: zodResolver(leasePartiesRequestSchema),
+        defaultValues: {
+            parties: lease?.parties?.length ?
+                lease.parties.map((party) => ({tenantId: party.tenantId, role: party.role, share: party.share})) :
+                [{tenantId: lease?.tenantId ?? null, role: "PRIMARY", share: 100}],
+        }
+    })
+
+    const [updateLeaseParties, {isLoading}] = useUpdateLeasePartiesMutation()
+
+    const handleSubmit = (data) => {
+        updateLeaseParties({id: lease.id, ...data}).then((res) => {
+            if (res.error) {
+                setServerErrors(partiesForm, res.error)
+            } else {
+                setIsOpen(false)
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <Users className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Lease Parties
+                    </DialogTitle>
+                    <DialogDescription>
+                        The primary tenant, co-tenants and their shares of the rent, guarantors and further occupants.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...partiesForm}>
+                    <form onSubmit={partiesForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <LeasePartiesFields form={partiesForm} tenants={tenants}/>
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="outline" type="reset" onClick={() => {
+                                setIsOpen(false)
+                                partiesForm.reset()
+                            }}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                Cancel
+                            </Button>
+                            <Button variant="gradient" type="submit"
+                                    isLoading={isLoading}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                Save Parties
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default EditLeaseParties;
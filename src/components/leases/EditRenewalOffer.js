@@ -0,0 +1,188 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useForm} from "react-hook-form";
+import {renewalOfferSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormGroup,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "../ui/form.tsx";
+import {CalendarClock} from "lucide-react";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {PaymentFrequency} from "../../utils/magicNumbers.js";
+import {Button} from "../ui/button.tsx";
+import {Textarea} from "../ui/textarea.tsx";
+import {useUpdateRenewalOfferMutation} from "../../services/api/renewalApi.js";
+
+
+// Terms of a drafted renewal offer, sent offers can not be changed anymore
+const EditRenewalOffer = ({offer, open, setIsOpen}) => {
+
+    const offerForm = useForm({
+        resolver: zodResolver(renewalOfferSchema),
+        defaultValues: {
+            startDate: new Date(offer?.startDate),
+            endDate: new Date(offer?.endDate),
+            rentalPrice: offer?.rentalPrice,
+            paymentFrequency: offer?.paymentFrequency,
+            notes: offer?.notes,
+        }
+    })
+
+    const [updateRenewalOffer, {isLoading: isUpdating}] = useUpdateRenewalOfferMutation()
+
+    const handleSubmit = (data) => {
+        updateRenewalOffer({id: offer.id, ...data}).then((res) => {
+            if (res.error) {
+                setServerErrors(offerForm, res.error)
+            } else {
+                setIsOpen(false)
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <CalendarClock className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Edit Renewal Offer
+                    </DialogTitle>
+                    <DialogDescription>
+                        Adjust the terms of the renewal before sending it to {offer?.lease?.tenant?.firstName || "the tenant"}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...offerForm}>
+                    <form onSubmit={offerForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <FormGroup>
+                            <FormField
+                                control={offerForm.control}
+                                name="startDate"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Start Date *</FormLabel>
+                                        <FormControl>
+                                            <Input type="date" {...field}  />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={offerForm.control}
+                                name="endDate"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>End Date *</FormLabel>
+                                        <FormControl>
+                                            <Input type="date" {...field}  />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormGroup>
+                            <FormField
+                                control={offerForm.control}
+                                name="rentalPrice"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Rental Price *</FormLabel>
+                                        <FormControl>
+                                            <Input type="currency" {...field}  />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={offerForm.control}
+                                name="paymentFrequency"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Payment Frequency *</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select..."/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {
+                                                    Object.keys(PaymentFrequency).map((frequency, index) => {
+                                                        return (
+                                                            <SelectItem key={index}
+                                                                        value={frequency}>{PaymentFrequency[frequency]}</SelectItem>
+                                                        )
+                                                    })
+                                                }
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormField
+                            control={offerForm.control}
+                            name="notes"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Notes</FormLabel>
+                                    <FormControl>
+                                        <Textarea {...field} className="resize-none"/>
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="outline" type="reset" onClick={() => {
+                                setIsOpen(false)
+                                offerForm.reset()
+                            }}
+                                    disabled={isUpdating}
+                                    className="w-full"
+                            >
+                                Cancel
+                            </Button>
+                            <Button variant="gradient" type="submit"
+                                    isLoading={isUpdating}
+                                    disabled={isUpdating}
+                                    className="w-full"
+                            >
+                                Save Changes
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default EditRenewalOffer;
@@ -0,0 +1,142 @@
+import {useState} from "react";
+import {FileDown, LogOut, Pencil, PiggyBank, Trash2} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {DepositStatusBadge} from "../../utils/statusBadges.js";
+import {useDeleteDepositMutation} from "../../services/api/depositApi.js";
+import {useDownloadDocumentMutation} from "../../services/api/documentApi.js";
+import EditDeposit from "./EditDeposit.js";
+import SettleDeposit from "./SettleDeposit.js";
+
+
+// Security deposit of a lease, held deposits can be edited and settled on move-out
+const LeaseDeposit = ({lease}) => {
+
+    const deposit = lease?.deposit
+
+    const [editDepositOpen, setEditDepositOpen] = useState(false)
+    const [settleDepositOpen, setSettleDepositOpen] = useState(false)
+
+    const [deleteDeposit, {isLoading: isDeleting}] = useDeleteDepositMutation()
+    const [downloadDocument, {isLoading: isDownloading}] = useDownloadDocumentMutation()
+
+    if (!deposit) {
+        return (
+            <div className="flex flex-col items-start gap-2 text-sm">
+                <p className="text-muted-foreground">
+                    No security deposit has been recorded for this lease.
+                </p>
+                <Button variant="outline" onClick={() => setEditDepositOpen(true)}>
+                    <PiggyBank className="w-4 h-4 mr-2"/>
+                    Add Deposit
+                </Button>
+                <EditDeposit lease={lease} open={editDepositOpen} setIsOpen={setEditDepositOpen}/>
+            </div>
+        )
+    }
+
+    const entries = [
+        {
+            label: "Amount",
+            value: moneyParser(deposit.amount) ?? "N/A"
+        },
+        {
+            label: "Received On",
+            value: dateParser(deposit.receivedDate) || "N/A"
+        },
+        {
+            label: "Holding Account",
+            value: deposit.holdingAccount || "N/A"
+        },
+        {
+            label: "Interest Rate",
+            value: deposit.interestRate ? `${deposit.interestRate}%` : "N/A"
+        },
+        {
+            label: "Notes",
+            value: deposit.notes || "N/A"
+        }
+    ]
+
+    const isSettled = deposit.status === "SETTLED"
+
+    return (
+        <div className="flex flex-col gap-4 text-sm">
+            <div className="flex flex-row justify-between items-center">
+                <DepositStatusBadge status={deposit.status}/>
+                {!isSettled && (
+                    <div className="flex flex-row gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditDepositOpen(true)}>
+                            <Pencil className="w-4 h-4 mr-2"/>
+                            Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => deleteDeposit(deposit.id)}
+                                isLoading={isDeleting}
+                                disabled={isDeleting}
+                        >
+                            <Trash2 className="w-4 h-4 mr-2"/>
+                            Delete
+                        </Button>
+                        <Button variant="gradient" size="sm" onClick={() => setSettleDepositOpen(true)}>
+                            <LogOut className="w-4 h-4 mr-2"/>
+                            Settle
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-1">
+                {entries.map((entry, index) => (
+                    <div key={index} className="w-full">
+                        <div className="text-muted-foreground font-500">
+                            {entry.label}
+                        </div>
+                        <div className="text-md text-foreground font-400">
+                            {entry.value}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {isSettled && (
+                <div className="w-full flex flex-col gap-1 border-t border-input pt-2">
+                    <div className="text-muted-foreground font-500">
+                        Settlement ({dateParser(deposit.moveOutDate)})
+                    </div>
+                    {deposit.deductions.map(deduction => (
+                        <div key={deduction.id} className="flex flex-row justify-between">
+                            <p>{deduction.description}</p>
+                            <p>- {moneyParser(deduction.amount)}</p>
+                        </div>
+                    ))}
+                    <div className="flex flex-row justify-between">
+                        <p>Interest</p>
+                        <p>+ {moneyParser(deposit.interestAmount ?? 0)}</p>
+                    </div>
+                    <div className="flex flex-row justify-between font-500">
+                        <p>{deposit.refundAmount >= 0 ? "Refund" : "Owed by the tenant"}</p>
+                        <p>{moneyParser(Math.abs(deposit.refundAmount ?? 0))}</p>
+                    </div>
+
+                    {deposit.statement && (
+                        <Button variant="outline" size="sm" className="self-start mt-2"
+                                onClick={() => downloadDocument(deposit.statement)}
+                                isLoading={isDownloading}
+                                disabled={isDownloading}
+                        >
+                            <FileDown className="w-4 h-4 mr-2"/>
+                            Download Statement
+                        </Button>
+                    )}
+                </div>
+            )}
+
+            <EditDeposit lease={lease} deposit={deposit} open={editDepositOpen} setIsOpen={setEditDepositOpen}/>
+            {!isSettled && (
+                <SettleDeposit lease={lease} deposit={deposit} open={settleDepositOpen} setIsOpen={setSettleDepositOpen}/>
+            )}
+        </div>
+    )
+}
+
+export default LeaseDeposit;
@@ -0,0 +1,96 @@
+import {FormControl, FormDescription, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Input} from "../ui/input.tsx";
+import {EscalationType} from "../../utils/magicNumbers.js";
+import {useGetPriceIndexesQuery} from "../../services/api/priceIndexApi.js";
+
+
+// Rent escalation clause of the lease forms (AddLease, EditLease), the value is only asked for fixed and
+// percentage increases and the price index only for index escalations
+const LeaseEscalationFields = ({form}) => {
+
+    const {data: priceIndexes} = useGetPriceIndexesQuery()
+
+    const escalationType = form.watch("escalationType")
+
+    return (
+        <FormGroup useFlex>
+            <FormField
+                control={form.control}
+                name="escalationType"
+                render={({field}) => (
+                    <FormItem >
+                        <FormLabel>Rent Escalation</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select..." />
+                                </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                                {
+                                    Object.keys(EscalationType).map((type, index) => {
+                                        return (
+                                            <SelectItem key={index} value={type}>{EscalationType[type]}</SelectItem>
+                                        )
+                                    })
+                                }
+                            </SelectContent>
+                        </Select>
+                        <FormDescription>
+                            Applied on every anniversary of the start date
+                        </FormDescription>
+                        <FormMessage/>
+                    </FormItem>
+                )}
+            />
+
+            {(escalationType === "FIXED" || escalationType === "PERCENTAGE") && (
+                <FormField
+                    control={form.control}
+                    name="escalationValue"
+                    render={({field}) => (
+                        <FormItem >
+                            <FormLabel>{escalationType === "FIXED" ? "Increase per Year" : "Increase per Year (%)"}</FormLabel>
+                            <FormControl>
+                                <Input type="number" step="0.01" {...field} value={field.value ?? ""} />
+                            </FormControl>
+                            <FormMessage/>
+                        </FormItem>
+                    )}
+                />
+            )}
+
+            {escalationType === "INDEX" && (
+                <FormField
+                    control={form.control}
+                    name="priceIndexId"
+                    render={({field}) => (
+                        <FormItem >
+                            <FormLabel>Price Index</FormLabel>
+                            <Select onValueChange={(value) => field.onChange(Number(value))}
+                                    defaultValue={field.value ? String(field.value) : undefined}>
+                                <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select..." />
+                                    </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                    {priceIndexes?.data?.map((priceIndex) => (
+                                        <SelectItem key={priceIndex.id} value={String(priceIndex.id)}>{priceIndex.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <FormDescription>
+                                The rent follows the index from the start date
+                            </FormDescription>
+                            <FormMessage/>
+                        </FormItem>
+                    )}
+                />
+            )}
+        </FormGroup>
+    )
+}
+
+export default LeaseEscalationFields;
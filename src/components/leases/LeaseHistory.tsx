@@ -3,9 +3,10 @@ import {DataTable} from "../ui/data-table.js";
 import {ColumnDef} from "@tanstack/react-table";
 import {Lease} from "../../utils/classes.ts";
 import { Scroll} from "lucide-react";
-import {PaymentFrequency} from "../../utils/magicNumbers.js";
+import {LeasePartyRole, PaymentFrequency} from "../../utils/magicNumbers.js";
 import {LeaseStatusBadge} from "../../utils/statusBadges.js";
 import Link from "../general/Link.tsx";
+import {useGetLeaseBalancesQuery} from "../../services/api/ledgerApi.js";
 
 
 
@@ -13,6 +14,11 @@ import Link from "../general/Link.tsx";
 
 const LeaseHistory = ({leases, ...props}) => {
 
+    // Paid and owed amounts come from the ledger
+    const {data: leaseBalances} = useGetLeaseBalancesQuery({});
+
+    const getBalance = (lease: Lease) => leaseBalances?.data?.find((balance) => balance.leaseId === lease?.id)
+
     const columns: ColumnDef<Lease>[] = [
         {
             id: "unit",
@@ -29,6 +35,27 @@ const LeaseHistory = ({leases, ...props}) => {
             accessorFn: (row) => row?.startDate || undefined,
             enableSorting: true,
         },
+        {
+            id: "parties",
+            header: "Parties",
+            meta: {
+                type: "string",
+            },
+            cell: ({ row }) => {
+                return (
+                    <div className="flex flex-col">
+                        {row.original?.parties?.map((party) => (
+                            <p key={party.id} className="whitespace-nowrap">
+                                <span className="font-500">{party.tenant?.firstName} {party.tenant?.lastName}</span>
+                                <span className="text-muted-foreground"> {LeasePartyRole[party.role]}{party.share !== null && `, ${party.share}%`}</span>
+                            </p>
+                        ))}
+                    </div>
+                )
+            },
+            accessorFn: (row) => row?.parties?.map((party) => `${party.tenant?.firstName} ${party.tenant?.lastName}`).join(", ") || undefined,
+            enableSorting: false,
+        },
         {
             id: "startDate",
             header: "Start Date",
@@ -128,7 +155,7 @@ const LeaseHistory = ({leases, ...props}) => {
                     </div>
                 )
             },
-            accessorFn: (row) => row?.totalRentDue || undefined,
+            accessorFn: (row) => row?.paymentSchedule?.find(p => p.status !== "PAID")?.dueDate || undefined,
             enableSorting: true,
 
         },
@@ -141,11 +168,27 @@ const LeaseHistory = ({leases, ...props}) => {
             cell: ({ row }) => {
                 return (
                     <div className="capitalize font-500">
-                        {moneyParser(row?.original?.rentPaid)}
+                        {moneyParser(getBalance(row?.original)?.paid ?? 0, row?.original?.currency)}
+                    </div>
+                )
+            },
+            accessorFn: (row) => getBalance(row)?.paid || undefined,
+            enableSorting: true,
+        },
+        {
+            id: "balance",
+            header: "Balance",
+            meta: {
+                type: "number",
+            },
+            cell: ({ row }) => {
+                return (
+                    <div className="capitalize font-500">
+                        {moneyParser(getBalance(row?.original)?.balance ?? 0, row?.original?.currency)}
                     </div>
                 )
             },
-            accessorFn: (row) => row?.rentPaid || undefined,
+            accessorFn: (row) => getBalance(row)?.balance || undefined,
             enableSorting: true,
         },
         {
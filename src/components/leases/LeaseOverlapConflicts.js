@@ -0,0 +1,51 @@
+import {CalendarX2} from "lucide-react";
+import {Checkbox} from "../ui/checkbox.tsx";
+import {dateParser} from "../../utils/formatters.js";
+import {LeaseStatusBadge} from "../../utils/statusBadges.js";
+
+
+// Other leases of the unit that overlap the dates of the lease form (AddLease, EditLease, TenantCreation). The lease can still be saved
+// as the planned successor of the lease that runs at its start, e.g. a new lease that was signed before the current one ends
+const LeaseOverlapConflicts = ({conflicts, plannedSuccessor, setPlannedSuccessor}) => {
+
+    if (!conflicts?.length) return null;
+
+    return (
+        <div className="p-2 border border-red-500 rounded-md flex flex-col gap-2 text-sm">
+            <div className="flex flex-row items-center gap-2">
+                <CalendarX2 className="w-4 h-4 text-red-500"/>
+                <p className="font-500 text-foreground">
+                    The unit is already leased during these dates
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-1">
+                {conflicts.map((lease) => (
+                    <div key={lease.id} className="flex flex-row justify-between items-center gap-2">
+                        <p className="text-foreground">
+                            {lease.tenant ? `${lease.tenant.firstName} ${lease.tenant.lastName}` : `Lease ${lease.id}`}
+                        </p>
+                        <p className="text-muted-foreground">
+                            {dateParser(lease.startDate)} - {lease.endDate ? dateParser(lease.endDate) : "open-ended"}
+                        </p>
+                        <LeaseStatusBadge status={lease.status}/>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-row items-start gap-2">
+                <Checkbox checked={plannedSuccessor} onClick={() => setPlannedSuccessor(!plannedSuccessor)}/>
+                <div className="flex flex-col">
+                    <p className="font-500 text-foreground">
+                        Planned Successor
+                    </p>
+                    <p className="text-muted-foreground">
+                        The lease continues the lease that runs when it starts, it may overlap with it
+                    </p>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+export default LeaseOverlapConflicts;
@@ -0,0 +1,130 @@
+import {useFieldArray} from "react-hook-form";
+import {FormControl, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {Plus, Trash2} from "lucide-react";
+import TenantSelection from "../comboboxes/TenantSelection.js";
+import {LeasePartyRole} from "../../utils/magicNumbers.js";
+
+
+// Roles of the parties that pay a share of the rent
+const PAYING_ROLES = ["PRIMARY", "CO_TENANT"]
+
+// Parties of a lease (AddLease, EditLeaseParties): every party is a tenant with a role, the primary tenant and the
+// co-tenants can get the share of the rent they are responsible for. A tenant can only be selected once
+const LeasePartiesFields = ({form, tenants}) => {
+
+    const {fields, append, remove} = useFieldArray({
+        control: form.control,
+        name: "parties",
+    })
+
+    const parties = form.watch("parties")
+
+    return (
+        <div className="flex flex-col gap-2">
+            {fields.map((field, index) => (
+                <div key={field.id} className="flex flex-col gap-2 border-2 border-border rounded-lg p-2">
+                    <FormField
+                        control={form.control}
+                        name={`parties.${index}.tenantId`}
+                        render={({field}) => (
+                            <FormItem>
+                                <FormLabel>Tenant *</FormLabel>
+                                <FormControl>
+                                    <TenantSelection onSelect={(tenantId) => {
+                                        form.setValue(`parties.${index}.tenantId`, tenantId)
+                                        form.trigger(`parties.${index}.tenantId`)
+                                    }} selected={field.value} tenants={tenants}
+                                                     excludedIds={parties.filter((_, partyIndex) => partyIndex !== index).map((party) => party.tenantId)}
+                                                     className="w-full"
+                                    />
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+
+                    <FormGroup>
+                        <FormField
+                            control={form.control}
+                            name={`parties.${index}.role`}
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Role *</FormLabel>
+                                    <Select onValueChange={(role) => {
+                                        field.onChange(role)
+                                        if (!PAYING_ROLES.includes(role)) {
+                                            form.setValue(`parties.${index}.share`, null)
+                                        }
+                                    }} value={field.value}>
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select..."/>
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {
+                                                Object.keys(LeasePartyRole).map((role, index) => {
+                                                    return (
+                                                        <SelectItem key={index} value={role}>{LeasePartyRole[role]}</SelectItem>
+                                                    )
+                                                })
+                                            }
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={form.control}
+                            name={`parties.${index}.share`}
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Share of the Rent (%)</FormLabel>
+                                    <FormControl>
+                                        <Input type="number" step="0.01" min={0} max={100} {...field} value={field.value ?? ""}
+                                               disabled={!PAYING_ROLES.includes(parties[index]?.role)}
+                                        />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                    </FormGroup>
+
+                    {fields.length > 1 && (
+                        <Button variant="outline" size="sm" type="button" className="self-end"
+                                onClick={() => remove(index)}
+                        >
+                            <Trash2 className="w-4 h-4 mr-2"/>
+                            Remove
+                        </Button>
+                    )}
+                </div>
+            ))}
+
+            <FormField
+                control={form.control}
+                name="parties"
+                render={() => (
+                    <FormItem>
+                        <FormMessage/>
+                    </FormItem>
+                )}
+            />
+
+            <Button variant="outline" size="sm" type="button" className="self-start"
+                    onClick={() => append({tenantId: null, role: "CO_TENANT", share: null})}
+            >
+                <Plus className="w-4 h-4 mr-2"/>
+                Add Party
+            </Button>
+        </div>
+    )
+}
+
+export default LeasePartiesFields;
@@ -0,0 +1,102 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {CalendarClock} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {PaymentScheduleStatusBadge} from "../../utils/statusBadges.js";
+import {cn} from "../../utils.ts";
+
+
+const changeStyles = {
+    create: "text-green-600",
+    update: "text-orange-600",
+    remove: "text-red-500 line-through",
+    keep: "text-muted-foreground",
+}
+
+const changeLabels = {
+    create: "New",
+    update: "Changed",
+    remove: "Removed",
+    keep: "Unchanged",
+}
+
+// Changes of the payment schedule the new terms of a lease cause (see diffPaymentSchedule in server/services/leaseService.js),
+// nothing is written until the realtor confirms them
+const ScheduleChangesPreview = ({preview, open, setIsOpen, onConfirm, isLoading}) => {
+
+    const rows = [
+        ...(preview?.keep ?? []).map(schedule => ({...schedule, change: "keep"})),
+        ...(preview?.update ?? []).map(schedule => ({...schedule, change: "update"})),
+        ...(preview?.remove ?? []).map(schedule => ({...schedule, change: "remove"})),
+        ...(preview?.create ?? []).map(schedule => ({...schedule, change: "create"})),
+    ].sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate))
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <CalendarClock className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Confirm Payment Schedule Changes
+                    </DialogTitle>
+                    <DialogDescription>
+                        The new terms change the payment schedule of the lease. Paid, partially paid and waived periods are kept.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-row flex-wrap gap-4 text-sm">
+                    <p className={changeStyles.create}>{preview?.create?.length ?? 0} new</p>
+                    <p className={changeStyles.update}>{preview?.update?.length ?? 0} changed</p>
+                    <p className="text-red-500">{preview?.remove?.length ?? 0} removed</p>
+                </div>
+
+                <div className="flex flex-col max-h-[300px] overflow-auto text-sm border-2 border-border rounded-lg">
+                    {rows.map((row, index) => (
+                        <div key={index} className="flex flex-row justify-between items-center gap-4 px-3 py-1 border-b border-border last:border-b-0">
+                            <p className={cn("font-500", changeStyles[row.change])}>
+                                {dateParser(row.dueDate)}
+                            </p>
+                            <p className={changeStyles[row.change]}>
+                                {row.change === "update" && `${moneyParser(row.previousAmountDue)} → `}
+                                {moneyParser(row.amountDue)}
+                            </p>
+                            <div className="flex flex-row items-center gap-2">
+                                <PaymentScheduleStatusBadge status={row.status}/>
+                                <p className={cn("text-xs", changeStyles[row.change])}>
+                                    {changeLabels[row.change]}
+                                </p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                    <Button variant="outline" onClick={() => setIsOpen(false)}
+                            disabled={isLoading}
+                            className="w-full"
+                    >
+                        Cancel
+                    </Button>
+                    <Button variant="gradient" onClick={onConfirm}
+                            isLoading={isLoading}
+                            disabled={isLoading}
+                            className="w-full"
+                    >
+                        Update Lease and Schedule
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default ScheduleChangesPreview;
@@ -0,0 +1,281 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useFieldArray, useForm} from "react-hook-form";
+import {useSelector} from "react-redux";
+import {depositSettlementSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormGroup,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "../ui/form.tsx";
+import {LogOut, Plus, Trash2} from "lucide-react";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Button} from "../ui/button.tsx";
+import {Textarea} from "../ui/textarea.tsx";
+import {moneyParser} from "../../utils/formatters.js";
+import {selectMaintenanceReportsByUnitId} from "../../services/slices/objectSlice.js";
+import {useSettleDepositMutation} from "../../services/api/depositApi.js";
+
+
+// Select value for deductions that are not linked to an expense or maintenance request
+const NO_LINK = "none"
+
+// Move-out settlement of a held deposit. The amounts are only a preview, the server calculates the interest
+// and the refund and stores the statement
+const SettleDeposit = ({lease, deposit, open, setIsOpen}) => {
+
+    const maintenanceRequests = useSelector(state => selectMaintenanceReportsByUnitId(state, lease?.unitId))
+
+    const settlementForm = useForm({
+        resolver: zodResolver(depositSettlementSchema),
+        defaultValues: {
+            moveOutDate: new Date(lease?.endDate ?? Date.now()),
+            deductions: [],
+            notes: null,
+        }
+    })
+
+    const {fields, append, remove} = useFieldArray({
+        control: settlementForm.control,
+        name: "deductions",
+    })
+
+    const [settleDeposit, {isLoading}] = useSettleDepositMutation()
+
+    const deductions = settlementForm.watch("deductions")
+    const totalDeductions = deductions.reduce((total, deduction) => total + (Number(deduction.amount) || 0), 0)
+    const refundAmount = (deposit?.amount ?? 0) - totalDeductions
+
+    const handleSubmit = (data) => {
+        settleDeposit({id: deposit.id, ...data}).then((res) => {
+            if (res.error) {
+                setServerErrors(settlementForm, res.error)
+            } else {
+                setIsOpen(false)
+                settlementForm.reset()
+            }
+        })
+    }
+
+    // Selecting an expense or maintenance request fills in the deduction, the realtor can still adjust it
+    const linkDeduction = (index, key, value) => {
+        if (value === NO_LINK) {
+            settlementForm.setValue(`deductions.${index}.${key}`, null)
+            return
+        }
+
+        const id = Number(value)
+        settlementForm.setValue(`deductions.${index}.${key}`, id)
+
+        if (key === "expenseId") {
+            const expense = lease?.expenses?.find(expense => expense.id === id)
+            settlementForm.setValue(`deductions.${index}.description`, expense?.title || expense?.description || "")
+            if (expense?.amount) {
+                settlementForm.setValue(`deductions.${index}.amount`, expense.amount)
+            }
+        } else {
+            const maintenanceRequest = maintenanceRequests.find(request => request.id === id)
+            settlementForm.setValue(`deductions.${index}.description`, maintenanceRequest?.title || "")
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <LogOut className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Settle Security Deposit
+                    </DialogTitle>
+                    <DialogDescription>
+                        Itemize the deductions, the rest of the deposit and its interest is refunded to the tenant.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...settlementForm}>
+                    <form onSubmit={settlementForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <FormField
+                            control={settlementForm.control}
+                            name="moveOutDate"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Move-Out Date *</FormLabel>
+                                    <FormControl>
+                                        <Input type="date" {...field}  />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex flex-col gap-2 max-h-[300px] overflow-auto">
+                            {fields.map((field, index) => (
+                                <div key={field.id} className="flex flex-col gap-2 border-2 border-border rounded-lg p-2">
+                                    <FormGroup>
+                                        <FormField
+                                            control={settlementForm.control}
+                                            name={`deductions.${index}.description`}
+                                            render={({field}) => (
+                                                <FormItem>
+                                                    <FormLabel>Description *</FormLabel>
+                                                    <FormControl>
+                                                        <Input {...field} value={field.value ?? ""} />
+                                                    </FormControl>
+                                                    <FormMessage/>
+                                                </FormItem>
+                                            )}
+                                        />
+
+                                        <FormField
+                                            control={settlementForm.control}
+                                            name={`deductions.${index}.amount`}
+                                            render={({field}) => (
+                                                <FormItem>
+                                                    <FormLabel>Amount *</FormLabel>
+                                                    <FormControl>
+                                                        <Input type="currency" {...field} value={field.value ?? ""} />
+                                                    </FormControl>
+                                                    <FormMessage/>
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </FormGroup>
+
+                                    <FormGroup>
+                                        <FormField
+                                            control={settlementForm.control}
+                                            name={`deductions.${index}.expenseId`}
+                                            render={({field}) => (
+                                                <FormItem>
+                                                    <FormLabel>Expense</FormLabel>
+                                                    <Select onValueChange={(value) => linkDeduction(index, "expenseId", value)}
+                                                            value={String(field.value ?? NO_LINK)}>
+                                                        <FormControl>
+                                                            <SelectTrigger>
+                                                                <SelectValue placeholder="Select..."/>
+                                                            </SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value={NO_LINK}>None</SelectItem>
+                                                            {lease?.expenses?.map(expense => (
+                                                                <SelectItem key={expense.id} value={String(expense.id)}>
+                                                                    {expense.title || `Expense ${expense.id}`}
+                                                                </SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <FormMessage/>
+                                                </FormItem>
+                                            )}
+                                        />
+
+                                        <FormField
+                                            control={settlementForm.control}
+                                            name={`deductions.${index}.maintenanceRequestId`}
+                                            render={({field}) => (
+                                                <FormItem>
+                                                    <FormLabel>Maintenance Request</FormLabel>
+                                                    <Select onValueChange={(value) => linkDeduction(index, "maintenanceRequestId", value)}
+                                                            value={String(field.value ?? NO_LINK)}>
+                                                        <FormControl>
+                                                            <SelectTrigger>
+                                                                <SelectValue placeholder="Select..."/>
+                                                            </SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value={NO_LINK}>None</SelectItem>
+                                                            {maintenanceRequests.map(request => (
+                                                                <SelectItem key={request.id} value={String(request.id)}>
+                                                                    {request.title}
+                                                                </SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <FormMessage/>
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </FormGroup>
+
+                                    <Button variant="outline" size="sm" type="button" className="self-end"
+                                            onClick={() => remove(index)}
+                                    >
+                                        <Trash2 className="w-4 h-4 mr-2"/>
+                                        Remove
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+
+                        <Button variant="outline" size="sm" type="button" className="self-start"
+                                onClick={() => append({description: "", amount: "", expenseId: null, maintenanceRequestId: null})}
+                        >
+                            <Plus className="w-4 h-4 mr-2"/>
+                            Add Deduction
+                        </Button>
+
+                        <FormField
+                            control={settlementForm.control}
+                            name="notes"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Notes</FormLabel>
+                                    <FormControl>
+                                        <Textarea {...field} value={field.value ?? ""} className="resize-none"/>
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex flex-col text-sm border-t border-input pt-2">
+                            <p>Deposit: {moneyParser(deposit?.amount)}</p>
+                            <p>Deductions: {moneyParser(totalDeductions)}</p>
+                            <p className="font-500">
+                                {refundAmount >= 0 ? `Refund: ${moneyParser(refundAmount)}` : `Owed by the tenant: ${moneyParser(-refundAmount)}`}
+                                {deposit?.interestRate ? " plus interest" : ""}
+                            </p>
+                        </div>
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="outline" type="reset" onClick={() => {
+                                setIsOpen(false)
+                                settlementForm.reset()
+                            }}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                Cancel
+                            </Button>
+                            <Button variant="gradient" type="submit"
+                                    isLoading={isLoading}
+                                    disabled={isLoading}
+                                    className="w-full"
+                            >
+                                Settle Deposit
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default SettleDeposit;
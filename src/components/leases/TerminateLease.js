@@ -0,0 +1,252 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {useForm} from "react-hook-form";
+import {useEffect, useState} from "react";
+import {leaseTerminationSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormGroup,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "../ui/form.tsx";
+import {FileX2} from "lucide-react";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Button} from "../ui/button.tsx";
+import {Textarea} from "../ui/textarea.tsx";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {BreakFeeType, FutureChargeHandling} from "../../utils/magicNumbers.js";
+import {usePreviewLeaseTerminationMutation, useTerminateLeaseMutation} from "../../services/api/leaseApi.js";
+
+
+// Early termination of a lease. The server calculates the final rent, the break fee and the charges that are
+// cancelled or waived first, the lease is only terminated once the realtor confirmed that calculation
+const TerminateLease = ({lease, open, setIsOpen}) => {
+
+    const terminationForm = useForm({
+        resolver: zodResolver(leaseTerminationSchema),
+        defaultValues: {
+            effectiveDate: new Date(),
+            reason: "",
+            breakFeeType: "NONE",
+            breakFeeValue: null,
+            futureCharges: "CANCEL",
+        }
+    })
+
+    const [preview, setPreview] = useState(null)
+
+    const [previewLeaseTermination, {isLoading: isCalculating}] = usePreviewLeaseTerminationMutation()
+    const [terminateLease, {isLoading: isTerminating}] = useTerminateLeaseMutation()
+
+    // The calculation is outdated as soon as the terms change
+    useEffect(() => {
+        const subscription = terminationForm.watch(() => setPreview(null))
+        return () => subscription.unsubscribe()
+    }, [terminationForm])
+
+    const breakFeeType = terminationForm.watch("breakFeeType")
+    const futureCharges = terminationForm.watch("futureCharges")
+
+    const handleSubmit = (data) => {
+        const request = preview ? terminateLease : previewLeaseTermination
+
+        request({id: lease.id, ...data}).then((res) => {
+            if (res.error) {
+                setServerErrors(terminationForm, res.error)
+            } else if (!preview) {
+                setPreview(res.data.data)
+            } else {
+                setIsOpen(false)
+                terminationForm.reset()
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <FileX2 className="w-6 h-6" />
+                    </DialogIcon>
+                    <DialogTitle>
+                        Terminate Lease
+                    </DialogTitle>
+                    <DialogDescription>
+                        The lease ends on the effective date, the termination notice is stored with its documents.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...terminationForm}>
+                    <form onSubmit={terminationForm.handleSubmit(handleSubmit)} className="flex flex-col gap-2">
+
+                        <FormField
+                            control={terminationForm.control}
+                            name="effectiveDate"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Effective Date *</FormLabel>
+                                    <FormControl>
+                                        <Input type="date" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={terminationForm.control}
+                            name="reason"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Reason *</FormLabel>
+                                    <FormControl>
+                                        <Textarea {...field} value={field.value ?? ""} className="resize-none"/>
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormGroup>
+                            <FormField
+                                control={terminationForm.control}
+                                name="breakFeeType"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Break Fee</FormLabel>
+                                        <Select onValueChange={(type) => {
+                                            field.onChange(type)
+                                            if (type === "NONE") {
+                                                terminationForm.setValue("breakFeeValue", null)
+                                            }
+                                        }} value={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select..."/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {
+                                                    Object.keys(BreakFeeType).map((type, index) => {
+                                                        return (
+                                                            <SelectItem key={index} value={type}>{BreakFeeType[type]}</SelectItem>
+                                                        )
+                                                    })
+                                                }
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            {breakFeeType !== "NONE" && (
+                                <FormField
+                                    control={terminationForm.control}
+                                    name="breakFeeValue"
+                                    render={({field}) => (
+                                        <FormItem>
+                                            <FormLabel>{breakFeeType === "FIXED" ? "Amount *" : "Number of Periods *"}</FormLabel>
+                                            <FormControl>
+                                                <Input type="number" step={breakFeeType === "FIXED" ? "0.01" : "0.5"} {...field} value={field.value ?? ""} />
+                                            </FormControl>
+                                            <FormMessage/>
+                                        </FormItem>
+                                    )}
+                                />
+                            )}
+                        </FormGroup>
+
+                        <FormField
+                            control={terminationForm.control}
+                            name="futureCharges"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Later Charges</FormLabel>
+                                    <Select onValueChange={field.onChange} value={field.value}>
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select..."/>
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {
+                                                Object.keys(FutureChargeHandling).map((handling, index) => {
+                                                    return (
+                                                        <SelectItem key={index} value={handling}>{FutureChargeHandling[handling]}</SelectItem>
+                                                    )
+                                                })
+                                            }
+                                        </SelectContent>
+                                    </Select>
+                                    <FormDescription>
+                                        Charges due after the effective date are removed from the schedule or kept as waived, what was paid for them becomes credit of the tenant
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        {preview && (
+                            <div className="flex flex-col text-sm border-t border-input pt-2">
+                                <p>
+                                    Rent of the last period: {preview.finalRentAmount === null ? "none" : moneyParser(preview.finalRentAmount)}
+                                    {preview.finalRent && (
+                                        <span className="text-muted-foreground"> (instead of {moneyParser(preview.finalRent.previousAmountDue)})</span>
+                                    )}
+                                </p>
+                                <p>Break fee: {moneyParser(preview.breakFeeAmount)}</p>
+                                <p>
+                                    {preview.futureCharges.length} later charges {futureCharges === "WAIVE" ? "waived" : "cancelled"}: {moneyParser(preview.futureChargesTotal)}
+                                </p>
+                                {preview.releasedAmount > 0 && (
+                                    <p>Paid in advance, credited to the tenant: {moneyParser(preview.releasedAmount)}</p>
+                                )}
+                                <p className="font-500">
+                                    {preview.takesEffect ?
+                                        "The lease is terminated now and its unit is released." :
+                                        `The lease ends on ${dateParser(preview.effectiveDate)}, it is terminated and its unit released then.`}
+                                </p>
+                            </div>
+                        )}
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="outline" type="reset" onClick={() => {
+                                setIsOpen(false)
+                                terminationForm.reset()
+                            }}
+                                    disabled={isCalculating || isTerminating}
+                                    className="w-full"
+                            >
+                                Cancel
+                            </Button>
+                            <Button variant={preview ? "destructive" : "gradient"} type="submit"
+                                    isLoading={isCalculating || isTerminating}
+                                    disabled={isCalculating || isTerminating}
+                                    className="w-full"
+                            >
+                                {preview ? "Terminate Lease" : "Calculate"}
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default TerminateLease;
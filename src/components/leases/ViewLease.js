@@ -10,17 +10,46 @@ import {
 import {dateParser, moneyParser} from "../../utils/formatters.js";
 import {useSelector} from "react-redux";
 import {selectLeaseById} from "../../services/slices/objectSlice.js";
-import {Coins, CalendarClock, Scroll} from "lucide-react";
+import {AlarmClock, Coins, CalendarClock, FileDown, FileX2, Scroll, Users} from "lucide-react";
 import {cn} from "../../utils.ts";
 import {Tabs, TabsContent, TabsList, TabsTrigger} from "../ui/tabs.tsx";
 import PaymentTable from "../financials/PaymentTable.tsx";
 import PaymentScheduleTable from "../financials/PaymentScheduleTable.tsx";
-import {LeaseStatus} from "../../utils/magicNumbers.js";
+import {BreakFeeType, EscalationType, LeasePartyRole, LeaseStatus, ProrationMethod} from "../../utils/magicNumbers.js";
 import ExpensesTable from "../financials/ExpensesTable.tsx";
+import {Button} from "../ui/button.tsx";
+import {useCreateRenewalOfferMutation} from "../../services/api/renewalApi.js";
+import LeaseDeposit from "./LeaseDeposit.js";
+import EditLateFeePolicy from "../financials/EditLateFeePolicy.js";
+import {useState} from "react";
+import {describeLateFeePolicy} from "../../utils/financials.js";
+import {useGetPriceIndexesQuery} from "../../services/api/priceIndexApi.js";
+import {getRentTimeline, hasEscalation} from "../../../shared/escalation.js";
+import {getCreditAmount} from "../../../shared/allocation.js";
+import EditLeaseParties from "./EditLeaseParties.js";
+import TerminateLease from "./TerminateLease.js";
+import {useDownloadDocumentMutation} from "../../services/api/documentApi.js";
 
 
 const ViewLease = ({lease, open, setOpen, ...props}) => {
 
+    const [createRenewalOffer, {isLoading: isCreatingOffer}] = useCreateRenewalOfferMutation()
+    const [lateFeePolicyOpen, setLateFeePolicyOpen] = useState(false)
+    const [partiesOpen, setPartiesOpen] = useState(false)
+    const [terminationOpen, setTerminationOpen] = useState(false)
+    const [downloadDocument, {isLoading: isDownloading}] = useDownloadDocumentMutation()
+
+    // Index escalations need the values of the index for the rent timeline
+    const {data: priceIndexes} = useGetPriceIndexesQuery(undefined, {skip: lease?.escalationType !== "INDEX"})
+    const priceIndex = priceIndexes?.data?.find(index => index.id === lease?.priceIndexId)
+    const rentTimeline = hasEscalation(lease) ? getRentTimeline({...lease, priceIndex: priceIndex}) : []
+    const now = new Date()
+
+    // Drafts an offer with the renewal settings of the organization, it shows up in the upcoming renewals
+    const canOfferRenewal = lease?.status === "ACTIVE" && lease?.endDate && lease?.tenantId && !lease?.termination
+
+    const canTerminate = (lease?.status === "ACTIVE" || lease?.status === "PENDING") && !lease?.termination
+
     const entriesLeft = [
         {
             label: "Start Date",
@@ -34,6 +63,21 @@ const ViewLease = ({lease, open, setOpen, ...props}) => {
             label: "Rental Price",
             value: moneyParser(lease.rentalPrice) ?? "N/A"
         },
+        {
+            label: "Proration",
+            value: ProrationMethod[lease?.prorationMethod] || "N/A"
+        },
+        {
+            label: "Billing Day",
+            value: lease.billingDay || "Start date"
+        },
+        {
+            label: "Rent Escalation",
+            value: lease?.escalationType === "FIXED" ? `${moneyParser(lease.escalationValue ?? 0)} per year` :
+                lease?.escalationType === "PERCENTAGE" ? `${lease.escalationValue ?? 0}% per year` :
+                lease?.escalationType === "INDEX" ? `Along ${priceIndex?.name ?? "a price index"}` :
+                EscalationType.NONE
+        },
         {
             label: "Notes",
             value: lease.notes  || "N/A"
@@ -57,14 +101,27 @@ const ViewLease = ({lease, open, setOpen, ...props}) => {
         {
             label: "Special Terms",
             value: lease.specialTerms  || "N/A"
+        },
+        {
+            label: "Renewal Of",
+            value: lease.previousLeaseId ? `Lease ${lease.previousLeaseId}` : "N/A"
+        },
+        {
+            label: "Late Fees",
+            value: describeLateFeePolicy(lease?.lateFeePolicy) || "Policy of the property"
+        },
+        {
+            label: "Tenant Credit",
+            value: moneyParser(getCreditAmount(lease?.rentPayments))
         }
     ]
 
+    // Payments are attributed to the party that paid, payments without a party to the primary tenant
     const payments = lease?.rentPayments.map(payment => {
         return {
             ...payment,
             lease: lease,
-            tenant: lease?.tenant
+            tenant: lease?.parties?.find(party => party.tenantId === payment.tenantId)?.tenant ?? lease?.tenant
         }
     }) || []
 
@@ -112,6 +169,9 @@ const ViewLease = ({lease, open, setOpen, ...props}) => {
                         <TabsTrigger value={"expenses"}>
                             Expenses
                         </TabsTrigger>
+                        <TabsTrigger value={"deposit"}>
+                            Deposit
+                        </TabsTrigger>
                     </TabsList>
                     <TabsContent value={"information"}>
                         <div className="grid grid-cols-2">
@@ -146,18 +206,132 @@ const ViewLease = ({lease, open, setOpen, ...props}) => {
                             </div>
                         </div>
 
-                        <div className="w-full flex flex-col text-sm mt-4 border-t border-input pt-2">
+                        <div className="w-full flex flex-col gap-1 text-sm mt-4 border-t border-input pt-2">
                             <div className="text-muted-foreground font-500">
-                                Tenant
+                                Parties
+                            </div>
+                            {(lease?.parties?.length ? lease.parties : [{id: 0, role: "PRIMARY", share: null, tenant: lease?.tenant}]).map(party => (
+                                <div key={party.id} className="flex flex-row justify-between">
+                                    <div>
+                                        <div className="text-foreground font-500">
+                                            {party.tenant?.firstName} {party.tenant?.lastName}
+                                        </div>
+                                        <div className="text-foreground font-400">
+                                            {party.tenant?.email}
+                                        </div>
+                                    </div>
+                                    <div className="text-muted-foreground font-400 text-right">
+                                        {LeasePartyRole[party.role]}
+                                        {party.share !== null && ` (${party.share}% of the rent)`}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {rentTimeline.length > 1 && (
+                            <div className="w-full flex flex-col text-sm mt-4 border-t border-input pt-2">
+                                <div className="text-muted-foreground font-500">
+                                    Rent Timeline
+                                </div>
+                                {rentTimeline.map((step, index) => {
+                                    const isCurrent = step.date <= now && (!rentTimeline[index + 1] || rentTimeline[index + 1].date > now)
+
+                                    return (
+                                        <div key={index} className={cn("flex flex-row justify-between text-foreground font-400", isCurrent && "font-600")}>
+                                            <p>{index === 0 ? "Start" : `Year ${index + 1}`}, {dateParser(step.date)}</p>
+                                            <p>
+                                                {moneyParser(step.rentalPrice)}
+                                                {step.change !== 0 && (
+                                                    <span className="text-muted-foreground"> ({step.change > 0 ? "+" : "-"}{moneyParser(Math.abs(step.change))})</span>
+                                                )}
+                                            </p>
+                                        </div>
+                                    )
+                                })}
                             </div>
-                            <div className="text-foreground font-500">
-                                {lease?.tenant?.firstName} {lease?.tenant?.lastName}
+                        )}
+
+                        {lease?.statusTransitions?.length > 0 && (
+                            <div className="w-full flex flex-col text-sm mt-4 border-t border-input pt-2">
+                                <div className="text-muted-foreground font-500">
+                                    Status History
+                                </div>
+                                {lease.statusTransitions.map(transition => (
+                                    <div key={transition.id} className="text-foreground font-400">
+                                        {dateParser(transition.createdAt)}: {LeaseStatus[transition.fromStatus] || "N/A"} → {LeaseStatus[transition.toStatus]}
+                                        {transition.reason && ` (${transition.reason})`}
+                                    </div>
+                                ))}
                             </div>
-                            <div className="text-foreground font-400">
-                                {lease?.tenant?.email}
+                        )}
+
+                        {lease?.termination && (
+                            <div className="w-full flex flex-col text-sm mt-4 border-t border-input pt-2">
+                                <div className="text-muted-foreground font-500">
+                                    Termination
+                                </div>
+                                <div className="text-foreground font-400">
+                                    Effective {dateParser(lease.termination.effectiveDate)}: {lease.termination.reason}
+                                </div>
+                                <div className="text-foreground font-400">
+                                    Break fee: {lease.termination.breakFeeType === "NONE" ? BreakFeeType.NONE : moneyParser(lease.termination.breakFeeAmount)}
+                                </div>
+                                {lease.termination.notice && (
+                                    <Button variant="outline" size="sm" className="self-start mt-2"
+                                            onClick={() => downloadDocument(lease.termination.notice)}
+                                            isLoading={isDownloading}
+                                            disabled={isDownloading}
+                                    >
+                                        <FileDown className="w-4 h-4 mr-2"/>
+                                        Download Notice
+                                    </Button>
+                                )}
                             </div>
+                        )}
+
+                        <div className="flex flex-row flex-wrap gap-2 mt-4">
+                            <Button variant="outline" onClick={() => setPartiesOpen(true)}>
+                                <Users className="w-4 h-4 mr-2"/>
+                                Edit Parties
+                            </Button>
+
+                            <Button variant="outline" onClick={() => setLateFeePolicyOpen(true)}>
+                                <AlarmClock className="w-4 h-4 mr-2"/>
+                                Late Fee Policy
+                            </Button>
+
+                            {canOfferRenewal && (
+                                <Button variant="outline"
+                                        onClick={() => createRenewalOffer({leaseId: lease.id})}
+                                        isLoading={isCreatingOffer}
+                                        disabled={isCreatingOffer}
+                                >
+                                    <CalendarClock className="w-4 h-4 mr-2"/>
+                                    Offer Renewal
+                                </Button>
+                            )}
+
+                            {canTerminate && (
+                                <Button variant="outline" onClick={() => setTerminationOpen(true)}>
+                                    <FileX2 className="w-4 h-4 mr-2"/>
+                                    Terminate Lease
+                                </Button>
+                            )}
                         </div>
 
+                        {partiesOpen && (
+                            <EditLeaseParties lease={lease} open={partiesOpen} setIsOpen={setPartiesOpen}/>
+                        )}
+
+                        {terminationOpen && (
+                            <TerminateLease lease={lease} open={terminationOpen} setIsOpen={setTerminationOpen}/>
+                        )}
+
+                        {lateFeePolicyOpen && (
+                            <EditLateFeePolicy policy={lease?.lateFeePolicy} leaseId={lease.id}
+                                               open={lateFeePolicyOpen} setIsOpen={setLateFeePolicyOpen}/>
+                        )}
+
                     </TabsContent>
                     <TabsContent value={"payments"}>
                         <PaymentTable payments={payments} pageSize={5} subtitle={""}/>
@@ -168,6 +342,9 @@ const ViewLease = ({lease, open, setOpen, ...props}) => {
                     <TabsContent value={"expenses"}>
                         <ExpensesTable expenses={expenses} pageSize={5} subtitle={""}/>
                     </TabsContent>
+                    <TabsContent value={"deposit"}>
+                        <LeaseDeposit lease={lease}/>
+                    </TabsContent>
                 </Tabs>
 
             </DialogContent>
@@ -4,7 +4,8 @@ import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, Dial
 import {Button} from "../ui/button.tsx";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {maintenanceReportSchema} from "../../utils/formSchemas.js";
+import {maintenanceReportSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {
     Form,
     FormControl,
@@ -56,6 +57,9 @@ const AddMaintenanceReport = (props) => {
                 setOpen(false)
                 maintenanceForm.reset();
             }
+            else {
+                setServerErrors(maintenanceForm, res.error)
+            }
         })
     }
 
@@ -1,6 +1,6 @@
 import {Avatar, AvatarFallback, AvatarImage} from "../ui/avatar.tsx";
 import {useSelector} from "react-redux";
-import {Compass, LogOutIcon, MenuIcon, SettingsIcon, UserRoundIcon} from "lucide-react";
+import {Building2, Compass, LogOutIcon, MenuIcon, SettingsIcon, UserRoundIcon} from "lucide-react";
 
 
 import {
@@ -14,14 +14,22 @@ import {
 import {logoutUser} from "../../services/auth/authActions.js";
 import {useNavigate} from "react-router-dom";
 import PropertySelection from "./PropertySelection.js";
+import OrganizationSelection from "./OrganizationSelection.js";
+import {useLogoutMutation} from "../../services/api/authApi.js";
 
 const Header = () => {
     const userProfile = useSelector(state => state.authSlice.userInfo)
     const navigate = useNavigate();
+    const [logout] = useLogoutMutation();
 
     return (
         <div className="flex flex-row mb-1 md:mb-3  justify-between items-center gap-x-2 p-2 md:p-4 bg-background-light rounded-lg border-2 border-border border-t-0">
-            <PropertySelection/>
+            {userProfile?.role === "TENANT" ? <div/> : (
+                <div className="flex flex-row items-center gap-2">
+                    <OrganizationSelection/>
+                    <PropertySelection/>
+                </div>
+            )}
 
             <div className="flex flex-row gap-2 items-center">
 
@@ -53,10 +61,16 @@ const Header = () => {
                                 <SettingsIcon className="mr-2 h-4 w-4"/>
                                 Settings
                             </DropdownMenuItem>
+                            {userProfile?.role !== "TENANT" && (
+                                <DropdownMenuItem onClick={() => navigate("/organization")}>
+                                    <Building2 className="mr-2 h-4 w-4"/>
+                                    Organization
+                                </DropdownMenuItem>
+                            )}
                         </DropdownMenuGroup>
                         <DropdownMenuSeparator />
                         <DropdownMenuGroup>
-                            <DropdownMenuItem onClick={() => logoutUser()}>
+                            <DropdownMenuItem onClick={() => logout().then(() => logoutUser())}>
                                 <LogOutIcon className="mr-2 h-4 w-4"/>
                                 Logout
                             </DropdownMenuItem>
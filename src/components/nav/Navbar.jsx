@@ -7,6 +7,7 @@ import {
     BuildingIcon,
     CalendarIcon,
     CircleDollarSignIcon,
+    CoinsIcon,
     DrillIcon,
     HomeIcon, MessageCircleMoreIcon,
     UserIcon
@@ -66,13 +67,44 @@ const items = [
     }
 ]
 
+// Navigation of the tenant portal
+const tenantItems = [
+    {
+        title: 'Home',
+        url: '/',
+        icon: <HomeIcon/>,
+        section: "MENU"
+    },
+    {
+        title: 'Payments',
+        url: '/payments',
+        icon: <CoinsIcon/>,
+        section: "MENU"
+    },
+    {
+        title: 'Maintenance',
+        url: '/maintenance',
+        icon: <DrillIcon/>,
+        section: "MENU"
+    },
+    {
+        title: 'Messages',
+        url: '/messages',
+        icon: <MessageCircleMoreIcon/>,
+        section: "PERSONAL"
+    }
+]
+
 // eslint-disable-next-line react/prop-types
 const Navbar = ({children}) => {
     const location = useLocation();
     const navigate = useNavigate();
     const authSlice = useSelector(state => state.authSlice);
 
-    const {isLoading: userIsLoading} = useGetUserQuery();
+    const {data: user, isLoading: userIsLoading} = useGetUserQuery();
+
+    const isTenant = user?.data?.role === "TENANT";
+    const navItems = isTenant ? tenantItems : items;
 
     // use prefetch on user, properties API
     const prefetchProperties = usePrefetch("getProperties")
@@ -84,19 +116,31 @@ const Navbar = ({children}) => {
     const prefetchMessages = usePrefetch("getMessages")
     const prefetchMaintenance = usePrefetch("getMaintenanceReports")
     const prefetchExpenses = usePrefetch("getExpenses")
+    const prefetchPortalLeases = usePrefetch("getPortalLeases")
+    const prefetchPortalPayments = usePrefetch("getPortalPayments")
+    const prefetchPortalMaintenance = usePrefetch("getPortalMaintenanceRequests")
 
     prefetchUser();
-    prefetchProperties();
-    prefetchUnits();
-    prefetchTenants();
-    prefetchLeases();
     prefetchMessages();
-    prefetchPayments();
-    prefetchMaintenance();
-    prefetchExpenses();
+
+    // Tenants can't access the realtor endpoints, so wait until the role is known
+    if (user && isTenant) {
+        prefetchPortalLeases();
+        prefetchPortalPayments();
+        prefetchPortalMaintenance();
+    }
+    else if (user) {
+        prefetchProperties();
+        prefetchUnits();
+        prefetchTenants();
+        prefetchLeases();
+        prefetchPayments();
+        prefetchMaintenance();
+        prefetchExpenses();
+    }
 
     function getNavItems(section) {
-        return items.filter(item => item.section === section);
+        return navItems.filter(item => item.section === section);
     }
 
     // If user is not logged in, but we are still waiting for the API (/user) to respond, show a loading spinner
@@ -160,7 +204,7 @@ const Navbar = ({children}) => {
                     </nav>
 
                     <nav className="md:hidden flex flex-col justify-center items-center gap-y-1">
-                        {items.map((item, index) => (
+                        {navItems.map((item, index) => (
                             <Button key={index} variant={getNavButtonVariant(item.url)} size="icon"
                                     className="justify-center items-center"
                                     onClick={() => navigate(item.url)}>
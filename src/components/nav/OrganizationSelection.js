@@ -0,0 +1,56 @@
+import {useEffect} from "react";
+import {Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {useGetOrganizationsQuery} from "../../services/api/organizationApi.js";
+import {OrganizationRole} from "../../utils/magicNumbers.js";
+import {Building2} from "lucide-react";
+
+// Switches the organization all requests work in, only shown to users that belong to more than one
+const OrganizationSelection = () => {
+    const {data, isSuccess} = useGetOrganizationsQuery();
+
+    const organizations = data?.data ?? [];
+    const storedId = localStorage.getItem('organizationId');
+
+    // Without a valid selection the server uses the first organization of the user
+    const selection = organizations.some((organization) => String(organization.id) === storedId) ? storedId : String(organizations[0]?.id ?? "");
+
+    // Forget organizations the user was removed from
+    useEffect(() => {
+        if (isSuccess && storedId && !data.data.some((organization) => String(organization.id) === storedId)) {
+            localStorage.removeItem('organizationId');
+        }
+    }, [isSuccess, storedId, data]);
+
+    if (!isSuccess || organizations.length < 2) {
+        return null;
+    }
+
+    // All cached data belongs to the previous organization, so start over with a fresh page
+    const onSelect = (value) => {
+        localStorage.setItem('organizationId', value);
+        window.location.href = '/';
+    }
+
+    return (
+        <Select onValueChange={onSelect} value={selection}>
+            <SelectTrigger className="w-fit gap-2">
+                <Building2 className="w-4 h-4"/>
+                <SelectValue/>
+            </SelectTrigger>
+
+            <SelectContent>
+                <SelectGroup>
+                    <SelectLabel className="font-600">Your Organizations</SelectLabel>
+                    {organizations.map((organization) => (
+                        <SelectItem key={organization.id} value={String(organization.id)}>
+                            {organization.name}
+                            <span className="text-muted-foreground ml-2">{OrganizationRole[organization.role]}</span>
+                        </SelectItem>
+                    ))}
+                </SelectGroup>
+            </SelectContent>
+        </Select>
+    )
+}
+
+export default OrganizationSelection;
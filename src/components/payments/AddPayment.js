@@ -1,4 +1,3 @@
-import {z} from "zod";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {
@@ -23,19 +22,17 @@ import {
 import {Input} from "../ui/input.tsx";
 import {Button} from "../ui/button.tsx";
 import {Coins, PlusIcon} from "lucide-react";
-import {zodDateInputPipe, zodNumberInputPipe, zodStringPipe} from "../../utils/formatters.js";
 import { useGetLeasesQuery} from "../../services/api/leaseApi.js";
 import {useCreatePaymentMutation} from "../../services/api/financialsApi.js";
 import LeaseSelection from "../comboboxes/LeaseSelection.js";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
-import {PaymentStatus} from "../../utils/magicNumbers.js";
-import {Checkbox} from "../ui/checkbox.tsx";
-import {Tooltip, TooltipContent, TooltipProvider, TooltipTrigger} from "../ui/tooltip.tsx";
-import {AiOutlineQuestionCircle} from "react-icons/ai";
-import {getNextScheduledPayment, getScheduledPaymentStatus} from "../../utils/financials.js";
-import {useState} from "react";
+import {LeasePartyRole, PaymentStatus} from "../../utils/magicNumbers.js";
+import {paymentCreationSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {allocateAmount, getAllocatedAmount, getAllocatedStatus} from "../../../shared/allocation.js";
+import {Fragment, useState} from "react";
 import {PaymentScheduleStatusBadge} from "../../utils/statusBadges.js";
-import {cn} from "../../utils.ts";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
 
 
 const AddPayment = ({...props}) => {
@@ -45,21 +42,10 @@ const AddPayment = ({...props}) => {
 
     const [createPayment, {isLoading: isCreating}] = useCreatePaymentMutation();
 
-    const paymentFormSchema = z.object({
-        date: zodDateInputPipe(z.string({errorMap: () => ({message: 'Please enter a valid date.'})})),
-        amount:  zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})})),
-        notes: zodStringPipe(z.string().or(z.null())),
-        status: zodStringPipe(z.string({errorMap: () => ({message: 'Please select a valid status'})})),
-        paymentMethod: zodStringPipe(z.string().or(z.null())),
-        //tenantId: z.number({errorMap: () => ({message: 'Please select a tenant.'})}),
-        leaseId: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please select a lease.'})})),
-        updatePaymentSchedule: z.boolean()
-    })
-
     const [selectedLease, setSelectedLease] = useState(null)
 
     const paymentForm = useForm({
-        resolver: zodResolver(paymentFormSchema),
+        resolver: zodResolver(paymentCreationSchema),
         defaultValues: {
             amount: null,
             date: null,
@@ -67,25 +53,13 @@ const AddPayment = ({...props}) => {
             notes: null,
             paymentMethod: null,
             leaseId: null,
-            updatePaymentSchedule: false,
-            //tenantId: tenant?.id,
+            tenantId: null,
         },
     })
     const onSubmit = (data) => {
-        const body = {...data};
-        delete body.updatePaymentSchedule;
-        if (selectedLease?.paymentSchedule?.length && data.status === "PAID" && data.updatePaymentSchedule) {
-            const nextPayment = getNextScheduledPayment(selectedLease)
-            body.leasePaymentSchedule = {
-                id: nextPayment?.id,
-                amountDue: nextPayment?.amountDue - data.amount,
-                status: getScheduledPaymentStatus(nextPayment, data.amount)
-            }
-        }
-
-        createPayment(body).then((res) => {
+        createPayment(data).then((res) => {
             if (res.error) {
-                console.log(res.error)
+                setServerErrors(paymentForm, res.error)
             }
             else {
                 setOpen(false)
@@ -94,59 +68,49 @@ const AddPayment = ({...props}) => {
         })
     }
 
-    const PaymentScheduleUpdate = () => {
-        const nextPayment = getNextScheduledPayment(selectedLease)
+    // Charges the payment pays, oldest first, and the rest that is kept as credit of the tenant
+    const AllocationPreview = () => {
         const amount = paymentForm.watch("amount")
-        const updatePaymentSchedule = paymentForm.watch("updatePaymentSchedule")
         const paymentStatus = paymentForm.watch("status")
 
-        if (!nextPayment || !amount || !selectedLease || !updatePaymentSchedule || paymentStatus !== "PAID" ) return null;
+        if (!selectedLease || !amount || paymentStatus !== "PAID") return null;
+
+        const {allocations, remainder} = allocateAmount(Number(amount), selectedLease.paymentSchedule ?? [])
+        const scheduleById = new Map((selectedLease.paymentSchedule ?? []).map((schedule) => [schedule.id, schedule]))
 
         return (
             <div className="p-2 border border-primary-dark rounded-md flex flex-col gap-1">
                 <div className="flex flex-col">
                     <p className="text-sm text-foreground font-500">
-                        Rent Schedule Update
+                        Allocation
                     </p>
                     <p className="text-sm text-muted-foreground font-400">
-                        Based on your changes, the next scheduled payment (ID: {nextPayment?.id}) for this lease will be updated as follows:
+                        The payment pays the oldest open charges of the lease first:
                     </p>
                 </div>
-                <div className="grid grid-cols-3">
-                    <div className="text-sm flex flex-col gap-1">
-                        <p className="text-foreground font-500 opacity-0">
-                            Value
-                        </p>
-                        <p className="text-foreground font-500">
-                            Amount Due
-                        </p>
-                        <p className="text-foreground font-500">
-                            Status
-                        </p>
-                    </div>
-                    <div  className="text-sm flex flex-col gap-1">
-                        <p className="text-foreground font-500">
-                            Before
-                        </p>
-                        <p className="text-muted-foreground font-400">
-                            {nextPayment.amountDue}
-                        </p>
-                        <p className="text-foreground font-400">
-                            <PaymentScheduleStatusBadge status={nextPayment.status}/>
-                        </p>
-                    </div>
-                    <div className="text-sm flex flex-col gap-1">
-                        <p className="text-foreground font-500">
-                            After
-                        </p>
-                        <p className={cn("text-muted-foreground font-400", (nextPayment.amountDue - amount) < 0 && "text-red-500" )}>
-                            {nextPayment.amountDue - amount}
-                        </p>
-                        <p className="text-foreground font-400">
-                            <PaymentScheduleStatusBadge status={getScheduledPaymentStatus(nextPayment, amount)}/>
-                        </p>
-                    </div>
+                <div className="grid grid-cols-4 text-sm gap-1">
+                    <p className="text-foreground font-500">Due Date</p>
+                    <p className="text-foreground font-500">Charge</p>
+                    <p className="text-foreground font-500">Paid</p>
+                    <p className="text-foreground font-500">Status</p>
+                    {allocations.map((allocation) => {
+                        const schedule = scheduleById.get(allocation.scheduleId)
+
+                        return (
+                            <Fragment key={allocation.scheduleId}>
+                                <p className="text-muted-foreground">{dateParser(schedule.dueDate)}</p>
+                                <p className="text-muted-foreground">{moneyParser(schedule.amountDue)}</p>
+                                <p className="text-muted-foreground">{moneyParser(allocation.amount)}</p>
+                                <PaymentScheduleStatusBadge status={getAllocatedStatus(schedule, getAllocatedAmount(schedule) + allocation.amount)}/>
+                            </Fragment>
+                        )
+                    })}
                 </div>
+                {remainder > 0 && (
+                    <p className="text-sm text-muted-foreground font-400">
+                        {moneyParser(remainder)} are kept as credit of the tenant and pay the next charges.
+                    </p>
+                )}
             </div>
         )
     }
@@ -182,8 +146,11 @@ const AddPayment = ({...props}) => {
                                         <FormLabel>Lease *</FormLabel>
                                         <FormControl >
                                             <LeaseSelection onSelect={(leaseId) => {
+                                                const lease = leases?.data?.find((lease) => lease.id === leaseId)
                                                 paymentForm.setValue('leaseId', leaseId)
-                                                setSelectedLease(leases?.data?.find((lease) => lease.id === leaseId))
+                                                // Paid by the primary tenant unless another party is selected
+                                                paymentForm.setValue('tenantId', lease?.tenantId ?? null)
+                                                setSelectedLease(lease)
                                                 paymentForm.trigger('leaseId')
                                             }} selected={Number(paymentForm.getValues("leaseId"))} leases={leases?.data}
                                                             className="w-full"
@@ -213,6 +180,37 @@ const AddPayment = ({...props}) => {
 
 
 
+                        {selectedLease?.parties?.length > 1 && (
+                            <FormField
+                                control={paymentForm.control}
+                                name="tenantId"
+                                render={({field}) => (
+                                    <FormItem >
+                                        <FormLabel>Paid By</FormLabel>
+                                        <Select onValueChange={(value) => field.onChange(Number(value))}
+                                                value={field.value ? String(field.value) : undefined}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select a Party" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {selectedLease.parties.map((party) => (
+                                                    <SelectItem key={party.id} value={String(party.tenantId)}>
+                                                        {party.tenant?.firstName} {party.tenant?.lastName} ({LeasePartyRole[party.role]})
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormDescription>
+                                            The party of the lease the payment is attributed to
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+
                         <FormGroup asFlex>
                             <FormField
                                 control={paymentForm.control}
@@ -290,47 +288,7 @@ const AddPayment = ({...props}) => {
 
                         </FormGroup>
                         
-                        <FormField
-                            control={paymentForm.control}
-                            name="updatePaymentSchedule"
-                            render={({field}) => (
-                                <FormItem className="flex flex-row items-start gap-2 space-y-0 mt-2 ">
-                                    <Checkbox title={!selectedLease?.paymentSchedule?.length || paymentForm.watch("status") !== "PAID" ? "Please select a lease with a Lease Schedule and set the Payment Status to 'Paid' to use this." : ""} disabled={!selectedLease?.paymentSchedule?.length || paymentForm.watch("status") !== "PAID"} className="" checked={paymentForm.watch("updatePaymentSchedule")} onClick={() => {
-                                        paymentForm.setValue('updatePaymentSchedule', !paymentForm.watch("updatePaymentSchedule"))
-                                    }}  {...field} />
-                                    <div className="flex flex-col gap-1">
-                                        <FormLabel className="flex flex-row items-center">
-                                            Update Payment Schedule
-                                            <TooltipProvider>
-                                                <Tooltip>
-                                                    <TooltipTrigger asChild>
-                                                        <div className="ml-1 cursor-pointer">
-                                                            <AiOutlineQuestionCircle className="w-4 h-4 text-muted-foreground"/>
-                                                        </div>
-                                                    </TooltipTrigger>
-                                                    <TooltipContent className="max-w-xs md:max-w-md lg:max-w-lg text-wrap">
-                                                        <p hidden>
-                                                            When checked, this payment will be applied towards the next scheduled lease payment, reducing the amount due. If the payment covers the full amount, the scheduled payment will be marked as 'Paid.'
-                                                        </p>
-                                                        <p>
-                                                            This requires that the lease has a payment schedule and that the payment status is set to 'Paid.'
-                                                        </p>
-                                                    </TooltipContent>
-                                                </Tooltip>
-
-                                            </TooltipProvider>
-                                        </FormLabel>
-                                        <FormDescription>
-                                            If a planned payment exists for the selected lease, it will be updated accordingly.
-                                        </FormDescription>
-                                        <FormMessage/>
-                                    </div>
-
-                                </FormItem>
-                            )}
-                        />
-
-                        <PaymentScheduleUpdate/>
+                        <AllocationPreview/>
 
 
 
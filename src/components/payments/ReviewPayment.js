@@ -0,0 +1,164 @@
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {paymentReviewSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Textarea} from "../ui/textarea.tsx";
+import {Button} from "../ui/button.tsx";
+import {FileDown, ShieldCheck} from "lucide-react";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {useApprovePaymentMutation, useRejectPaymentMutation} from "../../services/api/financialsApi.js";
+import {useDownloadDocumentMutation} from "../../services/api/documentApi.js";
+
+
+// Payment a tenant reported in the portal. Approving it marks it as paid and allocates it to the open charges of the
+// lease, rejecting it keeps it for the record. The tenant is notified either way, the note is sent along
+const ReviewPayment = ({payment, open, setIsOpen}) => {
+
+    const reviewForm = useForm({
+        resolver: zodResolver(paymentReviewSchema),
+        defaultValues: {
+            note: "",
+        }
+    })
+
+    const [approvePayment, {isLoading: isApproving}] = useApprovePaymentMutation()
+    const [rejectPayment, {isLoading: isRejecting}] = useRejectPaymentMutation()
+    const [downloadDocument, {isLoading: isDownloading}] = useDownloadDocumentMutation()
+
+    const tenant = payment?.tenant ?? payment?.lease?.tenant
+
+    const handleReview = (approve) => (data) => {
+        const review = approve ? approvePayment : rejectPayment
+
+        review({id: payment.id, body: data}).then((res) => {
+            if (res.error) {
+                setServerErrors(reviewForm, res.error)
+            } else {
+                setIsOpen(false)
+                reviewForm.reset()
+            }
+        })
+    }
+
+    const entries = [
+        {
+            label: "Tenant",
+            value: tenant ? `${tenant.firstName} ${tenant.lastName}` : null
+        },
+        {
+            label: "Lease",
+            value: payment?.leaseId
+        },
+        {
+            label: "Amount",
+            value: moneyParser(payment?.amount)
+        },
+        {
+            label: "Payment Date",
+            value: dateParser(payment?.date)
+        },
+        {
+            label: "Reported On",
+            value: dateParser(payment?.submissionDate)
+        },
+        {
+            label: "Payment Method",
+            value: payment?.paymentMethod
+        },
+        {
+            label: "Notes",
+            value: payment?.notes
+        }
+    ]
+
+    return (
+        <Dialog open={open} onOpenChange={() => setIsOpen(!open)}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <ShieldCheck className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Review Payment
+                    </DialogTitle>
+                    <DialogDescription>
+                        The tenant reported this payment, check it against your account before approving it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div>
+                    {entries.map((entry, index) => (
+                        <div key={index} className="flex flex-row justify-between">
+                            <p className="text-foreground font-400">
+                                {entry.label}
+                            </p>
+                            <p className="max-w-[50%] text-muted-foreground">
+                                {entry.value || "-"}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+
+                {payment?.proof ? (
+                    <Button variant="outline" type="button" isLoading={isDownloading}
+                            onClick={() => downloadDocument(payment.proof)}>
+                        <FileDown className="w-4 h-4 mr-2"/>
+                        Download Proof of Payment
+                    </Button>
+                ) : (
+                    <p className="text-sm text-muted-foreground">The tenant attached no proof of payment.</p>
+                )}
+
+                <Form {...reviewForm}>
+                    <form onSubmit={reviewForm.handleSubmit(handleReview(true))} className="flex flex-col gap-2">
+                        <FormField
+                            control={reviewForm.control}
+                            name="note"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Note</FormLabel>
+                                    <FormControl>
+                                        <Textarea {...field} value={field.value ?? ""} className="resize-none"/>
+                                    </FormControl>
+                                    <FormDescription>
+                                        Sent to the tenant with the decision, e.g. why the payment was rejected
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="w-full flex flex-row gap-2 justify-between mt-2">
+                            <Button variant="destructive" type="button"
+                                    onClick={reviewForm.handleSubmit(handleReview(false))}
+                                    isLoading={isRejecting}
+                                    disabled={isApproving || isRejecting}
+                                    className="w-full"
+                            >
+                                Reject
+                            </Button>
+                            <Button variant="gradient" type="submit"
+                                    isLoading={isApproving}
+                                    disabled={isApproving || isRejecting}
+                                    className="w-full"
+                            >
+                                Approve
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default ReviewPayment;
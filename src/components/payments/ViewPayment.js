@@ -10,8 +10,15 @@ import {
 import {dateParser, moneyParser} from "../../utils/formatters.js";
 import {useSelector} from "react-redux";
 import {selectLeaseById} from "../../services/slices/objectSlice.js";
-import {Coins, CalendarClock} from "lucide-react";
+import {Coins, CalendarClock, FileDown, FilePlus2} from "lucide-react";
 import {cn} from "../../utils.ts";
+import {Button} from "../ui/button.tsx";
+import {useDownloadDocumentMutation} from "../../services/api/documentApi.js";
+import {
+    useDownloadLeaseStatementMutation,
+    useDownloadPaymentReceiptMutation,
+    useSavePaymentReceiptMutation
+} from "../../services/api/statementApi.js";
 
 
 const ViewPayment = ({payment, open, setOpen, ...props}) => {
@@ -20,6 +27,11 @@ const ViewPayment = ({payment, open, setOpen, ...props}) => {
 
     const lease = useSelector(state => selectLeaseById(state, payment?.leaseId))
 
+    const [downloadDocument, {isLoading: isDownloading}] = useDownloadDocumentMutation()
+    const [downloadReceipt, {isLoading: isDownloadingReceipt}] = useDownloadPaymentReceiptMutation()
+    const [saveReceipt, {isLoading: isSavingReceipt}] = useSavePaymentReceiptMutation()
+    const [downloadStatement, {isLoading: isDownloadingStatement}] = useDownloadLeaseStatementMutation()
+
     const getTenantName = () => {
         if (lease.tenant) {
             return `${lease.tenant.firstName} ${lease.tenant.lastName}`
@@ -52,6 +64,18 @@ const ViewPayment = ({payment, open, setOpen, ...props}) => {
             label: "Approval Date",
             value: dateParser(payment.approvalDate)
         },
+        {
+            label: "Reviewed By",
+            value: payment.reviewedBy ? [payment.reviewedBy.firstName, payment.reviewedBy.lastName].filter(Boolean).join(" ") || payment.reviewedBy.email : null
+        },
+        {
+            label: "Reviewed On",
+            value: dateParser(payment.reviewedAt)
+        },
+        {
+            label: "Review Note",
+            value: payment.reviewNote
+        },
         {
             label: "Payment Method",
             value: payment.paymentMethod
@@ -94,6 +118,8 @@ const ViewPayment = ({payment, open, setOpen, ...props}) => {
     ]
 
     const entries = payment.dueDate ? paymentScheduleEntries : paymentEntries;
+    // Expenses are shown here as well, only payments and charges belong to the account of a lease
+    const hasLeaseStatement = payment.leaseId && (payment.dueDate || payment.status)
     const title = payment.dueDate ? "View Planned Payment" : "View Payment"
     const description = payment.dueDate ? "The details of the payment schedule are displayed below." : "The details of the payment are displayed below."
 
@@ -124,6 +150,35 @@ const ViewPayment = ({payment, open, setOpen, ...props}) => {
                         )
                     )}
                 </div>
+                {!payment.dueDate && payment.proof && (
+                    <Button variant="outline" type="button" isLoading={isDownloading}
+                            onClick={() => downloadDocument(payment.proof)}>
+                        <FileDown className="w-4 h-4 mr-2"/>
+                        Download Proof of Payment
+                    </Button>
+                )}
+                {!payment.dueDate && payment.status === "PAID" && (
+                    <div className="flex flex-row gap-2">
+                        <Button variant="outline" type="button" className="w-full" isLoading={isDownloadingReceipt}
+                                onClick={() => downloadReceipt({id: payment.id})}>
+                            <FileDown className="w-4 h-4 mr-2"/>
+                            Download Receipt
+                        </Button>
+                        <Button variant="outline" type="button" className="w-full" isLoading={isSavingReceipt}
+                                title="Adds the receipt to the documents of the lease, the tenant can download it from the portal"
+                                onClick={() => saveReceipt(payment.id)}>
+                            <FilePlus2 className="w-4 h-4 mr-2"/>
+                            Save to Lease Documents
+                        </Button>
+                    </div>
+                )}
+                {hasLeaseStatement && (
+                    <Button variant="outline" type="button" isLoading={isDownloadingStatement}
+                            onClick={() => downloadStatement({id: payment.leaseId})}>
+                        <FileDown className="w-4 h-4 mr-2"/>
+                        Download Lease Statement
+                    </Button>
+                )}
             </DialogContent>
         </Dialog>
     )
@@ -0,0 +1,121 @@
+import {Card, CardContent, CardHeader, CardTitle} from "../ui/card.tsx";
+import {DepositStatusBadge, LeaseStatusBadge, PaymentScheduleStatusBadge} from "../../utils/statusBadges.js";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {PaymentFrequency} from "../../utils/magicNumbers.js";
+import {getNextScheduledPayment} from "../../utils/financials.js";
+import {FileDown, Mail, MapPin, Phone} from "lucide-react";
+import {useDownloadDocumentMutation} from "../../services/api/documentApi.js";
+
+
+const PortalLeaseCard = ({lease}) => {
+    const unit = lease?.unit;
+    const property = unit?.realEstateObject;
+    const realtor = lease?.realtor?.User;
+    const nextPayment = getNextScheduledPayment(lease);
+    const deposit = lease?.deposit;
+
+    const [downloadDocument] = useDownloadDocumentMutation();
+
+    const address = [property?.street, property?.zip, property?.city].filter(Boolean).join(", ");
+
+    return (
+        <Card className="flex-grow basis-[300px] shadow-sm">
+            <CardHeader className="px-4 py-3 flex flex-row justify-between items-center gap-4">
+                <div className="flex flex-col">
+                    <CardTitle className="text-md text-foreground font-500">
+                        {unit?.unitIdentifier || `Lease ${lease?.id}`}
+                    </CardTitle>
+                    {address && (
+                        <p className="text-sm text-muted-foreground flex flex-row items-center gap-1">
+                            <MapPin className="w-4 h-4"/>
+                            {address}
+                        </p>
+                    )}
+                </div>
+                <LeaseStatusBadge status={lease?.status}/>
+            </CardHeader>
+            <CardContent className="px-4 pb-4 flex flex-col gap-3 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <p className="text-muted-foreground">Period</p>
+                        <p className="font-500">{dateParser(lease?.startDate)} - {dateParser(lease?.endDate)}</p>
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Rent</p>
+                        <p className="font-500">
+                            {moneyParser(lease?.rentalPrice)} {PaymentFrequency[lease?.paymentFrequency] || ""}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Next Payment</p>
+                        {nextPayment ? (
+                            <div className="flex flex-row items-center gap-2">
+                                <p className="font-500">{dateParser(nextPayment.dueDate)}, {moneyParser(nextPayment.amountDue)}</p>
+                                <PaymentScheduleStatusBadge status={nextPayment.status}/>
+                            </div>
+                        ) : (
+                            <p className="font-500">-</p>
+                        )}
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Special Terms</p>
+                        <p className="font-500">{lease?.specialTerms || "-"}</p>
+                    </div>
+                    {deposit && (
+                        <div>
+                            <p className="text-muted-foreground">Security Deposit</p>
+                            <div className="flex flex-row items-center gap-2">
+                                <p className="font-500">{moneyParser(deposit.amount)}</p>
+                                <DepositStatusBadge status={deposit.status}/>
+                            </div>
+                            {deposit.status === "SETTLED" && (
+                                <p className="text-muted-foreground">
+                                    {deposit.refundAmount >= 0 ? `Refund: ${moneyParser(deposit.refundAmount)}` : `Owed: ${moneyParser(-deposit.refundAmount)}`}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {lease?.documents?.length > 0 && (
+                    <div className="flex flex-col gap-1 border-t-2 border-border pt-2">
+                        <p className="text-muted-foreground">Documents</p>
+                        {lease.documents.map(document => (
+                            <button key={document.id} type="button" onClick={() => downloadDocument(document)}
+                                    className="flex flex-row items-center gap-1 hover:underline text-left"
+                            >
+                                <FileDown className="w-4 h-4"/>
+                                {document.name || `Document ${document.id}`} ({dateParser(document.createdAt)})
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {realtor && (
+                    <div className="flex flex-col gap-1 border-t-2 border-border pt-2">
+                        <p className="text-muted-foreground">Your Realtor</p>
+                        <p className="font-500">
+                            {realtor.firstName} {realtor.lastName} {realtor.company ? `(${realtor.company})` : ""}
+                        </p>
+                        <div className="flex flex-row flex-wrap gap-4 text-muted-foreground">
+                            {realtor.email && (
+                                <a href={`mailto:${realtor.email}`} className="flex flex-row items-center gap-1 hover:underline">
+                                    <Mail className="w-4 h-4"/>
+                                    {realtor.email}
+                                </a>
+                            )}
+                            {realtor.phone && (
+                                <a href={`tel:${realtor.phone}`} className="flex flex-row items-center gap-1 hover:underline">
+                                    <Phone className="w-4 h-4"/>
+                                    {realtor.phone}
+                                </a>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
+
+export default PortalLeaseCard;
@@ -0,0 +1,96 @@
+import {
+    ColumnDef,
+} from "@tanstack/react-table";
+import {dateParser} from "../../utils/formatters.js";
+import {DataTable} from "../ui/data-table.js";
+import {MaintenanceRequest} from "../../utils/classes.ts";
+import {Drill} from "lucide-react";
+import {MaintenanceStatus, Priority} from "../../utils/magicNumbers";
+import {MaintenanceStatusBadge, PriorityBadge} from "../../utils/statusBadges";
+
+
+const columns: ColumnDef<MaintenanceRequest>[] = [
+    {
+        id: "createdAt",
+        header: "Creation Date",
+        cell: ({ row }) => (
+            <div className="capitalize">{dateParser(row?.original?.createdAt)}</div>
+        ),
+        meta: {
+            type: "date",
+        },
+        accessorFn: (row) => new Date(row?.createdAt) || "",
+        enableSorting: true,
+    },
+    {
+        id: "title",
+        header: "Title",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div className="capitalize">{row?.original?.title}</div>
+        ),
+        accessorFn: (row) => row?.title || "",
+        enableSorting: true,
+    },
+    {
+        id: "status",
+        header: "Status",
+        meta: {
+            type: "enum",
+            options: Object.values(MaintenanceStatus),
+        },
+        cell: ({ row }) => (
+            <MaintenanceStatusBadge status={row?.original?.status} />
+        ),
+        accessorFn: (row) => row?.status,
+        enableSorting: true,
+    },
+    {
+        id: "priority",
+        header: "Priority",
+        meta: {
+            type: "enum",
+            options: Object.values(Priority),
+        },
+        cell: ({ row }) => (
+            <PriorityBadge priority={row?.original?.priority} />
+        ),
+        accessorFn: (row) => row?.priority,
+        enableSorting: true,
+    },
+    {
+        id: "unit",
+        header: "Unit",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div>{row?.original?.unit?.unitIdentifier || "-"}</div>
+        ),
+        accessorFn: (row) => row?.unit?.unitIdentifier || "",
+        enableSorting: true,
+    },
+]
+
+const PortalMaintenanceTable = ({ maintenanceRequests, ...props }) => {
+
+    return (
+        <div className={"border-2 border-border p-4 rounded-lg"}>
+            <DataTable
+                data={maintenanceRequests}
+                columns={columns}
+                defaultSort={{id: "createdAt", desc: true}}
+                title="Maintenance Requests"
+                subtitle="Issues you reported to your realtor."
+                icon={<Drill className={"w-5 h-5"} />}
+                {...props}
+            >
+                {props.children}
+            </DataTable>
+        </div>
+    )
+}
+
+export default PortalMaintenanceTable;
@@ -0,0 +1,152 @@
+import {
+    ColumnDef,
+} from "@tanstack/react-table";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {DataTable} from "../ui/data-table.js";
+import {RentPayment} from "../../utils/classes.ts";
+import {PaymentStatusBadge} from "../../utils/statusBadges.js";
+import {PaymentStatus} from "../../utils/magicNumbers.js";
+import {Coins, FileDown} from "lucide-react";
+import {useDownloadPaymentReceiptMutation} from "../../services/api/statementApi.js";
+
+
+// Receipts are only issued for paid payments
+const DownloadReceipt = ({payment}) => {
+    const [downloadReceipt] = useDownloadPaymentReceiptMutation()
+
+    if (payment.status !== "PAID") {
+        return null
+    }
+
+    return (
+        <div
+            onClick={() => downloadReceipt({id: payment.id, portal: true})}
+            title="Download receipt"
+            className={"cursor-pointer text-muted-foreground w-5 h-5 hover:text-primary transition-colors"}
+        >
+            <FileDown className={"w-5 h-5"} />
+        </div>
+    )
+}
+
+
+const columns: ColumnDef<RentPayment>[] = [
+    {
+        id: "date",
+        header: "Payment Date",
+        cell: ({ row }) => (
+            <div className="capitalize">{dateParser(row?.original?.date)}</div>
+        ),
+        meta: {
+            type: "date",
+        },
+        accessorFn: (row) => new Date(row?.date) || "",
+        enableSorting: true,
+    },
+    {
+        id: "amount",
+        header: "Amount",
+        cell: ({ row }) => (
+            <div className="font-500">{moneyParser(row?.original?.amount)}</div>
+        ),
+        meta: {
+            type: "number",
+        },
+        accessorFn: (row) => row?.amount || 0,
+        enableSorting: true,
+    },
+    {
+        id: "status",
+        header: "Status",
+        meta: {
+            type: "enum",
+            options: Object.values(PaymentStatus),
+        },
+        cell: ({ row }) => (
+            <PaymentStatusBadge status={row?.original?.status} />
+        ),
+        accessorFn: (row) => row?.status,
+        enableSorting: true,
+    },
+    {
+        id: "unit",
+        header: "Unit",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div>{row?.original?.lease?.unit?.unitIdentifier || "-"}</div>
+        ),
+        accessorFn: (row) => row?.lease?.unit?.unitIdentifier || "",
+        enableSorting: true,
+    },
+    {
+        id: "paymentMethod",
+        header: "Method",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div className="capitalize">{row?.original?.paymentMethod || "-"}</div>
+        ),
+        accessorFn: (row) => row?.paymentMethod || "",
+        enableSorting: true,
+    },
+    {
+        id: "notes",
+        header: "Notes",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div>{row?.original?.notes}</div>
+        ),
+        accessorFn: (row) => row?.notes || "",
+        enableSorting: false,
+    },
+    {
+        id: "reviewNote",
+        header: "Realtor's Note",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div>{row?.original?.reviewNote}</div>
+        ),
+        accessorFn: (row) => row?.reviewNote || "",
+        enableSorting: false,
+    },
+    {
+        id: "receipt",
+        header: "",
+        cell: ({ row }) => (
+            <DownloadReceipt payment={row.original} />
+        ),
+        meta: {
+            type: "string",
+        },
+        enableSorting: false,
+        enableHiding: false,
+    },
+]
+
+const PortalPaymentTable = ({ payments, ...props }) => {
+
+    return (
+        <div className={"border-2 border-border p-4 rounded-lg"}>
+            <DataTable
+                data={payments}
+                columns={columns}
+                defaultSort={{id: "date", desc: true}}
+                title="Payments"
+                subtitle="Payments you made or reported for your leases. Reported payments count once your realtor approved them."
+                icon={<Coins className={"w-5 h-5"} />}
+                {...props}
+            >
+                {props.children}
+            </DataTable>
+        </div>
+    )
+}
+
+export default PortalPaymentTable;
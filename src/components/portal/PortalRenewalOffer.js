@@ -0,0 +1,73 @@
+import {Card, CardContent, CardHeader, CardTitle} from "../ui/card.tsx";
+import {Button} from "../ui/button.tsx";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {PaymentFrequency} from "../../utils/magicNumbers.js";
+import {RenewalOfferStatusBadge} from "../../utils/statusBadges.js";
+import {
+    useAcceptPortalRenewalOfferMutation,
+    useDeclinePortalRenewalOfferMutation
+} from "../../services/api/portalApi.js";
+import {Check, X} from "lucide-react";
+
+
+// Renewal offer the realtor sent to the tenant, accepting it creates the new lease
+const PortalRenewalOffer = ({offer}) => {
+    const lease = offer?.lease;
+
+    const [acceptOffer, {isLoading: isAccepting}] = useAcceptPortalRenewalOfferMutation();
+    const [declineOffer, {isLoading: isDeclining}] = useDeclinePortalRenewalOfferMutation();
+
+    return (
+        <Card className="flex-grow basis-[300px] shadow-sm">
+            <CardHeader className="px-4 py-3 flex flex-row justify-between items-center gap-4">
+                <CardTitle className="text-md text-foreground font-500">
+                    Renewal of {lease?.unit?.unitIdentifier || `Lease ${lease?.id}`}
+                </CardTitle>
+                <RenewalOfferStatusBadge status={offer?.status}/>
+            </CardHeader>
+            <CardContent className="px-4 pb-4 flex flex-col gap-3 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <p className="text-muted-foreground">New Period</p>
+                        <p className="font-500">{dateParser(offer?.startDate)} - {dateParser(offer?.endDate)}</p>
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Rent</p>
+                        <p className="font-500">
+                            {moneyParser(offer?.rentalPrice)} {PaymentFrequency[offer?.paymentFrequency] || ""}
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Current Lease Ends</p>
+                        <p className="font-500">{dateParser(lease?.endDate)}</p>
+                    </div>
+                    <div>
+                        <p className="text-muted-foreground">Notes</p>
+                        <p className="font-500">{offer?.notes || "-"}</p>
+                    </div>
+                </div>
+
+                {offer?.status === "SENT" && (
+                    <div className="flex flex-row gap-2 border-t-2 border-border pt-3">
+                        <Button variant="outline" className="w-full"
+                                onClick={() => declineOffer(offer.id)}
+                                isLoading={isDeclining} disabled={isAccepting || isDeclining}
+                        >
+                            <X className="w-4 h-4 mr-2"/>
+                            Decline
+                        </Button>
+                        <Button variant="gradient" className="w-full"
+                                onClick={() => acceptOffer(offer.id)}
+                                isLoading={isAccepting} disabled={isAccepting || isDeclining}
+                        >
+                            <Check className="w-4 h-4 mr-2"/>
+                            Accept
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
+
+export default PortalRenewalOffer;
@@ -0,0 +1,96 @@
+import {
+    ColumnDef,
+} from "@tanstack/react-table";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {DataTable} from "../ui/data-table.js";
+import {LeasePaymentSchedule} from "../../utils/classes.ts";
+import {PaymentScheduleStatusBadge} from "../../utils/statusBadges.js";
+import {ChargeType, PaymentScheduleStatus} from "../../utils/magicNumbers.js";
+import {CalendarClock} from "lucide-react";
+
+
+const columns: ColumnDef<LeasePaymentSchedule>[] = [
+    {
+        id: "dueDate",
+        header: "Due Date",
+        cell: ({ row }) => (
+            <div className="capitalize">{dateParser(row?.original?.dueDate)}</div>
+        ),
+        meta: {
+            type: "date",
+        },
+        accessorFn: (row) => new Date(row?.dueDate) || "",
+        enableSorting: true,
+    },
+    {
+        id: "amountDue",
+        header: "Amount Due",
+        cell: ({ row }) => (
+            <div className="font-500">{moneyParser(row?.original?.amountDue)}</div>
+        ),
+        meta: {
+            type: "number",
+        },
+        accessorFn: (row) => row?.amountDue || 0,
+        enableSorting: true,
+    },
+    {
+        id: "chargeType",
+        header: "Charge",
+        meta: {
+            type: "enum",
+            options: Object.values(ChargeType),
+        },
+        cell: ({ row }) => (
+            <div>{ChargeType[row?.original?.chargeType] ?? ChargeType.RENT}</div>
+        ),
+        accessorFn: (row) => ChargeType[row?.chargeType] ?? ChargeType.RENT,
+        enableSorting: true,
+    },
+    {
+        id: "status",
+        header: "Status",
+        meta: {
+            type: "enum",
+            options: Object.values(PaymentScheduleStatus),
+        },
+        cell: ({ row }) => (
+            <PaymentScheduleStatusBadge status={row?.original?.status} />
+        ),
+        accessorFn: (row) => row?.status,
+        enableSorting: true,
+    },
+    {
+        id: "unit",
+        header: "Unit",
+        meta: {
+            type: "string",
+        },
+        cell: ({ row }) => (
+            <div>{row?.original?.lease?.unit?.unitIdentifier || "-"}</div>
+        ),
+        accessorFn: (row) => row?.lease?.unit?.unitIdentifier || "",
+        enableSorting: true,
+    },
+]
+
+const PortalScheduleTable = ({ paymentSchedules, ...props }) => {
+
+    return (
+        <div className={"border-2 border-border p-4 rounded-lg"}>
+            <DataTable
+                data={paymentSchedules}
+                columns={columns}
+                defaultSort={{id: "dueDate", desc: false}}
+                title="Rent Schedule"
+                subtitle="Upcoming and past rent payments of your leases."
+                icon={<CalendarClock className={"w-5 h-5"} />}
+                {...props}
+            >
+                {props.children}
+            </DataTable>
+        </div>
+    )
+}
+
+export default PortalScheduleTable;
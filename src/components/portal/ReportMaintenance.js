@@ -0,0 +1,197 @@
+import {useState} from "react";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Button} from "../ui/button.tsx";
+import {Form, FormControl, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Textarea} from "../ui/textarea.tsx";
+import {Drill, Flag} from "lucide-react";
+import {Priority} from "../../utils/magicNumbers.js";
+import {tenantMaintenanceRequestSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {useCreatePortalMaintenanceRequestMutation} from "../../services/api/portalApi.js";
+
+
+// Units are taken from the leases of the tenant, a unit can appear in several leases
+function getUnitsOfLeases(leases) {
+    const units = {};
+    leases?.forEach((lease) => {
+        if (lease.unit) {
+            units[lease.unit.id] = lease.unit;
+        }
+    })
+    return Object.values(units);
+}
+
+const ReportMaintenance = ({leases, ...props}) => {
+    const [open, setOpen] = useState(false)
+
+    const [submitRequest, {isLoading: isSubmitting}] = useCreatePortalMaintenanceRequestMutation();
+
+    const units = getUnitsOfLeases(leases);
+
+    const maintenanceForm = useForm({
+        resolver: zodResolver(tenantMaintenanceRequestSchema),
+        defaultValues: {
+            unitId: units.length === 1 ? String(units[0].id) : "",
+            title: "",
+            priority: "",
+            category: "",
+            notes: "",
+        },
+    })
+
+    const onSubmit = (data) => {
+        submitRequest(data).then((res) => {
+            if (res.data) {
+                setOpen(false)
+                maintenanceForm.reset();
+            }
+            else {
+                setServerErrors(maintenanceForm, res.error)
+            }
+        })
+    }
+
+    return (
+        <Dialog {...props} onOpenChange={() => setOpen(!open)} open={open}>
+            <Button onClick={() => setOpen(!open)} variant="outline" type="button" disabled={!units.length}>
+                {props.children}
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <Drill className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Request Maintenance
+                    </DialogTitle>
+                    <DialogDescription>
+                        Describe the issue and your realtor will get back to you.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...maintenanceForm}>
+                    <form
+                        onSubmit={maintenanceForm.handleSubmit(onSubmit)}
+                        className="flex flex-col gap-2"
+                    >
+                        <FormGroup asFlex>
+                            <FormField
+                                control={maintenanceForm.control}
+                                name="title"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Title *</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Leaking faucet" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={maintenanceForm.control}
+                                name="category"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Category</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Plumbing" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormGroup asFlex>
+                            <FormField
+                                control={maintenanceForm.control}
+                                name="unitId"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Unit *</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select the Unit"/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {units.map((unit) => (
+                                                    <SelectItem key={unit.id} value={String(unit.id)}>
+                                                        {unit.unitIdentifier || `Unit ${unit.id}`}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={maintenanceForm.control}
+                                name="priority"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Priority</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select the Priority"/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {
+                                                    Object.keys(Priority).map((priority, index) => {
+                                                        return (
+                                                            <SelectItem key={index}
+                                                                        value={priority}>{Priority[priority]}</SelectItem>
+                                                        )
+                                                    })
+                                                }
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormField
+                            control={maintenanceForm.control}
+                            name="notes"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Description</FormLabel>
+                                    <FormControl>
+                                        <Textarea placeholder="When did the issue start, where exactly is it?" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" onClick={() => {
+                                setOpen(false)
+                                maintenanceForm.reset();
+                            }}>Cancel</Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isSubmitting}>
+                                <Flag className="h-4 w-4 mr-2"/>
+                                Submit
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default ReportMaintenance;
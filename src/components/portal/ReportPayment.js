@@ -0,0 +1,222 @@
+import {useState} from "react";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogIcon,
+    DialogTitle,
+} from "../ui/dialog.tsx";
+import {Form, FormControl, FormDescription, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {Coins, Send} from "lucide-react";
+import {MAX_PAYMENT_PROOF_SIZE, PAYMENT_PROOF_MIME_TYPES, reportedPaymentSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {useReportPortalPaymentMutation} from "../../services/api/portalApi.js";
+
+
+// The proof of payment is sent base64 encoded with the report
+function readProofFile(file) {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve({
+            name: file.name,
+            mimeType: file.type,
+            content: String(reader.result).split(",")[1] ?? "",
+        })
+        reader.onerror = () => reject(reader.error)
+        reader.readAsDataURL(file)
+    })
+}
+
+const ReportPayment = ({leases, ...props}) => {
+    const [open, setOpen] = useState(false)
+
+    const [reportPayment, {isLoading: isReporting}] = useReportPortalPaymentMutation();
+
+    const paymentForm = useForm({
+        resolver: zodResolver(reportedPaymentSchema),
+        defaultValues: {
+            amount: "",
+            date: "",
+            paymentMethod: "",
+            notes: "",
+            leaseId: leases?.length === 1 ? String(leases[0].id) : "",
+            proof: null,
+        },
+    })
+
+    const onSubmit = (data) => {
+        reportPayment(data).then((res) => {
+            if (res.data) {
+                setOpen(false)
+                paymentForm.reset();
+            }
+            else {
+                setServerErrors(paymentForm, res.error)
+            }
+        })
+    }
+
+    return (
+        <Dialog {...props} onOpenChange={() => setOpen(!open)} open={open}>
+            <Button onClick={() => setOpen(!open)} variant="outline" type="button" disabled={!leases?.length}>
+                {props.children}
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <Coins className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Report Payment
+                    </DialogTitle>
+                    <DialogDescription>
+                        Let your realtor know about a payment you made, it will be marked as paid once they approve it. You are notified of their decision.
+                    </DialogDescription>
+                </DialogHeader>
+                <Form {...paymentForm}>
+                    <form
+                        onSubmit={paymentForm.handleSubmit(onSubmit)}
+                        className="flex flex-col gap-2"
+                    >
+                        <FormGroup asFlex>
+                            <FormField
+                                control={paymentForm.control}
+                                name="leaseId"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Lease *</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select a Lease"/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {leases?.map((lease) => (
+                                                    <SelectItem key={lease.id} value={String(lease.id)}>
+                                                        {lease.unit?.unitIdentifier || `Lease ${lease.id}`}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={paymentForm.control}
+                                name="amount"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Amount *</FormLabel>
+                                        <FormControl>
+                                            <Input type="currency" placeholder="2000" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormGroup asFlex>
+                            <FormField
+                                control={paymentForm.control}
+                                name="date"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Payment Date *</FormLabel>
+                                        <FormControl>
+                                            <Input {...field} type="datetime-local"/>
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={paymentForm.control}
+                                name="paymentMethod"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Payment Method *</FormLabel>
+                                        <FormControl>
+                                            <Input type="text" placeholder="Bank Transfer" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <FormField
+                            control={paymentForm.control}
+                            name="notes"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Notes</FormLabel>
+                                    <FormControl>
+                                        <Input type="text" placeholder="e.g. Rent for March" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={paymentForm.control}
+                            name="proof"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Proof of Payment</FormLabel>
+                                    <FormControl>
+                                        <Input type="file" accept={PAYMENT_PROOF_MIME_TYPES.join(",")}
+                                               onChange={(event) => {
+                                                   const file = event.target.files?.[0]
+                                                   field.onChange(null)
+                                                   paymentForm.clearErrors("proof")
+                                                   if (!file) return
+                                                   if (!PAYMENT_PROOF_MIME_TYPES.includes(file.type)) {
+                                                       paymentForm.setError("proof", {message: "Please attach a PDF, PNG or JPEG file"})
+                                                       return
+                                                   }
+                                                   if (file.size > MAX_PAYMENT_PROOF_SIZE) {
+                                                       paymentForm.setError("proof", {message: "The file can be at most 5 MB"})
+                                                       return
+                                                   }
+                                                   readProofFile(file).then((proof) => field.onChange(proof))
+                                               }}
+                                        />
+                                    </FormControl>
+                                    <FormDescription>
+                                        A receipt or bank statement (PDF, PNG or JPEG, at most 5 MB) helps your realtor approve the payment
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" onClick={() => {
+                                setOpen(false)
+                                paymentForm.reset();
+                            }}>Cancel</Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isReporting}>
+                                <Send className="h-4 w-4 mr-2"/>
+                                Report
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default ReportPayment;
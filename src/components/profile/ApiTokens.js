@@ -0,0 +1,218 @@
+import {useState} from "react";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {Copy, KeyRound, Plus, Trash2} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {Badge} from "../ui/badge.tsx";
+import {Checkbox} from "../ui/checkbox.tsx";
+import {Input} from "../ui/input.tsx";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {
+    useCreateApiTokenMutation,
+    useGetApiTokensQuery,
+    useRevokeApiTokenMutation
+} from "../../services/api/apiTokenApi.js";
+import {ApiTokenScope} from "../../utils/magicNumbers.js";
+import {apiTokenSchema} from "../../../shared/schemas.js";
+import {dateParser} from "../../utils/formatters.js";
+
+const expirationOptions = {
+    "30": "30 days",
+    "90": "90 days",
+    "365": "1 year",
+}
+
+const CreateApiToken = () => {
+    const [open, setOpen] = useState(false);
+    // The token is only returned once, so it is shown until the dialog is closed
+    const [createdToken, setCreatedToken] = useState(null);
+
+    const [createApiToken, {isLoading}] = useCreateApiTokenMutation();
+
+    const tokenForm = useForm({
+        resolver: zodResolver(apiTokenSchema),
+        defaultValues: {
+            name: "",
+            scopes: [],
+            expiresInDays: "90",
+        },
+    })
+
+    const onOpenChange = () => {
+        setOpen(!open);
+        setCreatedToken(null);
+        tokenForm.reset();
+    }
+
+    const onSubmit = (data) => {
+        createApiToken(data).then((res) => {
+            if (res.data) {
+                setCreatedToken(res.data.data.token);
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <Button variant="outline" type="button" onClick={onOpenChange}>
+                <Plus className="w-4 h-4 mr-2"/>
+                Create Token
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <KeyRound className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Create API Token
+                    </DialogTitle>
+                    <DialogDescription>
+                        {createdToken ?
+                            "Copy your token now, it will not be shown again."
+                            :
+                            "Tokens can access your properties, leases and payments within the selected scopes."
+                        }
+                    </DialogDescription>
+                </DialogHeader>
+
+                {createdToken ? (
+                    <div className="flex flex-col gap-2">
+                        <div className="flex flex-row gap-2">
+                            <Input value={createdToken} readOnly />
+                            <Button variant="outline" type="button" onClick={() => navigator.clipboard.writeText(createdToken)}>
+                                <Copy className="w-4 h-4"/>
+                            </Button>
+                        </div>
+                        <Button type="button" variant="gradient" onClick={onOpenChange}>
+                            Done
+                        </Button>
+                    </div>
+                ) : (
+                    <Form {...tokenForm}>
+                        <form onSubmit={tokenForm.handleSubmit(onSubmit)} className="flex flex-col gap-2">
+                            <FormField
+                                control={tokenForm.control}
+                                name="name"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Name *</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="Monthly export" {...field} />
+                                        </FormControl>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={tokenForm.control}
+                                name="expiresInDays"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Expires In *</FormLabel>
+                                        <Select onValueChange={field.onChange} defaultValue={String(field.value)}>
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select the Expiration"/>
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {Object.keys(expirationOptions).map((days) => (
+                                                    <SelectItem key={days} value={days}>{expirationOptions[days]}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={tokenForm.control}
+                                name="scopes"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>Scopes *</FormLabel>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {Object.keys(ApiTokenScope).map((scope) => (
+                                                <label key={scope} className="flex flex-row items-center gap-2 text-sm">
+                                                    <Checkbox
+                                                        checked={field.value.includes(scope)}
+                                                        onCheckedChange={(checked) => field.onChange(checked ?
+                                                            [...field.value, scope] : field.value.filter((value) => value !== scope)
+                                                        )}
+                                                    />
+                                                    {ApiTokenScope[scope]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <div className="flex justify-between gap-2 mt-4">
+                                <Button type="button" variant="outline" className="w-full" onClick={onOpenChange}>Cancel</Button>
+                                <Button type="submit" variant="gradient" className="w-full" isLoading={isLoading}>
+                                    <KeyRound className="h-4 w-4 mr-2"/>
+                                    Create
+                                </Button>
+                            </div>
+                        </form>
+                    </Form>
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+// Personal API tokens for scripted access, e.g. exports and imports
+const ApiTokens = () => {
+    const {data: tokens, isLoading} = useGetApiTokensQuery();
+    const [revokeApiToken] = useRevokeApiTokenMutation();
+
+    return (
+        <div>
+            <div className="flex flex-row justify-between items-center">
+                <p className="text-muted-foreground text-sm">
+                    API Tokens
+                </p>
+                <CreateApiToken/>
+            </div>
+            <div className="flex flex-col gap-2 py-2">
+                {isLoading && <p className="text-muted-foreground">Loading...</p>}
+                {!isLoading && !tokens?.data?.length && (
+                    <p className="text-muted-foreground">
+                        You have not created any API tokens yet.
+                    </p>
+                )}
+                {tokens?.data?.map((token) => (
+                    <div key={token.id} className="flex flex-row items-center gap-4 p-3 border-2 border-border rounded-lg">
+                        <KeyRound className="w-6 h-6 shrink-0"/>
+                        <div className="flex flex-col w-full gap-1">
+                            <p className="font-500">
+                                {token.name}
+                            </p>
+                            <div className="flex flex-row flex-wrap gap-1">
+                                {token.scopes.map((scope) => (
+                                    <Badge key={scope} variant="neutral">{ApiTokenScope[scope] ?? scope}</Badge>
+                                ))}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                Created {dateParser(token.createdAt)} | Expires {dateParser(token.expiration)} | {token.lastUsedAt ? `Last used ${dateParser(token.lastUsedAt)}` : "Never used"}
+                            </p>
+                        </div>
+                        <Button variant="outline" onClick={() => revokeApiToken(token.id)}>
+                            <Trash2 className="w-4 h-4 mr-2"/>
+                            Revoke
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+export default ApiTokens;
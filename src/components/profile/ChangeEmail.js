@@ -0,0 +1,76 @@
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {Form, FormControl, FormDescription, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {Button} from "../ui/button.tsx";
+import {useRequestEmailChangeMutation} from "../../services/api/userApi.js";
+import {emailChangeSchema} from "../../../shared/schemas.js";
+
+// The email only changes once the link sent to the new address is confirmed
+const ChangeEmail = ({user}) => {
+    const [requestEmailChange, {isLoading}] = useRequestEmailChangeMutation();
+
+    const emailForm = useForm({
+        resolver: zodResolver(emailChangeSchema),
+        defaultValues: {
+            email: '',
+            password: '',
+        },
+    })
+
+    const onSubmit = (data) => {
+        requestEmailChange(data).then((res) => {
+            if (res.data) {
+                emailForm.reset();
+            }
+        })
+    }
+
+    return (
+        <div className="mt-6">
+            <p className="text-muted-foreground text-sm">
+                Email Address
+            </p>
+            <Form {...emailForm}>
+                <form onSubmit={emailForm.handleSubmit(onSubmit)} className="flex flex-col gap-y-3 md:w-[50%]">
+                    <FormGroup>
+                        <FormField
+                            control={emailForm.control}
+                            name="email"
+                            render={({field}) => (
+                                <FormItem className="w-full">
+                                    <FormLabel>New Email</FormLabel>
+                                    <FormControl>
+                                        <Input placeholder={user?.email} {...field} />
+                                    </FormControl>
+                                    <FormDescription>
+                                        Current: {user?.email}
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={emailForm.control}
+                            name="password"
+                            render={({field}) => (
+                                <FormItem className="w-full">
+                                    <FormLabel>Current Password</FormLabel>
+                                    <FormControl>
+                                        <Input type="password" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                    </FormGroup>
+                    <Button type="submit" variant="outline" isLoading={isLoading}>
+                        Change Email
+                    </Button>
+                </form>
+            </Form>
+        </div>
+    )
+}
+
+export default ChangeEmail;
@@ -10,8 +10,9 @@ import {Textarea} from "../ui/textarea.tsx";
 import {useUpdateUserMutation} from "../../services/api/userApi.js";
 import {useEffect, useState} from "react";
 import ProfileCard from "./ProfileCard.js";
-import {dateParser, zodStringPipe} from "../../utils/formatters.js";
-import {userSchema} from "../../utils/formSchemas.js";
+import {dateParser} from "../../utils/formatters.js";
+import {userSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {RealEstateType} from "../../utils/magicNumbers.js";
 
 const titles = ['-','Mr', 'Mrs', 'Ms', 'Dr', 'Prof'];
@@ -62,7 +63,11 @@ const EditProfile = ({user}) => {
 
 
     const onSubmit = (zodValues) => {
-        updateUser(zodValues)
+        updateUser(zodValues).then((res) => {
+            if (res.error) {
+                setServerErrors(profileForm, res.error)
+            }
+        })
     }
 
     if (isLoading) {
@@ -1,7 +1,7 @@
 import {Button} from "../ui/button.tsx";
 import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
 import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
-import {z} from "zod";
+import {settingsSchema} from "../../../shared/schemas.js";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {useSelector} from "react-redux";
@@ -18,6 +18,9 @@ import {Label} from "../ui/label.tsx";
 import {ComputerIcon, Moon, Sun} from "lucide-react";
 import {useTheme} from "../../services/contexts/ThemeContext.tsx";
 import {cn} from "../../utils.ts";
+import Sessions from "./Sessions.js";
+import ApiTokens from "./ApiTokens.js";
+import TwoFactor from "./TwoFactor.js";
 
 const currencies = [
     "USD",
@@ -40,12 +43,8 @@ const EditSettings = () => {
 
     const [deleteUser, {isLoading: isDeleting}] = useDeleteUserMutation();
 
-    const settingsFormSchema = z.object({
-        currencyCode: z.string().or(z.null()).or(z.undefined()),
-    })
-
     const settingsForm = useForm({
-        resolver: zodResolver(settingsFormSchema),
+        resolver: zodResolver(settingsSchema),
         defaultValues: {
             currencyCode: userData.currencyCode,
             deleteConfirmation: "",
@@ -174,6 +173,24 @@ const EditSettings = () => {
                 </form>
             </Form>
 
+            <div className="w-full h-[2px] bg-border my-4"/>
+
+            <Sessions/>
+
+            {userData?.role !== "TENANT" && (
+                <>
+                    <div className="w-full h-[2px] bg-border my-4"/>
+                    <TwoFactor/>
+                </>
+            )}
+
+            {userData?.role === "REALTOR" && (
+                <>
+                    <div className="w-full h-[2px] bg-border my-4"/>
+                    <ApiTokens/>
+                </>
+            )}
+
             <AlertDialog>
                 <AlertDialogTrigger className="mt-24">
                     <Button variant="link" className="pl-0 text-red-600 z-0">
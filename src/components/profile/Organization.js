@@ -0,0 +1,299 @@
+import {useEffect, useState} from "react";
+import {useSelector} from "react-redux";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {Building2, LogOutIcon, Mail, Trash2, UserPlus} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {Badge} from "../ui/badge.tsx";
+import {Input} from "../ui/input.tsx";
+import {Label} from "../ui/label.tsx";
+import {Switch} from "../ui/switch.tsx";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../ui/select.tsx";
+import {
+    useGetOrganizationQuery,
+    useInviteMemberMutation,
+    useRemoveMemberMutation,
+    useUpdateMemberMutation,
+    useUpdateOrganizationMutation
+} from "../../services/api/organizationApi.js";
+import {OrganizationRole} from "../../utils/magicNumbers.js";
+import {memberInvitationSchema, organizationSchema} from "../../../shared/schemas.js";
+import {dateParser} from "../../utils/formatters.js";
+
+const InviteMember = () => {
+    const [open, setOpen] = useState(false);
+
+    const [inviteMember, {isLoading}] = useInviteMemberMutation();
+
+    const inviteForm = useForm({
+        resolver: zodResolver(memberInvitationSchema),
+        defaultValues: {
+            email: "",
+            role: "READ_ONLY",
+        },
+    })
+
+    const onOpenChange = () => {
+        setOpen(!open);
+        inviteForm.reset();
+    }
+
+    const onSubmit = (data) => {
+        inviteMember(data).then((res) => {
+            if (res.data) {
+                onOpenChange();
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <Button variant="outline" type="button" onClick={onOpenChange}>
+                <UserPlus className="w-4 h-4 mr-2"/>
+                Invite Member
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <UserPlus className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Invite Member
+                    </DialogTitle>
+                    <DialogDescription>
+                        Managers can change everything except the members, bookkeepers only the financials.
+                        Every member can see all data of the organization.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...inviteForm}>
+                    <form onSubmit={inviteForm.handleSubmit(onSubmit)} className="flex flex-col gap-2">
+                        <FormField
+                            control={inviteForm.control}
+                            name="email"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>E-Mail *</FormLabel>
+                                    <FormControl>
+                                        <Input type="email" placeholder="colleague@example.com" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <FormField
+                            control={inviteForm.control}
+                            name="role"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Role *</FormLabel>
+                                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select the Role"/>
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {Object.keys(OrganizationRole).map((role) => (
+                                                <SelectItem key={role} value={role}>{OrganizationRole[role]}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" onClick={onOpenChange}>Cancel</Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isLoading}>
+                                <Mail className="h-4 w-4 mr-2"/>
+                                Send Invite
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+// Members of the organization the user currently works in, only owners can change them
+const Organization = () => {
+    const userData = useSelector(state => state.authSlice.userInfo);
+
+    const {data: organization, isLoading} = useGetOrganizationQuery();
+    const [updateOrganization, {isLoading: isUpdating}] = useUpdateOrganizationMutation();
+    const [updateMember] = useUpdateMemberMutation();
+    const [removeMember] = useRemoveMemberMutation();
+
+    const isOwner = organization?.data?.role === "OWNER";
+
+    const organizationForm = useForm({
+        resolver: zodResolver(organizationSchema),
+        defaultValues: {
+            name: "",
+            renewalNoticeDays: 60,
+            renewalRentIncrease: 0,
+        },
+    })
+
+    useEffect(() => {
+        if (organization?.data) {
+            organizationForm.reset({
+                name: organization.data.name,
+                renewalNoticeDays: organization.data.renewalNoticeDays,
+                renewalRentIncrease: organization.data.renewalRentIncrease,
+            });
+        }
+    }, [organization, organizationForm]);
+
+    // Leaving an organization switches back to the user's default organization
+    const onLeave = (member) => {
+        removeMember(member.id).then((res) => {
+            if (res.data) {
+                localStorage.removeItem('organizationId');
+                window.location.href = '/';
+            }
+        })
+    }
+
+    return (
+        <div className="mt-2 w-[100%]">
+            <Form {...organizationForm}>
+                <form onSubmit={organizationForm.handleSubmit((data) => updateOrganization(data))} className="flex flex-col gap-y-3 w-[100%] ">
+                    <FormField
+                        control={organizationForm.control}
+                        name="name"
+                        render={({field}) => (
+                            <FormItem className="min-w-fit w-[40%]">
+                                <FormLabel>Organization Name</FormLabel>
+                                <FormControl>
+                                    <Input {...field} disabled={!isOwner} />
+                                </FormControl>
+                                <FormMessage/>
+                            </FormItem>
+                        )}
+                    />
+
+                    <div className="flex flex-row flex-wrap gap-4">
+                        <FormField
+                            control={organizationForm.control}
+                            name="renewalNoticeDays"
+                            render={({field}) => (
+                                <FormItem className="min-w-fit w-[20%]">
+                                    <FormLabel>Renewal Notice (Days)</FormLabel>
+                                    <FormControl>
+                                        <Input type="number" {...field} disabled={!isOwner} />
+                                    </FormControl>
+                                    <FormDescription>
+                                        Renewal offers are drafted this many days before a lease ends
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={organizationForm.control}
+                            name="renewalRentIncrease"
+                            render={({field}) => (
+                                <FormItem className="min-w-fit w-[20%]">
+                                    <FormLabel>Renewal Rent Increase (%)</FormLabel>
+                                    <FormControl>
+                                        <Input type="number" step="0.1" {...field} disabled={!isOwner} />
+                                    </FormControl>
+                                    <FormDescription>
+                                        Proposed change of the rent in renewal offers
+                                    </FormDescription>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+
+                    {isOwner && (
+                        <Button type="submit" variant="dark" className="min-w-[200px] w-[20%]" isLoading={isUpdating}>
+                            Save
+                        </Button>
+                    )}
+                </form>
+            </Form>
+
+            <div className="flex flex-row items-center gap-2 mt-4">
+                <Switch
+                    id="requireTwoFactor"
+                    checked={organization?.data?.requireTwoFactor ?? false}
+                    disabled={!isOwner || isUpdating}
+                    onCheckedChange={(requireTwoFactor) => updateOrganization({requireTwoFactor})}
+                />
+                <Label htmlFor="requireTwoFactor">Require two-factor authentication for all members</Label>
+            </div>
+
+            <div className="w-full h-[2px] bg-border my-4"/>
+
+            <div className="flex flex-row justify-between items-center">
+                <p className="text-muted-foreground text-sm">
+                    Members
+                </p>
+                {isOwner && <InviteMember/>}
+            </div>
+            <div className="flex flex-col gap-2 py-2">
+                {isLoading && <p className="text-muted-foreground">Loading...</p>}
+                {organization?.data?.members?.map((member) => {
+                    const isCurrentUser = member.userId === userData?.id;
+                    const name = [member.user?.firstName, member.user?.lastName].filter(Boolean).join(" ") || member.email;
+
+                    return (
+                        <div key={member.id} className="flex flex-row items-center gap-4 p-3 border-2 border-border rounded-lg">
+                            <Building2 className="w-6 h-6 shrink-0"/>
+                            <div className="flex flex-col w-full gap-1">
+                                <div className="flex flex-row items-center gap-2">
+                                    <p className="font-500">
+                                        {name}
+                                    </p>
+                                    {isCurrentUser && <Badge variant="positive">You</Badge>}
+                                    {!member.userId && <Badge variant="warning">Invited</Badge>}
+                                    {member.userId && !member.user?.twoFactorEnabled && <Badge variant="neutral">No 2FA</Badge>}
+                                </div>
+                                <p className="text-sm text-muted-foreground">
+                                    {member.email} | Since {dateParser(member.createdAt)}
+                                </p>
+                            </div>
+                            {isOwner ? (
+                                <Select value={member.role} onValueChange={(role) => updateMember({id: member.id, bodyData: {role}})}>
+                                    <SelectTrigger className="w-[160px]">
+                                        <SelectValue/>
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {Object.keys(OrganizationRole).map((role) => (
+                                            <SelectItem key={role} value={role}>{OrganizationRole[role]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            ) : (
+                                <Badge variant="neutral">{OrganizationRole[member.role]}</Badge>
+                            )}
+                            {isCurrentUser && !isOwner && (
+                                <Button variant="outline" onClick={() => onLeave(member)}>
+                                    <LogOutIcon className="w-4 h-4 mr-2"/>
+                                    Leave
+                                </Button>
+                            )}
+                            {isOwner && !isCurrentUser && (
+                                <Button variant="outline" onClick={() => removeMember(member.id)}>
+                                    <Trash2 className="w-4 h-4 mr-2"/>
+                                    Remove
+                                </Button>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
+
+export default Organization;
@@ -0,0 +1,108 @@
+import {Laptop, LogOutIcon, Smartphone} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {Badge} from "../ui/badge.tsx";
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel,
+    AlertDialogContent, AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader, AlertDialogTitle,
+    AlertDialogTrigger
+} from "../ui/alert-dialog.tsx";
+import {
+    useDeleteAllSessionsMutation,
+    useDeleteSessionMutation,
+    useGetSessionsQuery,
+    useLogoutMutation
+} from "../../services/api/authApi.js";
+import {logoutUser} from "../../services/auth/authActions.js";
+import {dateParser} from "../../utils/formatters.js";
+
+// Rough description of the device from its user agent, e.g. "Chrome on Windows"
+function describeDevice(userAgent) {
+    if (!userAgent) {
+        return "Unknown device";
+    }
+
+    const browsers = [["Edg", "Edge"], ["OPR", "Opera"], ["Firefox", "Firefox"], ["Chrome", "Chrome"], ["Safari", "Safari"]];
+    const systems = [["Windows", "Windows"], ["Android", "Android"], ["iPhone", "iOS"], ["iPad", "iPadOS"], ["Mac OS", "macOS"], ["Linux", "Linux"]];
+
+    const browser = browsers.find(([key]) => userAgent.includes(key))?.[1] ?? "Unknown browser";
+    const system = systems.find(([key]) => userAgent.includes(key))?.[1];
+
+    return system ? `${browser} on ${system}` : browser;
+}
+
+const Sessions = () => {
+    const {data: sessions, isLoading} = useGetSessionsQuery();
+
+    const [logout, {isLoading: isLoggingOut}] = useLogoutMutation();
+    const [deleteSession] = useDeleteSessionMutation();
+    const [deleteAllSessions, {isLoading: isDeletingAll}] = useDeleteAllSessionsMutation();
+
+    const signOut = (session) => {
+        if (session.current) {
+            logout().then(() => logoutUser());
+        }
+        else {
+            deleteSession(session.id);
+        }
+    }
+
+    return (
+        <div>
+            <p className="text-muted-foreground text-sm">
+                Active Sessions
+            </p>
+            <div className="flex flex-col gap-2 py-2">
+                {isLoading && <p className="text-muted-foreground">Loading...</p>}
+                {sessions?.data?.map((session) => (
+                    <div key={session.id} className="flex flex-row items-center gap-4 p-3 border-2 border-border rounded-lg">
+                        {/Android|iPhone|iPad/.test(session.userAgent ?? "") ?
+                            <Smartphone className="w-6 h-6 shrink-0"/> : <Laptop className="w-6 h-6 shrink-0"/>
+                        }
+                        <div className="flex flex-col w-full">
+                            <p className="font-500 flex flex-row items-center gap-2">
+                                {describeDevice(session.userAgent)}
+                                {session.current && <Badge variant="positive">This device</Badge>}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                                {session.ipAddress ?? "Unknown IP"} | Signed in {dateParser(session.createdAt)} | Last active {dateParser(session.lastActiveAt)}
+                            </p>
+                        </div>
+                        <Button variant="outline" isLoading={session.current && isLoggingOut} onClick={() => signOut(session)}>
+                            <LogOutIcon className="w-4 h-4 mr-2"/>
+                            Sign out
+                        </Button>
+                    </div>
+                ))}
+            </div>
+
+            <AlertDialog>
+                <AlertDialogTrigger>
+                    <Button variant="outline" type="button">
+                        Sign out everywhere
+                    </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            All devices, including this one, will be signed out and need to log in again.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            isLoading={isDeletingAll}
+                            onClick={() => deleteAllSessions().then(() => logoutUser())}
+                        >
+                            Sign out everywhere
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    )
+}
+
+export default Sessions;
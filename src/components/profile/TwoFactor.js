@@ -0,0 +1,345 @@
+import {useState} from "react";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {QRCodeSVG} from "qrcode.react";
+import {Copy, KeyRound, RefreshCw, ShieldCheck, ShieldOff} from "lucide-react";
+import {Button} from "../ui/button.tsx";
+import {Badge} from "../ui/badge.tsx";
+import {Input} from "../ui/input.tsx";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Form, FormControl, FormField, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {
+    useDisableTwoFactorMutation,
+    useEnableTwoFactorMutation,
+    useGetTwoFactorQuery,
+    useRegenerateRecoveryCodesMutation,
+    useSetupTwoFactorMutation
+} from "../../services/api/twoFactorApi.js";
+import {disableTwoFactorSchema, twoFactorCodeSchema} from "../../../shared/schemas.js";
+
+
+// Recovery codes are only returned once, so they are shown until the dialog is closed
+const RecoveryCodes = ({codes, onDone}) => {
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="grid grid-cols-2 gap-2 p-3 border-2 border-border rounded-lg font-mono text-sm">
+                {codes.map((code) => (
+                    <p key={code}>{code}</p>
+                ))}
+            </div>
+            <Button variant="outline" type="button" onClick={() => navigator.clipboard.writeText(codes.join("\n"))}>
+                <Copy className="w-4 h-4 mr-2"/>
+                Copy Codes
+            </Button>
+            <Button type="button" variant="gradient" onClick={onDone}>
+                Done
+            </Button>
+        </div>
+    )
+}
+
+const CodeField = ({form}) => {
+    return (
+        <FormField
+            control={form.control}
+            name="code"
+            render={({field}) => (
+                <FormItem>
+                    <FormLabel>Code *</FormLabel>
+                    <FormControl>
+                        <Input placeholder="123456" autoComplete="one-time-code" inputMode="numeric" {...field} />
+                    </FormControl>
+                    <FormMessage/>
+                </FormItem>
+            )}
+        />
+    )
+}
+
+// Stays mounted once enabled, otherwise the refetch would close the dialog before the recovery codes are shown
+const SetupTwoFactor = ({enabled}) => {
+    const [open, setOpen] = useState(false);
+    const [setup, setSetup] = useState(null);
+    const [recoveryCodes, setRecoveryCodes] = useState(null);
+
+    const [setupTwoFactor, {isLoading: isStarting}] = useSetupTwoFactorMutation();
+    const [enableTwoFactor, {isLoading}] = useEnableTwoFactorMutation();
+
+    const codeForm = useForm({
+        resolver: zodResolver(twoFactorCodeSchema),
+        defaultValues: {
+            code: "",
+        },
+    })
+
+    const onOpenChange = () => {
+        setOpen(false);
+        setSetup(null);
+        setRecoveryCodes(null);
+        codeForm.reset();
+    }
+
+    const startSetup = () => {
+        setupTwoFactor().then((res) => {
+            if (res.data) {
+                setSetup(res.data.data);
+                setOpen(true);
+            }
+        })
+    }
+
+    const onSubmit = (data) => {
+        enableTwoFactor(data).then((res) => {
+            if (res.data) {
+                setRecoveryCodes(res.data.data.recoveryCodes);
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            {!enabled && (
+                <Button variant="outline" type="button" onClick={startSetup} isLoading={isStarting}>
+                    <ShieldCheck className="w-4 h-4 mr-2"/>
+                    Enable
+                </Button>
+            )}
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <ShieldCheck className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Enable Two-Factor Authentication
+                    </DialogTitle>
+                    <DialogDescription>
+                        {recoveryCodes ?
+                            "Store these recovery codes in a safe place. Each code can be used once if you lose access to your authenticator app, they will not be shown again."
+                            :
+                            "Scan the QR code with your authenticator app and enter the code it shows."
+                        }
+                    </DialogDescription>
+                </DialogHeader>
+
+                {recoveryCodes ? (
+                    <RecoveryCodes codes={recoveryCodes} onDone={onOpenChange}/>
+                ) : setup && (
+                    <Form {...codeForm}>
+                        <form onSubmit={codeForm.handleSubmit(onSubmit)} className="flex flex-col gap-2">
+                            <div className="flex justify-center p-3 bg-white rounded-lg">
+                                <QRCodeSVG value={setup.uri} size={180}/>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                Can not scan the code? Enter this key instead:
+                            </p>
+                            <div className="flex flex-row gap-2">
+                                <Input value={setup.secret} readOnly className="font-mono"/>
+                                <Button variant="outline" type="button" onClick={() => navigator.clipboard.writeText(setup.secret)}>
+                                    <Copy className="w-4 h-4"/>
+                                </Button>
+                            </div>
+
+                            <CodeField form={codeForm}/>
+
+                            <div className="flex justify-between gap-2 mt-4">
+                                <Button type="button" variant="outline" className="w-full" onClick={onOpenChange}>Cancel</Button>
+                                <Button type="submit" variant="gradient" className="w-full" isLoading={isLoading}>
+                                    <ShieldCheck className="h-4 w-4 mr-2"/>
+                                    Enable
+                                </Button>
+                            </div>
+                        </form>
+                    </Form>
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+const RegenerateRecoveryCodes = () => {
+    const [open, setOpen] = useState(false);
+    const [recoveryCodes, setRecoveryCodes] = useState(null);
+
+    const [regenerateRecoveryCodes, {isLoading}] = useRegenerateRecoveryCodesMutation();
+
+    const codeForm = useForm({
+        resolver: zodResolver(twoFactorCodeSchema),
+        defaultValues: {
+            code: "",
+        },
+    })
+
+    const onOpenChange = () => {
+        setOpen(!open);
+        setRecoveryCodes(null);
+        codeForm.reset();
+    }
+
+    const onSubmit = (data) => {
+        regenerateRecoveryCodes(data).then((res) => {
+            if (res.data) {
+                setRecoveryCodes(res.data.data.recoveryCodes);
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <Button variant="outline" type="button" onClick={onOpenChange}>
+                <RefreshCw className="w-4 h-4 mr-2"/>
+                New Recovery Codes
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <KeyRound className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        New Recovery Codes
+                    </DialogTitle>
+                    <DialogDescription>
+                        {recoveryCodes ?
+                            "Store these recovery codes in a safe place, they will not be shown again."
+                            :
+                            "Your current recovery codes will stop working. Confirm with a code of your authenticator app."
+                        }
+                    </DialogDescription>
+                </DialogHeader>
+
+                {recoveryCodes ? (
+                    <RecoveryCodes codes={recoveryCodes} onDone={onOpenChange}/>
+                ) : (
+                    <Form {...codeForm}>
+                        <form onSubmit={codeForm.handleSubmit(onSubmit)} className="flex flex-col gap-2">
+                            <CodeField form={codeForm}/>
+
+                            <div className="flex justify-between gap-2 mt-4">
+                                <Button type="button" variant="outline" className="w-full" onClick={onOpenChange}>Cancel</Button>
+                                <Button type="submit" variant="gradient" className="w-full" isLoading={isLoading}>
+                                    Generate
+                                </Button>
+                            </div>
+                        </form>
+                    </Form>
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+const DisableTwoFactor = () => {
+    const [open, setOpen] = useState(false);
+
+    const [disableTwoFactor, {isLoading}] = useDisableTwoFactorMutation();
+
+    const disableForm = useForm({
+        resolver: zodResolver(disableTwoFactorSchema),
+        defaultValues: {
+            password: "",
+            code: "",
+        },
+    })
+
+    const onOpenChange = () => {
+        setOpen(!open);
+        disableForm.reset();
+    }
+
+    const onSubmit = (data) => {
+        disableTwoFactor(data).then((res) => {
+            if (res.data) {
+                onOpenChange();
+            }
+        })
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <Button variant="outline" type="button" onClick={onOpenChange}>
+                <ShieldOff className="w-4 h-4 mr-2"/>
+                Disable
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <ShieldOff className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Disable Two-Factor Authentication
+                    </DialogTitle>
+                    <DialogDescription>
+                        Organizations that require two-factor authentication can not be opened without it.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...disableForm}>
+                    <form onSubmit={disableForm.handleSubmit(onSubmit)} className="flex flex-col gap-2">
+                        <FormField
+                            control={disableForm.control}
+                            name="password"
+                            render={({field}) => (
+                                <FormItem>
+                                    <FormLabel>Current Password *</FormLabel>
+                                    <FormControl>
+                                        <Input type="password" {...field} />
+                                    </FormControl>
+                                    <FormMessage/>
+                                </FormItem>
+                            )}
+                        />
+
+                        <CodeField form={disableForm}/>
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" onClick={onOpenChange}>Cancel</Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isLoading}>
+                                Disable
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+// Two-factor authentication with an authenticator app, asked for at every login once enabled
+const TwoFactor = () => {
+    const {data: twoFactor, isLoading} = useGetTwoFactorQuery();
+
+    const enabled = twoFactor?.data?.enabled;
+
+    return (
+        <div>
+            <div className="flex flex-row justify-between items-center">
+                <p className="text-muted-foreground text-sm">
+                    Two-Factor Authentication
+                </p>
+                {!isLoading && <SetupTwoFactor enabled={enabled}/>}
+            </div>
+            <div className="flex flex-col gap-2 py-2">
+                {isLoading && <p className="text-muted-foreground">Loading...</p>}
+                {!isLoading && !enabled && (
+                    <p className="text-muted-foreground">
+                        Protect your account with a code of an authenticator app in addition to your password.
+                    </p>
+                )}
+                {enabled && (
+                    <div className="flex flex-row flex-wrap items-center gap-4 p-3 border-2 border-border rounded-lg">
+                        <ShieldCheck className="w-6 h-6 shrink-0"/>
+                        <div className="flex flex-col w-full gap-1 flex-1">
+                            <Badge variant="positive" className="w-fit">Enabled</Badge>
+                            <p className="text-sm text-muted-foreground">
+                                {twoFactor.data.recoveryCodesLeft} recovery codes left
+                            </p>
+                        </div>
+                        <RegenerateRecoveryCodes/>
+                        <DisableTwoFactor/>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
+
+export default TwoFactor;
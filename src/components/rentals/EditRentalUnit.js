@@ -9,7 +9,8 @@ import {
     } from "../ui/dialog.tsx";
 import {zodResolver} from "@hookform/resolvers/zod";
 import {useForm} from "react-hook-form";
-import {unitSchema} from "../../utils/formSchemas.js";
+import {unitSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {
     Form,
     FormControl,
@@ -54,7 +55,7 @@ const EditRentalUnit = ({unit, open, setOpen, ...props}) => {
 
         updateUnit(body).then((res) => {
             if (res.error) {
-                console.log(res.error)
+                setServerErrors(rentalForm, res.error)
             } else {
                 setOpen(false)
                 // Update the form with the new data
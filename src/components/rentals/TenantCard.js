@@ -17,9 +17,11 @@ import {
     AlertDialogTitle,
     AlertDialogTrigger
 } from "../ui/alert-dialog.tsx";
+import {LeasePartyRole} from "../../utils/magicNumbers.js";
 
 
-const TenantCard = ({ tenant }) => {
+// Current tenant of the unit, the other parties of their lease are listed below them
+const TenantCard = ({ tenant, lease }) => {
     const navigate = useNavigate();
 
     const rentalId = useParams().id;
@@ -57,6 +59,10 @@ const TenantCard = ({ tenant }) => {
 
 
     const [onlyUnassignedTenants, setOnlyUnassignedTenants] = useState(true)
+
+    const otherParties = lease?.parties?.filter(party => party.tenantId !== tenant?.id) ?? []
+    // Leases the tenant is a party of, not only the ones they are the primary tenant of
+    const leaseCount = tenant?.leaseParties?.length ?? tenant?.leases?.length
     if (!tenant) {
         return (
             <Card className="shadow-lg basis-[400px] flex-grow">
@@ -115,13 +121,32 @@ const TenantCard = ({ tenant }) => {
                 <h1 className="font-500 text-xl">
                     {tenant?.firstName} {tenant?.lastName}
                 </h1>
-                {tenant?.leases?.length === 1 ? (
+                {leaseCount === 1 ? (
                     "1 Lease"
                 ) : (
-                    `${tenant?.leases?.length} Leases`
+                    `${leaseCount} Leases`
                 )}
             </CardHeader>
             <CardContent className="flex flex-col gap-4 items-center">
+                {otherParties.length > 0 && (
+                    <div className="w-full flex flex-col gap-1 text-sm border-t border-input pt-2">
+                        <p className="text-muted-foreground font-500">
+                            Other Parties
+                        </p>
+                        {otherParties.map(party => (
+                            <div key={party.id} className="flex flex-row justify-between gap-2">
+                                <Button variant="link" className="p-0 h-fit" onClick={() => navigate(`/tenants/${party.tenantId}`)}>
+                                    {party.tenant?.firstName} {party.tenant?.lastName}
+                                </Button>
+                                <p className="text-muted-foreground">
+                                    {LeasePartyRole[party.role]}
+                                    {party.share !== null && ` (${party.share}%)`}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 <div className="flex flex-row gap-2">
                     <Button
                         variant="light"
@@ -1,7 +1,5 @@
-import {z} from "zod";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {zodNumberInputPipe, zodStringPipe} from "../../utils/formatters.js";
 import {
     Form,
     FormControl,
@@ -18,8 +16,8 @@ import {useState} from "react";
 import {Save} from "lucide-react";
 import {CivilStatus} from "../../utils/magicNumbers.js";
 import {useUpdateTenantMutation} from "../../services/api/tenantApi.js";
-import {tenantSchema} from "../../utils/formSchemas.js";
-import {isValidPhoneNumber} from "react-phone-number-input";
+import {tenantProfileSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 
 const EditTenant = ({tenant}) => {
     const [isEditing, setIsEditing] = useState(false);
@@ -27,17 +25,6 @@ const EditTenant = ({tenant}) => {
     const [updateTenant, {isLoading: isUpdating}] = useUpdateTenantMutation();
 
 
-    const tenantProfileSchema = z.object({
-        firstName: zodStringPipe(z.string({errorMap: () => ({message: 'First name is required.'})})),
-        lastName: zodStringPipe(z.string({errorMap: () => ({message: 'Last name is required.'})})),
-        email: zodStringPipe(z.string().email().or(z.null())),
-        phone: zodStringPipe(z.string().refine(isValidPhoneNumber, { message: "Invalid phone number" }).or(z.null())),
-        civilStatus: zodStringPipe(z.string().or(z.null())),
-        occupation: zodStringPipe(z.string().or(z.null())),
-        income: zodNumberInputPipe(z.number({errorMap: () => ({message: 'Please enter a valid number.'})}).or(z.null())),
-        creditScore: zodNumberInputPipe(z.number().positive('Number must be positive')).or(z.null()),
-    })
-
     const tenantProfileForm = useForm({
         resolver: zodResolver(tenantProfileSchema),
         defaultValues: {
@@ -52,6 +39,9 @@ const EditTenant = ({tenant}) => {
                     tenantProfileForm.reset(data)
                     setIsEditing(false)
                 }
+                else {
+                    setServerErrors(tenantProfileForm, res.error)
+                }
             }
         )
     }
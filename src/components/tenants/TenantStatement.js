@@ -0,0 +1,131 @@
+import {useState} from "react";
+import {Dialog, DialogContent, DialogDescription, DialogHeader, DialogIcon, DialogTitle} from "../ui/dialog.tsx";
+import {Button} from "../ui/button.tsx";
+import {useForm} from "react-hook-form";
+import {zodResolver} from "@hookform/resolvers/zod";
+import {statementPeriodSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
+import {Form, FormControl, FormDescription, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../ui/form.tsx";
+import {Input} from "../ui/input.tsx";
+import {FileDown, FilePlus2, FileText} from "lucide-react";
+import {useDownloadTenantStatementMutation, useSaveTenantStatementMutation} from "../../services/api/statementApi.js";
+
+
+// Account statement of all leases of the tenant as PDF, downloaded or saved to the documents of their latest lease
+const TenantStatement = ({tenant, ...props}) => {
+
+    const [open, setOpen] = useState(false)
+
+    const [downloadStatement, {isLoading: isDownloading}] = useDownloadTenantStatementMutation()
+    const [saveStatement, {isLoading: isSaving}] = useSaveTenantStatementMutation()
+
+    const statementForm = useForm({
+        resolver: zodResolver(statementPeriodSchema),
+        defaultValues: {
+            from: "",
+            to: "",
+        },
+    })
+
+    // Empty dates fall back to the start of the first lease and today
+    const getPeriod = (data) => Object.fromEntries(Object.entries(data).filter(([, value]) => value))
+
+    const onDownload = (data) => {
+        downloadStatement({id: tenant.id, ...getPeriod(data)}).then((res) => {
+            if (res.error) {
+                setServerErrors(statementForm, res.error)
+            }
+        })
+    }
+
+    const onSave = (data) => {
+        saveStatement({id: tenant.id, ...getPeriod(data)}).then((res) => {
+            if (res.data) {
+                setOpen(false)
+                statementForm.reset();
+            }
+            else {
+                setServerErrors(statementForm, res.error)
+            }
+        })
+    }
+
+    return (
+        <Dialog {...props} onOpenChange={() => setOpen(!open)} open={open}>
+            <Button onClick={() => setOpen(!open)} variant="outline" type="button" disabled={!tenant?.id}>
+                <FileText className="h-4 w-4 mr-2"/>
+                Statement
+            </Button>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogIcon>
+                        <FileText className="w-6 h-6"/>
+                    </DialogIcon>
+                    <DialogTitle>
+                        Account Statement
+                    </DialogTitle>
+                    <DialogDescription>
+                        The charges, payments and running balance of every lease of {tenant?.firstName} {tenant?.lastName} as PDF. Saved statements are added to the documents of the latest lease, the tenant can download them from the portal.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Form {...statementForm}>
+                    <form
+                        onSubmit={statementForm.handleSubmit(onDownload)}
+                        className="flex flex-col gap-2"
+                    >
+                        <FormGroup>
+                            <FormField
+                                control={statementForm.control}
+                                name="from"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>From</FormLabel>
+                                        <FormControl>
+                                            <Input type="date" {...field} value={field.value ?? ""} />
+                                        </FormControl>
+                                        <FormDescription>
+                                            Start of the first lease if empty
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={statementForm.control}
+                                name="to"
+                                render={({field}) => (
+                                    <FormItem>
+                                        <FormLabel>To</FormLabel>
+                                        <FormControl>
+                                            <Input type="date" {...field} value={field.value ?? ""} />
+                                        </FormControl>
+                                        <FormDescription>
+                                            Today if empty
+                                        </FormDescription>
+                                        <FormMessage/>
+                                    </FormItem>
+                                )}
+                            />
+                        </FormGroup>
+
+                        <div className="flex justify-between gap-2 mt-4">
+                            <Button type="button" variant="outline" className="w-full" isLoading={isSaving}
+                                    onClick={statementForm.handleSubmit(onSave)}>
+                                <FilePlus2 className="h-4 w-4 mr-2"/>
+                                Save to Documents
+                            </Button>
+                            <Button type="submit" variant="gradient" className="w-full" isLoading={isDownloading}>
+                                <FileDown className="h-4 w-4 mr-2"/>
+                                Download
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+export default TenantStatement;
@@ -22,6 +22,14 @@ import Messages from "./content/Messages.jsx";
 import {useGetMessagesQuery} from "../services/api/messageApi.js";
 import MaintenanceReports from "./content/Maintenance.jsx";
 import {useGetMaintenanceReportsQuery} from "../services/api/maintenanceApi.js";
+import PortalHome from "./content/PortalHome.jsx";
+import PortalPayments from "./content/PortalPayments.jsx";
+import PortalMaintenance from "./content/PortalMaintenance.jsx";
+import {
+    useGetPortalLeasesQuery,
+    useGetPortalMaintenanceRequestsQuery,
+    useGetPortalPaymentsQuery
+} from "../services/api/portalApi.js";
 
 export const AccountPage = () => {
     return (
@@ -144,4 +152,28 @@ export const MaintenancePage = () => {
             <MaintenanceReports/>
         </PageWrapper>
     )
-}
\ No newline at end of file
+}
+
+export const PortalHomePage = () => {
+    return (
+        <PageWrapper query={useGetPortalLeasesQuery}>
+            <PortalHome/>
+        </PageWrapper>
+    )
+}
+
+export const PortalPaymentsPage = () => {
+    return (
+        <PageWrapper query={useGetPortalPaymentsQuery}>
+            <PortalPayments/>
+        </PageWrapper>
+    )
+}
+
+export const PortalMaintenancePage = () => {
+    return (
+        <PageWrapper query={useGetPortalMaintenanceRequestsQuery}>
+            <PortalMaintenance/>
+        </PageWrapper>
+    )
+}
@@ -1,8 +1,10 @@
 import EditSettings from "../../components/profile/EditSettings.js";
 import EditProfile from "../../components/profile/EditProfile.js";
+import ChangeEmail from "../../components/profile/ChangeEmail.js";
+import Organization from "../../components/profile/Organization.js";
 import {Tabs, TabsContent, TabsItem, TabsList} from "../../components/ui/tabs-new.tsx";
 import {useLocation, useNavigate} from "react-router-dom";
-import {CircleUser, Settings2} from "lucide-react";
+import {Building2, CircleUser, Settings2} from "lucide-react";
 
 
 const Account = (props) => {
@@ -16,6 +18,8 @@ const Account = (props) => {
             return 'account';
         } else if (location.pathname === '/settings') {
             return 'settings';
+        } else if (location.pathname === '/organization') {
+            return 'organization';
         }
     }
 
@@ -28,7 +32,10 @@ const Account = (props) => {
                 <CircleUser className="w-4 h-4"/> Profile
             </div>),
             content: (
-                <EditProfile user={user}/>
+                <>
+                    <EditProfile user={user}/>
+                    <ChangeEmail user={user}/>
+                </>
             )
         },
         {
@@ -41,7 +48,19 @@ const Account = (props) => {
             content: (
                 <EditSettings user={user}/>
             )
-        }
+        },
+        // Tenants don't belong to an organization
+        ...(user.role !== "TENANT" ? [{
+            id: "organization",
+            title: (
+                <div className="flex flex-row items-center gap-2">
+                    <Building2 className="w-4 h-4"/> Organization
+                </div>
+            ),
+            content: (
+                <Organization/>
+            )
+        }] : [])
     ]
 
     return (
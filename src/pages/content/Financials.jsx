@@ -17,6 +17,13 @@ import {useState} from "react";
 import {Tabs, TabsContent, TabsItem, TabsList} from "../../components/ui/tabs-new.tsx";
 import ExpensesTable from "../../components/financials/ExpensesTable.tsx";
 import AddExpense from "../../components/expenses/AddExpense.js";
+import LedgerTable from "../../components/financials/LedgerTable.tsx";
+import AddLedgerTransaction from "../../components/financials/AddLedgerTransaction.js";
+import {useGetLedgerReportQuery, useGetLedgerTransactionsQuery} from "../../services/api/ledgerApi.js";
+import BankTransactionTable from "../../components/financials/BankTransactionTable.tsx";
+import ImportBankStatement from "../../components/financials/ImportBankStatement.js";
+import {useGetBankTransactionsQuery} from "../../services/api/bankStatementApi.js";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "../../components/ui/select.tsx";
 
 
 const Financials = (props) => {
@@ -25,6 +32,24 @@ const Financials = (props) => {
 
     const [showPaymentModal, setShowPaymentModal] = useState(false);
 
+    const userCurrency = useSelector(state => state.authSlice.userInfo?.currencyCode) || "USD";
+    const [currency, setCurrency] = useState(userCurrency);
+
+    // Balances come from the ledger, of the selected property or of all of them
+    const ledgerFilter = {
+        currency: currency,
+        ...(propertySelection && String(propertySelection).toLowerCase() !== "all" ? { propertyId: propertySelection } : {})
+    }
+
+    const {data: ledgerReport} = useGetLedgerReportQuery(ledgerFilter);
+    const {data: ledgerTransactions} = useGetLedgerTransactionsQuery(ledgerFilter);
+
+    const report = ledgerReport?.data;
+    const transactions = ledgerTransactions?.data ?? [];
+
+    const {data: bankTransactionsData} = useGetBankTransactionsQuery();
+    const bankTransactions = bankTransactionsData?.data ?? [];
+
     const leases = useSelector(state => selectLeasesByPropertyId(state, propertySelection));
 
     const payments = useSelector(state => selectPaymentsByPropertyId(state, propertySelection))
@@ -48,23 +73,6 @@ const Financials = (props) => {
 
 
 
-    const rentDue = paymentSchedules.reduce((acc, scheduledPayment) => {
-        if (scheduledPayment.status !== "PAID") {
-            return acc + scheduledPayment?.amountDue || 0;
-        } else {
-            return acc;
-        }
-    }, 0) || 0;
-
-    const rentPaid = payments.reduce((acc, payment) => {
-        if (payment.status === "PAID") {
-            return acc + payment?.amount || 0;
-        }
-        else {
-            return acc;
-        }
-    }, 0) || 0;
-
     const activeLeases = leases.filter(lease =>{
         return  isAfter(new Date(lease.endDate), new Date()) || !lease.endDate;
     }).length;
@@ -102,6 +110,20 @@ const Financials = (props) => {
                 <AddExpense/>
             </ExpensesTable>,
             count: expenses?.length
+        },
+        {
+            title: "Ledger",
+            content: <LedgerTable transactions={transactions}>
+                <AddLedgerTransaction/>
+            </LedgerTable>,
+            count: transactions?.length
+        },
+        {
+            title: "Bank",
+            content: <BankTransactionTable transactions={bankTransactions} paymentSchedules={paymentSchedules}>
+                <ImportBankStatement/>
+            </BankTransactionTable>,
+            count: bankTransactions.filter((transaction) => transaction.status === "UNMATCHED" || transaction.status === "SUGGESTED").length
         }
     ]
 
@@ -117,9 +139,24 @@ const Financials = (props) => {
                     This page offers an overview of the financials for either a single property or all properties, depending on your selection.
                 </p>
 
+                {report?.currencies?.some((code) => code !== currency) && (
+                    <Select onValueChange={setCurrency} value={currency}>
+                        <SelectTrigger className="w-[200px]">
+                            <SelectValue placeholder="Select a currency"/>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {report.currencies.map((code) => (
+                                <SelectItem key={code} value={code}>{code}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+
                 <div className="flex flex-row flex-wrap gap-4">
-                    <InfoCard title="Rent Due" number={moneyParser(rentDue)}  />
-                    <InfoCard title="Rent Paid" number={moneyParser(rentPaid)}  />
+                    <InfoCard title="Rent Receivable" number={report ? moneyParser(report.balances.RENT_RECEIVABLE, currency) : undefined}  />
+                    <InfoCard title="Income" number={report ? moneyParser(report.incomeStatement.income, currency) : undefined}  />
+                    <InfoCard title="Expenses" number={report ? moneyParser(report.incomeStatement.expenses, currency) : undefined}  />
+                    <InfoCard title="Deposits Held" number={report ? moneyParser(report.balances.DEPOSITS_HELD, currency) : undefined}  />
                     <InfoCard title="Active Leases" number={activeLeases}   />
                 </div>
 
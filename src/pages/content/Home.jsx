@@ -25,6 +25,7 @@ import {Avatar, AvatarFallback, AvatarImage} from "../../components/ui/avatar.ts
 import {dateParser} from "../../utils/formatters.js";
 import {PiHandCoins} from "react-icons/pi";
 import DetailedPropertyTable from "../../components/properties/DetailedPropertyTable.js";
+import UpcomingRenewals from "../../components/home/UpcomingRenewals.js";
 
 const Home = () => {
     const navigate = useNavigate();
@@ -264,6 +265,8 @@ const Home = () => {
                         </div>
 
 
+                        <UpcomingRenewals/>
+
                         <div className="flex flex-col gap-3">
                             <h3 className="text-muted-foreground font-500 text-lg md:text-md">
                                 Your Properties
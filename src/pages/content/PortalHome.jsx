@@ -0,0 +1,113 @@
+import InfoCard from "../../components/home/InfoCard.js";
+import PortalLeaseCard from "../../components/portal/PortalLeaseCard.js";
+import ReportPayment from "../../components/portal/ReportPayment.js";
+import ReportMaintenance from "../../components/portal/ReportMaintenance.js";
+import PortalRenewalOffer from "../../components/portal/PortalRenewalOffer.js";
+import {useGetUserQuery} from "../../services/api/userApi.js";
+import {useGetPortalMaintenanceRequestsQuery, useGetPortalRenewalOffersQuery} from "../../services/api/portalApi.js";
+import {getNextScheduledPayment} from "../../utils/financials.js";
+import {dateParser, moneyParser} from "../../utils/formatters.js";
+import {CoinsIcon, DrillIcon, FilePlus2, Scroll} from "lucide-react";
+
+
+const PortalHome = (props) => {
+    const leases = props?.data?.data || [];
+
+    const {data: user} = useGetUserQuery();
+
+    const {data: maintenanceRequests} = useGetPortalMaintenanceRequestsQuery();
+
+    const {data: renewalOffers} = useGetPortalRenewalOffersQuery();
+
+    // Offers waiting for an answer of the tenant
+    const sentOffers = renewalOffers?.data?.filter(offer => offer.status === "SENT") || [];
+
+    const activeLeases = leases.filter(lease => lease.status === "ACTIVE");
+
+    // Earliest open rent payment across all leases
+    const nextPayment = leases
+        .map(lease => getNextScheduledPayment(lease))
+        .filter(Boolean)
+        .sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate))[0];
+
+    const openRequests = maintenanceRequests?.data?.filter(request => request.status !== "COMPLETED");
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col">
+                <h1>
+                    Welcome, {user?.data?.firstName}!
+                </h1>
+                <p className="text-gray-500">
+                    Here you can find your leases, upcoming rent and maintenance requests.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 w-full">
+                <InfoCard title="Active Leases" number={activeLeases.length}>
+                    <div className="p-2 border border-border rounded-lg shadow-sm">
+                        <Scroll className="w-5 h-5"/>
+                    </div>
+                </InfoCard>
+                <InfoCard
+                    title="Next Rent Due"
+                    number={nextPayment ? `${moneyParser(nextPayment.amountDue)} (${dateParser(nextPayment.dueDate)})` : "-"}
+                    link="/payments"
+                >
+                    <div className="p-2 border border-border rounded-lg shadow-sm">
+                        <CoinsIcon className="w-5 h-5"/>
+                    </div>
+                </InfoCard>
+                <InfoCard title="Open Requests" number={openRequests?.length} link="/maintenance">
+                    <div className="p-2 border border-border rounded-lg shadow-sm">
+                        <DrillIcon className="w-5 h-5"/>
+                    </div>
+                </InfoCard>
+            </div>
+
+            <div className="flex flex-row flex-wrap gap-2">
+                <ReportPayment leases={activeLeases}>
+                    <FilePlus2 className="w-4 h-4 mr-2"/>
+                    Report Payment
+                </ReportPayment>
+                <ReportMaintenance leases={activeLeases}>
+                    <DrillIcon className="w-4 h-4 mr-2"/>
+                    Request Maintenance
+                </ReportMaintenance>
+            </div>
+
+            {sentOffers.length > 0 && (
+                <div className="flex flex-col gap-3">
+                    <h3 className="text-muted-foreground font-500 text-lg md:text-md">
+                        Renewal Offers
+                    </h3>
+                    <div className="w-full h-[2px] bg-secondary"/>
+                    <div className="flex flex-row flex-wrap gap-4">
+                        {sentOffers.map(offer => (
+                            <PortalRenewalOffer key={offer.id} offer={offer}/>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-col gap-3">
+                <h3 className="text-muted-foreground font-500 text-lg md:text-md">
+                    Your Leases
+                </h3>
+                <div className="w-full h-[2px] bg-secondary"/>
+                {leases.length === 0 && (
+                    <p className="text-sm">
+                        There are no leases linked to your account yet.
+                    </p>
+                )}
+                <div className="flex flex-row flex-wrap gap-4">
+                    {leases.map(lease => (
+                        <PortalLeaseCard key={lease.id} lease={lease}/>
+                    ))}
+                </div>
+            </div>
+        </div>
+    )
+}
+
+export default PortalHome;
@@ -0,0 +1,35 @@
+import PortalMaintenanceTable from "../../components/portal/PortalMaintenanceTable.tsx";
+import ReportMaintenance from "../../components/portal/ReportMaintenance.js";
+import {useGetPortalLeasesQuery} from "../../services/api/portalApi.js";
+import {FilePlus2} from "lucide-react";
+
+
+const PortalMaintenance = (props) => {
+    const maintenanceRequests = props?.data?.data || [];
+
+    const {data: leases} = useGetPortalLeasesQuery();
+
+    const activeLeases = leases?.data?.filter(lease => lease.status === "ACTIVE");
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col">
+                <h1>
+                    Maintenance
+                </h1>
+                <p className="text-gray-500">
+                    Report issues with your rental and follow up on their status.
+                </p>
+            </div>
+
+            <PortalMaintenanceTable maintenanceRequests={maintenanceRequests}>
+                <ReportMaintenance leases={activeLeases}>
+                    <FilePlus2 size={18} className="mr-1"/>
+                    Request Maintenance
+                </ReportMaintenance>
+            </PortalMaintenanceTable>
+        </div>
+    )
+}
+
+export default PortalMaintenance;
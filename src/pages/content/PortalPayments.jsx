@@ -0,0 +1,78 @@
+import PortalPaymentTable from "../../components/portal/PortalPaymentTable.tsx";
+import PortalScheduleTable from "../../components/portal/PortalScheduleTable.tsx";
+import ReportPayment from "../../components/portal/ReportPayment.js";
+import {useGetPortalLeasesQuery} from "../../services/api/portalApi.js";
+import {Tabs, TabsContent, TabsItem, TabsList} from "../../components/ui/tabs-new.tsx";
+import {FilePlus2} from "lucide-react";
+
+
+const PortalPayments = (props) => {
+    const payments = props?.data?.data || [];
+
+    const {data: leases} = useGetPortalLeasesQuery();
+
+    const activeLeases = leases?.data?.filter(lease => lease.status === "ACTIVE");
+
+    const paymentSchedules = (leases?.data || []).reduce((acc, lease) => {
+        return acc.concat(lease.paymentSchedule.map(schedule => ({...schedule, lease: lease})));
+    }, []);
+
+    const tabs = [
+        {
+            title: "Payments",
+            content: (
+                <PortalPaymentTable payments={payments}>
+                    <ReportPayment leases={activeLeases}>
+                        <FilePlus2 className="w-4 h-4 mr-2"/>
+                        Report Payment
+                    </ReportPayment>
+                </PortalPaymentTable>
+            ),
+            count: payments.length
+        },
+        {
+            title: "Rent Schedule",
+            content: <PortalScheduleTable paymentSchedules={paymentSchedules}/>,
+            count: paymentSchedules.length
+        },
+    ]
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col">
+                <h1>
+                    Payments
+                </h1>
+                <p className="text-gray-500">
+                    Your payment history and rent schedule. Payments you report are reviewed by your realtor.
+                </p>
+            </div>
+
+            <Tabs defaultValue={0}>
+                <TabsList>
+                    {tabs.map((tab, index) => {
+                        return (
+                            <TabsItem value={index} key={index}>
+                                <div className="flex justify-start gap-2 items-center">
+                                    {tab.title}
+                                    <div className="p-1 rounded-lg shadow-sm text-xs bg-background-light w-7 h-7 flex items-center justify-center border border-border ">
+                                        {tab.count}
+                                    </div>
+                                </div>
+                            </TabsItem>
+                        )
+                    })}
+                </TabsList>
+                {tabs.map((tab, index) => {
+                    return (
+                        <TabsContent value={index} key={index}>
+                            {tab.content}
+                        </TabsContent>
+                    )
+                })}
+            </Tabs>
+        </div>
+    )
+}
+
+export default PortalPayments;
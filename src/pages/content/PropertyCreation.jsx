@@ -15,7 +15,8 @@ import {
 } from "lucide-react";
 import {useForm} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {propertySchema} from "../../utils/formSchemas.js";
+import {propertySchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {Form, FormControl, FormField, FormGroup, FormItem, FormLabel, FormMessage} from "../../components/ui/form.tsx";
 import {Card, CardContent, CardHeader, CardTitle} from "../../components/ui/card.tsx";
 import {Input} from "../../components/ui/input.tsx";
@@ -161,7 +162,7 @@ const PropertyCreation = () => {
 
         createProperty(body).then((res) => {
             if (res.error){
-                console.log(res.error)
+                setServerErrors(propertyForm, res.error)
                 return;
             }
             else {
@@ -2,6 +2,9 @@ import {Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, Table
 import {Button} from "../../components/ui/button.tsx";
 import {useDeletePropertyMutation} from "../../services/api/propertyApi.js";
 import {useNavigate, useParams} from "react-router-dom";
+import {useState} from "react";
+import EditLateFeePolicy from "../../components/financials/EditLateFeePolicy.js";
+import {describeLateFeePolicy} from "../../utils/financials.js";
 
 
 const PropertyDetail = (props) => {
@@ -11,6 +14,7 @@ const PropertyDetail = (props) => {
     const navigate = useNavigate();
 
     const [deleteProperty, {isLoading: isDeleting}] = useDeletePropertyMutation();
+    const [lateFeePolicyOpen, setLateFeePolicyOpen] = useState(false);
 
     return (
         <div>
@@ -18,11 +22,21 @@ const PropertyDetail = (props) => {
                 <h1>
                     {data?.data?.title}
                 </h1>
-                <Button variant="destructive" isLoading={isDeleting} onClick={() => deleteProperty(id).then(()=> navigate('/properties')) }>
-                    Delete Property
-                </Button>
+                <div className="flex flex-row gap-2">
+                    <Button variant="outline" onClick={() => setLateFeePolicyOpen(true)}>
+                        Late Fee Policy
+                    </Button>
+                    <Button variant="destructive" isLoading={isDeleting} onClick={() => deleteProperty(id).then(()=> navigate('/properties')) }>
+                        Delete Property
+                    </Button>
+                </div>
             </div>
 
+            {lateFeePolicyOpen && (
+                <EditLateFeePolicy policy={data?.data?.lateFeePolicy} propertyId={data?.data?.id}
+                                   open={lateFeePolicyOpen} setIsOpen={setLateFeePolicyOpen}/>
+            )}
+
             The table below shows the data of the property from the database. <br/>
 
             <Table>
@@ -69,6 +83,11 @@ const PropertyDetail = (props) => {
                         <TableCell key={1}>{data?.data?.yearBuilt || "-"}</TableCell>
                     </TableRow>
 
+                    <TableRow>
+                        <TableCell key={0}>Late Fees</TableCell>
+                        <TableCell key={1}>{describeLateFeePolicy(data?.data?.lateFeePolicy) || "-"}</TableCell>
+                    </TableRow>
+
                     <TableRow>
                         <TableCell key={0}>Units</TableCell>
                         <TableCell key={1}>
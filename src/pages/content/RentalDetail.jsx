@@ -33,6 +33,9 @@ const RentalDetail = (props) => {
 
     const tenant = useSelector(state => selectTenantById(state, data?.data?.tenantId))
 
+    // Active lease of the current tenant, its other parties live in the unit or stand in for it as well
+    const currentLease = data?.data?.leases?.find(lease => lease.status === "ACTIVE" && lease.tenantId === data?.data?.tenantId)
+
     const maintenanceReports = useSelector(state => selectMaintenanceReportsByUnitId(state, Number(id)));
 
     const expenses = useSelector(state => selectExpensesByUnitId(state, Number(id)))
@@ -82,7 +85,7 @@ const RentalDetail = (props) => {
                     <div className="flex flex-row flex-wrap flex-shrink justify-start w-[100%] gap-8">
                         <RentalKeyCard unit={data?.data} isSingleUnit={property?.units?.length === 1}/>
 
-                        <TenantCard tenant={tenant}/>
+                        <TenantCard tenant={tenant} lease={currentLease}/>
                     </div>
 
                     <div className="flex flex-row gap-8 w-full">
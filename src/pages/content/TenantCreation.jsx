@@ -16,7 +16,8 @@ import {
 } from "lucide-react";
 import {useForm, useWatch} from "react-hook-form";
 import {zodResolver} from "@hookform/resolvers/zod";
-import {propertySchema, tenantSchema} from "../../utils/formSchemas.js";
+import {propertySchema, tenantSchema} from "../../../shared/schemas.js";
+import {setServerErrors} from "../../utils/formErrors.js";
 import {
     Form,
     FormControl, FormDescription,
@@ -54,6 +55,7 @@ import {Tooltip, TooltipContent, TooltipProvider, TooltipTrigger} from "../../co
 import {BiQuestionMark} from "react-icons/bi";
 import {AiOutlineQuestionCircle} from "react-icons/ai";
 import {Progress} from "../../components/ui/multi-step.js";
+import LeaseOverlapConflicts from "../../components/leases/LeaseOverlapConflicts.js";
 
 
 const TenantCreation = () => {
@@ -263,19 +265,24 @@ const TenantCreation = () => {
     }, [leaseEndDate]);
 
 
+    // Other leases of the unit that overlap the dates of the new lease, see LeaseOverlapConflicts
+    const [conflicts, setConflicts] = useState([])
+    const [plannedSuccessor, setPlannedSuccessor] = useState(false)
+
     const onSubmit = (data) => {
         const body = {...data}
         const leaseId = body.leaseId
 
         if (leaseOption === "new") {
-            body.lease = body.leases[0]
+            body.lease = {...body.leases[0], plannedSuccessor: plannedSuccessor}
         }
 
         delete body.leaseId
         delete body.leases
 
         createTenant({bodyData: body, leaseId: leaseId}).then((res) => {
-            if (res.error) console.log(res.error);
+            if (res.error?.data?.code === "LEASE_OVERLAP") setConflicts(res.error.data.conflicts);
+            else if (res.error) setServerErrors(tenantForm, res.error);
             else {
                 navigate("/tenants/" + res?.data?.data?.id)
             }
@@ -1002,6 +1009,11 @@ const TenantCreation = () => {
 
                         </div>
 
+                        {leaseOption === "new" &&
+                            <LeaseOverlapConflicts conflicts={conflicts} plannedSuccessor={plannedSuccessor}
+                                                   setPlannedSuccessor={setPlannedSuccessor}/>
+                        }
+
 
 
                     </CardContent>
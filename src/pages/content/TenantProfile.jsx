@@ -19,6 +19,8 @@ import {useState} from "react";
 import {Alert, AlertDescription, AlertTitle} from "../../components/ui/alert.tsx";
 import {AiFillWarning} from "react-icons/ai";
 import MaintenanceTable from "../../components/maintenance/MaintenanceTable.tsx";
+import {useInviteTenantMutation} from "../../services/api/tenantApi.js";
+import TenantStatement from "../../components/tenants/TenantStatement.js";
 
 
 const TenantProfile = (props) => {
@@ -35,6 +37,8 @@ const TenantProfile = (props) => {
 
     const [showLeaseModal, setShowLeaseModal] = useState(false);
 
+    const [inviteTenant, {isLoading: isInviting}] = useInviteTenantMutation();
+
 
     const displayTenantInformation = () => {
         const information = []
@@ -130,16 +134,27 @@ const TenantProfile = (props) => {
                     <div className="w-[3px] h-32 bg-secondary hidden lg:flex "/>
 
                     <div className="flex flex-col gap-2 ">
-                        <div className="text-center text-muted-foreground">
-                            This tenant has not created an account yet.
-                            <Button variant="link" className="pl-2 text-primary">
-                                Send Invite
-                            </Button>
-                        </div>
-                        <Button variant="outline"  title="User not registered.">
+                        {tenant?.userId ? (
+                            <div className="text-center text-muted-foreground">
+                                This tenant has created an account.
+                            </div>
+                        ) : (
+                            <div className="text-center text-muted-foreground">
+                                This tenant has not created an account yet.
+                                <Button variant="link" className="pl-2 text-primary" isLoading={isInviting}
+                                        disabled={!tenant?.email}
+                                        title={tenant?.email ? "Send an invitation by email." : "Tenant has no email address."}
+                                        onClick={() => inviteTenant(tenant?.id)}
+                                >
+                                    Send Invite
+                                </Button>
+                            </div>
+                        )}
+                        <Button variant="outline"  title={tenant?.userId ? undefined : "User not registered."}>
                             <SendIcon className="w-4 h-4 mr-2" />
                             Message
                         </Button>
+                        <TenantStatement tenant={tenant} />
                     </div>
 
 
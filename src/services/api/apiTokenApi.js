@@ -0,0 +1,82 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Personal API tokens of the logged in realtor
+export const apiTokenApi = authApi.injectEndpoints({
+    reducerPath: 'apiTokenApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getApiTokens: build.query({
+            query: () => ({
+                url: '/api-tokens',
+                method: 'GET',
+            }),
+            providesTags: ['ApiTokens'],
+        }),
+        createApiToken: build.mutation({
+            query: (body) => ({
+                url: '/api-tokens',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Creating Token...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "API token created successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch(() => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['ApiTokens']
+        }),
+        revokeApiToken: build.mutation({
+            query: (id) => ({
+                url: `/api-tokens/${id}`,
+                method: 'DELETE',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Revoking Token...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "API token revoked successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch(() => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['ApiTokens']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetApiTokensQuery,
+    useCreateApiTokenMutation,
+    useRevokeApiTokenMutation,
+} = apiTokenApi;
@@ -18,6 +18,10 @@ export const authApi = createApi({
             async onQueryStarted(arg, { dispatch, queryFulfilled }) {
                 queryFulfilled
                     .then((data) => {
+                        // The second step of two-factor authentication finishes the login
+                        if (data.data.twoFactorRequired) {
+                            return data;
+                        }
                         if (data.data.accessToken) {
                             dispatch(setAccessToken(data?.data.accessToken));
                             localStorage.setItem('refreshToken', data.data.refreshToken)
@@ -32,7 +36,35 @@ export const authApi = createApi({
                     .catch((error) => {
                         toast({
                             title: "Uh oh! Something went wrong.",
-                            description: "There was a problem with your login",
+                            description: error?.error?.data?.message || "There was a problem with your login",
+                            variant: "error",
+                        });
+                    })
+            }
+        }),
+        loginTwoFactor: build.mutation({
+            query: (body) => ({
+                url: '/login/two-factor',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { dispatch, queryFulfilled }) {
+                queryFulfilled
+                    .then((data) => {
+                        dispatch(setAccessToken(data.data.accessToken));
+                        localStorage.setItem('refreshToken', data.data.refreshToken)
+                        toast({
+                            title: "Success",
+                            description: data.data.recoveryCodesLeft !== undefined ?
+                                `Logged in with a recovery code, ${data.data.recoveryCodesLeft} codes left` :
+                                "Logged in successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your login",
                             variant: "error",
                         });
                     })
@@ -44,6 +76,17 @@ export const authApi = createApi({
                 method: 'POST',
                 body: credentials,
             }),
+            // Signups are limited per IP address, the server tells when the next one is accepted
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your sign up",
+                            variant: "error",
+                        });
+                    })
+            },
             /*
             async onQueryStarted(arg, { dispatch, queryFulfilled }) {
                 const { data } = await queryFulfilled;
@@ -53,10 +96,122 @@ export const authApi = createApi({
              */
 
         }),
+        getInvitation: build.query({
+            query: (token) => ({
+                url: `/invitations/${token}`,
+                method: 'GET',
+            }),
+        }),
+        acceptInvitation: build.mutation({
+            query: ({token, bodyData}) => ({
+                url: `/invitations/${token}/accept`,
+                method: 'POST',
+                body: bodyData,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Account created successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request",
+                            variant: "error",
+                        });
+                    })
+            }
+        }),
+        requestPasswordReset: build.mutation({
+            query: (body) => ({
+                url: '/password-reset',
+                method: 'POST',
+                body,
+            }),
+        }),
+        resetPassword: build.mutation({
+            query: ({token, bodyData}) => ({
+                url: `/password-reset/${token}`,
+                method: 'POST',
+                body: bodyData,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Password updated, you can now log in",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request",
+                            variant: "error",
+                        });
+                    })
+            }
+        }),
+        confirmEmailChange: build.mutation({
+            query: (token) => ({
+                url: `/email-change/${token}`,
+                method: 'POST',
+            }),
+            invalidatesTags: ['User'],
+        }),
         logout: build.mutation({
             query: () => ({
                 url: '/logout',
                 method: 'POST',
+                body: {
+                    refreshToken: localStorage.getItem('refreshToken'),
+                }
+            }),
+        }),
+        getSessions: build.query({
+            query: () => ({
+                url: '/sessions',
+                method: 'GET',
+            }),
+            providesTags: ['Sessions'],
+        }),
+        deleteSession: build.mutation({
+            query: (id) => ({
+                url: `/sessions/${id}`,
+                method: 'DELETE',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Signing Out Device...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "The device has been signed out",
+                            variant: "success",
+                        });
+                    })
+                    .catch(() => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Sessions'],
+        }),
+        deleteAllSessions: build.mutation({
+            query: () => ({
+                url: '/sessions',
+                method: 'DELETE',
             }),
         }),
         refresh: build.mutation({
@@ -74,15 +229,24 @@ export const authApi = createApi({
             }
         }),
     }),
-    tagTypes: ['User', 'Properties', 'Units', 'Tenants', 'Leases', "Payments", "Expenses"]
+    tagTypes: ['User', 'Properties', 'Units', 'Tenants', 'Leases', "Payments", "Expenses", "Maintenance", "Sessions", "ApiTokens", "Organization", "TwoFactor", "RenewalOffers", "Ledger", "BankTransactions"]
 })
 
 export const {
     useLoginMutation,
+    useLoginTwoFactorMutation,
     useRegisterMutation,
+    useGetInvitationQuery,
+    useAcceptInvitationMutation,
+    useRequestPasswordResetMutation,
+    useResetPasswordMutation,
+    useConfirmEmailChangeMutation,
     useRefreshMutation,
     useLazyRefreshQuery,
     useLogoutMutation,
+    useGetSessionsQuery,
+    useDeleteSessionMutation,
+    useDeleteAllSessionsMutation,
     useUsersQuery,
     usePrefetch,
 } = authApi;
\ No newline at end of file
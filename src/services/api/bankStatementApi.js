@@ -0,0 +1,114 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Bank statements and the reconciliation of their credits with the rent. Confirmed credits become payments, so the
+// payments, leases and the ledger are refetched
+export const bankStatementApi = authApi.injectEndpoints({
+    reducerPath: 'bankStatementApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getBankTransactions: build.query({
+            query: (params) => ({
+                url: '/bank-transactions',
+                method: 'GET',
+                params,
+            }),
+            providesTags: ['BankTransactions']
+        }),
+        importBankStatement: build.mutation({
+            query: (body) => ({
+                url: '/bank-statements',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Importing Statement...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(({data}) => {
+                        toast({
+                            title: "Success",
+                            description: data?.message || "Statement imported successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['BankTransactions']
+        }),
+        confirmBankTransaction: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/bank-transactions/${id}/confirm`,
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Recording Payment...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Payment recorded successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['BankTransactions', 'Payments', 'Leases', 'Ledger']
+        }),
+        ignoreBankTransaction: build.mutation({
+            query: (id) => ({
+                url: `/bank-transactions/${id}/ignore`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Ignoring Transaction...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Transaction ignored",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['BankTransactions']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetBankTransactionsQuery,
+    useImportBankStatementMutation,
+    useConfirmBankTransactionMutation,
+    useIgnoreBankTransactionMutation,
+} = bankStatementApi;
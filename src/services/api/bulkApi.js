@@ -28,10 +28,10 @@ export const bulkApi = authApi.injectEndpoints({
                             variant: "success",
                         });
                     })
-                    .catch(() => {
+                    .catch((error) => {
                         toast({
                             title: "Uh oh! Something went wrong.",
-                            description: "There was a problem with your request.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
                             variant: "error",
                         });
                     })
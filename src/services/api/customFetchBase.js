@@ -17,11 +17,32 @@ const baseQuery = fetchBaseQuery({
         if (accessToken) {
             headers.set('Authorization', `Bearer ${accessToken}`);
         }
+        // Organization the realtor currently works in, the server falls back to the user's own organization
+        const organizationId = localStorage.getItem('organizationId');
+        if (organizationId) {
+            headers.set('X-Organization-Id', organizationId);
+        }
         return headers;
     },
 })
 
+// Refresh tokens can only be used once, so refreshing must never run in parallel and always has to use the latest token
+const refreshTokens = async (api, extraOptions) => {
+    const refreshResult = await baseQuery({url: '/refresh', method: "POST", body: {
+        refreshToken: localStorage.getItem('refreshToken'),}}, api, extraOptions);
+
+    if (refreshResult.data) {
+        localStorage.setItem('refreshToken', refreshResult.data.refreshToken);
+    }
+
+    return refreshResult;
+}
+
 const customFetchBase = async (args, api, extraOptions) => {
+    if (args?.url === '/refresh') {
+        return mutex.runExclusive(() => refreshTokens(api, extraOptions));
+    }
+
     await mutex.waitForUnlock();
     let result = await baseQuery(args, api, extraOptions);
 
@@ -29,13 +50,10 @@ const customFetchBase = async (args, api, extraOptions) => {
         if(!mutex.isLocked()){
             const release = await mutex.acquire();
             try {
-                const refreshResult = await baseQuery({url: '/refresh', method: "POST", body: {
-                    refreshToken: localStorage.getItem('refreshToken'),}}, api, extraOptions);
+                const refreshResult = await refreshTokens(api, extraOptions);
 
                 if (refreshResult.data) {
-                    const { accessToken, refreshToken } = refreshResult.data;
-                    localStorage.setItem('refreshToken', refreshToken);
-                    api.dispatch(setAccessToken(accessToken));
+                    api.dispatch(setAccessToken(refreshResult.data.accessToken));
 
                     // Retry the initial request
                     result = await baseQuery(args, api, extraOptions);
@@ -56,6 +74,11 @@ const customFetchBase = async (args, api, extraOptions) => {
         }
     }
 
+    // Organizations can require two-factor authentication, it is set up in the settings
+    if (result.error?.data?.code === 'TWO_FACTOR_REQUIRED' && window.location.pathname !== '/settings') {
+        window.location.href = '/settings';
+    }
+
     return result;
 }
 
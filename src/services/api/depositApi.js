@@ -0,0 +1,134 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Security deposits of leases, they are returned together with the leases
+export const depositApi = authApi.injectEndpoints({
+    reducerPath: 'depositApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        createDeposit: build.mutation({
+            query: (body) => ({
+                url: '/deposits',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Adding Deposit...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Deposit added successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases']
+        }),
+        updateDeposit: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/deposits/${id}`,
+                method: 'PATCH',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Updating Deposit...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Deposit updated successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases']
+        }),
+        deleteDeposit: build.mutation({
+            query: (id) => ({
+                url: `/deposits/${id}`,
+                method: 'DELETE',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Deleting Deposit...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Deposit deleted successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases']
+        }),
+        settleDeposit: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/deposits/${id}/settlement`,
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Settling Deposit...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Deposit settled, the statement has been created",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useCreateDepositMutation,
+    useUpdateDepositMutation,
+    useDeleteDepositMutation,
+    useSettleDepositMutation,
+} = depositApi;
@@ -0,0 +1,48 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Files of documents, they need the access token so they are downloaded through the API instead of a plain link
+export const documentApi = authApi.injectEndpoints({
+    reducerPath: 'documentApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        downloadDocument: build.mutation({
+            query: (document) => ({
+                url: `/documents/${document.id}/file`,
+                method: 'GET',
+                // The file is saved right away, only its name ends up in the store
+                responseHandler: async (response) => {
+                    if (!response.ok) {
+                        return response.json();
+                    }
+
+                    const url = URL.createObjectURL(await response.blob());
+                    const link = window.document.createElement("a");
+                    link.href = url;
+                    link.download = document.name ?? `document-${document.id}`;
+                    link.click();
+                    URL.revokeObjectURL(url);
+
+                    return link.download;
+                },
+                cache: "no-cache",
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "The document could not be downloaded.",
+                            variant: "error",
+                        });
+                    })
+            },
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useDownloadDocumentMutation,
+} = documentApi;
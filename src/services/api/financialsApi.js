@@ -85,6 +85,64 @@ export const financialsApi = authApi.injectEndpoints({
             },
             invalidatesTags: ['Payments']
         }),
+        approvePayment: build.mutation({
+            query: ({id, body}) => ({
+                url: `/payments/${id}/approve`,
+                method: 'POST',
+                body
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Approving Payment...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Payment approved, the tenant has been notified.",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Payments', 'Leases']
+        }),
+        rejectPayment: build.mutation({
+            query: ({id, body}) => ({
+                url: `/payments/${id}/reject`,
+                method: 'POST',
+                body
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Rejecting Payment...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Payment rejected, the tenant has been notified.",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Payments', 'Leases']
+        }),
         deletePayment: build.mutation({
             query: (id) => ({
                 url: `/payments/${id}`,
@@ -239,6 +297,6 @@ export const financialsApi = authApi.injectEndpoints({
     overrideExisting: false,
 })
 
-export const {useGetPaymentSchedule, useGetPaymentsQuery,useDeleteExpenseMutation, useGetExpensesQuery, useCreateExpenseMutation, useDeletePaymentScheduleMutation, useUpdatePaymentScheduleMutation, useCreatePaymentMutation, useUpdatePaymentMutation, useDeletePaymentMutation} = financialsApi;
+export const {useGetPaymentSchedule, useGetPaymentsQuery,useDeleteExpenseMutation, useGetExpensesQuery, useCreateExpenseMutation, useDeletePaymentScheduleMutation, useUpdatePaymentScheduleMutation, useCreatePaymentMutation, useUpdatePaymentMutation, useDeletePaymentMutation, useApprovePaymentMutation, useRejectPaymentMutation} = financialsApi;
 
 
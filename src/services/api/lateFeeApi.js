@@ -0,0 +1,133 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Late fee policies of leases and properties, they are returned together with the lease or property
+export const lateFeeApi = authApi.injectEndpoints({
+    reducerPath: 'lateFeeApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        updateLeaseLateFeePolicy: build.mutation({
+            query: ({leaseId, ...body}) => ({
+                url: `/leases/${leaseId}/late-fee-policy`,
+                method: 'PUT',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Saving Late Fee Policy...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Late fee policy saved successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases']
+        }),
+        deleteLeaseLateFeePolicy: build.mutation({
+            query: (leaseId) => ({
+                url: `/leases/${leaseId}/late-fee-policy`,
+                method: 'DELETE',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Removing Late Fee Policy...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Late fee policy removed successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases']
+        }),
+        updatePropertyLateFeePolicy: build.mutation({
+            query: ({propertyId, ...body}) => ({
+                url: `/properties/${propertyId}/late-fee-policy`,
+                method: 'PUT',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Saving Late Fee Policy...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Late fee policy saved successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: (result, error, {propertyId}) => [{type: 'Properties', id: propertyId}]
+        }),
+        deletePropertyLateFeePolicy: build.mutation({
+            query: (propertyId) => ({
+                url: `/properties/${propertyId}/late-fee-policy`,
+                method: 'DELETE',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Removing Late Fee Policy...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Late fee policy removed successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: (result, error, propertyId) => [{type: 'Properties', id: propertyId}]
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useUpdateLeaseLateFeePolicyMutation,
+    useDeleteLeaseLateFeePolicyMutation,
+    useUpdatePropertyLateFeePolicyMutation,
+    useDeletePropertyLateFeePolicyMutation,
+} = lateFeeApi;
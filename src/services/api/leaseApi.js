@@ -57,7 +57,15 @@ export const leaseApi = authApi.injectEndpoints({
                             variant: "success",
                         });
                     })
-                    .catch(() => {
+                    .catch((error) => {
+                        if (error?.error?.data?.code === "LEASE_OVERLAP") {
+                            toast({
+                                title: "Lease overlaps",
+                                description: "The unit is already leased during these dates.",
+                                variant: "error",
+                            });
+                            return;
+                        }
                         toast({
                             title: "Uh oh! Something went wrong.",
                             description: "There was a problem with your request.",
@@ -90,7 +98,23 @@ export const leaseApi = authApi.injectEndpoints({
                             variant: "success",
                         });
                     })
-                    .catch(() => {
+                    .catch((error) => {
+                        // The changes of the payment schedule are shown for confirmation, nothing went wrong
+                        if (error?.error?.data?.code === "SCHEDULE_CHANGES") {
+                            toast({
+                                title: "Please confirm",
+                                description: "The new terms change the payment schedule.",
+                            });
+                            return;
+                        }
+                        if (error?.error?.data?.code === "LEASE_OVERLAP") {
+                            toast({
+                                title: "Lease overlaps",
+                                description: "The unit is already leased during these dates.",
+                                variant: "error",
+                            });
+                            return;
+                        }
                         toast({
                             title: "Uh oh! Something went wrong.",
                             description: "There was a problem with your request.",
@@ -100,6 +124,72 @@ export const leaseApi = authApi.injectEndpoints({
             },
             invalidatesTags: ['Leases']
         }),
+        updateLeaseParties: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/leases/${id}/parties`,
+                method: 'PUT',
+                body
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Updating Parties...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Parties of the lease updated successfully.",
+                            variant: "success",
+                        });
+                    })
+                    .catch(() => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases', 'Units', 'Tenants']
+        }),
+        // Calculates the termination without changing the lease
+        previewLeaseTermination: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/leases/${id}/termination/preview`,
+                method: 'POST',
+                body
+            }),
+        }),
+        terminateLease: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/leases/${id}/termination`,
+                method: 'POST',
+                body
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Terminating Lease...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Lease terminated, the termination notice has been created.",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Leases', 'Units', 'Tenants']
+        }),
         deleteLease: build.mutation({
             query: (id) => ({
                 url: `/leases/${id}`,
@@ -132,6 +222,6 @@ export const leaseApi = authApi.injectEndpoints({
     overrideExisting: false,
 })
 
-export const {useGetLeasesQuery, useGetLeaseQuery, useUpdateLeaseMutation, useDeleteLeaseMutation, useCreateLeaseMutation} = leaseApi;
+export const {useGetLeasesQuery, useGetLeaseQuery, useUpdateLeaseMutation, useDeleteLeaseMutation, useCreateLeaseMutation, useUpdateLeasePartiesMutation, usePreviewLeaseTerminationMutation, useTerminateLeaseMutation} = leaseApi;
 
 
@@ -0,0 +1,104 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Ledger of the realtor. It follows the payments, charges, deposits and expenses, so its queries are refetched
+// whenever one of them changes
+const LEDGER_SOURCE_TAGS = ['Ledger', 'Payments', 'Leases', 'Expenses'];
+
+export const ledgerApi = authApi.injectEndpoints({
+    reducerPath: 'ledgerApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getLedgerReport: build.query({
+            query: (params) => ({
+                url: '/ledger/report',
+                method: 'GET',
+                params,
+            }),
+            providesTags: LEDGER_SOURCE_TAGS
+        }),
+        getLedgerTransactions: build.query({
+            query: (params) => ({
+                url: '/ledger/transactions',
+                method: 'GET',
+                params,
+            }),
+            providesTags: LEDGER_SOURCE_TAGS
+        }),
+        getLeaseBalances: build.query({
+            query: (params) => ({
+                url: '/ledger/leases',
+                method: 'GET',
+                params,
+            }),
+            providesTags: LEDGER_SOURCE_TAGS
+        }),
+        createLedgerTransaction: build.mutation({
+            query: (body) => ({
+                url: '/ledger/transactions',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Posting Transaction...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Transaction posted successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Ledger']
+        }),
+        reverseLedgerTransaction: build.mutation({
+            query: (id) => ({
+                url: `/ledger/transactions/${id}/reversal`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Reversing Transaction...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Transaction reversed successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Ledger']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetLedgerReportQuery,
+    useGetLedgerTransactionsQuery,
+    useGetLeaseBalancesQuery,
+    useCreateLedgerTransactionMutation,
+    useReverseLedgerTransactionMutation,
+} = ledgerApi;
@@ -0,0 +1,182 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Organizations (workspaces) of the logged in user, all other endpoints work in the organization set by customFetchBase
+export const organizationApi = authApi.injectEndpoints({
+    reducerPath: 'organizationApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getOrganizations: build.query({
+            query: () => ({
+                url: '/organizations',
+                method: 'GET',
+            }),
+            providesTags: ['Organization'],
+        }),
+        getOrganization: build.query({
+            query: () => ({
+                url: '/organization',
+                method: 'GET',
+            }),
+            providesTags: ['Organization'],
+        }),
+        updateOrganization: build.mutation({
+            query: (body) => ({
+                url: '/organization',
+                method: 'PATCH',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Updating Organization...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Organization updated successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Organization']
+        }),
+        inviteMember: build.mutation({
+            query: (body) => ({
+                url: '/organization/members',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Sending Invitation...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: `Invitation sent to ${arg.email}`,
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Organization']
+        }),
+        updateMember: build.mutation({
+            query: ({id, bodyData}) => ({
+                url: `/organization/members/${id}`,
+                method: 'PATCH',
+                body: bodyData,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Updating Member...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Member updated successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Organization']
+        }),
+        removeMember: build.mutation({
+            query: (id) => ({
+                url: `/organization/members/${id}`,
+                method: 'DELETE',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Removing Member...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Member removed successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Organization']
+        }),
+        getMemberInvitation: build.query({
+            query: (token) => ({
+                url: `/organization-invitations/${token}`,
+                method: 'GET',
+            }),
+        }),
+        acceptMemberInvitation: build.mutation({
+            query: ({token, bodyData}) => ({
+                url: `/organization-invitations/${token}/accept`,
+                method: 'POST',
+                body: bodyData,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .then(({data}) => {
+                        toast({
+                            title: "Success",
+                            description: data?.message || "Invitation accepted",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request",
+                            variant: "error",
+                        });
+                    })
+            }
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetOrganizationsQuery,
+    useGetOrganizationQuery,
+    useUpdateOrganizationMutation,
+    useInviteMemberMutation,
+    useUpdateMemberMutation,
+    useRemoveMemberMutation,
+    useGetMemberInvitationQuery,
+    useAcceptMemberInvitationMutation,
+} = organizationApi;
@@ -0,0 +1,165 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Endpoints for users with the TENANT role, the server only returns data of the logged in tenant
+export const portalApi = authApi.injectEndpoints({
+    reducerPath: 'portalApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getPortalLeases: build.query({
+            query: () => ({
+                url: '/portal/leases',
+                method: 'GET',
+            }),
+            providesTags: ['Leases'],
+        }),
+        getPortalPayments: build.query({
+            query: () => ({
+                url: '/portal/payments',
+                method: 'GET',
+            }),
+            providesTags: ['Payments'],
+        }),
+        reportPortalPayment: build.mutation({
+            query: (body) => ({
+                url: '/portal/payments',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Reporting Payment...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Payment reported, your realtor will review it shortly.",
+                            variant: "success",
+                        });
+                    })
+                    .catch(() => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Payments', 'Leases']
+        }),
+        getPortalMaintenanceRequests: build.query({
+            query: () => ({
+                url: '/portal/maintenance',
+                method: 'GET',
+            }),
+            providesTags: ['Maintenance'],
+        }),
+        createPortalMaintenanceRequest: build.mutation({
+            query: (body) => ({
+                url: '/portal/maintenance',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Submitting Request...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Maintenance request submitted successfully.",
+                            variant: "success",
+                        });
+                    })
+                    .catch(() => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['Maintenance']
+        }),
+        getPortalRenewalOffers: build.query({
+            query: () => ({
+                url: '/portal/renewal-offers',
+                method: 'GET',
+            }),
+            providesTags: ['RenewalOffers'],
+        }),
+        acceptPortalRenewalOffer: build.mutation({
+            query: (id) => ({
+                url: `/portal/renewal-offers/${id}/accept`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Accepting Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Offer accepted, your new lease has been created.",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers', 'Leases']
+        }),
+        declinePortalRenewalOffer: build.mutation({
+            query: (id) => ({
+                url: `/portal/renewal-offers/${id}/decline`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Declining Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Offer declined, your realtor has been informed.",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetPortalLeasesQuery,
+    useGetPortalPaymentsQuery,
+    useReportPortalPaymentMutation,
+    useGetPortalMaintenanceRequestsQuery,
+    useCreatePortalMaintenanceRequestMutation,
+    useGetPortalRenewalOffersQuery,
+    useAcceptPortalRenewalOfferMutation,
+    useDeclinePortalRenewalOfferMutation,
+} = portalApi;
@@ -0,0 +1,21 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+
+// Price indexes rents can escalate along, they are maintained for all organizations and only read by the client
+export const priceIndexApi = authApi.injectEndpoints({
+    reducerPath: 'priceIndexApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getPriceIndexes: build.query({
+            query: () => ({
+                url: '/price-indexes',
+                method: 'GET',
+            }),
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetPriceIndexesQuery,
+} = priceIndexApi;
@@ -50,7 +50,7 @@ export const propertyApi = authApi.injectEndpoints({
                 url: `/properties/${id}`,
                 method: 'GET',
             }),
-            //providesTags: ['Properties'],
+            providesTags: (result) => [{type: 'Properties', id: result?.data?.id}],
         }),
         deleteProperty: build.mutation({
             query: (id) => ({
@@ -0,0 +1,170 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Renewal offers of leases that are about to end, see server/controllers/renewalController.js
+export const renewalApi = authApi.injectEndpoints({
+    reducerPath: 'renewalApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getRenewalOffers: build.query({
+            query: () => ({
+                url: '/renewal-offers',
+                method: 'GET',
+            }),
+            providesTags: ['RenewalOffers'],
+        }),
+        createRenewalOffer: build.mutation({
+            query: ({leaseId, ...body}) => ({
+                url: `/leases/${leaseId}/renewal-offers`,
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Creating Renewal Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Renewal offer created successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers']
+        }),
+        updateRenewalOffer: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/renewal-offers/${id}`,
+                method: 'PATCH',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Updating Renewal Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Renewal offer updated successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers']
+        }),
+        sendRenewalOffer: build.mutation({
+            query: (id) => ({
+                url: `/renewal-offers/${id}/send`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Sending Renewal Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Renewal offer sent to the tenant",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers']
+        }),
+        acceptRenewalOffer: build.mutation({
+            query: (id) => ({
+                url: `/renewal-offers/${id}/accept`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Accepting Renewal Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Renewal offer accepted, the new lease has been created",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers', 'Leases', 'Units']
+        }),
+        declineRenewalOffer: build.mutation({
+            query: (id) => ({
+                url: `/renewal-offers/${id}/decline`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Declining Renewal Offer...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Renewal offer declined",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['RenewalOffers']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetRenewalOffersQuery,
+    useCreateRenewalOfferMutation,
+    useUpdateRenewalOfferMutation,
+    useSendRenewalOfferMutation,
+    useAcceptRenewalOfferMutation,
+    useDeclineRenewalOfferMutation,
+} = renewalApi;
@@ -0,0 +1,128 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Rent receipts and account statements as PDF. Downloads need the access token, so they go through the API like
+// document files. Saved ones become documents of the lease
+
+// Saves the PDF right away under the name the server gave it, only the name ends up in the store
+const savePdf = (fallbackName) => async (response) => {
+    if (!response.ok) {
+        return response.json();
+    }
+
+    const fileName = response.headers.get("Content-Disposition")?.match(/filename="?([^";]+)"?/)?.[1] ?? fallbackName;
+    const url = URL.createObjectURL(await response.blob());
+    const link = window.document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    return fileName;
+}
+
+const notifyDownloadError = async (arg, { queryFulfilled }) => {
+    queryFulfilled
+        .catch((error) => {
+            toast({
+                title: "Uh oh! Something went wrong.",
+                description: error?.error?.data?.message || "The PDF could not be created.",
+                variant: "error",
+            });
+        })
+}
+
+const notifySaving = async (arg, { queryFulfilled }) => {
+    toast({
+        title: "Saving Document...",
+        variant: "loading",
+    })
+    queryFulfilled
+        .then(({data}) => {
+            toast({
+                title: "Success",
+                description: data?.message || "Document saved successfully",
+                variant: "success",
+            });
+        })
+        .catch((error) => {
+            toast({
+                title: "Uh oh! Something went wrong.",
+                description: error?.error?.data?.message || "There was a problem with your request.",
+                variant: "error",
+            });
+        })
+}
+
+export const statementApi = authApi.injectEndpoints({
+    reducerPath: 'statementApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        downloadPaymentReceipt: build.mutation({
+            query: ({id, portal = false}) => ({
+                url: portal ? `/portal/payments/${id}/receipt` : `/payments/${id}/receipt`,
+                method: 'GET',
+                responseHandler: savePdf(`rent-receipt-${id}.pdf`),
+                cache: "no-cache",
+            }),
+            onQueryStarted: notifyDownloadError,
+        }),
+        savePaymentReceipt: build.mutation({
+            query: (id) => ({
+                url: `/payments/${id}/receipt`,
+                method: 'POST',
+            }),
+            onQueryStarted: notifySaving,
+            invalidatesTags: ['Leases']
+        }),
+        downloadLeaseStatement: build.mutation({
+            query: ({id, ...params}) => ({
+                url: `/leases/${id}/statement`,
+                method: 'GET',
+                params,
+                responseHandler: savePdf(`statement-lease-${id}.pdf`),
+                cache: "no-cache",
+            }),
+            onQueryStarted: notifyDownloadError,
+        }),
+        saveLeaseStatement: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/leases/${id}/statement`,
+                method: 'POST',
+                body,
+            }),
+            onQueryStarted: notifySaving,
+            invalidatesTags: ['Leases']
+        }),
+        downloadTenantStatement: build.mutation({
+            query: ({id, ...params}) => ({
+                url: `/tenants/${id}/statement`,
+                method: 'GET',
+                params,
+                responseHandler: savePdf(`statement-tenant-${id}.pdf`),
+                cache: "no-cache",
+            }),
+            onQueryStarted: notifyDownloadError,
+        }),
+        saveTenantStatement: build.mutation({
+            query: ({id, ...body}) => ({
+                url: `/tenants/${id}/statement`,
+                method: 'POST',
+                body,
+            }),
+            onQueryStarted: notifySaving,
+            invalidatesTags: ['Leases']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useDownloadPaymentReceiptMutation,
+    useSavePaymentReceiptMutation,
+    useDownloadLeaseStatementMutation,
+    useSaveLeaseStatementMutation,
+    useDownloadTenantStatementMutation,
+    useSaveTenantStatementMutation,
+} = statementApi;
@@ -112,9 +112,36 @@ export const tenantApi = authApi.injectEndpoints({
             },
             invalidatesTags: ['Tenants']
         }),
+        inviteTenant: build.mutation({
+            query: (id) => ({
+                url: `/tenants/${id}/invite`,
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Sending Invitation...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Invitation sent successfully",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request, please try again.",
+                            variant: "error",
+                        });
+                    })
+            },
+        }),
     }),
     overrideExisting: false,
 })
 
 
-export const {useGetTenantsQuery, useGetTenantQuery, useUpdateTenantMutation, useCreateTenantMutation, useDeleteTenantMutation} = tenantApi;
\ No newline at end of file
+export const {useGetTenantsQuery, useGetTenantQuery, useUpdateTenantMutation, useCreateTenantMutation, useDeleteTenantMutation, useInviteTenantMutation} = tenantApi;
\ No newline at end of file
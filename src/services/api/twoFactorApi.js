@@ -0,0 +1,126 @@
+import customFetchBase from "./customFetchBase.js";
+import {authApi} from "./authApi.js";
+import {toast} from "../../components/ui/use-toast.tsx";
+
+// Two-factor authentication of the logged in user
+export const twoFactorApi = authApi.injectEndpoints({
+    reducerPath: 'twoFactorApi',
+    baseQuery: customFetchBase,
+    endpoints: (build) => ({
+        getTwoFactor: build.query({
+            query: () => ({
+                url: '/user/two-factor',
+                method: 'GET',
+            }),
+            providesTags: ['TwoFactor'],
+        }),
+        setupTwoFactor: build.mutation({
+            query: () => ({
+                url: '/user/two-factor/setup',
+                method: 'POST',
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+        }),
+        enableTwoFactor: build.mutation({
+            query: (body) => ({
+                url: '/user/two-factor/enable',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Enabling Two-Factor Authentication...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Two-factor authentication enabled, other devices have been signed out",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['TwoFactor', 'Sessions', 'Organization']
+        }),
+        regenerateRecoveryCodes: build.mutation({
+            query: (body) => ({
+                url: '/user/two-factor/recovery-codes',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "New recovery codes generated",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['TwoFactor']
+        }),
+        disableTwoFactor: build.mutation({
+            query: (body) => ({
+                url: '/user/two-factor',
+                method: 'DELETE',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Disabling Two-Factor Authentication...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "Two-factor authentication disabled",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    })
+            },
+            invalidatesTags: ['TwoFactor', 'Organization']
+        }),
+    }),
+    overrideExisting: false,
+})
+
+export const {
+    useGetTwoFactorQuery,
+    useSetupTwoFactorMutation,
+    useEnableTwoFactorMutation,
+    useRegenerateRecoveryCodesMutation,
+    useDisableTwoFactorMutation,
+} = twoFactorApi;
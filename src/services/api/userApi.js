@@ -53,6 +53,35 @@ export const userApi = authApi.injectEndpoints({
             invalidatesTags: ['User'],
         }),
 
+        requestEmailChange: build.mutation({
+            query: (body) => ({
+                url: '/user/email-change',
+                method: 'POST',
+                body,
+            }),
+            async onQueryStarted(arg, { queryFulfilled }) {
+                toast({
+                    title: "Requesting Email Change...",
+                    variant: "loading",
+                })
+                queryFulfilled
+                    .then(() => {
+                        toast({
+                            title: "Success",
+                            description: "We sent a confirmation link to your new email address",
+                            variant: "success",
+                        });
+                    })
+                    .catch((error) => {
+                        toast({
+                            title: "Uh oh! Something went wrong.",
+                            description: error?.error?.data?.message || "There was a problem with your request.",
+                            variant: "error",
+                        });
+                    });
+            },
+        }),
+
         deleteUser: build.mutation({
             query: () => ({
                 url: '/user',
@@ -72,4 +101,5 @@ export const userApi = authApi.injectEndpoints({
 export const {useGetUserQuery,
     useUpdateUserMutation,
     useDeleteUserMutation,
+    useRequestEmailChangeMutation,
 } = userApi;
@@ -3,6 +3,7 @@ import {logout} from "./authSlice.js";
 export function logoutUser() {
     logout();
     localStorage.removeItem('refreshToken')
+    localStorage.removeItem('organizationId')
 
     // If user not already on login page, redirect to login page
     if (window.location.pathname !== '/login') {
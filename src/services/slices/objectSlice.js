@@ -528,7 +528,8 @@ export const selectTenantsByLeaseId = (state, leaseId) => {
 export const selectLeasesByTenantId = createSelector(
     [selectAllLeases, (_, tenantId) => tenantId],
     (leases, tenantId) => {
-        return leases.filter(lease => lease.tenantId === tenantId)
+        // Leases the tenant is a party of (co-tenant, guarantor, ...), not only the ones they are the primary tenant of
+        return leases.filter(lease => lease.tenantId === tenantId || lease.parties?.some(party => party.tenantId === tenantId))
     }
 )
 
@@ -575,11 +576,12 @@ export const selectLeaseByTenantId = (state, tenantId) => {
     return leases[0];
 }
 
+// The active lease of the unit, leases of a unit do not overlap (planned successors are PENDING until they start)
 export const selectLeaseByUnitId = (state, unitId) => {
     if (!unitId) return null;
     const leases = selectLeasesByUnitId(state, unitId);
     if (!leases || leases.length === 0) return null;
-    return leases[0];
+    return leases.find(lease => lease.status === "ACTIVE") ?? leases[0];
 }
 
 export const selectTenantByLeaseId = (state, leaseId) => {
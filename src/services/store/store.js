@@ -17,6 +17,24 @@ import { financialsApi } from "../api/financialsApi.js";
 import { messageApi } from "../api/messageApi.js";
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { maintenanceApi } from "../api/maintenanceApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { portalApi } from "../api/portalApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { apiTokenApi } from "../api/apiTokenApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { organizationApi } from "../api/organizationApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { twoFactorApi } from "../api/twoFactorApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { renewalApi } from "../api/renewalApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { depositApi } from "../api/depositApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { documentApi } from "../api/documentApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { lateFeeApi } from "../api/lateFeeApi.js";
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { priceIndexApi } from "../api/priceIndexApi.js";
 
 import {
     leasesReducer,
@@ -17,6 +17,31 @@ export class LeasePaymentSchedule {
     lease: Lease;
     leaseId: number;
     status:  string;
+    chargeType: string;
+    lateFeeForId: number | null;
+    lateFeeEntries: LateFeeEntry[];
+    allocations: PaymentAllocation[];
+}
+
+export class PaymentAllocation {
+    id: number;
+    createdAt: Date;
+    updatedAt: Date;
+    amount: number;
+    paymentId: number;
+    scheduleId: number;
+}
+
+export class LateFeeEntry {
+    id: number;
+    createdAt: Date;
+    amount: number;
+    totalAmount: number;
+    daysLate: number | null;
+    note: string | null;
+    chargeId: number;
+    policyId: number | null;
+    userId: number | null;
 }
 
 export class MaintenanceRequest {
@@ -63,6 +88,60 @@ export class Expense {
     maintenanceRequestId: number | null;
 }
 
+export class LedgerEntry {
+    id: number;
+    account: string;
+    debit: number;
+    credit: number;
+    transactionId: number;
+}
+
+export class LedgerTransaction {
+    id: number;
+    createdAt: Date;
+    date: Date;
+    description: string;
+    currency: CurrencyCode;
+    sourceType: string;
+    sourceId: number | null;
+    reversalOfId: number | null;
+    reversal: { id: number } | null;
+    entries: LedgerEntry[];
+    realtorId: number;
+    lease: Lease | null;
+    leaseId: number | null;
+    unit: Unit | null;
+    unitId: number | null;
+    userId: number | null;
+}
+
+export class BankTransactionMatch {
+    id: number;
+    amount: number;
+    score: number | null;
+    transactionId: number;
+    schedule: LeasePaymentSchedule;
+    scheduleId: number;
+}
+
+export class BankTransaction {
+    id: number;
+    createdAt: Date;
+    date: Date;
+    amount: number;
+    currency: CurrencyCode | null;
+    counterparty: string | null;
+    reference: string | null;
+    externalId: string | null;
+    status: string;
+    matches: BankTransactionMatch[];
+    payments: { id: number, amount: number, leaseId: number }[];
+    import: { id: number, fileName: string, createdAt: Date };
+    importId: number;
+    confirmedAt: Date | null;
+    confirmedById: number | null;
+}
+
 export class RentPayment {
     id: number;
     createdAt: Date;
@@ -79,9 +158,20 @@ export class RentPayment {
     submissionDate: Date | null;
     approvalDate: Date | null;
 
+    proofId: number | null;
+    proof: Document | null;
+    reviewedById: number | null;
+    reviewedBy: User | null;
+    reviewedAt: Date | null;
+    reviewNote: string | null;
+
     leaseId: number | null;
     tenantId: number | null;
 
+    // Rest of a paid payment that is credit of the tenant, null for payments from before allocations
+    unallocatedAmount: number | null;
+    allocations: PaymentAllocation[];
+
     // Assuming Lease and Tenant are defined elsewhere
     lease: Lease | null;
     tenant: Tenant | null;
@@ -147,24 +237,55 @@ export class Lease {
     endDate: Date | null;
     rentalPrice: number | null;
     paymentFrequency: string | null;
+    escalationType: string;
+    escalationValue: number | null;
+    priceIndexId: number | null;
     leaseLength: number | null;
     specialTerms: string | null;
     leaseTerms: string | null;
     currency: CurrencyCode | null;
-    totalRentDue: number | null;
-    rentPaid: number | null;
     status: string | null;
     paymentSchedule: LeasePaymentSchedule[];
     notes: string | null;
     documents: Document[];
     tenant: Tenant | null;
     tenantId: number | null;
+    parties: LeaseParty[];
+    termination: LeaseTermination | null;
     unit: Unit | null;
     unitId: number | null;
     realtor: Realtor;
     realtorId: number;
 }
 
+export class LeaseTermination {
+    id: number;
+    createdAt: Date;
+    effectiveDate: Date;
+    reason: string;
+    breakFeeType: string;
+    breakFeeValue: number | null;
+    breakFeeAmount: number;
+    finalRentAmount: number | null;
+    futureCharges: string;
+    leaseId: number;
+    notice: Document | null;
+    noticeId: number | null;
+    userId: number | null;
+}
+
+export class LeaseParty {
+    id: number;
+    createdAt: Date;
+    updatedAt: Date;
+    role: string;
+    share: number | null;
+    lease: Lease;
+    leaseId: number;
+    tenant: Tenant;
+    tenantId: number;
+}
+
 export class Tenant {
     id: number;
     createdAt: Date;
@@ -181,6 +302,7 @@ export class Tenant {
     email: string | null;
     phone: string | null;
     leases: Lease[];
+    leaseParties: LeaseParty[];
     maintenanceRequests: MaintenanceRequest[];
 }
 
@@ -1,4 +1,4 @@
-
+import {moneyParser} from "./formatters.js";
 
 export function getNextScheduledPayment(lease) {
     if (!lease?.paymentSchedule?.length) return null;
@@ -14,11 +14,15 @@ export function getNextScheduledPayment(lease) {
     return nextPayment;
 }
 
-export function getScheduledPaymentStatus (scheduledPayment, paymentAmount) {
-    if (!scheduledPayment || !scheduledPayment?.status) return null
+// Short description of a late fee policy, e.g. "$50.00 after 5 days, +$10.00 per day, max. $150.00"
+export function describeLateFeePolicy(policy) {
+    if (!policy) return null
 
-    if (scheduledPayment.amountDue - paymentAmount <= 0) return "PAID"
-    if (scheduledPayment.amountDue - paymentAmount > 0) return "PARTIALLY_PAID"
-    else return scheduledPayment.status;
+    const formatValue = (value) => policy.feeType === "PERCENTAGE" ? `${value}% of the rent` : moneyParser(value)
 
-}
\ No newline at end of file
+    return [
+        `${formatValue(policy.feeAmount)} after ${policy.graceDays} days`,
+        policy.dailyAmount ? `+${formatValue(policy.dailyAmount)} per day` : null,
+        policy.maxAmount ? `max. ${moneyParser(policy.maxAmount)}` : null,
+    ].filter(Boolean).join(", ")
+}
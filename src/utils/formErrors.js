@@ -0,0 +1,22 @@
+
+// Shows the field errors of a rejected request (see server/services/validationService.js) next to the fields of the form.
+// Paths of fields that are not part of the form are ignored, returns whether an error was set
+export function setServerErrors(form, error, pathPrefix = "") {
+    const errors = error?.data?.errors;
+
+    if (!Array.isArray(errors)) return false;
+
+    const fields = Object.keys(form.getValues());
+    let hasFieldError = false;
+
+    errors.forEach(({path, message}) => {
+        const fieldPath = path.startsWith(pathPrefix) ? path.slice(pathPrefix.length) : null;
+
+        if (!fieldPath || !fields.includes(fieldPath.split(".")[0])) return;
+
+        form.setError(fieldPath, {type: "server", message: message});
+        hasFieldError = true;
+    })
+
+    return hasFieldError;
+}
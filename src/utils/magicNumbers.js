@@ -84,6 +84,26 @@ export const PaymentFrequency = {
     "ANNUALLY": "Annually",
 }
 
+export const ProrationMethod = {
+    NONE: "None (full rent)",
+    ACTUAL_365: "Daily (actual/365)",
+    THIRTY_DAY: "Daily (30-day month)",
+}
+
+export const EscalationType = {
+    NONE: "No escalation",
+    FIXED: "Fixed amount per year",
+    PERCENTAGE: "Percentage per year",
+    INDEX: "Price index",
+}
+
+export const LeasePartyRole = {
+    PRIMARY: "Primary Tenant",
+    CO_TENANT: "Co-Tenant",
+    GUARANTOR: "Guarantor",
+    OCCUPANT: "Occupant",
+}
+
 export const LeaseStatus = {
     ACTIVE: "Active",
     EXPIRED: "Expired",
@@ -91,6 +111,82 @@ export const LeaseStatus = {
     PENDING: "Pending",
 }
 
+export const RenewalOfferStatus = {
+    DRAFT: "Draft",
+    SENT: "Sent",
+    ACCEPTED: "Accepted",
+    DECLINED: "Declined",
+    LAPSED: "Lapsed",
+}
+
+export const ChargeType = {
+    RENT: "Rent",
+    LATE_FEE: "Late Fee",
+    BREAK_FEE: "Break Fee",
+}
+
+export const BreakFeeType = {
+    NONE: "No break fee",
+    FIXED: "Fixed amount",
+    RENT_PERIODS: "Periods of rent",
+}
+
+export const FutureChargeHandling = {
+    CANCEL: "Cancel",
+    WAIVE: "Waive",
+}
+
+export const LateFeeType = {
+    FLAT: "Flat amount",
+    PERCENTAGE: "Percentage of the rent",
+}
+
+export const DepositStatus = {
+    HELD: "Held",
+    SETTLED: "Settled",
+}
+
+export const LedgerAccount = {
+    CASH: "Cash",
+    RENT_RECEIVABLE: "Rent Receivable",
+    DEPOSITS_HELD: "Deposits Held",
+    INCOME: "Income",
+    EXPENSES: "Expenses",
+    OWNER_EQUITY: "Owner Equity",
+}
+
+export const LedgerSourceType = {
+    CHARGE: "Charge",
+    PAYMENT: "Payment",
+    EXPENSE: "Expense",
+    DEPOSIT: "Deposit",
+    DEPOSIT_SETTLEMENT: "Deposit Settlement",
+    MANUAL: "Manual",
+}
+
+export const BankTransactionStatus = {
+    UNMATCHED: "Unmatched",
+    SUGGESTED: "Suggested",
+    CONFIRMED: "Confirmed",
+    IGNORED: "Ignored",
+}
+
+export const ApiTokenScope = {
+    "properties:read": "Read Properties",
+    "properties:write": "Write Properties",
+    "leases:read": "Read Leases",
+    "leases:write": "Write Leases",
+    "payments:read": "Read Payments",
+    "payments:write": "Write Payments",
+}
+
+export const OrganizationRole = {
+    "OWNER": "Owner",
+    "MANAGER": "Manager",
+    "BOOKKEEPER": "Bookkeeper",
+    "READ_ONLY": "Read Only",
+}
+
 
 
 export const RealEstateType = {
@@ -12,7 +12,14 @@ import {
 } from "lucide-react";
 import {FaCheck, FaHandshake} from "react-icons/fa6";
 import {cn} from "../utils.ts";
-import {MaintenanceStatus, PaymentScheduleStatus, Priority} from "./magicNumbers.js";
+import {
+    BankTransactionStatus,
+    DepositStatus,
+    MaintenanceStatus,
+    PaymentScheduleStatus,
+    Priority,
+    RenewalOfferStatus
+} from "./magicNumbers.js";
 
 export const LeaseStatusBadge = ({ status }) => {
     if (!status) return null
@@ -130,6 +137,58 @@ export const ListingStatusBadge = ({ status }) => {
     );
 };
 
+export const RenewalOfferStatusBadge = ({ status }) => {
+    if (!status) return null
+
+    const lowerStatus = status.toLowerCase()
+
+    const statusVariant = {
+        draft: 'neutral',
+        sent: 'blue',
+        accepted: 'positive',
+        declined: 'negative',
+        lapsed: 'warning',
+    }
+
+    const dotColor = {
+        draft: 'bg-gray-500',
+        sent: 'bg-blue-500',
+        accepted: 'bg-green-600',
+        declined: 'bg-red-500',
+        lapsed: 'bg-orange-600',
+    }
+
+    return (
+        <Badge variant={statusVariant[lowerStatus]}>
+            <p className={cn("inline-block w-1 h-1 rounded-full mr-1", dotColor[lowerStatus])}/>
+            {RenewalOfferStatus[status]}
+        </Badge>
+    )
+}
+
+export const DepositStatusBadge = ({ status }) => {
+    if (!status) return null
+
+    const lowerStatus = status.toLowerCase()
+
+    const statusVariant = {
+        held: 'blue',
+        settled: 'positive',
+    }
+
+    const dotColor = {
+        held: 'bg-blue-500',
+        settled: 'bg-green-600',
+    }
+
+    return (
+        <Badge variant={statusVariant[lowerStatus]}>
+            <p className={cn("inline-block w-1 h-1 rounded-full mr-1", dotColor[lowerStatus])}/>
+            {DepositStatus[status]}
+        </Badge>
+    )
+}
+
 export const PaymentStatusBadge = ({ status }) => {
     if (!status) return null
 
@@ -187,4 +246,31 @@ export const PaymentScheduleStatusBadge = ({ status }) => {
             {PaymentScheduleStatus[status]}
         </Badge>
     )
-}
\ No newline at end of file
+}
+
+export const BankTransactionStatusBadge = ({ status }) => {
+    if (!status) return null
+
+    const lowerStatus = status.toLowerCase()
+
+    const statusVariant = {
+        unmatched: 'warning',
+        suggested: 'blue',
+        confirmed: 'positive',
+        ignored: 'neutral',
+    }
+
+    const dotColor = {
+        unmatched: 'bg-orange-500',
+        suggested: 'bg-blue-500',
+        confirmed: 'bg-green-600',
+        ignored: 'bg-gray-400',
+    }
+
+    return (
+        <Badge variant={statusVariant[lowerStatus]}>
+            <p className={cn("inline-block w-1 h-1 rounded-full mr-1", dotColor[lowerStatus])}/>
+            {BankTransactionStatus[status]}
+        </Badge>
+    )
+}
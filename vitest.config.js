@@ -0,0 +1,10 @@
+import {defineConfig} from 'vitest/config'
+
+// Tests of the server and of the code it shares with the client, they run without a database (see
+// server/test/fakePrisma.js)
+export default defineConfig({
+  test: {
+    include: ['server/**/*.test.js', 'shared/**/*.test.js'],
+    environment: 'node',
+  },
+})